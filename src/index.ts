@@ -3,35 +3,59 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import dotenv from "dotenv";
-import { GraphQLClient } from "graphql-request";
+import fs from "node:fs";
 import minimist from "minimist";
-import { z } from "zod";
-
-// Import existing tools
-import { getCustomerOrders } from "./tools/getCustomerOrders.js";
-import { getCustomers } from "./tools/getCustomers.js";
-import { getOrderById } from "./tools/getOrderById.js";
-import { getOrders } from "./tools/getOrders.js";
-import { getProductById } from "./tools/getProductById.js";
-import { getProducts } from "./tools/getProducts.js";
-import { updateCustomer } from "./tools/updateCustomer.js";
-import { updateOrder } from "./tools/updateOrder.js";
-import { createProduct } from "./tools/createProduct.js";
-
-// Import analytics tools (ShopifyQL)
-import { runShopifyqlQuery } from "./tools/analytics/runShopifyqlQuery.js";
-import { getSalesReport } from "./tools/analytics/getSalesReport.js";
-import { getProductPerformance } from "./tools/analytics/getProductPerformance.js";
-import { getCustomerAnalytics } from "./tools/analytics/getCustomerAnalytics.js";
-
-// Import enhanced data access tools
-import { getLocations } from "./tools/getLocations.js";
-import { getInventoryLevels } from "./tools/getInventoryLevels.js";
-import { getCollections } from "./tools/getCollections.js";
-import { searchOrders } from "./tools/searchOrders.js";
+
+import { registerTools, toolRegistry } from "./tools/registry.js";
+import { runConnectionCheck } from "./utils/accessScopes.js";
+import {
+  DEFAULT_API_VERSION,
+  adminApiUrl,
+  checkToolDocuments,
+  defaultSchemaPath,
+  isValidApiVersion,
+  loadIntrospectionSchema,
+  saveIntrospectionSchema
+} from "./utils/apiSchema.js";
+import { configureAuditLog } from "./utils/auditLog.js";
+import { toToolError } from "./utils/errors.js";
+import { startHttpServer } from "./utils/httpServer.js";
+import { configureInventorySnapshots } from "./utils/inventorySnapshots.js";
+import {
+  DEFAULT_CACHE_MAX_ENTRIES,
+  ResponseCache,
+  parseCacheTtlRules,
+  type CacheTtlRule
+} from "./utils/responseCache.js";
+import {
+  createMultiStoreClient,
+  loadStoresConfig,
+  type StoresConfig
+} from "./utils/stores.js";
+import { ThrottledGraphQLClient } from "./utils/throttledClient.js";
+import {
+  filterTools,
+  parsePatternList,
+  unmatchedPatterns
+} from "./utils/toolFilter.js";
 
 // Parse command line arguments
-const argv = minimist(process.argv.slice(2));
+const argv = minimist(process.argv.slice(2), {
+  boolean: ["readOnly", "saveSchema", "check"],
+  string: [
+    "enableTools",
+    "disableTools",
+    "auditLog",
+    "inventorySnapshots",
+    "transport",
+    "host",
+    "httpToken",
+    "apiVersion",
+    "schemaFile",
+    "cacheTtl",
+    "sessionIdleMinutes"
+  ]
+});
 
 // Load environment variables from .env file (if it exists)
 dotenv.config();
@@ -40,521 +64,344 @@ dotenv.config();
 const SHOPIFY_ACCESS_TOKEN =
   argv.accessToken || process.env.SHOPIFY_ACCESS_TOKEN;
 const MYSHOPIFY_DOMAIN = argv.domain || process.env.MYSHOPIFY_DOMAIN;
+const SHOPIFY_STORES_CONFIG =
+  argv.stores || process.env.SHOPIFY_STORES_CONFIG;
 
-// Store in process.env for backwards compatibility
-process.env.SHOPIFY_ACCESS_TOKEN = SHOPIFY_ACCESS_TOKEN;
-process.env.MYSHOPIFY_DOMAIN = MYSHOPIFY_DOMAIN;
+// Admin API version every request is sent to
+const API_VERSION =
+  argv.apiVersion || process.env.SHOPIFY_API_VERSION || DEFAULT_API_VERSION;
 
-// Validate required environment variables
-if (!SHOPIFY_ACCESS_TOKEN) {
-  console.error("Error: SHOPIFY_ACCESS_TOKEN is required.");
-  console.error("Please provide it via command line argument or .env file.");
-  console.error("  Command line: --accessToken=your_token");
+if (!isValidApiVersion(API_VERSION)) {
+  console.error(`Error: invalid Admin API version "${API_VERSION}".`);
+  console.error("  Use a quarterly version like 2025-10, or unstable.");
   process.exit(1);
 }
 
-if (!MYSHOPIFY_DOMAIN) {
-  console.error("Error: MYSHOPIFY_DOMAIN is required.");
-  console.error("Please provide it via command line argument or .env file.");
-  console.error("  Command line: --domain=your-store.myshopify.com");
+// Retries per request after throttled, 5xx and network failures
+const MAX_RETRIES =
+  argv.maxRetries !== undefined ? String(argv.maxRetries) : undefined;
+
+if (MAX_RETRIES !== undefined && !/^\d+$/.test(MAX_RETRIES)) {
+  console.error(`Error: invalid --maxRetries "${MAX_RETRIES}".`);
+  console.error("  Use a whole number of retries, 0 or more.");
   process.exit(1);
 }
 
-// Create Shopify GraphQL client
-const shopifyClient = new GraphQLClient(
-  `https://${MYSHOPIFY_DOMAIN}/admin/api/2025-10/graphql.json`,
-  {
-    headers: {
-      "X-Shopify-Access-Token": SHOPIFY_ACCESS_TOKEN,
-      "Content-Type": "application/json"
-    }
+let storesConfig: StoresConfig;
+
+if (SHOPIFY_STORES_CONFIG) {
+  // Multiple named stores from a config file
+  try {
+    storesConfig = loadStoresConfig(SHOPIFY_STORES_CONFIG);
+  } catch (error) {
+    console.error(
+      `Error: could not load stores config ${SHOPIFY_STORES_CONFIG}:`,
+      error instanceof Error ? error.message : error
+    );
+    process.exit(1);
   }
-);
-
-// Initialize existing tools with shopifyClient
-getProducts.initialize(shopifyClient);
-getProductById.initialize(shopifyClient);
-getCustomers.initialize(shopifyClient);
-getOrders.initialize(shopifyClient);
-getOrderById.initialize(shopifyClient);
-updateOrder.initialize(shopifyClient);
-getCustomerOrders.initialize(shopifyClient);
-updateCustomer.initialize(shopifyClient);
-createProduct.initialize(shopifyClient);
-
-// Initialize analytics tools (ShopifyQL)
-runShopifyqlQuery.initialize(shopifyClient);
-getSalesReport.initialize(shopifyClient);
-getProductPerformance.initialize(shopifyClient);
-getCustomerAnalytics.initialize(shopifyClient);
-
-// Initialize enhanced data access tools
-getLocations.initialize(shopifyClient);
-getInventoryLevels.initialize(shopifyClient);
-getCollections.initialize(shopifyClient);
-searchOrders.initialize(shopifyClient);
-
-// Set up MCP server
-const server = new McpServer({
-  name: "shopify",
-  version: "1.1.0",
-  description:
-    "MCP Server for Shopify API with ShopifyQL analytics, enabling deep interaction with store data through GraphQL API"
-});
-
-// Add tools individually, using their schemas directly
-server.tool(
-  "get-products",
-  {
-    searchTitle: z.string().optional(),
-    limit: z.number().default(10)
-  },
-  async (args) => {
-    const result = await getProducts.execute(args);
-    return {
-      content: [{ type: "text", text: JSON.stringify(result) }]
-    };
+} else {
+  // Store in process.env for backwards compatibility
+  process.env.SHOPIFY_ACCESS_TOKEN = SHOPIFY_ACCESS_TOKEN;
+  process.env.MYSHOPIFY_DOMAIN = MYSHOPIFY_DOMAIN;
+
+  // Validate required environment variables
+  if (!SHOPIFY_ACCESS_TOKEN) {
+    console.error("Error: SHOPIFY_ACCESS_TOKEN is required.");
+    console.error("Please provide it via command line argument or .env file.");
+    console.error("  Command line: --accessToken=your_token");
+    console.error("  Or configure several stores: --stores=stores.json");
+    process.exit(1);
   }
-);
 
-server.tool(
-  "get-product-by-id",
-  {
-    productId: z.string().min(1)
-  },
-  async (args) => {
-    const result = await getProductById.execute(args);
-    return {
-      content: [{ type: "text", text: JSON.stringify(result) }]
-    };
+  if (!MYSHOPIFY_DOMAIN) {
+    console.error("Error: MYSHOPIFY_DOMAIN is required.");
+    console.error("Please provide it via command line argument or .env file.");
+    console.error("  Command line: --domain=your-store.myshopify.com");
+    console.error("  Or configure several stores: --stores=stores.json");
+    process.exit(1);
   }
-);
 
-server.tool(
-  "get-customers",
-  {
-    searchQuery: z.string().optional(),
-    limit: z.number().default(10)
-  },
-  async (args) => {
-    const result = await getCustomers.execute(args);
-    return {
-      content: [{ type: "text", text: JSON.stringify(result) }]
-    };
-  }
-);
+  storesConfig = {
+    defaultStore: "default",
+    stores: [
+      {
+        name: "default",
+        domain: MYSHOPIFY_DOMAIN,
+        accessToken: SHOPIFY_ACCESS_TOKEN
+      }
+    ]
+  };
+}
 
-server.tool(
-  "get-orders",
-  {
-    status: z.enum(["any", "open", "closed", "cancelled"]).default("any"),
-    limit: z.number().default(10)
-  },
-  async (args) => {
-    const result = await getOrders.execute(args);
-    return {
-      content: [{ type: "text", text: JSON.stringify(result) }]
-    };
-  }
+// Create one Shopify GraphQL client per store. Requests are serialised per
+// store and retried when Shopify throttles them or returns a server error
+const shopifyClient = createMultiStoreClient(
+  storesConfig,
+  (store) =>
+    new ThrottledGraphQLClient(
+      adminApiUrl(store.domain, API_VERSION),
+      {
+        headers: {
+          "X-Shopify-Access-Token": store.accessToken,
+          "Content-Type": "application/json"
+        }
+      },
+      MAX_RETRIES !== undefined ? { maxRetries: Number(MAX_RETRIES) } : {}
+    )
 );
 
-// Add the getOrderById tool
-server.tool(
-  "get-order-by-id",
-  {
-    orderId: z.string().min(1)
-  },
-  async (args) => {
-    const result = await getOrderById.execute(args);
-    return {
-      content: [{ type: "text", text: JSON.stringify(result) }]
-    };
-  }
-);
+// Audit log of every mutation, on by default. --auditLog=off disables it
+const SHOPIFY_AUDIT_LOG = argv.auditLog || process.env.SHOPIFY_AUDIT_LOG;
+if (SHOPIFY_AUDIT_LOG) {
+  configureAuditLog(SHOPIFY_AUDIT_LOG === "off" ? null : SHOPIFY_AUDIT_LOG);
+}
 
-// Add the updateOrder tool
-server.tool(
-  "update-order",
-  {
-    id: z.string().min(1),
-    tags: z.array(z.string()).optional(),
-    email: z.string().email().optional(),
-    note: z.string().optional(),
-    customAttributes: z
-      .array(
-        z.object({
-          key: z.string(),
-          value: z.string()
-        })
-      )
-      .optional(),
-    metafields: z
-      .array(
-        z.object({
-          id: z.string().optional(),
-          namespace: z.string().optional(),
-          key: z.string().optional(),
-          value: z.string(),
-          type: z.string().optional()
-        })
-      )
-      .optional(),
-    shippingAddress: z
-      .object({
-        address1: z.string().optional(),
-        address2: z.string().optional(),
-        city: z.string().optional(),
-        company: z.string().optional(),
-        country: z.string().optional(),
-        firstName: z.string().optional(),
-        lastName: z.string().optional(),
-        phone: z.string().optional(),
-        province: z.string().optional(),
-        zip: z.string().optional()
-      })
-      .optional()
-  },
-  async (args) => {
-    const result = await updateOrder.execute(args);
-    return {
-      content: [{ type: "text", text: JSON.stringify(result) }]
-    };
-  }
-);
+// Directory save-inventory-snapshot writes to, ~/.shopify-mcp/snapshots by
+// default
+const SHOPIFY_INVENTORY_SNAPSHOTS =
+  argv.inventorySnapshots || process.env.SHOPIFY_INVENTORY_SNAPSHOTS;
+if (SHOPIFY_INVENTORY_SNAPSHOTS) {
+  configureInventorySnapshots(SHOPIFY_INVENTORY_SNAPSHOTS);
+}
 
-// Add the getCustomerOrders tool
-server.tool(
-  "get-customer-orders",
-  {
-    customerId: z
-      .string()
-      .regex(/^\d+$/, "Customer ID must be numeric")
-      .describe("Shopify customer ID, numeric excluding gid prefix"),
-    limit: z.number().default(10)
-  },
-  async (args) => {
-    const result = await getCustomerOrders.execute(args);
-    return {
-      content: [{ type: "text", text: JSON.stringify(result) }]
-    };
-  }
-);
+// Decide which tools to expose. Filtered-out tools are never registered, so
+// the model cannot see or call them
+const enableTools = parsePatternList(argv.enableTools);
+const disableTools = parsePatternList(argv.disableTools);
 
-// Add the updateCustomer tool
-server.tool(
-  "update-customer",
-  {
-    id: z
-      .string()
-      .regex(/^\d+$/, "Customer ID must be numeric")
-      .describe("Shopify customer ID, numeric excluding gid prefix"),
-    firstName: z.string().optional(),
-    lastName: z.string().optional(),
-    email: z.string().email().optional(),
-    phone: z.string().optional(),
-    tags: z.array(z.string()).optional(),
-    note: z.string().optional(),
-    taxExempt: z.boolean().optional(),
-    metafields: z
-      .array(
-        z.object({
-          id: z.string().optional(),
-          namespace: z.string().optional(),
-          key: z.string().optional(),
-          value: z.string(),
-          type: z.string().optional()
-        })
-      )
-      .optional()
-  },
-  async (args) => {
-    const result = await updateCustomer.execute(args);
-    return {
-      content: [{ type: "text", text: JSON.stringify(result) }]
-    };
-  }
-);
+for (const pattern of unmatchedPatterns(toolRegistry, [
+  ...(enableTools ?? []),
+  ...(disableTools ?? [])
+])) {
+  console.warn(`Warning: tool pattern "${pattern}" matches no tools`);
+}
 
-// Add the createProduct tool
-server.tool(
-  "create-product",
-  {
-    title: z.string().min(1),
-    descriptionHtml: z.string().optional(),
-    vendor: z.string().optional(),
-    productType: z.string().optional(),
-    tags: z.array(z.string()).optional(),
-    status: z.enum(["ACTIVE", "DRAFT", "ARCHIVED"]).default("DRAFT"),
-  },
-  async (args) => {
-    const result = await createProduct.execute(args);
-    return {
-      content: [{ type: "text", text: JSON.stringify(result) }]
-    };
-  }
-);
+const enabledTools = filterTools(toolRegistry, {
+  readOnly: argv.readOnly,
+  enableTools,
+  disableTools
+});
 
-// ==========================================
-// ShopifyQL Analytics Tools
-// ==========================================
-
-// Run custom ShopifyQL query
-server.tool(
-  "run-shopifyql-query",
-  {
-    query: z
-      .string()
-      .min(1)
-      .describe(
-        "ShopifyQL query string. Must include FROM and SHOW clauses. Example: 'FROM sales SHOW total_sales GROUP BY day SINCE last_week'"
-      )
-  },
-  async (args) => {
-    const result = await runShopifyqlQuery.execute(args);
-    return {
-      content: [{ type: "text", text: JSON.stringify(result) }]
-    };
-  }
-);
+if (enabledTools.length === 0) {
+  console.error("Error: the tool filters leave no tools to register.");
+  process.exit(1);
+}
 
-// Get sales report
-server.tool(
-  "get-sales-report",
-  {
-    period: z
-      .enum([
-        "today",
-        "yesterday",
-        "last_7_days",
-        "last_30_days",
-        "last_90_days",
-        "last_month",
-        "this_month",
-        "this_year",
-        "last_year"
-      ])
-      .default("last_30_days")
-      .describe("Time period for the report"),
-    groupBy: z
-      .enum(["day", "week", "month", "product", "channel", "region"])
-      .default("day")
-      .describe("How to group the sales data"),
-    metrics: z
-      .array(
-        z.enum([
-          "total_sales",
-          "net_sales",
-          "orders",
-          "average_order_value",
-          "gross_profit",
-          "units_sold",
-          "returns",
-          "discounts"
-        ])
-      )
-      .default(["total_sales", "orders"])
-      .describe("Metrics to include in the report"),
-    limit: z
-      .number()
-      .min(1)
-      .max(500)
-      .default(100)
-      .describe("Maximum number of rows to return")
-  },
-  async (args) => {
-    const result = await getSalesReport.execute(args);
-    return {
-      content: [{ type: "text", text: JSON.stringify(result) }]
-    };
-  }
+// Cache of read tool results, shared by every session. --cacheSize=0
+// disables it; --cacheTtl overrides the TTLs tools declare
+const CACHE_SIZE = Number(
+  argv.cacheSize ?? process.env.SHOPIFY_MCP_CACHE_SIZE ?? DEFAULT_CACHE_MAX_ENTRIES
 );
+if (!Number.isInteger(CACHE_SIZE) || CACHE_SIZE < 0) {
+  console.error(
+    `Error: invalid cache size "${argv.cacheSize ?? process.env.SHOPIFY_MCP_CACHE_SIZE}".`
+  );
+  process.exit(1);
+}
 
-// Get product performance
-server.tool(
-  "get-product-performance",
-  {
-    period: z
-      .enum([
-        "last_7_days",
-        "last_30_days",
-        "last_90_days",
-        "this_month",
-        "last_month",
-        "this_year"
-      ])
-      .default("last_30_days")
-      .describe("Time period for analysis"),
-    sortBy: z
-      .enum(["total_sales", "orders", "units_sold"])
-      .default("total_sales")
-      .describe("Metric to sort results by"),
-    limit: z
-      .number()
-      .min(1)
-      .max(100)
-      .default(20)
-      .describe("Number of products to return"),
-    productType: z.string().optional().describe("Filter by product type")
-  },
-  async (args) => {
-    const result = await getProductPerformance.execute(args);
-    return {
-      content: [{ type: "text", text: JSON.stringify(result) }]
-    };
-  }
-);
+let cacheTtlRules: CacheTtlRule[] | undefined;
+try {
+  cacheTtlRules = parseCacheTtlRules(
+    argv.cacheTtl ?? process.env.SHOPIFY_MCP_CACHE_TTL
+  );
+} catch (error) {
+  console.error(`Error: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
 
-// Get customer analytics
-server.tool(
-  "get-customer-analytics",
-  {
-    period: z
-      .enum([
-        "last_7_days",
-        "last_30_days",
-        "last_90_days",
-        "this_month",
-        "last_month",
-        "this_year",
-        "last_year"
-      ])
-      .default("last_30_days")
-      .describe("Time period for analysis"),
-    reportType: z
-      .enum(["acquisition", "retention", "spending", "overview"])
-      .default("overview")
-      .describe("Type of customer analytics report"),
-    groupBy: z
-      .enum(["day", "week", "month"])
-      .default("day")
-      .describe("Time granularity for trending data")
-  },
-  async (args) => {
-    const result = await getCustomerAnalytics.execute(args);
-    return {
-      content: [{ type: "text", text: JSON.stringify(result) }]
-    };
+for (const pattern of unmatchedPatterns(
+  toolRegistry,
+  cacheTtlRules?.map((rule) => rule.pattern)
+)) {
+  console.warn(`Warning: cache TTL pattern "${pattern}" matches no tools`);
+}
+
+const responseCache =
+  CACHE_SIZE > 0
+    ? new ResponseCache({ maxEntries: CACHE_SIZE, ttlRules: cacheTtlRules })
+    : undefined;
+
+// Set up an MCP server with the enabled tools registered. Stdio uses one;
+// HTTP mode creates one per client session
+const createServer = () => {
+  const server = new McpServer({
+    name: "shopify",
+    version: "1.1.0",
+    description:
+      "MCP Server for Shopify API with ShopifyQL analytics, enabling deep interaction with store data through GraphQL API"
+  });
+  registerTools(server, shopifyClient, enabledTools, responseCache);
+  return server;
+};
+
+// Introspection file of the selected API version that tool documents are
+// checked against
+const SCHEMA_FILE =
+  argv.schemaFile ||
+  process.env.SHOPIFY_SCHEMA_FILE ||
+  defaultSchemaPath(API_VERSION);
+
+// Report tools whose documents use fields the selected API version removed
+// or deprecated. Skipped when no schema has been saved for the version
+async function checkApiSchema() {
+  const explicit = argv.schemaFile || process.env.SHOPIFY_SCHEMA_FILE;
+  if (!explicit && !fs.existsSync(SCHEMA_FILE)) {
+    return;
   }
-);
 
-// ==========================================
-// Enhanced Data Access Tools
-// ==========================================
-
-// Get locations
-server.tool(
-  "get-locations",
-  {
-    limit: z
-      .number()
-      .min(1)
-      .max(50)
-      .default(20)
-      .describe("Maximum number of locations to return"),
-    includeInactive: z
-      .boolean()
-      .default(false)
-      .describe("Whether to include deactivated locations")
-  },
-  async (args) => {
-    const result = await getLocations.execute(args);
-    return {
-      content: [{ type: "text", text: JSON.stringify(result) }]
-    };
+  const schema = await loadIntrospectionSchema(SCHEMA_FILE);
+  const report = checkToolDocuments(schema, enabledTools);
+
+  if (report.length === 0) {
+    console.error(
+      `Admin API ${API_VERSION}: all ${enabledTools.length} tools are compatible`
+    );
+    return;
   }
-);
 
-// Get inventory levels
-server.tool(
-  "get-inventory-levels",
-  {
-    limit: z
-      .number()
-      .min(1)
-      .max(50)
-      .default(20)
-      .describe("Maximum number of inventory items to return"),
-    sku: z.string().optional().describe("Filter by SKU (exact match)"),
-    productId: z.string().optional().describe("Filter by product ID")
-  },
-  async (args) => {
-    const result = await getInventoryLevels.execute(args);
-    return {
-      content: [{ type: "text", text: JSON.stringify(result) }]
-    };
+  console.warn(
+    `Admin API ${API_VERSION}: ${report.length} tools use removed or deprecated fields`
+  );
+  for (const { tool, errors, deprecations } of report) {
+    for (const error of errors) {
+      console.warn(`  ${tool}: ${error}`);
+    }
+    for (const deprecation of deprecations) {
+      console.warn(`  ${tool} (deprecated): ${deprecation}`);
+    }
   }
-);
+}
 
-// Get collections
-server.tool(
-  "get-collections",
-  {
-    limit: z
-      .number()
-      .min(1)
-      .max(50)
-      .default(20)
-      .describe("Maximum number of collections to return"),
-    searchQuery: z.string().optional().describe("Search collections by title"),
-    collectionType: z
-      .enum(["smart", "manual", "all"])
-      .default("all")
-      .describe("Filter by collection type (smart = automated rules, manual = hand-picked)")
-  },
-  async (args) => {
-    const result = await getCollections.execute(args);
-    return {
-      content: [{ type: "text", text: JSON.stringify(result) }]
-    };
+// Check every store's connection and granted scopes against the enabled
+// tools. Returns false if a store failed or a tool is missing scopes
+async function checkStores(): Promise<boolean> {
+  let allReady = true;
+
+  for (const store of shopifyClient.listStores()) {
+    try {
+      const report = await shopifyClient.runWithStore(store.name, () =>
+        runConnectionCheck(shopifyClient, enabledTools)
+      );
+      console.log(
+        `${store.name} (${store.domain}): connected to ${report.shop.name}, ${report.shop.plan} plan`
+      );
+      console.log(
+        `  Granted scopes: ${report.grantedScopes.join(", ") || "none"}`
+      );
+      console.log(
+        `  ${report.readyCount} of ${report.tools.length} tools ready`
+      );
+      for (const status of report.tools.filter((tool) => !tool.ready)) {
+        console.log(
+          `  ${status.tool}: missing ${status.missingScopes.join(", ")}`
+        );
+      }
+      allReady &&= report.blockedCount === 0;
+    } catch (error) {
+      const toolError = toToolError(error);
+      console.log(`${store.name} (${store.domain}): ${toolError.message}`);
+      if (toolError.hint) {
+        console.log(`  ${toolError.hint}`);
+      }
+      allReady = false;
+    }
   }
-);
 
-// Search orders
-server.tool(
-  "search-orders",
-  {
-    query: z
-      .string()
-      .describe(
-        "Search query using Shopify search syntax. Examples: 'financial_status:paid', 'fulfillment_status:unfulfilled', 'created_at:>2024-01-01', 'tag:vip'"
-      ),
-    limit: z
-      .number()
-      .min(1)
-      .max(50)
-      .default(20)
-      .describe("Maximum number of orders to return"),
-    sortKey: z
-      .enum([
-        "CREATED_AT",
-        "CUSTOMER_NAME",
-        "FINANCIAL_STATUS",
-        "FULFILLMENT_STATUS",
-        "ORDER_NUMBER",
-        "PROCESSED_AT",
-        "TOTAL_PRICE",
-        "UPDATED_AT"
-      ])
-      .default("CREATED_AT")
-      .describe("Field to sort orders by"),
-    reverse: z
-      .boolean()
-      .default(true)
-      .describe("Reverse sort order (true = descending, most recent first)")
-  },
-  async (args) => {
-    const result = await searchOrders.execute(args);
-    return {
-      content: [{ type: "text", text: JSON.stringify(result) }]
-    };
+  return allReady;
+}
+
+// Start the server on the selected transport. stdio is the default
+function startServer() {
+  const TRANSPORT =
+    argv.transport || process.env.SHOPIFY_MCP_TRANSPORT || "stdio";
+
+  if (TRANSPORT === "http") {
+    const HTTP_TOKEN = argv.httpToken || process.env.SHOPIFY_MCP_HTTP_TOKEN;
+    const HTTP_HOST =
+      argv.host || process.env.SHOPIFY_MCP_HOST || "127.0.0.1";
+    const HTTP_PORT = Number(argv.port || process.env.SHOPIFY_MCP_PORT || 3000);
+    // Sessions without a request for this long are closed
+    const SESSION_IDLE_MINUTES =
+      argv.sessionIdleMinutes || process.env.SHOPIFY_MCP_SESSION_IDLE_MINUTES;
+
+    if (!HTTP_TOKEN) {
+      console.error("Error: a bearer token is required in HTTP mode.");
+      console.error("  Command line: --httpToken=your_secret");
+      console.error("  Or set SHOPIFY_MCP_HTTP_TOKEN");
+      process.exit(1);
+    }
+
+    if (!Number.isInteger(HTTP_PORT) || HTTP_PORT < 0 || HTTP_PORT > 65535) {
+      console.error(
+        `Error: invalid port "${argv.port || process.env.SHOPIFY_MCP_PORT}".`
+      );
+      process.exit(1);
+    }
+
+    if (
+      SESSION_IDLE_MINUTES !== undefined &&
+      !(Number(SESSION_IDLE_MINUTES) > 0)
+    ) {
+      console.error(
+        `Error: invalid --sessionIdleMinutes "${SESSION_IDLE_MINUTES}".`
+      );
+      console.error("  Use a number of minutes greater than 0.");
+      process.exit(1);
+    }
+
+    startHttpServer({
+      host: HTTP_HOST,
+      port: HTTP_PORT,
+      authToken: HTTP_TOKEN,
+      createServer,
+      ...(SESSION_IDLE_MINUTES !== undefined
+        ? { sessionIdleTimeoutMs: Number(SESSION_IDLE_MINUTES) * 60 * 1000 }
+        : {})
+    })
+      .then((httpServer) => {
+        console.error(`Shopify MCP Server listening on ${httpServer.url}`);
+      })
+      .catch((error: unknown) => {
+        console.error("Failed to start Shopify MCP Server:", error);
+        process.exit(1);
+      });
+  } else if (TRANSPORT === "stdio") {
+    const transport = new StdioServerTransport();
+    createServer()
+      .connect(transport)
+      .then(() => {})
+      .catch((error: unknown) => {
+        console.error("Failed to start Shopify MCP Server:", error);
+      });
+  } else {
+    console.error(`Error: unknown transport "${TRANSPORT}". Use stdio or http.`);
+    process.exit(1);
   }
-);
+}
 
-// Start the server
-const transport = new StdioServerTransport();
-server
-  .connect(transport)
-  .then(() => {})
-  .catch((error: unknown) => {
-    console.error("Failed to start Shopify MCP Server:", error);
+if (argv.saveSchema) {
+  // Save the schema of the default store's API version and exit
+  saveIntrospectionSchema(shopifyClient, SCHEMA_FILE)
+    .then(() => {
+      console.error(`Saved Admin API ${API_VERSION} schema to ${SCHEMA_FILE}`);
+      process.exit(0);
+    })
+    .catch((error: unknown) => {
+      console.error("Failed to save Admin API schema:", error);
+      process.exit(1);
+    });
+} else if (argv.check) {
+  // Report connectivity and missing scopes for every store and exit
+  checkStores()
+    .then((allReady) => process.exit(allReady ? 0 : 1))
+    .catch((error: unknown) => {
+      console.error("Failed to check stores:", error);
+      process.exit(1);
+    });
+} else {
+  checkApiSchema().catch((error: unknown) => {
+    console.error(`Error: could not check schema ${SCHEMA_FILE}:`, error);
   });
+  startServer();
+}
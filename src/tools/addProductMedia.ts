@@ -0,0 +1,215 @@
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { z } from "zod";
+import { isAuditLogEnabled, withAudit } from "../utils/auditLog.js";
+import { dryRunInputShape } from "../utils/dryRun.js";
+import {
+  ShopifyToolError,
+  toolError,
+  userErrorsToToolError
+} from "../utils/errors.js";
+import { ID_LOOKUP_DOCUMENTS, idDescription, resolveId } from "../utils/ids.js";
+import {
+  GET_PRODUCT_MEDIA_QUERY,
+  MEDIA_FIELDS,
+  fetchProductMedia,
+  formatMedia,
+  mediaTypeForFile,
+  mediaTypeForUrl
+} from "../utils/productMedia.js";
+import {
+  STAGED_UPLOADS_CREATE_MUTATION,
+  stageFiles
+} from "../utils/stagedUploads.js";
+
+// Will be initialized by the tool registry
+let shopifyClient: GraphQLClient;
+
+// Input schema for addProductMedia
+// Based on https://shopify.dev/docs/api/admin-graphql/latest/mutations/productcreatemedia
+const AddProductMediaInputSchema = z.object({
+  productId: z.string().min(1).describe(idDescription("Product")),
+  media: z
+    .array(
+      z.object({
+        url: z
+          .string()
+          .url()
+          .optional()
+          .describe("Public URL of an image, video or 3D model, or a YouTube or Vimeo link"),
+        filePath: z
+          .string()
+          .min(1)
+          .optional()
+          .describe("Path of a local file on the machine running the server, uploaded to Shopify"),
+        alt: z.string().optional().describe("Alt text"),
+        mediaContentType: z
+          .enum(["IMAGE", "VIDEO", "EXTERNAL_VIDEO", "MODEL_3D"])
+          .optional()
+          .describe("Detected from the URL or file extension when left out")
+      })
+    )
+    .min(1)
+    .max(10)
+    .describe("Media to add, each from either a url or a filePath"),
+  ...dryRunInputShape
+});
+
+type AddProductMediaInput = z.infer<typeof AddProductMediaInputSchema>;
+
+const PRODUCT_CREATE_MEDIA_MUTATION = gql`
+  mutation productCreateMedia($productId: ID!, $media: [CreateMediaInput!]!) {
+    productCreateMedia(productId: $productId, media: $media) {
+      media {
+        ${MEDIA_FIELDS}
+      }
+      mediaUserErrors {
+        field
+        message
+        code
+      }
+      product {
+        id
+        title
+      }
+    }
+  }
+`;
+
+const addProductMedia = {
+  name: "add-product-media",
+  description:
+    "Attach images, videos or 3D models to a product from URLs or local files. New media is processed by Shopify in the background",
+  schema: AddProductMediaInputSchema,
+  documents: [
+    PRODUCT_CREATE_MEDIA_MUTATION,
+    STAGED_UPLOADS_CREATE_MUTATION,
+    GET_PRODUCT_MEDIA_QUERY,
+    ...ID_LOOKUP_DOCUMENTS.Product
+  ],
+  scopes: ["write_products"],
+  mutation: true,
+
+  // Add initialize method to set up the GraphQL client
+  initialize(client: GraphQLClient) {
+    shopifyClient = client;
+  },
+
+  execute: async (input: AddProductMediaInput) => {
+    try {
+      const { productId: productInput, dryRun } = input;
+
+      const media = input.media.map((item, index) => {
+        if ((item.url === undefined) === (item.filePath === undefined)) {
+          throw new ShopifyToolError(
+            "Each media item needs exactly one of url or filePath",
+            { category: "validation", field: ["media", String(index)] }
+          );
+        }
+        const file = item.filePath ? mediaTypeForFile(item.filePath) : null;
+        return {
+          ...item,
+          mimeType: file?.mimeType,
+          mediaContentType:
+            item.mediaContentType ??
+            file?.mediaContentType ??
+            mediaTypeForUrl(item.url!)
+        };
+      });
+
+      const productId = await resolveId(shopifyClient, "Product", productInput);
+      const before =
+        dryRun || isAuditLogEnabled()
+          ? await fetchProductMedia(shopifyClient, productId)
+          : null;
+
+      if (dryRun && before) {
+        const changes = media.map((item, index) => ({
+          field: `media.${before.media.length + index}`,
+          before: null,
+          after: {
+            source: item.url ?? item.filePath,
+            alt: item.alt ?? null,
+            mediaContentType: item.mediaContentType
+          }
+        }));
+        return {
+          dryRun: true,
+          product: { id: before.id, title: before.title },
+          changes,
+          changeCount: changes.length
+        };
+      }
+
+      // Local files go through staged uploads first
+      const files = media.filter((item) => item.filePath);
+      const resourceUrls = await stageFiles(
+        shopifyClient,
+        files.map((item) => ({
+          filePath: item.filePath!,
+          mimeType: item.mimeType!,
+          resource: item.mediaContentType
+        }))
+      );
+
+      const variables = {
+        productId,
+        media: media.map((item) => ({
+          originalSource: item.filePath
+            ? resourceUrls[files.indexOf(item)]
+            : item.url,
+          alt: item.alt,
+          mediaContentType: item.mediaContentType
+        }))
+      };
+
+      const data = await withAudit(
+        shopifyClient,
+        {
+          tool: "add-product-media",
+          objectId: productId,
+          objectName: before?.title,
+          input,
+          before: before?.media ?? null
+        },
+        () =>
+          shopifyClient.request(
+            PRODUCT_CREATE_MEDIA_MUTATION,
+            variables
+          ) as Promise<{
+            productCreateMedia: {
+              media: any[] | null;
+              mediaUserErrors: Array<{
+                field: string[];
+                message: string;
+                code: string | null;
+              }>;
+              product: any;
+            };
+          }>,
+        (result) => ({
+          after: result.productCreateMedia.media,
+          userErrors: result.productCreateMedia.mediaUserErrors
+        })
+      );
+
+      // If there are user errors, throw an error
+      if (data.productCreateMedia.mediaUserErrors.length > 0) {
+        throw userErrorsToToolError(
+          "Failed to add product media",
+          data.productCreateMedia.mediaUserErrors
+        );
+      }
+
+      return {
+        product: data.productCreateMedia.product,
+        media: (data.productCreateMedia.media ?? []).map(formatMedia)
+      };
+    } catch (error) {
+      console.error("Error adding product media:", error);
+      throw toolError("Failed to add product media", error);
+    }
+  }
+};
+
+export { addProductMedia };
@@ -0,0 +1,184 @@
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { z } from "zod";
+import { withAudit } from "../utils/auditLog.js";
+import { dryRunInputShape } from "../utils/dryRun.js";
+import { toolError, userErrorsToToolError } from "../utils/errors.js";
+import { ID_LOOKUP_DOCUMENTS } from "../utils/ids.js";
+import {
+  ADJUSTMENT_GROUP_FIELDS,
+  GET_INVENTORY_LEVEL_QUERY,
+  appliedChanges,
+  fetchInventoryLevels,
+  inventoryChangeInputShape,
+  inventoryLineShape,
+  plannedChange,
+  resolveInventoryLines,
+  type InventoryAdjustmentGroup
+} from "../utils/inventoryQuantities.js";
+import { INVENTORY_REPORT_TOOLS } from "../utils/responseCache.js";
+
+// Will be initialized by the tool registry
+let shopifyClient: GraphQLClient;
+
+// Input schema for adjustInventory
+// Based on https://shopify.dev/docs/api/admin-graphql/latest/mutations/inventoryadjustquantities
+const AdjustInventoryInputSchema = z.object({
+  ...inventoryChangeInputShape,
+  name: z
+    .enum(["available", "on_hand"])
+    .default("available")
+    .describe(
+      "Quantity to adjust. Shopify changes on_hand along with available and the other way round"
+    ),
+  changes: z
+    .array(
+      z.object({
+        ...inventoryLineShape,
+        delta: z
+          .number()
+          .int()
+          .refine((delta) => delta !== 0, "delta cannot be 0")
+          .describe("Amount to add, or subtract when negative")
+      })
+    )
+    .min(1)
+    .max(250),
+  ...dryRunInputShape
+});
+
+type AdjustInventoryInput = z.infer<typeof AdjustInventoryInputSchema>;
+
+const INVENTORY_ADJUST_QUANTITIES_MUTATION = gql`
+  mutation inventoryAdjustQuantities($input: InventoryAdjustQuantitiesInput!) {
+    inventoryAdjustQuantities(input: $input) {
+      inventoryAdjustmentGroup {
+        ${ADJUSTMENT_GROUP_FIELDS}
+      }
+      userErrors {
+        field
+        message
+        code
+      }
+    }
+  }
+`;
+
+const adjustInventory = {
+  name: "adjust-inventory",
+  description:
+    "Add to or subtract from the available or on-hand quantity of inventory items at locations, with a reason and reference document. Returns the quantities before and after",
+  schema: AdjustInventoryInputSchema,
+  documents: [
+    INVENTORY_ADJUST_QUANTITIES_MUTATION,
+    GET_INVENTORY_LEVEL_QUERY,
+    ...ID_LOOKUP_DOCUMENTS.InventoryItem
+  ],
+  scopes: ["write_inventory", "read_products"],
+  // Product totals and variant quantities change along with the levels
+  cacheInvalidates: [
+    "ProductVariant",
+    "get-products",
+    ...INVENTORY_REPORT_TOOLS
+  ],
+  mutation: true,
+
+  // Add initialize method to set up the GraphQL client
+  initialize(client: GraphQLClient) {
+    shopifyClient = client;
+  },
+
+  execute: async (input: AdjustInventoryInput) => {
+    try {
+      const { reason, referenceDocumentUri, name, dryRun } = input;
+      const changes = await resolveInventoryLines(shopifyClient, input.changes);
+      const levels = await fetchInventoryLevels(shopifyClient, changes);
+
+      if (dryRun) {
+        const linkedName = name === "available" ? "on_hand" : "available";
+        const planned = changes.flatMap(
+          ({ inventoryItemId, locationId, delta }) => {
+            const level = levels.get(inventoryItemId, locationId)!;
+            return [
+              plannedChange(level, name, delta),
+              plannedChange(level, linkedName, delta)
+            ];
+          }
+        );
+        return {
+          dryRun: true,
+          reason,
+          referenceDocumentUri,
+          changes: planned,
+          changeCount: planned.length
+        };
+      }
+
+      const data = await withAudit(
+        shopifyClient,
+        {
+          tool: "adjust-inventory",
+          objectId: null,
+          objectName: referenceDocumentUri,
+          input,
+          before: levels.all()
+        },
+        () =>
+          shopifyClient.request(INVENTORY_ADJUST_QUANTITIES_MUTATION, {
+            input: {
+              reason,
+              name,
+              referenceDocumentUri,
+              changes: changes.map(({ inventoryItemId, locationId, delta }) => ({
+                inventoryItemId,
+                locationId,
+                delta,
+                // Shopify asks for a ledger document for every quantity but
+                // available
+                ...(name !== "available" && {
+                  ledgerDocumentUri: referenceDocumentUri
+                })
+              }))
+            }
+          }) as Promise<{
+            inventoryAdjustQuantities: {
+              inventoryAdjustmentGroup: InventoryAdjustmentGroup | null;
+              userErrors: Array<{
+                field: string[];
+                message: string;
+                code?: string | null;
+              }>;
+            };
+          }>,
+        (result) => ({
+          after: result.inventoryAdjustQuantities.inventoryAdjustmentGroup,
+          userErrors: result.inventoryAdjustQuantities.userErrors
+        })
+      );
+
+      // If there are user errors, throw an error
+      if (data.inventoryAdjustQuantities.userErrors.length > 0) {
+        throw userErrorsToToolError(
+          "Failed to adjust inventory",
+          data.inventoryAdjustQuantities.userErrors
+        );
+      }
+
+      const group = data.inventoryAdjustQuantities.inventoryAdjustmentGroup!;
+      const applied = appliedChanges(group, levels);
+
+      return {
+        reason: group.reason,
+        referenceDocumentUri: group.referenceDocumentUri,
+        createdAt: group.createdAt,
+        changes: applied,
+        changeCount: applied.length
+      };
+    } catch (error) {
+      console.error("Error adjusting inventory:", error);
+      throw toolError("Failed to adjust inventory", error);
+    }
+  }
+};
+
+export { adjustInventory };
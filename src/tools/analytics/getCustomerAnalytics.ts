@@ -1,6 +1,7 @@
 import type { GraphQLClient } from "graphql-request";
 import { gql } from "graphql-request";
 import { z } from "zod";
+import { shopifyqlParseError, toolError } from "../../utils/errors.js";
 import { periodToShopifyQL } from "../../utils/shopifyqlHelpers.js";
 
 // Input schema for getCustomerAnalytics
@@ -29,14 +30,33 @@ const GetCustomerAnalyticsInputSchema = z.object({
 
 type GetCustomerAnalyticsInput = z.infer<typeof GetCustomerAnalyticsInputSchema>;
 
-// Will be initialized in index.ts
+// Will be initialized by the tool registry
 let shopifyClient: GraphQLClient;
 
+const GET_CUSTOMER_ANALYTICS_QUERY = gql`
+  query GetCustomerAnalytics($query: String!) {
+    shopifyqlQuery(query: $query) {
+      tableData {
+        columns {
+          name
+          dataType
+          displayName
+        }
+        rows
+      }
+      parseErrors
+    }
+  }
+`;
+
 const getCustomerAnalytics = {
   name: "get-customer-analytics",
   description:
     "Get customer analytics including acquisition trends, retention metrics, and spending patterns. Requires read_reports scope.",
   schema: GetCustomerAnalyticsInputSchema,
+  documents: [GET_CUSTOMER_ANALYTICS_QUERY],
+  scopes: ["read_reports"],
+  cacheTtlSeconds: 300,
 
   initialize(client: GraphQLClient) {
     shopifyClient = client;
@@ -73,25 +93,12 @@ const getCustomerAnalytics = {
           break;
       }
 
-      const graphqlQuery = gql`
-        query GetCustomerAnalytics($query: String!) {
-          shopifyqlQuery(query: $query) {
-            tableData {
-              columns {
-                name
-                dataType
-                displayName
-              }
-              rows
-            }
-            parseErrors
-          }
-        }
-      `;
-
       const variables = { query: shopifyqlQuery };
 
-      const data = (await shopifyClient.request(graphqlQuery, variables)) as {
+      const data = (await shopifyClient.request(
+        GET_CUSTOMER_ANALYTICS_QUERY,
+        variables
+      )) as {
         shopifyqlQuery: {
           tableData: {
             columns: Array<{
@@ -110,9 +117,7 @@ const getCustomerAnalytics = {
         data.shopifyqlQuery.parseErrors &&
         data.shopifyqlQuery.parseErrors.length > 0
       ) {
-        throw new Error(
-          `ShopifyQL parse errors: ${data.shopifyqlQuery.parseErrors.join("; ")}`
-        );
+        throw shopifyqlParseError(data.shopifyqlQuery.parseErrors);
       }
 
       // Format response
@@ -148,11 +153,7 @@ const getCustomerAnalytics = {
       };
     } catch (error) {
       console.error("Error fetching customer analytics:", error);
-      throw new Error(
-        `Failed to fetch customer analytics: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
+      throw toolError("Failed to fetch customer analytics", error);
     }
   }
 };
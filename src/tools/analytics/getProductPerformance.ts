@@ -1,6 +1,7 @@
 import type { GraphQLClient } from "graphql-request";
 import { gql } from "graphql-request";
 import { z } from "zod";
+import { shopifyqlParseError, toolError } from "../../utils/errors.js";
 import { periodToShopifyQL } from "../../utils/shopifyqlHelpers.js";
 
 // Input schema for getProductPerformance
@@ -33,14 +34,33 @@ type GetProductPerformanceInput = z.infer<
   typeof GetProductPerformanceInputSchema
 >;
 
-// Will be initialized in index.ts
+// Will be initialized by the tool registry
 let shopifyClient: GraphQLClient;
 
+const GET_PRODUCT_PERFORMANCE_QUERY = gql`
+  query GetProductPerformance($query: String!) {
+    shopifyqlQuery(query: $query) {
+      tableData {
+        columns {
+          name
+          dataType
+          displayName
+        }
+        rows
+      }
+      parseErrors
+    }
+  }
+`;
+
 const getProductPerformance = {
   name: "get-product-performance",
   description:
     "Get product performance analytics. Returns top products ranked by sales, orders, or units sold. Requires read_reports scope.",
   schema: GetProductPerformanceInputSchema,
+  documents: [GET_PRODUCT_PERFORMANCE_QUERY],
+  scopes: ["read_reports"],
+  cacheTtlSeconds: 300,
 
   initialize(client: GraphQLClient) {
     shopifyClient = client;
@@ -59,25 +79,12 @@ const getProductPerformance = {
 
       const shopifyqlQuery = `FROM sales SHOW ${metrics.join(", ")} ${whereClause} ${periodClause} GROUP BY product_title ORDER BY ${sortBy} DESC LIMIT ${limit}`;
 
-      const graphqlQuery = gql`
-        query GetProductPerformance($query: String!) {
-          shopifyqlQuery(query: $query) {
-            tableData {
-              columns {
-                name
-                dataType
-                displayName
-              }
-              rows
-            }
-            parseErrors
-          }
-        }
-      `;
-
       const variables = { query: shopifyqlQuery };
 
-      const data = (await shopifyClient.request(graphqlQuery, variables)) as {
+      const data = (await shopifyClient.request(
+        GET_PRODUCT_PERFORMANCE_QUERY,
+        variables
+      )) as {
         shopifyqlQuery: {
           tableData: {
             columns: Array<{
@@ -96,9 +103,7 @@ const getProductPerformance = {
         data.shopifyqlQuery.parseErrors &&
         data.shopifyqlQuery.parseErrors.length > 0
       ) {
-        throw new Error(
-          `ShopifyQL parse errors: ${data.shopifyqlQuery.parseErrors.join("; ")}`
-        );
+        throw shopifyqlParseError(data.shopifyqlQuery.parseErrors);
       }
 
       // Format response
@@ -133,11 +138,7 @@ const getProductPerformance = {
       };
     } catch (error) {
       console.error("Error fetching product performance:", error);
-      throw new Error(
-        `Failed to fetch product performance: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
+      throw toolError("Failed to fetch product performance", error);
     }
   }
 };
@@ -1,6 +1,7 @@
 import type { GraphQLClient } from "graphql-request";
 import { gql } from "graphql-request";
 import { z } from "zod";
+import { shopifyqlParseError, toolError } from "../../utils/errors.js";
 import { buildShopifyQLQuery } from "../../utils/shopifyqlHelpers.js";
 
 // Input schema for getSalesReport
@@ -48,14 +49,33 @@ const GetSalesReportInputSchema = z.object({
 
 type GetSalesReportInput = z.infer<typeof GetSalesReportInputSchema>;
 
-// Will be initialized in index.ts
+// Will be initialized by the tool registry
 let shopifyClient: GraphQLClient;
 
+const GET_SALES_REPORT_QUERY = gql`
+  query GetSalesReport($query: String!) {
+    shopifyqlQuery(query: $query) {
+      tableData {
+        columns {
+          name
+          dataType
+          displayName
+        }
+        rows
+      }
+      parseErrors
+    }
+  }
+`;
+
 const getSalesReport = {
   name: "get-sales-report",
   description:
     "Get a pre-built sales analytics report. Returns sales data grouped by time period, product, channel, or region. Requires read_reports scope.",
   schema: GetSalesReportInputSchema,
+  documents: [GET_SALES_REPORT_QUERY],
+  scopes: ["read_reports"],
+  cacheTtlSeconds: 300,
 
   initialize(client: GraphQLClient) {
     shopifyClient = client;
@@ -74,25 +94,12 @@ const getSalesReport = {
         limit
       });
 
-      const graphqlQuery = gql`
-        query GetSalesReport($query: String!) {
-          shopifyqlQuery(query: $query) {
-            tableData {
-              columns {
-                name
-                dataType
-                displayName
-              }
-              rows
-            }
-            parseErrors
-          }
-        }
-      `;
-
       const variables = { query: shopifyqlQuery };
 
-      const data = (await shopifyClient.request(graphqlQuery, variables)) as {
+      const data = (await shopifyClient.request(
+        GET_SALES_REPORT_QUERY,
+        variables
+      )) as {
         shopifyqlQuery: {
           tableData: {
             columns: Array<{
@@ -111,9 +118,7 @@ const getSalesReport = {
         data.shopifyqlQuery.parseErrors &&
         data.shopifyqlQuery.parseErrors.length > 0
       ) {
-        throw new Error(
-          `ShopifyQL parse errors: ${data.shopifyqlQuery.parseErrors.join("; ")}`
-        );
+        throw shopifyqlParseError(data.shopifyqlQuery.parseErrors);
       }
 
       // Format response
@@ -139,11 +144,7 @@ const getSalesReport = {
       };
     } catch (error) {
       console.error("Error fetching sales report:", error);
-      throw new Error(
-        `Failed to fetch sales report: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
+      throw toolError("Failed to fetch sales report", error);
     }
   }
 };
@@ -1,6 +1,7 @@
 import type { GraphQLClient } from "graphql-request";
 import { gql } from "graphql-request";
 import { z } from "zod";
+import { shopifyqlParseError, toolError } from "../../utils/errors.js";
 
 // Input schema for runShopifyqlQuery
 const RunShopifyqlQueryInputSchema = z.object({
@@ -14,14 +15,33 @@ const RunShopifyqlQueryInputSchema = z.object({
 
 type RunShopifyqlQueryInput = z.infer<typeof RunShopifyqlQueryInputSchema>;
 
-// Will be initialized in index.ts
+// Will be initialized by the tool registry
 let shopifyClient: GraphQLClient;
 
+const RUN_SHOPIFYQL_QUERY = gql`
+  query RunShopifyQLQuery($query: String!) {
+    shopifyqlQuery(query: $query) {
+      tableData {
+        columns {
+          name
+          dataType
+          displayName
+        }
+        rows
+      }
+      parseErrors
+    }
+  }
+`;
+
 const runShopifyqlQuery = {
   name: "run-shopifyql-query",
   description:
     "Execute a custom ShopifyQL query for analytics. Use this for flexible, custom analytics queries. Requires read_reports scope. ShopifyQL syntax: FROM <table> SHOW <metrics> [WHERE <conditions>] [SINCE/DURING <period>] [GROUP BY <dimension>] [ORDER BY <field>] [LIMIT <n>]. Tables: sales, orders, products, customers. Example: 'FROM sales SHOW total_sales, orders GROUP BY day SINCE -30d ORDER BY day'",
   schema: RunShopifyqlQueryInputSchema,
+  documents: [RUN_SHOPIFYQL_QUERY],
+  scopes: ["read_reports"],
+  cacheTtlSeconds: 300,
 
   initialize(client: GraphQLClient) {
     shopifyClient = client;
@@ -31,25 +51,12 @@ const runShopifyqlQuery = {
     try {
       const { query: shopifyqlQuery } = input;
 
-      const graphqlQuery = gql`
-        query RunShopifyQLQuery($query: String!) {
-          shopifyqlQuery(query: $query) {
-            tableData {
-              columns {
-                name
-                dataType
-                displayName
-              }
-              rows
-            }
-            parseErrors
-          }
-        }
-      `;
-
       const variables = { query: shopifyqlQuery };
 
-      const data = (await shopifyClient.request(graphqlQuery, variables)) as {
+      const data = (await shopifyClient.request(
+        RUN_SHOPIFYQL_QUERY,
+        variables
+      )) as {
         shopifyqlQuery: {
           tableData: {
             columns: Array<{
@@ -68,9 +75,7 @@ const runShopifyqlQuery = {
         data.shopifyqlQuery.parseErrors &&
         data.shopifyqlQuery.parseErrors.length > 0
       ) {
-        throw new Error(
-          `ShopifyQL parse errors: ${data.shopifyqlQuery.parseErrors.join("; ")}`
-        );
+        throw shopifyqlParseError(data.shopifyqlQuery.parseErrors);
       }
 
       // Format response
@@ -86,11 +91,7 @@ const runShopifyqlQuery = {
       };
     } catch (error) {
       console.error("Error executing ShopifyQL query:", error);
-      throw new Error(
-        `Failed to execute ShopifyQL query: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
+      throw toolError("Failed to execute ShopifyQL query", error);
     }
   }
 };
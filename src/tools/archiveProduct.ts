@@ -0,0 +1,148 @@
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { z } from "zod";
+import { withAudit } from "../utils/auditLog.js";
+import { diffFields, dryRunInputShape } from "../utils/dryRun.js";
+import {
+  ShopifyToolError,
+  toolError,
+  userErrorsToToolError
+} from "../utils/errors.js";
+import { ID_LOOKUP_DOCUMENTS, idDescription, resolveId } from "../utils/ids.js";
+import { PRODUCT_LIST_TOOLS } from "../utils/responseCache.js";
+
+// Will be initialized by the tool registry
+let shopifyClient: GraphQLClient;
+
+// Input schema for archiveProduct
+const ArchiveProductInputSchema = z.object({
+  id: z.string().min(1).describe(idDescription("Product")),
+  ...dryRunInputShape
+});
+
+type ArchiveProductInput = z.infer<typeof ArchiveProductInputSchema>;
+
+const PRODUCT_ARCHIVE_MUTATION = gql`
+  mutation productArchive($product: ProductUpdateInput!) {
+    productUpdate(product: $product) {
+      product {
+        id
+        title
+        handle
+        status
+        updatedAt
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const GET_PRODUCT_STATUS_QUERY = gql`
+  query GetProductStatus($id: ID!) {
+    product(id: $id) {
+      id
+      title
+      handle
+      status
+    }
+  }
+`;
+
+const archiveProduct = {
+  name: "archive-product",
+  description:
+    "Archive a product: hide it from all sales channels while keeping its data. Set the status back with update-product to restore it",
+  schema: ArchiveProductInputSchema,
+  documents: [
+    PRODUCT_ARCHIVE_MUTATION,
+    GET_PRODUCT_STATUS_QUERY,
+    ...ID_LOOKUP_DOCUMENTS.Product
+  ],
+  scopes: ["write_products"],
+  cacheInvalidates: PRODUCT_LIST_TOOLS,
+  mutation: true,
+
+  // Add initialize method to set up the GraphQL client
+  initialize(client: GraphQLClient) {
+    shopifyClient = client;
+  },
+
+  execute: async (input: ArchiveProductInput) => {
+    try {
+      const { id: productId, dryRun } = input;
+      const id = await resolveId(shopifyClient, "Product", productId);
+
+      const data = (await shopifyClient.request(GET_PRODUCT_STATUS_QUERY, {
+        id
+      })) as {
+        product: { id: string; title: string; handle: string; status: string } | null;
+      };
+      const before = data.product;
+      if (!before) {
+        throw new ShopifyToolError(`Product with ID ${id} not found`, {
+          category: "not_found"
+        });
+      }
+
+      if (dryRun) {
+        const changes = diffFields(before, { status: "ARCHIVED" });
+        return {
+          dryRun: true,
+          product: { id: before.id, title: before.title },
+          changes,
+          changeCount: changes.length
+        };
+      }
+
+      // Nothing to do
+      if (before.status === "ARCHIVED") {
+        return { product: before };
+      }
+
+      const result = await withAudit(
+        shopifyClient,
+        {
+          tool: "archive-product",
+          objectId: id,
+          objectName: before.title,
+          input,
+          before
+        },
+        () =>
+          shopifyClient.request(PRODUCT_ARCHIVE_MUTATION, {
+            product: { id, status: "ARCHIVED" }
+          }) as Promise<{
+            productUpdate: {
+              product: any;
+              userErrors: Array<{
+                field: string[];
+                message: string;
+              }>;
+            };
+          }>,
+        (response) => ({
+          after: response.productUpdate.product,
+          userErrors: response.productUpdate.userErrors
+        })
+      );
+
+      // If there are user errors, throw an error
+      if (result.productUpdate.userErrors.length > 0) {
+        throw userErrorsToToolError(
+          "Failed to archive product",
+          result.productUpdate.userErrors
+        );
+      }
+
+      return { product: result.productUpdate.product };
+    } catch (error) {
+      console.error("Error archiving product:", error);
+      throw toolError("Failed to archive product", error);
+    }
+  }
+};
+
+export { archiveProduct };
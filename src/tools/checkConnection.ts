@@ -0,0 +1,55 @@
+import type { GraphQLClient } from "graphql-request";
+import { z } from "zod";
+import {
+  CHECK_CONNECTION_QUERY,
+  runConnectionCheck
+} from "../utils/accessScopes.js";
+import { toolError } from "../utils/errors.js";
+import type { ShopifyTool } from "./registry.js";
+
+// Input schema for checkConnection
+const CheckConnectionInputSchema = z.object({
+  onlyBlocked: z
+    .boolean()
+    .default(false)
+    .describe("Only list tools that are missing access scopes")
+});
+
+type CheckConnectionInput = z.infer<typeof CheckConnectionInputSchema>;
+
+// Will be initialized by the tool registry
+let shopifyClient: GraphQLClient;
+let registeredTools: ShopifyTool[] = [];
+
+const checkConnection = {
+  name: "check-connection",
+  description:
+    "Check that the store is reachable with its access token, list the access scopes granted to the app, and report which registered tools will work and which scopes the others are missing.",
+  schema: CheckConnectionInputSchema,
+  documents: [CHECK_CONNECTION_QUERY],
+
+  initialize(client: GraphQLClient, tools: ShopifyTool[] = []) {
+    shopifyClient = client;
+    registeredTools = tools;
+  },
+
+  execute: async (input: CheckConnectionInput) => {
+    try {
+      const { onlyBlocked } = input;
+
+      const report = await runConnectionCheck(shopifyClient, registeredTools);
+
+      return {
+        ...report,
+        tools: onlyBlocked
+          ? report.tools.filter((tool) => !tool.ready)
+          : report.tools
+      };
+    } catch (error) {
+      console.error("Error checking connection:", error);
+      throw toolError("Failed to check connection", error);
+    }
+  }
+};
+
+export { checkConnection };
@@ -2,6 +2,13 @@
 import type { GraphQLClient } from "graphql-request";
 import { gql } from "graphql-request";
 import { z } from "zod";
+import { withAudit } from "../utils/auditLog.js";
+import { diffFields, dryRunInputShape } from "../utils/dryRun.js";
+import { toolError, userErrorsToToolError } from "../utils/errors.js";
+import {
+  INVENTORY_REPORT_TOOLS,
+  PRODUCT_LIST_TOOLS
+} from "../utils/responseCache.js";
 
 // Input schema for creating a product
 const CreateProductInputSchema = z.object({
@@ -11,17 +18,46 @@ const CreateProductInputSchema = z.object({
   productType: z.string().optional(),
   tags: z.array(z.string()).optional(),
   status: z.enum(["ACTIVE", "DRAFT", "ARCHIVED"]).default("DRAFT"),
+  ...dryRunInputShape
 });
 
 type CreateProductInput = z.infer<typeof CreateProductInputSchema>;
 
-// Will be initialized in index.ts
+// Will be initialized by the tool registry
 let shopifyClient: GraphQLClient;
 
+const PRODUCT_CREATE_MUTATION = gql`
+  mutation productCreate($input: ProductInput!) {
+    productCreate(input: $input) {
+      product {
+        id
+        title
+        descriptionHtml
+        vendor
+        productType
+        status
+        tags
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
 const createProduct = {
   name: "create-product",
   description: "Create a new product",
   schema: CreateProductInputSchema,
+  documents: [PRODUCT_CREATE_MUTATION],
+  scopes: ["write_products"],
+  cacheInvalidates: [
+    "Product",
+    ...PRODUCT_LIST_TOOLS,
+    ...INVENTORY_REPORT_TOOLS
+  ],
+  mutation: true,
 
   // Add initialize method to set up the GraphQL client
   initialize(client: GraphQLClient) {
@@ -30,57 +66,61 @@ const createProduct = {
 
   execute: async (input: CreateProductInput) => {
     try {
-      const query = gql`
-        mutation productCreate($input: ProductInput!) {
-          productCreate(input: $input) {
-            product {
-              id
-              title
-              descriptionHtml
-              vendor
-              productType
-              status
-              tags
-            }
-            userErrors {
-              field
-              message
-            }
-          }
-        }
-      `;
+      const { dryRun, ...productFields } = input;
+
+      // A new product has no current state, so every field is a change
+      if (dryRun) {
+        const changes = diffFields(null, productFields);
+        return {
+          dryRun: true,
+          product: null,
+          changes,
+          changeCount: changes.length
+        };
+      }
 
       const variables = {
-        input,
+        input: productFields,
       };
 
-      const data = (await shopifyClient.request(query, variables)) as {
-        productCreate: {
-          product: any;
-          userErrors: Array<{
-            field: string;
-            message: string;
-          }>;
-        };
-      };
+      const data = await withAudit(
+        shopifyClient,
+        {
+          tool: "create-product",
+          objectId: null,
+          objectName: productFields.title,
+          input,
+          before: null
+        },
+        () =>
+          shopifyClient.request(PRODUCT_CREATE_MUTATION, variables) as Promise<{
+            productCreate: {
+              product: any;
+              userErrors: Array<{
+                field: string;
+                message: string;
+              }>;
+            };
+          }>,
+        (result) => ({
+          objectId: result.productCreate.product?.id,
+          after: result.productCreate.product,
+          userErrors: result.productCreate.userErrors
+        })
+      );
 
       // If there are user errors, throw an error
       if (data.productCreate.userErrors.length > 0) {
-        throw new Error(
-          `Failed to create product: ${data.productCreate.userErrors
-            .map((e) => `${e.field}: ${e.message}`)
-            .join(", ")}`
+        throw userErrorsToToolError(
+          "Failed to create product",
+          data.productCreate.userErrors
         );
       }
 
       return { product: data.productCreate.product };
     } catch (error) {
       console.error("Error creating product:", error);
-      throw new Error(
-        `Failed to create product: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
+      throw toolError("Failed to create product", error);
     }
   },
 };
@@ -0,0 +1,186 @@
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { z } from "zod";
+import { isAuditLogEnabled, withAudit } from "../utils/auditLog.js";
+import { diffFields, dryRunInputShape } from "../utils/dryRun.js";
+import { toolError, userErrorsToToolError } from "../utils/errors.js";
+import { ID_LOOKUP_DOCUMENTS, idDescription, resolveId } from "../utils/ids.js";
+import {
+  GET_PRODUCT_VARIANTS_QUERY,
+  VARIANT_FIELDS,
+  fetchProductVariants,
+  formatVariant,
+  toVariantsBulkInput,
+  variantInputShape
+} from "../utils/productVariants.js";
+import {
+  INVENTORY_REPORT_TOOLS,
+  PRODUCT_LIST_TOOLS
+} from "../utils/responseCache.js";
+
+// Will be initialized by the tool registry
+let shopifyClient: GraphQLClient;
+
+// Input schema for createProductVariants
+// Based on https://shopify.dev/docs/api/admin-graphql/latest/mutations/productvariantsbulkcreate
+const CreateProductVariantsInputSchema = z.object({
+  productId: z.string().min(1).describe(idDescription("Product")),
+  variants: z
+    .array(
+      z.object({
+        options: variantInputShape.options,
+        price: variantInputShape.price,
+        compareAtPrice: variantInputShape.compareAtPrice.optional(),
+        sku: variantInputShape.sku.optional(),
+        barcode: variantInputShape.barcode.optional(),
+        weight: variantInputShape.weight.optional(),
+        inventoryPolicy: variantInputShape.inventoryPolicy.optional()
+      })
+    )
+    .min(1)
+    .max(250),
+  removeStandaloneVariant: z
+    .boolean()
+    .default(true)
+    .describe(
+      'Remove the product\'s lone "Default Title" variant, as left by create-product, when adding the first real variants'
+    ),
+  ...dryRunInputShape
+});
+
+type CreateProductVariantsInput = z.infer<
+  typeof CreateProductVariantsInputSchema
+>;
+
+const PRODUCT_VARIANTS_BULK_CREATE_MUTATION = gql`
+  mutation productVariantsBulkCreate(
+    $productId: ID!
+    $variants: [ProductVariantsBulkInput!]!
+    $strategy: ProductVariantsBulkCreateStrategy
+  ) {
+    productVariantsBulkCreate(
+      productId: $productId
+      variants: $variants
+      strategy: $strategy
+    ) {
+      product {
+        id
+        title
+      }
+      productVariants {
+        ${VARIANT_FIELDS}
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const createProductVariants = {
+  name: "create-product-variants",
+  description:
+    "Add variants to a product, with option values, price, compare-at price, SKU, barcode, weight and inventory policy",
+  schema: CreateProductVariantsInputSchema,
+  documents: [
+    PRODUCT_VARIANTS_BULK_CREATE_MUTATION,
+    GET_PRODUCT_VARIANTS_QUERY,
+    ...ID_LOOKUP_DOCUMENTS.Product
+  ],
+  scopes: ["write_products"],
+  cacheInvalidates: [
+    "InventoryItem",
+    ...PRODUCT_LIST_TOOLS,
+    ...INVENTORY_REPORT_TOOLS
+  ],
+  mutation: true,
+
+  // Add initialize method to set up the GraphQL client
+  initialize(client: GraphQLClient) {
+    shopifyClient = client;
+  },
+
+  execute: async (input: CreateProductVariantsInput) => {
+    try {
+      const { productId: productInput, variants, removeStandaloneVariant, dryRun } =
+        input;
+      const productId = await resolveId(shopifyClient, "Product", productInput);
+
+      // New variants have no current state, so every field is a change
+      if (dryRun) {
+        const product = await fetchProductVariants(shopifyClient, productId);
+        const changes = variants.flatMap((variant, index) =>
+          diffFields(null, variant, `variants.${index}.`)
+        );
+        return {
+          dryRun: true,
+          product: { id: product.id, title: product.title },
+          changes,
+          changeCount: changes.length
+        };
+      }
+
+      const before = isAuditLogEnabled()
+        ? await fetchProductVariants(shopifyClient, productId)
+        : null;
+
+      const variables = {
+        productId,
+        variants: variants.map((variant) => toVariantsBulkInput(variant)),
+        strategy: removeStandaloneVariant
+          ? "REMOVE_STANDALONE_VARIANT"
+          : "PRESERVE_STANDALONE_VARIANT"
+      };
+
+      const data = await withAudit(
+        shopifyClient,
+        {
+          tool: "create-product-variants",
+          objectId: productId,
+          objectName: before?.title,
+          input,
+          before: before?.variants ?? null
+        },
+        () =>
+          shopifyClient.request(
+            PRODUCT_VARIANTS_BULK_CREATE_MUTATION,
+            variables
+          ) as Promise<{
+            productVariantsBulkCreate: {
+              product: any;
+              productVariants: any[] | null;
+              userErrors: Array<{
+                field: string[];
+                message: string;
+              }>;
+            };
+          }>,
+        (result) => ({
+          after: result.productVariantsBulkCreate.productVariants,
+          userErrors: result.productVariantsBulkCreate.userErrors
+        })
+      );
+
+      // If there are user errors, throw an error
+      if (data.productVariantsBulkCreate.userErrors.length > 0) {
+        throw userErrorsToToolError(
+          "Failed to create product variants",
+          data.productVariantsBulkCreate.userErrors
+        );
+      }
+
+      return {
+        product: data.productVariantsBulkCreate.product,
+        variants: (data.productVariantsBulkCreate.productVariants ?? []).map(
+          formatVariant
+        )
+      };
+    } catch (error) {
+      console.error("Error creating product variants:", error);
+      throw toolError("Failed to create product variants", error);
+    }
+  }
+};
+
+export { createProductVariants };
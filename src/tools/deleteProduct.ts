@@ -0,0 +1,178 @@
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { z } from "zod";
+import { withAudit } from "../utils/auditLog.js";
+import {
+  confirmInputShape,
+  dryRunInputShape,
+  requireConfirmation
+} from "../utils/dryRun.js";
+import {
+  ShopifyToolError,
+  toolError,
+  userErrorsToToolError
+} from "../utils/errors.js";
+import { ID_LOOKUP_DOCUMENTS, idDescription, resolveId } from "../utils/ids.js";
+import {
+  INVENTORY_REPORT_TOOLS,
+  PRODUCT_LIST_TOOLS
+} from "../utils/responseCache.js";
+
+// Will be initialized by the tool registry
+let shopifyClient: GraphQLClient;
+
+// Input schema for deleteProduct
+// Based on https://shopify.dev/docs/api/admin-graphql/latest/mutations/productdelete
+const DeleteProductInputSchema = z.object({
+  id: z.string().min(1).describe(idDescription("Product")),
+  ...confirmInputShape,
+  ...dryRunInputShape
+});
+
+type DeleteProductInput = z.infer<typeof DeleteProductInputSchema>;
+
+const PRODUCT_DELETE_MUTATION = gql`
+  mutation productDelete($input: ProductDeleteInput!) {
+    productDelete(input: $input) {
+      deletedProductId
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const GET_PRODUCT_FOR_DELETE_QUERY = gql`
+  query GetProductForDelete($id: ID!) {
+    product(id: $id) {
+      id
+      title
+      handle
+      status
+      vendor
+      productType
+      tags
+      totalInventory
+      variants(first: 250) {
+        edges {
+          node {
+            id
+            title
+            sku
+            price
+          }
+        }
+      }
+    }
+  }
+`;
+
+const deleteProduct = {
+  name: "delete-product",
+  description:
+    "Permanently delete a product with its variants and media. Requires confirm: true; consider archive-product instead",
+  schema: DeleteProductInputSchema,
+  documents: [
+    PRODUCT_DELETE_MUTATION,
+    GET_PRODUCT_FOR_DELETE_QUERY,
+    ...ID_LOOKUP_DOCUMENTS.Product
+  ],
+  scopes: ["write_products"],
+  cacheInvalidates: [...PRODUCT_LIST_TOOLS, ...INVENTORY_REPORT_TOOLS],
+  mutation: true,
+
+  // Add initialize method to set up the GraphQL client
+  initialize(client: GraphQLClient) {
+    shopifyClient = client;
+  },
+
+  execute: async (input: DeleteProductInput) => {
+    try {
+      const { id: productId, confirm, dryRun } = input;
+      if (!dryRun) {
+        requireConfirmation(confirm, "delete a product");
+      }
+
+      const id = await resolveId(shopifyClient, "Product", productId);
+
+      // Deleted products cannot be restored, so always keep what was
+      // deleted for the dry run and the audit log
+      const before = await fetchProductSnapshot(id);
+
+      if (dryRun) {
+        return {
+          dryRun: true,
+          product: { id: before.id, title: before.title },
+          changes: [{ field: "product", before, after: null }],
+          changeCount: 1
+        };
+      }
+
+      const data = await withAudit(
+        shopifyClient,
+        {
+          tool: "delete-product",
+          objectId: id,
+          objectName: before.title,
+          input,
+          before
+        },
+        () =>
+          shopifyClient.request(PRODUCT_DELETE_MUTATION, {
+            input: { id }
+          }) as Promise<{
+            productDelete: {
+              deletedProductId: string | null;
+              userErrors: Array<{
+                field: string[];
+                message: string;
+              }>;
+            };
+          }>,
+        (result) => ({
+          after: null,
+          userErrors: result.productDelete.userErrors
+        })
+      );
+
+      // If there are user errors, throw an error
+      if (data.productDelete.userErrors.length > 0) {
+        throw userErrorsToToolError(
+          "Failed to delete product",
+          data.productDelete.userErrors
+        );
+      }
+
+      return {
+        deletedProductId: data.productDelete.deletedProductId,
+        title: before.title
+      };
+    } catch (error) {
+      console.error("Error deleting product:", error);
+      throw toolError("Failed to delete product", error);
+    }
+  }
+};
+
+async function fetchProductSnapshot(id: string) {
+  const data = (await shopifyClient.request(
+    GET_PRODUCT_FOR_DELETE_QUERY,
+    { id }
+  )) as {
+    product: any;
+  };
+
+  if (!data.product) {
+    throw new ShopifyToolError(`Product with ID ${id} not found`, {
+      category: "not_found"
+    });
+  }
+
+  return {
+    ...data.product,
+    variants: data.product.variants.edges.map((edge: any) => edge.node)
+  };
+}
+
+export { deleteProduct };
@@ -0,0 +1,146 @@
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { z } from "zod";
+import { withAudit } from "../utils/auditLog.js";
+import {
+  confirmInputShape,
+  dryRunInputShape,
+  requireConfirmation
+} from "../utils/dryRun.js";
+import { toolError, userErrorsToToolError } from "../utils/errors.js";
+import { ID_LOOKUP_DOCUMENTS, idDescription, resolveId } from "../utils/ids.js";
+import {
+  GET_PRODUCT_MEDIA_QUERY,
+  fetchProductMedia,
+  matchMedia
+} from "../utils/productMedia.js";
+
+// Will be initialized by the tool registry
+let shopifyClient: GraphQLClient;
+
+// Input schema for deleteProductMedia
+// Based on https://shopify.dev/docs/api/admin-graphql/latest/mutations/productdeletemedia
+const DeleteProductMediaInputSchema = z.object({
+  productId: z.string().min(1).describe(idDescription("Product")),
+  mediaIds: z
+    .array(z.string().min(1))
+    .min(1)
+    .describe("Media to remove, as GIDs or numeric IDs"),
+  ...confirmInputShape,
+  ...dryRunInputShape
+});
+
+type DeleteProductMediaInput = z.infer<typeof DeleteProductMediaInputSchema>;
+
+const PRODUCT_DELETE_MEDIA_MUTATION = gql`
+  mutation productDeleteMedia($productId: ID!, $mediaIds: [ID!]!) {
+    productDeleteMedia(productId: $productId, mediaIds: $mediaIds) {
+      deletedMediaIds
+      deletedProductImageIds
+      mediaUserErrors {
+        field
+        message
+        code
+      }
+      product {
+        id
+        title
+      }
+    }
+  }
+`;
+
+const deleteProductMedia = {
+  name: "delete-product-media",
+  description: "Permanently remove images, videos or 3D models from a product. Requires confirm: true",
+  schema: DeleteProductMediaInputSchema,
+  documents: [
+    PRODUCT_DELETE_MEDIA_MUTATION,
+    GET_PRODUCT_MEDIA_QUERY,
+    ...ID_LOOKUP_DOCUMENTS.Product
+  ],
+  scopes: ["write_products"],
+  mutation: true,
+
+  // Add initialize method to set up the GraphQL client
+  initialize(client: GraphQLClient) {
+    shopifyClient = client;
+  },
+
+  execute: async (input: DeleteProductMediaInput) => {
+    try {
+      const { productId: productInput, confirm, dryRun } = input;
+      if (!dryRun) {
+        requireConfirmation(confirm, "delete product media");
+      }
+
+      const productId = await resolveId(shopifyClient, "Product", productInput);
+
+      const product = await fetchProductMedia(shopifyClient, productId);
+      const removed = matchMedia(product, input.mediaIds, "mediaIds");
+
+      if (dryRun) {
+        const changes = removed.map((media) => ({
+          field: `media.${media.id}`,
+          before: media,
+          after: null
+        }));
+        return {
+          dryRun: true,
+          product: { id: product.id, title: product.title },
+          changes,
+          changeCount: changes.length
+        };
+      }
+
+      const data = await withAudit(
+        shopifyClient,
+        {
+          tool: "delete-product-media",
+          objectId: productId,
+          objectName: product.title,
+          input,
+          before: removed
+        },
+        () =>
+          shopifyClient.request(PRODUCT_DELETE_MEDIA_MUTATION, {
+            productId,
+            mediaIds: removed.map((media) => media.id)
+          }) as Promise<{
+            productDeleteMedia: {
+              deletedMediaIds: string[] | null;
+              deletedProductImageIds: string[] | null;
+              mediaUserErrors: Array<{
+                field: string[];
+                message: string;
+                code: string | null;
+              }>;
+              product: any;
+            };
+          }>,
+        (result) => ({
+          after: null,
+          userErrors: result.productDeleteMedia.mediaUserErrors
+        })
+      );
+
+      // If there are user errors, throw an error
+      if (data.productDeleteMedia.mediaUserErrors.length > 0) {
+        throw userErrorsToToolError(
+          "Failed to delete product media",
+          data.productDeleteMedia.mediaUserErrors
+        );
+      }
+
+      return {
+        product: data.productDeleteMedia.product,
+        deletedMediaIds: data.productDeleteMedia.deletedMediaIds ?? []
+      };
+    } catch (error) {
+      console.error("Error deleting product media:", error);
+      throw toolError("Failed to delete product media", error);
+    }
+  }
+};
+
+export { deleteProductMedia };
@@ -0,0 +1,187 @@
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { z } from "zod";
+import { isAuditLogEnabled, withAudit } from "../utils/auditLog.js";
+import {
+  confirmInputShape,
+  dryRunInputShape,
+  requireConfirmation
+} from "../utils/dryRun.js";
+import {
+  ShopifyToolError,
+  toolError,
+  userErrorsToToolError
+} from "../utils/errors.js";
+import { ID_LOOKUP_DOCUMENTS, idDescription, resolveId } from "../utils/ids.js";
+import {
+  GET_PRODUCT_VARIANTS_QUERY,
+  fetchProductVariants
+} from "../utils/productVariants.js";
+import {
+  INVENTORY_REPORT_TOOLS,
+  PRODUCT_LIST_TOOLS
+} from "../utils/responseCache.js";
+
+// Will be initialized by the tool registry
+let shopifyClient: GraphQLClient;
+
+// Input schema for deleteProductVariants
+// Based on https://shopify.dev/docs/api/admin-graphql/latest/mutations/productvariantsbulkdelete
+const DeleteProductVariantsInputSchema = z.object({
+  productId: z.string().min(1).describe(idDescription("Product")),
+  variantIds: z
+    .array(z.string().min(1))
+    .min(1)
+    .max(250)
+    .describe(`Variants to delete. ${idDescription("ProductVariant")}`),
+  ...confirmInputShape,
+  ...dryRunInputShape
+});
+
+type DeleteProductVariantsInput = z.infer<
+  typeof DeleteProductVariantsInputSchema
+>;
+
+const PRODUCT_VARIANTS_BULK_DELETE_MUTATION = gql`
+  mutation productVariantsBulkDelete($productId: ID!, $variantsIds: [ID!]!) {
+    productVariantsBulkDelete(productId: $productId, variantsIds: $variantsIds) {
+      product {
+        id
+        title
+        variants(first: 250) {
+          edges {
+            node {
+              id
+              title
+            }
+          }
+        }
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const deleteProductVariants = {
+  name: "delete-product-variants",
+  description: "Permanently delete variants from a product. Requires confirm: true",
+  schema: DeleteProductVariantsInputSchema,
+  documents: [
+    PRODUCT_VARIANTS_BULK_DELETE_MUTATION,
+    GET_PRODUCT_VARIANTS_QUERY,
+    ...ID_LOOKUP_DOCUMENTS.Product
+  ],
+  scopes: ["write_products"],
+  cacheInvalidates: [...PRODUCT_LIST_TOOLS, ...INVENTORY_REPORT_TOOLS],
+  mutation: true,
+
+  // Add initialize method to set up the GraphQL client
+  initialize(client: GraphQLClient) {
+    shopifyClient = client;
+  },
+
+  execute: async (input: DeleteProductVariantsInput) => {
+    try {
+      const { productId: productInput, confirm, dryRun } = input;
+      if (!dryRun) {
+        requireConfirmation(confirm, "delete product variants");
+      }
+
+      const productId = await resolveId(shopifyClient, "Product", productInput);
+      const variantsIds: string[] = [];
+      for (const id of input.variantIds) {
+        variantsIds.push(await resolveId(shopifyClient, "ProductVariant", id));
+      }
+
+      if (dryRun) {
+        const product = await fetchProductVariants(shopifyClient, productId);
+        const deleted = variantsIds.map((id) => {
+          const variant = product.variants.find((v) => v.id === id);
+          if (!variant) {
+            throw new ShopifyToolError(
+              `Variant ${id} does not belong to product ${product.id}`,
+              { category: "validation", field: ["variantIds"] }
+            );
+          }
+          return variant;
+        });
+        const changes = deleted.map((variant) => ({
+          field: `variants.${variant.id}`,
+          before: variant,
+          after: null
+        }));
+        return {
+          dryRun: true,
+          product: { id: product.id, title: product.title },
+          changes,
+          changeCount: changes.length
+        };
+      }
+
+      // Keep the deleted variants in the audit log, they cannot be restored
+      const before = isAuditLogEnabled()
+        ? await fetchProductVariants(shopifyClient, productId)
+        : null;
+
+      const data = await withAudit(
+        shopifyClient,
+        {
+          tool: "delete-product-variants",
+          objectId: productId,
+          objectName: before?.title,
+          input,
+          before:
+            before?.variants.filter((variant) =>
+              variantsIds.includes(variant.id)
+            ) ?? null
+        },
+        () =>
+          shopifyClient.request(PRODUCT_VARIANTS_BULK_DELETE_MUTATION, {
+            productId,
+            variantsIds
+          }) as Promise<{
+            productVariantsBulkDelete: {
+              product: any;
+              userErrors: Array<{
+                field: string[];
+                message: string;
+              }>;
+            };
+          }>,
+        (result) => ({
+          after: null,
+          userErrors: result.productVariantsBulkDelete.userErrors
+        })
+      );
+
+      // If there are user errors, throw an error
+      if (data.productVariantsBulkDelete.userErrors.length > 0) {
+        throw userErrorsToToolError(
+          "Failed to delete product variants",
+          data.productVariantsBulkDelete.userErrors
+        );
+      }
+
+      const product = data.productVariantsBulkDelete.product;
+
+      return {
+        deletedVariantIds: variantsIds,
+        product: {
+          id: product.id,
+          title: product.title,
+          remainingVariants: product.variants.edges.map(
+            (edge: any) => edge.node
+          )
+        }
+      };
+    } catch (error) {
+      console.error("Error deleting product variants:", error);
+      throw toolError("Failed to delete product variants", error);
+    }
+  }
+};
+
+export { deleteProductVariants };
@@ -0,0 +1,188 @@
+import type { GraphQLClient } from "graphql-request";
+import { z } from "zod";
+import { ShopifyToolError, toolError } from "../utils/errors.js";
+import { QUANTITY_NAMES } from "../utils/inventoryQuantities.js";
+import { GET_MORE_INVENTORY_LEVELS_QUERY } from "../utils/inventoryItems.js";
+import {
+  GET_INVENTORY_SNAPSHOT_QUERY,
+  readInventorySnapshot,
+  snapshotStore,
+  takeInventorySnapshot,
+  type InventorySnapshotLevel
+} from "../utils/inventorySnapshots.js";
+
+// Input schema for diffInventorySnapshot
+const DiffInventorySnapshotInputSchema = z.object({
+  name: z
+    .string()
+    .min(1)
+    .describe("Name of a snapshot saved with save-inventory-snapshot"),
+  quantity: z
+    .enum(QUANTITY_NAMES)
+    .default("on_hand")
+    .describe("Quantity to compare"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(250)
+    .default(50)
+    .describe("Maximum number of changes to return, largest first"),
+  maxScannedItems: z
+    .number()
+    .int()
+    .min(1)
+    .max(50000)
+    .default(10000)
+    .describe("Stop after checking this many inventory items")
+});
+
+type DiffInventorySnapshotInput = z.infer<
+  typeof DiffInventorySnapshotInputSchema
+>;
+
+type LevelChange = {
+  inventoryItemId: string;
+  sku: string | null;
+  productTitle: string | null;
+  variantTitle: string | null;
+  locationId: string;
+  locationName: string;
+  change: "shrinkage" | "restock" | "new" | "removed";
+  // null when the level did not exist at that time
+  before: number | null;
+  after: number | null;
+  delta: number;
+};
+
+// Will be initialized by the tool registry
+let shopifyClient: GraphQLClient;
+
+const diffInventorySnapshot = {
+  name: "diff-inventory-snapshot",
+  description:
+    "Compare current stock against a snapshot saved with save-inventory-snapshot. Reports each level whose quantity fell (shrinkage) or rose (restock), and levels new or removed since the snapshot, largest change first",
+  schema: DiffInventorySnapshotInputSchema,
+  documents: [GET_INVENTORY_SNAPSHOT_QUERY, GET_MORE_INVENTORY_LEVELS_QUERY],
+  scopes: ["read_inventory", "read_products"],
+  listField: "changes",
+
+  initialize(client: GraphQLClient) {
+    shopifyClient = client;
+  },
+
+  execute: async (input: DiffInventorySnapshotInput) => {
+    try {
+      const { quantity, limit, maxScannedItems } = input;
+
+      // Check the snapshot before walking the catalog to compare with it
+      const store = snapshotStore(shopifyClient);
+      const saved = await readInventorySnapshot(input.name, store);
+      if (saved.store && store && saved.store !== store) {
+        throw new ShopifyToolError(
+          `Inventory snapshot "${saved.name}" was taken in store "${saved.store}", not "${store}"`,
+          {
+            category: "validation",
+            field: ["store"],
+            hint: `Call the tool again with store "${saved.store}".`
+          }
+        );
+      }
+
+      const current = await takeInventorySnapshot(
+        shopifyClient,
+        input.name,
+        maxScannedItems
+      );
+
+      const before = new Map(
+        saved.levels.map((level) => [levelKey(level), level])
+      );
+      const after = new Map(
+        current.levels.map((level) => [levelKey(level), level])
+      );
+
+      const changes: LevelChange[] = [];
+      let unchangedCount = 0;
+      for (const key of new Set([...before.keys(), ...after.keys()])) {
+        const was = before.get(key);
+        const now = after.get(key);
+        const beforeQuantity = was ? was.quantities[quantity] ?? 0 : null;
+        const afterQuantity = now ? now.quantities[quantity] ?? 0 : null;
+        const delta = (afterQuantity ?? 0) - (beforeQuantity ?? 0);
+
+        let change: LevelChange["change"];
+        if (!was) {
+          change = "new";
+        } else if (!now) {
+          change = "removed";
+        } else if (delta < 0) {
+          change = "shrinkage";
+        } else if (delta > 0) {
+          change = "restock";
+        } else {
+          unchangedCount++;
+          continue;
+        }
+
+        const level = (now ?? was)!;
+        changes.push({
+          inventoryItemId: level.inventoryItemId,
+          sku: level.sku,
+          productTitle: level.productTitle,
+          variantTitle: level.variantTitle,
+          locationId: level.locationId,
+          locationName: level.locationName,
+          change,
+          before: beforeQuantity,
+          after: afterQuantity,
+          delta
+        });
+      }
+
+      changes.sort(
+        (a, b) =>
+          Math.abs(b.delta) - Math.abs(a.delta) ||
+          (a.sku ?? "").localeCompare(b.sku ?? "")
+      );
+
+      return {
+        snapshot: {
+          name: saved.name,
+          takenAt: saved.takenAt,
+          store: saved.store
+        },
+        quantity,
+        changes: changes.slice(0, limit),
+        changeCount: Math.min(changes.length, limit),
+        summary: Object.fromEntries(
+          ["shrinkage", "restock", "new", "removed"].map((change) => {
+            const matching = changes.filter((entry) => entry.change === change);
+            return [
+              change,
+              {
+                levels: matching.length,
+                units: matching.reduce(
+                  (sum, entry) => sum + Math.abs(entry.delta),
+                  0
+                )
+              }
+            ];
+          })
+        ),
+        unchangedCount,
+        scannedItemCount: current.scannedItemCount,
+        // Levels past maxScannedItems in either walk show as new or removed
+        complete: saved.complete && current.complete
+      };
+    } catch (error) {
+      console.error("Error diffing inventory snapshot:", error);
+      throw toolError("Failed to diff inventory snapshot", error);
+    }
+  }
+};
+
+const levelKey = (level: InventorySnapshotLevel) =>
+  `${level.inventoryItemId} ${level.locationId}`;
+
+export { diffInventorySnapshot };
@@ -0,0 +1,200 @@
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { z } from "zod";
+import { withAudit } from "../utils/auditLog.js";
+import { dryRunInputShape } from "../utils/dryRun.js";
+import {
+  ShopifyToolError,
+  toolError,
+  userErrorsToToolError
+} from "../utils/errors.js";
+import { ID_LOOKUP_DOCUMENTS, idDescription, resolveId } from "../utils/ids.js";
+import {
+  INVENTORY_REPORT_TOOLS,
+  PRODUCT_LIST_TOOLS
+} from "../utils/responseCache.js";
+
+// Will be initialized by the tool registry
+let shopifyClient: GraphQLClient;
+
+// Input schema for duplicateProduct
+// Based on https://shopify.dev/docs/api/admin-graphql/latest/mutations/productduplicate
+const DuplicateProductInputSchema = z.object({
+  id: z.string().min(1).describe(idDescription("Product")),
+  newTitle: z.string().min(1).describe("Title of the copy"),
+  newStatus: z
+    .enum(["ACTIVE", "DRAFT", "ARCHIVED"])
+    .default("DRAFT")
+    .describe("Status of the copy"),
+  includeImages: z
+    .boolean()
+    .default(true)
+    .describe("Copy the product's images. Shopify copies them in a background job"),
+  ...dryRunInputShape
+});
+
+type DuplicateProductInput = z.infer<typeof DuplicateProductInputSchema>;
+
+const PRODUCT_DUPLICATE_MUTATION = gql`
+  mutation productDuplicate(
+    $productId: ID!
+    $newTitle: String!
+    $newStatus: ProductStatus
+    $includeImages: Boolean
+  ) {
+    productDuplicate(
+      productId: $productId
+      newTitle: $newTitle
+      newStatus: $newStatus
+      includeImages: $includeImages
+    ) {
+      newProduct {
+        id
+        title
+        handle
+        status
+        variants(first: 250) {
+          edges {
+            node {
+              id
+              title
+              sku
+              price
+            }
+          }
+        }
+      }
+      imageJob {
+        id
+        done
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const GET_PRODUCT_TO_DUPLICATE_QUERY = gql`
+  query GetProductToDuplicate($id: ID!) {
+    product(id: $id) {
+      id
+      title
+      status
+    }
+  }
+`;
+
+const duplicateProduct = {
+  name: "duplicate-product",
+  description:
+    "Copy a product with its variants, options, metafields and optionally images under a new title. The copy starts without inventory",
+  schema: DuplicateProductInputSchema,
+  documents: [
+    PRODUCT_DUPLICATE_MUTATION,
+    GET_PRODUCT_TO_DUPLICATE_QUERY,
+    ...ID_LOOKUP_DOCUMENTS.Product
+  ],
+  scopes: ["write_products"],
+  cacheInvalidates: [
+    "Product",
+    ...PRODUCT_LIST_TOOLS,
+    ...INVENTORY_REPORT_TOOLS
+  ],
+  mutation: true,
+
+  // Add initialize method to set up the GraphQL client
+  initialize(client: GraphQLClient) {
+    shopifyClient = client;
+  },
+
+  execute: async (input: DuplicateProductInput) => {
+    try {
+      const { id: productId, newTitle, newStatus, includeImages, dryRun } =
+        input;
+      const id = await resolveId(shopifyClient, "Product", productId);
+
+      // A copy has no current state, so every field is a change
+      if (dryRun) {
+        const data = (await shopifyClient.request(
+          GET_PRODUCT_TO_DUPLICATE_QUERY,
+          { id }
+        )) as { product: { id: string; title: string } | null };
+        if (!data.product) {
+          throw new ShopifyToolError(`Product with ID ${id} not found`, {
+            category: "not_found"
+          });
+        }
+
+        const changes = [
+          { field: "title", before: null, after: newTitle },
+          { field: "status", before: null, after: newStatus },
+          { field: "includeImages", before: null, after: includeImages }
+        ];
+        return {
+          dryRun: true,
+          product: data.product,
+          changes,
+          changeCount: changes.length
+        };
+      }
+
+      const data = await withAudit(
+        shopifyClient,
+        {
+          tool: "duplicate-product",
+          objectId: null,
+          objectName: newTitle,
+          input,
+          before: null
+        },
+        () =>
+          shopifyClient.request(PRODUCT_DUPLICATE_MUTATION, {
+            productId: id,
+            newTitle,
+            newStatus,
+            includeImages
+          }) as Promise<{
+            productDuplicate: {
+              newProduct: any;
+              imageJob: { id: string; done: boolean } | null;
+              userErrors: Array<{
+                field: string[];
+                message: string;
+              }>;
+            };
+          }>,
+        (result) => ({
+          objectId: result.productDuplicate.newProduct?.id,
+          after: result.productDuplicate.newProduct,
+          userErrors: result.productDuplicate.userErrors
+        })
+      );
+
+      // If there are user errors, throw an error
+      if (data.productDuplicate.userErrors.length > 0) {
+        throw userErrorsToToolError(
+          "Failed to duplicate product",
+          data.productDuplicate.userErrors
+        );
+      }
+
+      const product = data.productDuplicate.newProduct;
+
+      return {
+        sourceProductId: id,
+        product: {
+          ...product,
+          variants: product.variants.edges.map((edge: any) => edge.node)
+        },
+        imageJob: data.productDuplicate.imageJob
+      };
+    } catch (error) {
+      console.error("Error duplicating product:", error);
+      throw toolError("Failed to duplicate product", error);
+    }
+  }
+};
+
+export { duplicateProduct };
@@ -0,0 +1,76 @@
+import type { GraphQLClient } from "graphql-request";
+import { z } from "zod";
+import { getAuditLogPath, readAuditLog } from "../utils/auditLog.js";
+import { toolError } from "../utils/errors.js";
+
+// Input schema for getAuditLog
+const GetAuditLogInputSchema = z.object({
+  objectId: z
+    .string()
+    .optional()
+    .describe(
+      "Only changes to this object: full GID, numeric ID or order name like '#1042'"
+    ),
+  tool: z
+    .string()
+    .optional()
+    .describe("Only changes made by this tool, e.g. 'update-order'"),
+  store: z
+    .string()
+    .optional()
+    .describe("Only changes made in this store (see list-stores)"),
+  since: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .describe("Only changes at or after this ISO 8601 timestamp"),
+  until: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .describe("Only changes at or before this ISO 8601 timestamp"),
+  limit: z
+    .number()
+    .min(1)
+    .max(500)
+    .default(50)
+    .describe("Maximum number of records to return, newest first")
+});
+
+type GetAuditLogInput = z.infer<typeof GetAuditLogInputSchema>;
+
+const getAuditLog = {
+  name: "get-audit-log",
+  description:
+    "Query the local audit log of changes made through this server's mutation tools. Each record has the timestamp, store, tool, input, before/after snapshots and any userErrors.",
+  schema: GetAuditLogInputSchema,
+  // The log is local and covers every store, so it is filtered by the
+  // store field rather than routed to one store
+  storeArgument: false,
+  listField: "records",
+
+  // The audit log is read from disk; no Shopify client is needed
+  initialize(_client: GraphQLClient) {},
+
+  execute: async (input: GetAuditLogInput) => {
+    try {
+      const logPath = getAuditLogPath();
+      if (!logPath) {
+        throw new Error("The audit log is disabled (--auditLog=off)");
+      }
+
+      const records = await readAuditLog(input);
+
+      return {
+        logPath,
+        records,
+        recordCount: records.length
+      };
+    } catch (error) {
+      console.error("Error reading audit log:", error);
+      throw toolError("Failed to read audit log", error);
+    }
+  }
+};
+
+export { getAuditLog };
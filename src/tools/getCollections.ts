@@ -1,6 +1,13 @@
 import type { GraphQLClient } from "graphql-request";
 import { gql } from "graphql-request";
 import { z } from "zod";
+import { toolError } from "../utils/errors.js";
+import {
+  fetchPages,
+  paginationInputShape,
+  type Connection,
+  type CursorVariables
+} from "../utils/pagination.js";
 
 // Input schema for getCollections
 const GetCollectionsInputSchema = z.object({
@@ -9,24 +16,108 @@ const GetCollectionsInputSchema = z.object({
     .min(1)
     .max(50)
     .default(20)
-    .describe("Maximum number of collections to return"),
+    .describe("Maximum number of collections to return per page"),
   searchQuery: z.string().optional().describe("Search collections by title"),
   collectionType: z
     .enum(["smart", "manual", "all"])
     .default("all")
-    .describe("Filter by collection type (smart = automated rules, manual = hand-picked)")
+    .describe("Filter by collection type (smart = automated rules, manual = hand-picked)"),
+  ...paginationInputShape
 });
 
 type GetCollectionsInput = z.infer<typeof GetCollectionsInputSchema>;
 
-// Will be initialized in index.ts
+// Collection fields selected by the GetCollections query
+type CollectionNode = {
+  id: string;
+  title: string;
+  handle: string;
+  description: string | null;
+  descriptionHtml: string | null;
+  productsCount: {
+    count: number;
+  };
+  sortOrder: string;
+  templateSuffix: string | null;
+  updatedAt: string;
+  image: {
+    url: string;
+    altText: string | null;
+  } | null;
+  ruleSet: {
+    appliedDisjunctively: boolean;
+    rules: Array<{
+      column: string;
+      relation: string;
+      condition: string;
+    }>;
+  } | null;
+};
+
+// Will be initialized by the tool registry
 let shopifyClient: GraphQLClient;
 
+const GET_COLLECTIONS_QUERY = gql`
+  query GetCollections(
+    $first: Int
+    $last: Int
+    $after: String
+    $before: String
+    $query: String
+  ) {
+    collections(
+      first: $first
+      last: $last
+      after: $after
+      before: $before
+      query: $query
+    ) {
+      edges {
+        node {
+          id
+          title
+          handle
+          description
+          descriptionHtml
+          productsCount {
+            count
+          }
+          sortOrder
+          templateSuffix
+          updatedAt
+          image {
+            url
+            altText
+          }
+          ruleSet {
+            appliedDisjunctively
+            rules {
+              column
+              relation
+              condition
+            }
+          }
+        }
+      }
+      pageInfo {
+        hasNextPage
+        hasPreviousPage
+        startCursor
+        endCursor
+      }
+    }
+  }
+`;
+
 const getCollections = {
   name: "get-collections",
   description:
     "Get product collections. Returns both smart (rule-based) and manual collections with product counts. Requires read_products scope.",
   schema: GetCollectionsInputSchema,
+  documents: [GET_COLLECTIONS_QUERY],
+  scopes: ["read_products"],
+  listField: "collections",
+  cacheTtlSeconds: 300,
 
   initialize(client: GraphQLClient) {
     shopifyClient = client;
@@ -34,7 +125,14 @@ const getCollections = {
 
   execute: async (input: GetCollectionsInput) => {
     try {
-      const { limit, searchQuery, collectionType } = input;
+      const {
+        limit,
+        searchQuery,
+        collectionType,
+        after,
+        before,
+        maxItems
+      } = input;
 
       // Build query filter
       let queryFilter: string | undefined;
@@ -54,81 +152,26 @@ const getCollections = {
         queryFilter = filters.join(" AND ");
       }
 
-      const query = gql`
-        query GetCollections($first: Int!, $query: String) {
-          collections(first: $first, query: $query) {
-            edges {
-              node {
-                id
-                title
-                handle
-                description
-                descriptionHtml
-                productsCount {
-                  count
-                }
-                sortOrder
-                templateSuffix
-                updatedAt
-                image {
-                  url
-                  altText
-                }
-                ruleSet {
-                  appliedDisjunctively
-                  rules {
-                    column
-                    relation
-                    condition
-                  }
-                }
-              }
-            }
-          }
-        }
-      `;
-
-      const variables = {
-        first: limit,
-        query: queryFilter
-      };
-
-      const data = (await shopifyClient.request(query, variables)) as {
-        collections: {
-          edges: Array<{
-            node: {
-              id: string;
-              title: string;
-              handle: string;
-              description: string | null;
-              descriptionHtml: string | null;
-              productsCount: {
-                count: number;
-              };
-              sortOrder: string;
-              templateSuffix: string | null;
-              updatedAt: string;
-              image: {
-                url: string;
-                altText: string | null;
-              } | null;
-              ruleSet: {
-                appliedDisjunctively: boolean;
-                rules: Array<{
-                  column: string;
-                  relation: string;
-                  condition: string;
-                }>;
-              } | null;
-            };
-          }>;
-        };
-      };
+      const { nodes, pageInfo } = await fetchPages(
+        async (cursorVariables: CursorVariables) => {
+          const variables = {
+            ...cursorVariables,
+            query: queryFilter
+          };
+
+          const data = (await shopifyClient.request(
+            GET_COLLECTIONS_QUERY,
+            variables
+          )) as {
+            collections: Connection<CollectionNode>;
+          };
+          return data.collections;
+        },
+        { limit, after, before, maxItems }
+      );
 
       // Format collections
-      const collections = data.collections.edges.map((edge) => {
-        const col = edge.node;
-
+      const collections = nodes.map((col) => {
         // Determine collection type based on ruleSet
         const isSmartCollection = col.ruleSet !== null && col.ruleSet.rules.length > 0;
 
@@ -155,15 +198,12 @@ const getCollections = {
 
       return {
         collections,
-        collectionCount: collections.length
+        collectionCount: collections.length,
+        pageInfo
       };
     } catch (error) {
       console.error("Error fetching collections:", error);
-      throw new Error(
-        `Failed to fetch collections: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
+      throw toolError("Failed to fetch collections", error);
     }
   }
 };
@@ -1,118 +1,171 @@
 import type { GraphQLClient } from "graphql-request";
 import { gql } from "graphql-request";
 import { z } from "zod";
+import { toolError } from "../utils/errors.js";
+import {
+  ID_LOOKUP_DOCUMENTS,
+  idDescription,
+  numericId,
+  resolveId
+} from "../utils/ids.js";
+import {
+  fetchPages,
+  paginationInputShape,
+  type Connection,
+  type CursorVariables
+} from "../utils/pagination.js";
 
 // Input schema for getting customer orders
 const GetCustomerOrdersInputSchema = z.object({
-  customerId: z.string().regex(/^\d+$/, "Customer ID must be numeric"),
-  limit: z.number().default(10)
+  customerId: z.string().min(1).describe(idDescription("Customer")),
+  // A page of 30 orders with their line items stays under Shopify's 1000-point
+  // single query cost limit
+  limit: z
+    .number()
+    .min(1)
+    .max(30)
+    .default(10)
+    .describe("Maximum number of orders to return per page"),
+  ...paginationInputShape
 });
 
 type GetCustomerOrdersInput = z.infer<typeof GetCustomerOrdersInputSchema>;
 
-// Will be initialized in index.ts
+// Will be initialized by the tool registry
 let shopifyClient: GraphQLClient;
 
-const getCustomerOrders = {
-  name: "get-customer-orders",
-  description: "Get orders for a specific customer",
-  schema: GetCustomerOrdersInputSchema,
-
-  // Add initialize method to set up the GraphQL client
-  initialize(client: GraphQLClient) {
-    shopifyClient = client;
-  },
-
-  execute: async (input: GetCustomerOrdersInput) => {
-    try {
-      const { customerId, limit } = input;
-
-      // Convert the numeric customer ID to the GID format
-      const customerGid = `gid://shopify/Customer/${customerId}`;
-
-      // Query to get orders for a specific customer
-      const query = gql`
-        query GetCustomerOrders($query: String!, $first: Int!) {
-          orders(query: $query, first: $first) {
+// Query to get orders for a specific customer
+const GET_CUSTOMER_ORDERS_QUERY = gql`
+  query GetCustomerOrders(
+    $query: String!
+    $first: Int
+    $last: Int
+    $after: String
+    $before: String
+  ) {
+    orders(
+      query: $query
+      first: $first
+      last: $last
+      after: $after
+      before: $before
+    ) {
+      edges {
+        node {
+          id
+          name
+          createdAt
+          displayFinancialStatus
+          displayFulfillmentStatus
+          totalPriceSet {
+            shopMoney {
+              amount
+              currencyCode
+            }
+          }
+          subtotalPriceSet {
+            shopMoney {
+              amount
+              currencyCode
+            }
+          }
+          totalShippingPriceSet {
+            shopMoney {
+              amount
+              currencyCode
+            }
+          }
+          totalTaxSet {
+            shopMoney {
+              amount
+              currencyCode
+            }
+          }
+          customer {
+            id
+            firstName
+            lastName
+            email
+          }
+          lineItems(first: 5) {
             edges {
               node {
                 id
-                name
-                createdAt
-                displayFinancialStatus
-                displayFulfillmentStatus
-                totalPriceSet {
-                  shopMoney {
-                    amount
-                    currencyCode
-                  }
-                }
-                subtotalPriceSet {
-                  shopMoney {
-                    amount
-                    currencyCode
-                  }
-                }
-                totalShippingPriceSet {
-                  shopMoney {
-                    amount
-                    currencyCode
-                  }
-                }
-                totalTaxSet {
+                title
+                quantity
+                originalTotalSet {
                   shopMoney {
                     amount
                     currencyCode
                   }
                 }
-                customer {
+                variant {
                   id
-                  firstName
-                  lastName
-                  email
-                }
-                lineItems(first: 5) {
-                  edges {
-                    node {
-                      id
-                      title
-                      quantity
-                      originalTotalSet {
-                        shopMoney {
-                          amount
-                          currencyCode
-                        }
-                      }
-                      variant {
-                        id
-                        title
-                        sku
-                      }
-                    }
-                  }
+                  title
+                  sku
                 }
-                tags
-                note
               }
             }
           }
+          tags
+          note
         }
-      `;
+      }
+      pageInfo {
+        hasNextPage
+        hasPreviousPage
+        startCursor
+        endCursor
+      }
+    }
+  }
+`;
 
-      // We use the query parameter to filter orders by customer ID
-      const variables = {
-        query: `customer_id:${customerId}`,
-        first: limit
-      };
+const getCustomerOrders = {
+  name: "get-customer-orders",
+  description: "Get orders for a specific customer",
+  schema: GetCustomerOrdersInputSchema,
+  documents: [GET_CUSTOMER_ORDERS_QUERY, ...ID_LOOKUP_DOCUMENTS.Customer],
+  scopes: ["read_orders", "read_customers"],
+  listField: "orders",
+  cacheTtlSeconds: 30,
 
-      const data = (await shopifyClient.request(query, variables)) as {
-        orders: any;
-      };
+  // Add initialize method to set up the GraphQL client
+  initialize(client: GraphQLClient) {
+    shopifyClient = client;
+  },
 
-      // Extract and format order data
-      const orders = data.orders.edges.map((edge: any) => {
-        const order = edge.node;
+  execute: async (input: GetCustomerOrdersInput) => {
+    try {
+      const { customerId, limit, after, before, maxItems } = input;
+
+      const customerGid = await resolveId(
+        shopifyClient,
+        "Customer",
+        customerId
+      );
 
+      const { nodes, pageInfo } = await fetchPages(
+        async (cursorVariables: CursorVariables) => {
+          // We use the query parameter to filter orders by customer ID
+          const variables = {
+            query: `customer_id:${numericId(customerGid)}`,
+            ...cursorVariables
+          };
+
+          const data = (await shopifyClient.request(
+            GET_CUSTOMER_ORDERS_QUERY,
+            variables
+          )) as {
+            orders: Connection<any>;
+          };
+          return data.orders;
+        },
+        { limit, after, before, maxItems }
+      );
+
+      // Extract and format order data
+      const orders = nodes.map((order: any) => {
         // Format line items
         const lineItems = order.lineItems.edges.map((lineItemEdge: any) => {
           const lineItem = lineItemEdge.node;
@@ -155,14 +208,10 @@ const getCustomerOrders = {
         };
       });
 
-      return { orders };
+      return { orders, pageInfo };
     } catch (error) {
       console.error("Error fetching customer orders:", error);
-      throw new Error(
-        `Failed to fetch customer orders: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
+      throw toolError("Failed to fetch customer orders", error);
     }
   }
 };
@@ -1,22 +1,101 @@
 import type { GraphQLClient } from "graphql-request";
 import { gql } from "graphql-request";
 import { z } from "zod";
+import { toolError } from "../utils/errors.js";
+import {
+  fetchPages,
+  paginationInputShape,
+  type Connection,
+  type CursorVariables
+} from "../utils/pagination.js";
 
 // Input schema for getCustomers
 const GetCustomersInputSchema = z.object({
   searchQuery: z.string().optional(),
-  limit: z.number().default(10)
+  // A page of 200 customers stays under Shopify's 1000-point single query cost
+  // limit
+  limit: z
+    .number()
+    .min(1)
+    .max(200)
+    .default(10)
+    .describe("Maximum number of customers to return per page"),
+  ...paginationInputShape
 });
 
 type GetCustomersInput = z.infer<typeof GetCustomersInputSchema>;
 
-// Will be initialized in index.ts
+// Will be initialized by the tool registry
 let shopifyClient: GraphQLClient;
 
+const GET_CUSTOMERS_QUERY = gql`
+  query GetCustomers(
+    $first: Int
+    $last: Int
+    $after: String
+    $before: String
+    $query: String
+  ) {
+    customers(
+      first: $first
+      last: $last
+      after: $after
+      before: $before
+      query: $query
+    ) {
+      edges {
+        node {
+          id
+          firstName
+          lastName
+          email
+          phone
+          createdAt
+          updatedAt
+          tags
+          defaultAddress {
+            address1
+            address2
+            city
+            provinceCode
+            zip
+            country
+            phone
+          }
+          addresses {
+            address1
+            address2
+            city
+            provinceCode
+            zip
+            country
+            phone
+          }
+          amountSpent {
+            amount
+            currencyCode
+          }
+          numberOfOrders
+        }
+      }
+      pageInfo {
+        hasNextPage
+        hasPreviousPage
+        startCursor
+        endCursor
+      }
+    }
+  }
+`;
+
 const getCustomers = {
   name: "get-customers",
   description: "Get customers or search by name/email",
   schema: GetCustomersInputSchema,
+  documents: [GET_CUSTOMERS_QUERY],
+  scopes: ["read_customers"],
+  listField: "customers",
+  cacheTtlSeconds: 60,
 
   // Add initialize method to set up the GraphQL client
   initialize(client: GraphQLClient) {
@@ -25,63 +104,28 @@ const getCustomers = {
 
   execute: async (input: GetCustomersInput) => {
     try {
-      const { searchQuery, limit } = input;
+      const { searchQuery, limit, after, before, maxItems } = input;
 
-      const query = gql`
-        query GetCustomers($first: Int!, $query: String) {
-          customers(first: $first, query: $query) {
-            edges {
-              node {
-                id
-                firstName
-                lastName
-                email
-                phone
-                createdAt
-                updatedAt
-                tags
-                defaultAddress {
-                  address1
-                  address2
-                  city
-                  provinceCode
-                  zip
-                  country
-                  phone
-                }
-                addresses {
-                  address1
-                  address2
-                  city
-                  provinceCode
-                  zip
-                  country
-                  phone
-                }
-                amountSpent {
-                  amount
-                  currencyCode
-                }
-                numberOfOrders
-              }
-            }
-          }
-        }
-      `;
-
-      const variables = {
-        first: limit,
-        query: searchQuery
-      };
+      const { nodes, pageInfo } = await fetchPages(
+        async (cursorVariables: CursorVariables) => {
+          const variables = {
+            ...cursorVariables,
+            query: searchQuery
+          };
 
-      const data = (await shopifyClient.request(query, variables)) as {
-        customers: any;
-      };
+          const data = (await shopifyClient.request(
+            GET_CUSTOMERS_QUERY,
+            variables
+          )) as {
+            customers: Connection<any>;
+          };
+          return data.customers;
+        },
+        { limit, after, before, maxItems }
+      );
 
       // Extract and format customer data
-      const customers = data.customers.edges.map((edge: any) => {
-        const customer = edge.node;
-
+      const customers = nodes.map((customer: any) => {
         return {
           id: customer.id,
           firstName: customer.firstName,
@@ -98,14 +142,10 @@ const getCustomers = {
         };
       });
 
-      return { customers };
+      return { customers, pageInfo };
     } catch (error) {
       console.error("Error fetching customers:", error);
-      throw new Error(
-        `Failed to fetch customers: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
+      throw toolError("Failed to fetch customers", error);
     }
   }
 };
@@ -1,6 +1,19 @@
 import type { GraphQLClient } from "graphql-request";
 import { gql } from "graphql-request";
 import { z } from "zod";
+import { toolError } from "../utils/errors.js";
+import {
+  ID_LOOKUP_DOCUMENTS,
+  idDescription,
+  numericId,
+  resolveId
+} from "../utils/ids.js";
+import {
+  fetchPages,
+  paginationInputShape,
+  type Connection,
+  type CursorVariables
+} from "../utils/pagination.js";
 
 // Input schema for getInventoryLevels
 const GetInventoryLevelsInputSchema = z.object({
@@ -9,21 +22,118 @@ const GetInventoryLevelsInputSchema = z.object({
     .min(1)
     .max(50)
     .default(20)
-    .describe("Maximum number of inventory items to return"),
+    .describe("Maximum number of inventory items to return per page"),
   sku: z.string().optional().describe("Filter by SKU (exact match)"),
-  productId: z.string().optional().describe("Filter by product ID")
+  productId: z
+    .string()
+    .optional()
+    .describe(`Filter by product. ${idDescription("Product")}`),
+  ...paginationInputShape
 });
 
 type GetInventoryLevelsInput = z.infer<typeof GetInventoryLevelsInputSchema>;
 
-// Will be initialized in index.ts
+// Inventory item fields selected by the GetInventoryLevels query
+type InventoryItemNode = {
+  id: string;
+  sku: string | null;
+  tracked: boolean;
+  inventoryLevels: {
+    edges: Array<{
+      node: {
+        id: string;
+        quantities: Array<{
+          name: string;
+          quantity: number;
+        }>;
+        location: {
+          id: string;
+          name: string;
+        };
+      };
+    }>;
+  };
+  variant: {
+    id: string;
+    title: string;
+    displayName: string;
+    product: {
+      id: string;
+      title: string;
+    };
+  } | null;
+};
+
+// Will be initialized by the tool registry
 let shopifyClient: GraphQLClient;
 
+const GET_INVENTORY_LEVELS_QUERY = gql`
+  query GetInventoryLevels(
+    $first: Int
+    $last: Int
+    $after: String
+    $before: String
+    $query: String
+  ) {
+    inventoryItems(
+      first: $first
+      last: $last
+      after: $after
+      before: $before
+      query: $query
+    ) {
+      edges {
+        node {
+          id
+          sku
+          tracked
+          inventoryLevels(first: 10) {
+            edges {
+              node {
+                id
+                quantities(
+                  names: ["available", "incoming", "committed", "reserved", "on_hand"]
+                ) {
+                  name
+                  quantity
+                }
+                location {
+                  id
+                  name
+                }
+              }
+            }
+          }
+          variant {
+            id
+            title
+            displayName
+            product {
+              id
+              title
+            }
+          }
+        }
+      }
+      pageInfo {
+        hasNextPage
+        hasPreviousPage
+        startCursor
+        endCursor
+      }
+    }
+  }
+`;
+
 const getInventoryLevels = {
   name: "get-inventory-levels",
   description:
     "Get inventory levels across all locations. Returns available, incoming, committed, and reserved quantities. Requires read_inventory scope.",
   schema: GetInventoryLevelsInputSchema,
+  documents: [GET_INVENTORY_LEVELS_QUERY, ...ID_LOOKUP_DOCUMENTS.Product],
+  scopes: ["read_inventory", "read_products"],
+  listField: "inventoryItems",
+  cacheTtlSeconds: 30,
 
   initialize(client: GraphQLClient) {
     shopifyClient = client;
@@ -31,105 +141,37 @@ const getInventoryLevels = {
 
   execute: async (input: GetInventoryLevelsInput) => {
     try {
-      const { limit, sku, productId } = input;
+      const { limit, sku, productId, after, before, maxItems } = input;
 
       // Build query filter
       let queryFilter: string | undefined;
       if (sku) {
         queryFilter = `sku:${sku}`;
       } else if (productId) {
-        // Extract numeric ID if full GID is provided
-        const numericId = productId.includes("/")
-          ? productId.split("/").pop()
-          : productId;
-        queryFilter = `product_id:${numericId}`;
+        const productGid = await resolveId(shopifyClient, "Product", productId);
+        queryFilter = `product_id:${numericId(productGid)}`;
       }
 
-      const query = gql`
-        query GetInventoryLevels($first: Int!, $query: String) {
-          inventoryItems(first: $first, query: $query) {
-            edges {
-              node {
-                id
-                sku
-                tracked
-                inventoryLevels(first: 10) {
-                  edges {
-                    node {
-                      id
-                      quantities(
-                        names: ["available", "incoming", "committed", "reserved", "on_hand"]
-                      ) {
-                        name
-                        quantity
-                      }
-                      location {
-                        id
-                        name
-                      }
-                    }
-                  }
-                }
-                variant {
-                  id
-                  title
-                  displayName
-                  product {
-                    id
-                    title
-                  }
-                }
-              }
-            }
-          }
-        }
-      `;
-
-      const variables = {
-        first: limit,
-        query: queryFilter
-      };
+      const { nodes, pageInfo } = await fetchPages(
+        async (cursorVariables: CursorVariables) => {
+          const variables = {
+            ...cursorVariables,
+            query: queryFilter
+          };
 
-      const data = (await shopifyClient.request(query, variables)) as {
-        inventoryItems: {
-          edges: Array<{
-            node: {
-              id: string;
-              sku: string | null;
-              tracked: boolean;
-              inventoryLevels: {
-                edges: Array<{
-                  node: {
-                    id: string;
-                    quantities: Array<{
-                      name: string;
-                      quantity: number;
-                    }>;
-                    location: {
-                      id: string;
-                      name: string;
-                    };
-                  };
-                }>;
-              };
-              variant: {
-                id: string;
-                title: string;
-                displayName: string;
-                product: {
-                  id: string;
-                  title: string;
-                };
-              } | null;
-            };
-          }>;
-        };
-      };
+          const data = (await shopifyClient.request(
+            GET_INVENTORY_LEVELS_QUERY,
+            variables
+          )) as {
+            inventoryItems: Connection<InventoryItemNode>;
+          };
+          return data.inventoryItems;
+        },
+        { limit, after, before, maxItems }
+      );
 
       // Format inventory items
-      const inventoryItems = data.inventoryItems.edges.map((edge) => {
-        const item = edge.node;
-
+      const inventoryItems = nodes.map((item) => {
         // Format inventory levels by location
         const levels = item.inventoryLevels.edges.map((levelEdge) => {
           const level = levelEdge.node;
@@ -170,15 +212,12 @@ const getInventoryLevels = {
 
       return {
         inventoryItems,
-        itemCount: inventoryItems.length
+        itemCount: inventoryItems.length,
+        pageInfo
       };
     } catch (error) {
       console.error("Error fetching inventory levels:", error);
-      throw new Error(
-        `Failed to fetch inventory levels: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
+      throw toolError("Failed to fetch inventory levels", error);
     }
   }
 };
@@ -0,0 +1,300 @@
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { z } from "zod";
+import { ShopifyToolError, toolError } from "../utils/errors.js";
+import { idDescription, resolveId } from "../utils/ids.js";
+import {
+  GET_MORE_INVENTORY_LEVELS_QUERY,
+  INVENTORY_LEVELS_FIELDS,
+  fetchInventoryItems,
+  type InventoryLevelNode
+} from "../utils/inventoryItems.js";
+import type { Connection } from "../utils/pagination.js";
+
+// Input schema for getInventoryValuation
+const GetInventoryValuationInputSchema = z.object({
+  locationIds: z
+    .array(z.string().min(1))
+    .optional()
+    .describe(
+      `Only value stock at these locations. ${idDescription("Location")}`
+    ),
+  includeItems: z
+    .boolean()
+    .default(false)
+    .describe("Also return the value of each inventory item"),
+  maxScannedItems: z
+    .number()
+    .int()
+    .min(1)
+    .max(50000)
+    .default(10000)
+    .describe("Stop after checking this many inventory items")
+});
+
+type GetInventoryValuationInput = z.infer<
+  typeof GetInventoryValuationInputSchema
+>;
+
+// Inventory item fields selected by the GetInventoryValuation query
+type ValuedItemNode = {
+  id: string;
+  sku: string | null;
+  tracked: boolean;
+  unitCost: {
+    amount: string;
+    currencyCode: string;
+  } | null;
+  inventoryLevels: Connection<InventoryLevelNode>;
+  variant: {
+    id: string;
+    title: string;
+    product: {
+      id: string;
+      title: string;
+      vendor: string;
+      productType: string;
+    };
+  } | null;
+};
+
+// Running units and value of one group. Values are exact integers in units
+// of 10^-AMOUNT_SCALE of the currency, and only rounded to cents for output,
+// so sub-cent unit costs are multiplied out before anything is rounded
+type Total = { units: number; value: bigint };
+
+// Decimal places kept from unit cost amounts
+const AMOUNT_SCALE = 6;
+
+// Will be initialized by the tool registry
+let shopifyClient: GraphQLClient;
+
+const GET_INVENTORY_VALUATION_QUERY = gql`
+  query GetInventoryValuation($first: Int, $after: String) {
+    inventoryItems(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          sku
+          tracked
+          unitCost {
+            amount
+            currencyCode
+          }
+          ${INVENTORY_LEVELS_FIELDS}
+          variant {
+            id
+            title
+            product {
+              id
+              title
+              vendor
+              productType
+            }
+          }
+        }
+      }
+      pageInfo {
+        hasNextPage
+        hasPreviousPage
+        startCursor
+        endCursor
+      }
+    }
+  }
+`;
+
+const getInventoryValuation = {
+  name: "get-inventory-valuation",
+  description:
+    "Value stock on hand at unit cost, with totals by location, vendor and product type. Items without a unit cost are counted separately",
+  schema: GetInventoryValuationInputSchema,
+  documents: [GET_INVENTORY_VALUATION_QUERY, GET_MORE_INVENTORY_LEVELS_QUERY],
+  scopes: ["read_inventory", "read_products"],
+  cacheTtlSeconds: 300,
+
+  initialize(client: GraphQLClient) {
+    shopifyClient = client;
+  },
+
+  execute: async (input: GetInventoryValuationInput) => {
+    try {
+      const { includeItems, maxScannedItems } = input;
+      const locationIds = input.locationIds
+        ? await Promise.all(
+            input.locationIds.map((id) =>
+              resolveId(shopifyClient, "Location", id)
+            )
+          )
+        : undefined;
+
+      const { nodes, pageInfo } = await fetchInventoryItems<ValuedItemNode>(
+        shopifyClient,
+        GET_INVENTORY_VALUATION_QUERY,
+        {},
+        maxScannedItems
+      );
+
+      const total: Total = { units: 0, value: 0n };
+      const byLocation = new Map<string, Total & { locationName: string }>();
+      const byVendor = new Map<string, Total>();
+      const byProductType = new Map<string, Total>();
+      const withoutCost = { itemCount: 0, units: 0 };
+      const items = [];
+      let currencyCode: string | null = null;
+
+      // Shopify only counts stock for tracked items
+      for (const item of nodes.filter((node) => node.tracked)) {
+        const levels = item.inventoryLevels.edges
+          .map((edge) => edge.node)
+          .filter(
+            (level) => !locationIds || locationIds.includes(level.location.id)
+          )
+          .map((level) => ({
+            location: level.location,
+            // Negative on-hand stock has no value
+            units: Math.max(
+              level.quantities.find((q) => q.name === "on_hand")?.quantity ??
+                0,
+              0
+            )
+          }))
+          .filter((level) => level.units > 0);
+        const units = levels.reduce((sum, level) => sum + level.units, 0);
+        if (units === 0) {
+          continue;
+        }
+
+        if (!item.unitCost) {
+          withoutCost.itemCount++;
+          withoutCost.units += units;
+          continue;
+        }
+
+        // Unit costs are in the shop currency, so another currency means the
+        // totals would add up amounts that cannot be added
+        currencyCode = currencyCode ?? item.unitCost.currencyCode;
+        if (item.unitCost.currencyCode !== currencyCode) {
+          throw new ShopifyToolError(
+            `Inventory item ${item.id} has a unit cost in ${item.unitCost.currencyCode}, but earlier items are in ${currencyCode}; mixed currencies cannot be totalled`,
+            { category: "internal" }
+          );
+        }
+        const unitCost = parseAmount(item.unitCost.amount);
+        const product = item.variant?.product;
+
+        for (const level of levels) {
+          const value = BigInt(level.units) * unitCost;
+          addTo(total, level.units, value);
+          addTo(
+            getOrAdd(byLocation, level.location.id, {
+              locationName: level.location.name
+            }),
+            level.units,
+            value
+          );
+          addTo(
+            getOrAdd(byVendor, product?.vendor ?? ""),
+            level.units,
+            value
+          );
+          addTo(
+            getOrAdd(byProductType, product?.productType ?? ""),
+            level.units,
+            value
+          );
+        }
+
+        if (includeItems) {
+          items.push({
+            inventoryItemId: item.id,
+            sku: item.sku,
+            productTitle: product?.title ?? null,
+            variantTitle: item.variant?.title ?? null,
+            unitCost: item.unitCost.amount,
+            units,
+            value: formatAmount(BigInt(units) * unitCost)
+          });
+        }
+      }
+
+      return {
+        currencyCode,
+        totalUnits: total.units,
+        totalValue: formatAmount(total.value),
+        byLocation: sortedTotals(byLocation, (locationId, entry) => ({
+          locationId,
+          locationName: entry.locationName
+        })),
+        byVendor: sortedTotals(byVendor, (vendor) => ({ vendor })),
+        byProductType: sortedTotals(byProductType, (productType) => ({
+          productType
+        })),
+        // Stock left out of the totals for lack of a unit cost
+        withoutUnitCost: withoutCost,
+        ...(includeItems && { items }),
+        scannedItemCount: nodes.length,
+        // More items remain past maxScannedItems
+        complete: !pageInfo.hasNextPage
+      };
+    } catch (error) {
+      console.error("Error valuing inventory:", error);
+      throw toolError("Failed to value inventory", error);
+    }
+  }
+};
+
+function getOrAdd<TTotal extends Total>(
+  totals: Map<string, TTotal>,
+  key: string,
+  extra: Omit<TTotal, keyof Total> = {} as Omit<TTotal, keyof Total>
+): TTotal {
+  let entry = totals.get(key);
+  if (!entry) {
+    entry = { ...extra, units: 0, value: 0n } as TTotal;
+    totals.set(key, entry);
+  }
+  return entry;
+}
+
+function addTo(entry: Total, units: number, value: bigint) {
+  entry.units += units;
+  entry.value += value;
+}
+
+// Groups with the highest value first
+function sortedTotals<TTotal extends Total, TKey extends object>(
+  totals: Map<string, TTotal>,
+  describe: (key: string, entry: TTotal) => TKey
+) {
+  return [...totals.entries()]
+    .sort(([, a], [, b]) =>
+      a.value < b.value ? 1 : a.value > b.value ? -1 : 0
+    )
+    .map(([key, entry]) => ({
+      ...describe(key, entry),
+      units: entry.units,
+      value: formatAmount(entry.value)
+    }));
+}
+
+// Decimal amount string such as "6.50" as an exact scaled integer. Digits
+// past AMOUNT_SCALE are dropped
+function parseAmount(amount: string): bigint {
+  const [whole, fraction = ""] = amount.trim().split(".");
+  return BigInt(
+    `${whole}${fraction.padEnd(AMOUNT_SCALE, "0").slice(0, AMOUNT_SCALE)}`
+  );
+}
+
+// Scaled integer as a two-decimal string, rounding half away from zero
+function formatAmount(value: bigint): string {
+  const negative = value < 0n;
+  const step = 10n ** BigInt(AMOUNT_SCALE - 2);
+  const cents = ((negative ? -value : value) + step / 2n) / step;
+  const digits = (cents / 100n).toString();
+  const fraction = (cents % 100n).toString().padStart(2, "0");
+  return `${negative ? "-" : ""}${digits}.${fraction}`;
+}
+
+export { getInventoryValuation };
@@ -1,6 +1,7 @@
 import type { GraphQLClient } from "graphql-request";
 import { gql } from "graphql-request";
 import { z } from "zod";
+import { toolError } from "../utils/errors.js";
 
 // Input schema for getLocations
 const GetLocationsInputSchema = z.object({
@@ -18,14 +19,46 @@ const GetLocationsInputSchema = z.object({
 
 type GetLocationsInput = z.infer<typeof GetLocationsInputSchema>;
 
-// Will be initialized in index.ts
+// Will be initialized by the tool registry
 let shopifyClient: GraphQLClient;
 
+const GET_LOCATIONS_QUERY = gql`
+  query GetLocations($first: Int!, $includeInactive: Boolean) {
+    locations(first: $first, includeInactive: $includeInactive) {
+      edges {
+        node {
+          id
+          name
+          isActive
+          fulfillsOnlineOrders
+          hasActiveInventory
+          shipsInventory
+          address {
+            address1
+            address2
+            city
+            province
+            provinceCode
+            country
+            countryCode
+            zip
+            phone
+          }
+        }
+      }
+    }
+  }
+`;
+
 const getLocations = {
   name: "get-locations",
   description:
     "Get store locations. Returns all fulfillment locations including warehouses, retail stores, and drop shippers. Requires read_locations scope.",
   schema: GetLocationsInputSchema,
+  documents: [GET_LOCATIONS_QUERY],
+  scopes: ["read_locations"],
+  listField: "locations",
+  cacheTtlSeconds: 300,
 
   initialize(client: GraphQLClient) {
     shopifyClient = client;
@@ -35,40 +68,15 @@ const getLocations = {
     try {
       const { limit, includeInactive } = input;
 
-      const query = gql`
-        query GetLocations($first: Int!, $includeInactive: Boolean) {
-          locations(first: $first, includeInactive: $includeInactive) {
-            edges {
-              node {
-                id
-                name
-                isActive
-                fulfillsOnlineOrders
-                hasActiveInventory
-                shipsInventory
-                address {
-                  address1
-                  address2
-                  city
-                  province
-                  provinceCode
-                  country
-                  countryCode
-                  zip
-                  phone
-                }
-              }
-            }
-          }
-        }
-      `;
-
       const variables = {
         first: limit,
         includeInactive
       };
 
-      const data = (await shopifyClient.request(query, variables)) as {
+      const data = (await shopifyClient.request(
+        GET_LOCATIONS_QUERY,
+        variables
+      )) as {
         locations: {
           edges: Array<{
             node: {
@@ -124,11 +132,7 @@ const getLocations = {
       };
     } catch (error) {
       console.error("Error fetching locations:", error);
-      throw new Error(
-        `Failed to fetch locations: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
+      throw toolError("Failed to fetch locations", error);
     }
   }
 };
@@ -0,0 +1,270 @@
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { z } from "zod";
+import { toolError } from "../utils/errors.js";
+import { idDescription, resolveId } from "../utils/ids.js";
+import {
+  GET_MORE_INVENTORY_LEVELS_QUERY,
+  INVENTORY_LEVELS_FIELDS,
+  fetchInventoryItems,
+  type InventoryLevelNode
+} from "../utils/inventoryItems.js";
+import type { Connection } from "../utils/pagination.js";
+
+// Input schema for getLowStockReport
+const GetLowStockReportInputSchema = z.object({
+  threshold: z
+    .number()
+    .int()
+    .min(0)
+    .default(5)
+    .describe(
+      "Report stock at a location when this many or fewer units are available"
+    ),
+  locationThresholds: z
+    .array(
+      z.object({
+        locationId: z.string().min(1).describe(idDescription("Location")),
+        threshold: z.number().int().min(0)
+      })
+    )
+    .optional()
+    .describe("Thresholds for particular locations, overriding threshold"),
+  thresholdMetafield: z
+    .object({
+      namespace: z.string().min(1),
+      key: z.string().min(1)
+    })
+    .optional()
+    .describe(
+      "Variant metafield holding a variant's own threshold as an integer, overriding the other thresholds at every location"
+    ),
+  locationIds: z
+    .array(z.string().min(1))
+    .optional()
+    .describe(`Only report these locations. ${idDescription("Location")}`),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(250)
+    .default(50)
+    .describe("Maximum number of low-stock entries to return"),
+  maxScannedItems: z
+    .number()
+    .int()
+    .min(1)
+    .max(50000)
+    .default(10000)
+    .describe("Stop after checking this many inventory items")
+});
+
+type GetLowStockReportInput = z.infer<typeof GetLowStockReportInputSchema>;
+
+// Inventory item fields selected by the GetLowStockLevels query
+type StockItemNode = {
+  id: string;
+  sku: string | null;
+  tracked: boolean;
+  inventoryLevels: Connection<InventoryLevelNode>;
+  variant: {
+    id: string;
+    title: string;
+    product: {
+      id: string;
+      title: string;
+    };
+    thresholdMetafield?: { value: string } | null;
+  } | null;
+};
+
+type SeverityFields = {
+  available: number;
+  threshold: number;
+  status: string;
+  sku: string | null;
+};
+
+// Will be initialized by the tool registry
+let shopifyClient: GraphQLClient;
+
+const GET_LOW_STOCK_LEVELS_QUERY = gql`
+  query GetLowStockLevels(
+    $first: Int
+    $after: String
+    $withMetafield: Boolean!
+    $metafieldNamespace: String
+    $metafieldKey: String!
+  ) {
+    inventoryItems(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          sku
+          tracked
+          ${INVENTORY_LEVELS_FIELDS}
+          variant {
+            id
+            title
+            product {
+              id
+              title
+            }
+            thresholdMetafield: metafield(
+              namespace: $metafieldNamespace
+              key: $metafieldKey
+            ) @include(if: $withMetafield) {
+              value
+            }
+          }
+        }
+      }
+      pageInfo {
+        hasNextPage
+        hasPreviousPage
+        startCursor
+        endCursor
+      }
+    }
+  }
+`;
+
+const getLowStockReport = {
+  name: "get-low-stock-report",
+  description:
+    "Find tracked inventory that is out of stock or running low at each location, against a global, per-location or per-variant metafield threshold. Most severe first",
+  schema: GetLowStockReportInputSchema,
+  documents: [GET_LOW_STOCK_LEVELS_QUERY, GET_MORE_INVENTORY_LEVELS_QUERY],
+  scopes: ["read_inventory", "read_products"],
+  listField: "items",
+  cacheTtlSeconds: 30,
+
+  initialize(client: GraphQLClient) {
+    shopifyClient = client;
+  },
+
+  execute: async (input: GetLowStockReportInput) => {
+    try {
+      const { threshold, thresholdMetafield, limit, maxScannedItems } = input;
+
+      const locationThresholds = new Map<string, number>();
+      for (const override of input.locationThresholds ?? []) {
+        locationThresholds.set(
+          await resolveId(shopifyClient, "Location", override.locationId),
+          override.threshold
+        );
+      }
+      const locationIds = input.locationIds
+        ? await Promise.all(
+            input.locationIds.map((id) =>
+              resolveId(shopifyClient, "Location", id)
+            )
+          )
+        : undefined;
+
+      const { nodes, pageInfo } = await fetchInventoryItems<StockItemNode>(
+        shopifyClient,
+        GET_LOW_STOCK_LEVELS_QUERY,
+        {
+          withMetafield: thresholdMetafield !== undefined,
+          metafieldNamespace: thresholdMetafield?.namespace,
+          metafieldKey: thresholdMetafield?.key ?? ""
+        },
+        maxScannedItems
+      );
+
+      // Shopify only counts stock for tracked items
+      const trackedItems = nodes.filter((item) => item.tracked);
+
+      const entries = trackedItems.flatMap((item) => {
+        const variantThreshold = parseThreshold(
+          item.variant?.thresholdMetafield?.value
+        );
+
+        return item.inventoryLevels.edges
+          .map((edge) => edge.node)
+          .filter(
+            (level) => !locationIds || locationIds.includes(level.location.id)
+          )
+          .map((level) => {
+            const quantities: Record<string, number> = {};
+            level.quantities.forEach((q) => {
+              quantities[q.name] = q.quantity;
+            });
+            const available = quantities["available"] || 0;
+
+            // The most specific threshold wins
+            let levelThreshold = threshold;
+            let thresholdSource = "default";
+            if (variantThreshold !== undefined) {
+              levelThreshold = variantThreshold;
+              thresholdSource = "metafield";
+            } else if (locationThresholds.has(level.location.id)) {
+              levelThreshold = locationThresholds.get(level.location.id)!;
+              thresholdSource = "location";
+            }
+
+            return {
+              inventoryItemId: item.id,
+              sku: item.sku,
+              productId: item.variant?.product.id ?? null,
+              productTitle: item.variant?.product.title ?? null,
+              variantId: item.variant?.id ?? null,
+              variantTitle: item.variant?.title ?? null,
+              locationId: level.location.id,
+              locationName: level.location.name,
+              available,
+              incoming: quantities["incoming"] || 0,
+              onHand: quantities["on_hand"] || 0,
+              threshold: levelThreshold,
+              thresholdSource,
+              shortfall: Math.max(levelThreshold - available, 0),
+              status: available <= 0 ? "out_of_stock" : "low_stock"
+            };
+          })
+          .filter((entry) => entry.available <= entry.threshold);
+      });
+
+      entries.sort(bySeverity);
+
+      return {
+        items: entries.slice(0, limit),
+        itemCount: Math.min(entries.length, limit),
+        outOfStockCount: entries.filter(
+          (entry) => entry.status === "out_of_stock"
+        ).length,
+        lowStockCount: entries.filter((entry) => entry.status === "low_stock")
+          .length,
+        scannedItemCount: nodes.length,
+        // More items remain past maxScannedItems
+        complete: !pageInfo.hasNextPage
+      };
+    } catch (error) {
+      console.error("Error building low stock report:", error);
+      throw toolError("Failed to build low stock report", error);
+    }
+  }
+};
+
+// Integer metafield value, or undefined when missing or not a whole number
+function parseThreshold(value: string | undefined): number | undefined {
+  if (value === undefined || !/^\s*\d+\s*$/.test(value)) {
+    return undefined;
+  }
+  return Number(value);
+}
+
+// Out of stock first, most oversold first; then the lowest share of the
+// threshold still available
+function bySeverity(a: SeverityFields, b: SeverityFields): number {
+  if (a.status !== b.status) {
+    return a.status === "out_of_stock" ? -1 : 1;
+  }
+  const severity =
+    a.status === "out_of_stock"
+      ? a.available - b.available
+      : a.available / a.threshold - b.available / b.threshold;
+  return severity || (a.sku ?? "").localeCompare(b.sku ?? "");
+}
+
+export { getLowStockReport };
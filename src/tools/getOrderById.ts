@@ -1,21 +1,111 @@
 import type { GraphQLClient } from "graphql-request";
 import { gql } from "graphql-request";
 import { z } from "zod";
+import { ShopifyToolError, toolError } from "../utils/errors.js";
+import { ID_LOOKUP_DOCUMENTS, idDescription, resolveId } from "../utils/ids.js";
 
 // Input schema for getOrderById
 const GetOrderByIdInputSchema = z.object({
-  orderId: z.string().min(1)
+  orderId: z.string().min(1).describe(idDescription("Order"))
 });
 
 type GetOrderByIdInput = z.infer<typeof GetOrderByIdInputSchema>;
 
-// Will be initialized in index.ts
+// Will be initialized by the tool registry
 let shopifyClient: GraphQLClient;
 
+const GET_ORDER_BY_ID_QUERY = gql`
+  query GetOrderById($id: ID!) {
+    order(id: $id) {
+      id
+      name
+      createdAt
+      displayFinancialStatus
+      displayFulfillmentStatus
+      totalPriceSet {
+        shopMoney {
+          amount
+          currencyCode
+        }
+      }
+      subtotalPriceSet {
+        shopMoney {
+          amount
+          currencyCode
+        }
+      }
+      totalShippingPriceSet {
+        shopMoney {
+          amount
+          currencyCode
+        }
+      }
+      totalTaxSet {
+        shopMoney {
+          amount
+          currencyCode
+        }
+      }
+      customer {
+        id
+        firstName
+        lastName
+        email
+        phone
+      }
+      shippingAddress {
+        address1
+        address2
+        city
+        provinceCode
+        zip
+        country
+        phone
+      }
+      lineItems(first: 20) {
+        edges {
+          node {
+            id
+            title
+            quantity
+            originalTotalSet {
+              shopMoney {
+                amount
+                currencyCode
+              }
+            }
+            variant {
+              id
+              title
+              sku
+            }
+          }
+        }
+      }
+      tags
+      note
+      metafields(first: 20) {
+        edges {
+          node {
+            id
+            namespace
+            key
+            value
+            type
+          }
+        }
+      }
+    }
+  }
+`;
+
 const getOrderById = {
   name: "get-order-by-id",
   description: "Get a specific order by ID",
   schema: GetOrderByIdInputSchema,
+  documents: [GET_ORDER_BY_ID_QUERY, ...ID_LOOKUP_DOCUMENTS.Order],
+  scopes: ["read_orders", "read_customers"],
+  cacheTtlSeconds: 30,
 
   // Add initialize method to set up the GraphQL client
   initialize(client: GraphQLClient) {
@@ -26,101 +116,21 @@ const getOrderById = {
     try {
       const { orderId } = input;
 
-      const query = gql`
-        query GetOrderById($id: ID!) {
-          order(id: $id) {
-            id
-            name
-            createdAt
-            displayFinancialStatus
-            displayFulfillmentStatus
-            totalPriceSet {
-              shopMoney {
-                amount
-                currencyCode
-              }
-            }
-            subtotalPriceSet {
-              shopMoney {
-                amount
-                currencyCode
-              }
-            }
-            totalShippingPriceSet {
-              shopMoney {
-                amount
-                currencyCode
-              }
-            }
-            totalTaxSet {
-              shopMoney {
-                amount
-                currencyCode
-              }
-            }
-            customer {
-              id
-              firstName
-              lastName
-              email
-              phone
-            }
-            shippingAddress {
-              address1
-              address2
-              city
-              provinceCode
-              zip
-              country
-              phone
-            }
-            lineItems(first: 20) {
-              edges {
-                node {
-                  id
-                  title
-                  quantity
-                  originalTotalSet {
-                    shopMoney {
-                      amount
-                      currencyCode
-                    }
-                  }
-                  variant {
-                    id
-                    title
-                    sku
-                  }
-                }
-              }
-            }
-            tags
-            note
-            metafields(first: 20) {
-              edges {
-                node {
-                  id
-                  namespace
-                  key
-                  value
-                  type
-                }
-              }
-            }
-          }
-        }
-      `;
-
       const variables = {
-        id: orderId
+        id: await resolveId(shopifyClient, "Order", orderId)
       };
 
-      const data = (await shopifyClient.request(query, variables)) as {
+      const data = (await shopifyClient.request(
+        GET_ORDER_BY_ID_QUERY,
+        variables
+      )) as {
         order: any;
       };
 
       if (!data.order) {
-        throw new Error(`Order with ID ${orderId} not found`);
+        throw new ShopifyToolError(`Order with ID ${orderId} not found`, {
+          category: "not_found"
+        });
       }
 
       // Extract and format order data
@@ -185,11 +195,7 @@ const getOrderById = {
       return { order: formattedOrder };
     } catch (error) {
       console.error("Error fetching order by ID:", error);
-      throw new Error(
-        `Failed to fetch order: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
+      throw toolError("Failed to fetch order", error);
     }
   }
 };
@@ -1,22 +1,136 @@
 import type { GraphQLClient } from "graphql-request";
 import { gql } from "graphql-request";
 import { z } from "zod";
+import { toolError } from "../utils/errors.js";
+import {
+  fetchPages,
+  paginationInputShape,
+  type Connection,
+  type CursorVariables
+} from "../utils/pagination.js";
 
 // Input schema for getOrders
 const GetOrdersInputSchema = z.object({
   status: z.enum(["any", "open", "closed", "cancelled"]).default("any"),
-  limit: z.number().default(10)
+  // A page of 30 orders with their line items stays under Shopify's 1000-point
+  // single query cost limit
+  limit: z
+    .number()
+    .min(1)
+    .max(30)
+    .default(10)
+    .describe("Maximum number of orders to return per page"),
+  ...paginationInputShape
 });
 
 type GetOrdersInput = z.infer<typeof GetOrdersInputSchema>;
 
-// Will be initialized in index.ts
+// Will be initialized by the tool registry
 let shopifyClient: GraphQLClient;
 
+const GET_ORDERS_QUERY = gql`
+  query GetOrders(
+    $first: Int
+    $last: Int
+    $after: String
+    $before: String
+    $query: String
+  ) {
+    orders(
+      first: $first
+      last: $last
+      after: $after
+      before: $before
+      query: $query
+    ) {
+      edges {
+        node {
+          id
+          name
+          createdAt
+          displayFinancialStatus
+          displayFulfillmentStatus
+          totalPriceSet {
+            shopMoney {
+              amount
+              currencyCode
+            }
+          }
+          subtotalPriceSet {
+            shopMoney {
+              amount
+              currencyCode
+            }
+          }
+          totalShippingPriceSet {
+            shopMoney {
+              amount
+              currencyCode
+            }
+          }
+          totalTaxSet {
+            shopMoney {
+              amount
+              currencyCode
+            }
+          }
+          customer {
+            id
+            firstName
+            lastName
+            email
+          }
+          shippingAddress {
+            address1
+            address2
+            city
+            provinceCode
+            zip
+            country
+            phone
+          }
+          lineItems(first: 5) {
+            edges {
+              node {
+                id
+                title
+                quantity
+                originalTotalSet {
+                  shopMoney {
+                    amount
+                    currencyCode
+                  }
+                }
+                variant {
+                  id
+                  title
+                  sku
+                }
+              }
+            }
+          }
+          tags
+          note
+        }
+      }
+      pageInfo {
+        hasNextPage
+        hasPreviousPage
+        startCursor
+        endCursor
+      }
+    }
+  }
+`;
+
 const getOrders = {
   name: "get-orders",
   description: "Get orders with optional filtering by status",
   schema: GetOrdersInputSchema,
+  documents: [GET_ORDERS_QUERY],
+  scopes: ["read_orders", "read_customers"],
+  listField: "orders",
+  cacheTtlSeconds: 30,
 
   // Add initialize method to set up the GraphQL client
   initialize(client: GraphQLClient) {
@@ -25,7 +139,7 @@ const getOrders = {
 
   execute: async (input: GetOrdersInput) => {
     try {
-      const { status, limit } = input;
+      const { status, limit, after, before, maxItems } = input;
 
       // Build query filters
       let queryFilter = "";
@@ -33,96 +147,26 @@ const getOrders = {
         queryFilter = `status:${status}`;
       }
 
-      const query = gql`
-        query GetOrders($first: Int!, $query: String) {
-          orders(first: $first, query: $query) {
-            edges {
-              node {
-                id
-                name
-                createdAt
-                displayFinancialStatus
-                displayFulfillmentStatus
-                totalPriceSet {
-                  shopMoney {
-                    amount
-                    currencyCode
-                  }
-                }
-                subtotalPriceSet {
-                  shopMoney {
-                    amount
-                    currencyCode
-                  }
-                }
-                totalShippingPriceSet {
-                  shopMoney {
-                    amount
-                    currencyCode
-                  }
-                }
-                totalTaxSet {
-                  shopMoney {
-                    amount
-                    currencyCode
-                  }
-                }
-                customer {
-                  id
-                  firstName
-                  lastName
-                  email
-                }
-                shippingAddress {
-                  address1
-                  address2
-                  city
-                  provinceCode
-                  zip
-                  country
-                  phone
-                }
-                lineItems(first: 10) {
-                  edges {
-                    node {
-                      id
-                      title
-                      quantity
-                      originalTotalSet {
-                        shopMoney {
-                          amount
-                          currencyCode
-                        }
-                      }
-                      variant {
-                        id
-                        title
-                        sku
-                      }
-                    }
-                  }
-                }
-                tags
-                note
-              }
-            }
-          }
-        }
-      `;
-
-      const variables = {
-        first: limit,
-        query: queryFilter || undefined
-      };
+      const { nodes, pageInfo } = await fetchPages(
+        async (cursorVariables: CursorVariables) => {
+          const variables = {
+            ...cursorVariables,
+            query: queryFilter || undefined
+          };
 
-      const data = (await shopifyClient.request(query, variables)) as {
-        orders: any;
-      };
+          const data = (await shopifyClient.request(
+            GET_ORDERS_QUERY,
+            variables
+          )) as {
+            orders: Connection<any>;
+          };
+          return data.orders;
+        },
+        { limit, after, before, maxItems }
+      );
 
       // Extract and format order data
-      const orders = data.orders.edges.map((edge: any) => {
-        const order = edge.node;
-
+      const orders = nodes.map((order: any) => {
         // Format line items
         const lineItems = order.lineItems.edges.map((lineItemEdge: any) => {
           const lineItem = lineItemEdge.node;
@@ -166,14 +210,10 @@ const getOrders = {
         };
       });
 
-      return { orders };
+      return { orders, pageInfo };
     } catch (error) {
       console.error("Error fetching orders:", error);
-      throw new Error(
-        `Failed to fetch orders: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
+      throw toolError("Failed to fetch orders", error);
     }
   }
 };
@@ -1,21 +1,95 @@
 import type { GraphQLClient } from "graphql-request";
 import { gql } from "graphql-request";
 import { z } from "zod";
+import { ShopifyToolError, toolError } from "../utils/errors.js";
+import { ID_LOOKUP_DOCUMENTS, idDescription, resolveId } from "../utils/ids.js";
+import { MEDIA_FIELDS, formatMedia } from "../utils/productMedia.js";
 
 // Input schema for getProductById
 const GetProductByIdInputSchema = z.object({
-  productId: z.string().min(1)
+  productId: z.string().min(1).describe(idDescription("Product"))
 });
 
 type GetProductByIdInput = z.infer<typeof GetProductByIdInputSchema>;
 
-// Will be initialized in index.ts
+// Will be initialized by the tool registry
 let shopifyClient: GraphQLClient;
 
+const GET_PRODUCT_BY_ID_QUERY = gql`
+  query GetProductById($id: ID!) {
+    product(id: $id) {
+      id
+      title
+      description
+      handle
+      status
+      createdAt
+      updatedAt
+      totalInventory
+      priceRangeV2 {
+        minVariantPrice {
+          amount
+          currencyCode
+        }
+        maxVariantPrice {
+          amount
+          currencyCode
+        }
+      }
+      images(first: 5) {
+        edges {
+          node {
+            id
+            url
+            altText
+            width
+            height
+          }
+        }
+      }
+      media(first: 20) {
+        edges {
+          node {
+            ${MEDIA_FIELDS}
+          }
+        }
+      }
+      variants(first: 20) {
+        edges {
+          node {
+            id
+            title
+            price
+            inventoryQuantity
+            sku
+            selectedOptions {
+              name
+              value
+            }
+          }
+        }
+      }
+      collections(first: 5) {
+        edges {
+          node {
+            id
+            title
+          }
+        }
+      }
+      tags
+      vendor
+    }
+  }
+`;
+
 const getProductById = {
   name: "get-product-by-id",
   description: "Get a specific product by ID",
   schema: GetProductByIdInputSchema,
+  documents: [GET_PRODUCT_BY_ID_QUERY, ...ID_LOOKUP_DOCUMENTS.Product],
+  scopes: ["read_products"],
+  cacheTtlSeconds: 60,
 
   // Add initialize method to set up the GraphQL client
   initialize(client: GraphQLClient) {
@@ -26,77 +100,21 @@ const getProductById = {
     try {
       const { productId } = input;
 
-      const query = gql`
-        query GetProductById($id: ID!) {
-          product(id: $id) {
-            id
-            title
-            description
-            handle
-            status
-            createdAt
-            updatedAt
-            totalInventory
-            priceRangeV2 {
-              minVariantPrice {
-                amount
-                currencyCode
-              }
-              maxVariantPrice {
-                amount
-                currencyCode
-              }
-            }
-            images(first: 5) {
-              edges {
-                node {
-                  id
-                  url
-                  altText
-                  width
-                  height
-                }
-              }
-            }
-            variants(first: 20) {
-              edges {
-                node {
-                  id
-                  title
-                  price
-                  inventoryQuantity
-                  sku
-                  selectedOptions {
-                    name
-                    value
-                  }
-                }
-              }
-            }
-            collections(first: 5) {
-              edges {
-                node {
-                  id
-                  title
-                }
-              }
-            }
-            tags
-            vendor
-          }
-        }
-      `;
-
       const variables = {
-        id: productId
+        id: await resolveId(shopifyClient, "Product", productId)
       };
 
-      const data = (await shopifyClient.request(query, variables)) as {
+      const data = (await shopifyClient.request(
+        GET_PRODUCT_BY_ID_QUERY,
+        variables
+      )) as {
         product: any;
       };
 
       if (!data.product) {
-        throw new Error(`Product with ID ${productId} not found`);
+        throw new ShopifyToolError(`Product with ID ${productId} not found`, {
+          category: "not_found"
+        });
       }
 
       // Format product data
@@ -121,6 +139,11 @@ const getProductById = {
         height: imageEdge.node.height
       }));
 
+      // Format media, whose IDs the media tools take
+      const media = product.media.edges.map((mediaEdge: any) =>
+        formatMedia(mediaEdge.node)
+      );
+
       // Format collections
       const collections = product.collections.edges.map(
         (collectionEdge: any) => ({
@@ -149,6 +172,7 @@ const getProductById = {
           }
         },
         images,
+        media,
         variants,
         collections,
         tags: product.tags,
@@ -158,11 +182,7 @@ const getProductById = {
       return { product: formattedProduct };
     } catch (error) {
       console.error("Error fetching product by ID:", error);
-      throw new Error(
-        `Failed to fetch product: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
+      throw toolError("Failed to fetch product", error);
     }
   }
 };
@@ -1,22 +1,190 @@
 import type { GraphQLClient } from "graphql-request";
 import { gql } from "graphql-request";
 import { z } from "zod";
+import { toolError } from "../utils/errors.js";
+import {
+  ID_LOOKUP_DOCUMENTS,
+  idDescription,
+  numericId,
+  resolveId,
+  searchValue
+} from "../utils/ids.js";
+import {
+  fetchPages,
+  paginationInputShape,
+  type Connection,
+  type CursorVariables
+} from "../utils/pagination.js";
+
+const isoDate = z
+  .string()
+  .regex(
+    /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:\d{2})?)?$/,
+    "Expected an ISO 8601 date like 2024-01-31"
+  );
 
 // Input schema for getProducts
 const GetProductsInputSchema = z.object({
-  searchTitle: z.string().optional(),
-  limit: z.number().default(10)
+  searchTitle: z.string().optional().describe("Filter products by title"),
+  vendor: z.string().optional(),
+  productType: z.string().optional(),
+  tags: z
+    .array(z.string())
+    .optional()
+    .describe("Only products with all of these tags"),
+  status: z
+    .array(z.enum(["ACTIVE", "DRAFT", "ARCHIVED"]))
+    .optional()
+    .describe("Only products with one of these statuses"),
+  createdAfter: isoDate.optional(),
+  createdBefore: isoDate.optional(),
+  updatedAfter: isoDate.optional(),
+  updatedBefore: isoDate.optional(),
+  minInventoryTotal: z
+    .number()
+    .int()
+    .optional()
+    .describe("Minimum total inventory across all variants and locations"),
+  maxInventoryTotal: z
+    .number()
+    .int()
+    .optional()
+    .describe("Maximum total inventory across all variants and locations"),
+  minPrice: z
+    .number()
+    .min(0)
+    .optional()
+    .describe("Only products with a variant at or above this price"),
+  maxPrice: z
+    .number()
+    .min(0)
+    .optional()
+    .describe("Only products with a variant at or below this price"),
+  collectionId: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(`Only products in this collection. ${idDescription("Collection")}`),
+  query: z
+    .string()
+    .optional()
+    .describe(
+      "Extra filter in Shopify search syntax, combined with the others. Examples: 'sku:TEE-*', 'barcode:0123456789012', 'gift_card:true', '-tag:clearance'"
+    ),
+  sortKey: z
+    .enum([
+      "CREATED_AT",
+      "ID",
+      "INVENTORY_TOTAL",
+      "PRODUCT_TYPE",
+      "RELEVANCE",
+      "TITLE",
+      "UPDATED_AT",
+      "VENDOR"
+    ])
+    .optional()
+    .describe(
+      "Field to sort products by. Shopify sorts by ID when left out; RELEVANCE needs a search"
+    ),
+  reverse: z
+    .boolean()
+    .default(false)
+    .describe("Reverse sort order (true = descending)"),
+  // A page of 70 products with their variants stays under Shopify's 1000-point
+  // single query cost limit
+  limit: z
+    .number()
+    .min(1)
+    .max(70)
+    .default(10)
+    .describe("Maximum number of products to return per page"),
+  ...paginationInputShape
 });
 
 type GetProductsInput = z.infer<typeof GetProductsInputSchema>;
 
-// Will be initialized in index.ts
+// Will be initialized by the tool registry
 let shopifyClient: GraphQLClient;
 
+const GET_PRODUCTS_QUERY = gql`
+  query GetProducts(
+    $first: Int
+    $last: Int
+    $after: String
+    $before: String
+    $query: String
+    $sortKey: ProductSortKeys
+    $reverse: Boolean
+  ) {
+    products(
+      first: $first
+      last: $last
+      after: $after
+      before: $before
+      query: $query
+      sortKey: $sortKey
+      reverse: $reverse
+    ) {
+      edges {
+        node {
+          id
+          title
+          description
+          handle
+          status
+          createdAt
+          updatedAt
+          totalInventory
+          priceRangeV2 {
+            minVariantPrice {
+              amount
+              currencyCode
+            }
+            maxVariantPrice {
+              amount
+              currencyCode
+            }
+          }
+          images(first: 1) {
+            edges {
+              node {
+                url
+                altText
+              }
+            }
+          }
+          variants(first: 5) {
+            edges {
+              node {
+                id
+                title
+                price
+                inventoryQuantity
+                sku
+              }
+            }
+          }
+        }
+      }
+      pageInfo {
+        hasNextPage
+        hasPreviousPage
+        startCursor
+        endCursor
+      }
+    }
+  }
+`;
+
 const getProducts = {
   name: "get-products",
-  description: "Get all products or search by title",
+  description:
+    "Get products, filtered by title, vendor, type, tags, status, dates, inventory, price, collection or a raw Shopify search query, and sorted",
   schema: GetProductsInputSchema,
+  documents: [GET_PRODUCTS_QUERY, ...ID_LOOKUP_DOCUMENTS.Collection],
+  scopes: ["read_products"],
+  listField: "products",
+  cacheTtlSeconds: 60,
 
   // Add initialize method to set up the GraphQL client
   initialize(client: GraphQLClient) {
@@ -25,70 +193,31 @@ const getProducts = {
 
   execute: async (input: GetProductsInput) => {
     try {
-      const { searchTitle, limit } = input;
+      const { limit, sortKey, reverse, after, before, maxItems } = input;
+      const searchQuery = await buildProductQuery(input);
 
-      // Create query based on whether we're searching by title or not
-      const query = gql`
-        query GetProducts($first: Int!, $query: String) {
-          products(first: $first, query: $query) {
-            edges {
-              node {
-                id
-                title
-                description
-                handle
-                status
-                createdAt
-                updatedAt
-                totalInventory
-                priceRangeV2 {
-                  minVariantPrice {
-                    amount
-                    currencyCode
-                  }
-                  maxVariantPrice {
-                    amount
-                    currencyCode
-                  }
-                }
-                images(first: 1) {
-                  edges {
-                    node {
-                      url
-                      altText
-                    }
-                  }
-                }
-                variants(first: 5) {
-                  edges {
-                    node {
-                      id
-                      title
-                      price
-                      inventoryQuantity
-                      sku
-                    }
-                  }
-                }
-              }
-            }
-          }
-        }
-      `;
+      const { nodes, pageInfo } = await fetchPages(
+        async (cursorVariables: CursorVariables) => {
+          const variables = {
+            ...cursorVariables,
+            query: searchQuery,
+            sortKey,
+            reverse
+          };
 
-      const variables = {
-        first: limit,
-        query: searchTitle ? `title:*${searchTitle}*` : undefined
-      };
-
-      const data = (await shopifyClient.request(query, variables)) as {
-        products: any;
-      };
+          const data = (await shopifyClient.request(
+            GET_PRODUCTS_QUERY,
+            variables
+          )) as {
+            products: Connection<any>;
+          };
+          return data.products;
+        },
+        { limit, after, before, maxItems }
+      );
 
       // Extract and format product data
-      const products = data.products.edges.map((edge: any) => {
-        const product = edge.node;
-
+      const products = nodes.map((product: any) => {
         // Format variants
         const variants = product.variants.edges.map((variantEdge: any) => ({
           id: variantEdge.node.id,
@@ -128,16 +257,70 @@ const getProducts = {
         };
       });
 
-      return { products };
+      return {
+        ...(searchQuery && { query: searchQuery }),
+        products,
+        pageInfo
+      };
     } catch (error) {
       console.error("Error fetching products:", error);
-      throw new Error(
-        `Failed to fetch products: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
+      throw toolError("Failed to fetch products", error);
     }
   }
 };
 
+// Build the Shopify search query for the filters, joined with AND
+async function buildProductQuery(
+  input: GetProductsInput
+): Promise<string | undefined> {
+  const filters: string[] = [];
+
+  if (input.searchTitle) {
+    filters.push(`title:*${input.searchTitle}*`);
+  }
+  if (input.vendor) {
+    filters.push(`vendor:${searchValue(input.vendor)}`);
+  }
+  if (input.productType) {
+    filters.push(`product_type:${searchValue(input.productType)}`);
+  }
+  for (const tag of input.tags ?? []) {
+    filters.push(`tag:${searchValue(tag)}`);
+  }
+  if (input.status && input.status.length > 0) {
+    filters.push(`status:${input.status.join(",").toLowerCase()}`);
+  }
+
+  // Ranges are inclusive at both ends
+  const ranges: Array<[string, string | number | undefined, string]> = [
+    ["created_at", input.createdAfter, ">="],
+    ["created_at", input.createdBefore, "<="],
+    ["updated_at", input.updatedAfter, ">="],
+    ["updated_at", input.updatedBefore, "<="],
+    ["inventory_total", input.minInventoryTotal, ">="],
+    ["inventory_total", input.maxInventoryTotal, "<="],
+    ["price", input.minPrice, ">="],
+    ["price", input.maxPrice, "<="]
+  ];
+  for (const [field, value, operator] of ranges) {
+    if (value !== undefined) {
+      filters.push(`${field}:${operator}${value}`);
+    }
+  }
+
+  if (input.collectionId) {
+    const collectionGid = await resolveId(
+      shopifyClient,
+      "Collection",
+      input.collectionId
+    );
+    filters.push(`collection_id:${numericId(collectionGid)}`);
+  }
+  if (input.query?.trim()) {
+    filters.push(`(${input.query.trim()})`);
+  }
+
+  return filters.length > 0 ? filters.join(" AND ") : undefined;
+}
+
 export { getProducts };
@@ -0,0 +1,101 @@
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { z } from "zod";
+import { toolError } from "../utils/errors.js";
+import { MultiStoreClient } from "../utils/stores.js";
+
+// Input schema for listStores
+const ListStoresInputSchema = z.object({
+  includeShopDetails: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Also query each store for its shop name, currency and plan (one API call per store)"
+    )
+});
+
+type ListStoresInput = z.infer<typeof ListStoresInputSchema>;
+
+// Will be initialized by the tool registry
+let shopifyClient: GraphQLClient;
+
+const GET_SHOP_DETAILS_QUERY = gql`
+  query GetShopDetails {
+    shop {
+      name
+      currencyCode
+      ianaTimezone
+      plan {
+        displayName
+      }
+    }
+  }
+`;
+
+const listStores = {
+  name: "list-stores",
+  description:
+    "List the Shopify stores this server is configured for. Pass a store name as the 'store' argument of any other tool to query that store.",
+  schema: ListStoresInputSchema,
+  documents: [GET_SHOP_DETAILS_QUERY],
+  storeArgument: false,
+
+  initialize(client: GraphQLClient) {
+    shopifyClient = client;
+  },
+
+  execute: async (input: ListStoresInput) => {
+    try {
+      const { includeShopDetails } = input;
+
+      if (!(shopifyClient instanceof MultiStoreClient)) {
+        throw new Error("Store routing is not configured");
+      }
+      const storeClient = shopifyClient;
+
+      const stores = await Promise.all(
+        storeClient.listStores().map(async (store) => {
+          if (!includeShopDetails) {
+            return store;
+          }
+
+          try {
+            const data = await storeClient.runWithStore(store.name, () =>
+              storeClient.request<{
+                shop: {
+                  name: string;
+                  currencyCode: string;
+                  ianaTimezone: string;
+                  plan: { displayName: string };
+                };
+              }>(GET_SHOP_DETAILS_QUERY)
+            );
+            return {
+              ...store,
+              shopName: data.shop.name,
+              currencyCode: data.shop.currencyCode,
+              timezone: data.shop.ianaTimezone,
+              plan: data.shop.plan.displayName
+            };
+          } catch (error) {
+            return {
+              ...store,
+              error: error instanceof Error ? error.message : String(error)
+            };
+          }
+        })
+      );
+
+      return {
+        defaultStore: storeClient.defaultStore,
+        stores,
+        storeCount: stores.length
+      };
+    } catch (error) {
+      console.error("Error listing stores:", error);
+      throw toolError("Failed to list stores", error);
+    }
+  }
+};
+
+export { listStores };
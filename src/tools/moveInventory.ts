@@ -0,0 +1,193 @@
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { z } from "zod";
+import { withAudit } from "../utils/auditLog.js";
+import { dryRunInputShape } from "../utils/dryRun.js";
+import { toolError, userErrorsToToolError } from "../utils/errors.js";
+import { ID_LOOKUP_DOCUMENTS } from "../utils/ids.js";
+import {
+  ADJUSTMENT_GROUP_FIELDS,
+  GET_INVENTORY_LEVEL_QUERY,
+  appliedChanges,
+  fetchInventoryLevels,
+  inventoryChangeInputShape,
+  inventoryLineShape,
+  plannedChange,
+  resolveInventoryLines,
+  type InventoryAdjustmentGroup
+} from "../utils/inventoryQuantities.js";
+import { INVENTORY_REPORT_TOOLS } from "../utils/responseCache.js";
+
+// Will be initialized by the tool registry
+let shopifyClient: GraphQLClient;
+
+// Quantities stock can be moved between; all of them count towards on_hand
+const MovableQuantityName = z.enum([
+  "available",
+  "damaged",
+  "quality_control",
+  "reserved",
+  "safety_stock"
+]);
+
+// Input schema for moveInventory
+// Based on https://shopify.dev/docs/api/admin-graphql/latest/mutations/inventorymovequantities
+const MoveInventoryInputSchema = z.object({
+  ...inventoryChangeInputShape,
+  changes: z
+    .array(
+      z
+        .object({
+          ...inventoryLineShape,
+          quantity: z.number().int().min(1).describe("Amount to move"),
+          from: MovableQuantityName.describe("Quantity to take the stock from"),
+          to: MovableQuantityName.describe("Quantity to put the stock in")
+        })
+        .refine((change) => change.from !== change.to, {
+          message: "from and to must be different quantities",
+          path: ["to"]
+        })
+    )
+    .min(1)
+    .max(250),
+  ...dryRunInputShape
+});
+
+type MoveInventoryInput = z.infer<typeof MoveInventoryInputSchema>;
+
+const INVENTORY_MOVE_QUANTITIES_MUTATION = gql`
+  mutation inventoryMoveQuantities($input: InventoryMoveQuantitiesInput!) {
+    inventoryMoveQuantities(input: $input) {
+      inventoryAdjustmentGroup {
+        ${ADJUSTMENT_GROUP_FIELDS}
+      }
+      userErrors {
+        field
+        message
+        code
+      }
+    }
+  }
+`;
+
+const moveInventory = {
+  name: "move-inventory",
+  description:
+    "Move stock between quantities of an inventory item at one location, e.g. from available to damaged or safety_stock, with a reason and reference document. On-hand stays the same. Returns the quantities before and after",
+  schema: MoveInventoryInputSchema,
+  documents: [
+    INVENTORY_MOVE_QUANTITIES_MUTATION,
+    GET_INVENTORY_LEVEL_QUERY,
+    ...ID_LOOKUP_DOCUMENTS.InventoryItem
+  ],
+  scopes: ["write_inventory", "read_products"],
+  // Product totals and variant quantities change along with the levels
+  cacheInvalidates: [
+    "ProductVariant",
+    "get-products",
+    ...INVENTORY_REPORT_TOOLS
+  ],
+  mutation: true,
+
+  // Add initialize method to set up the GraphQL client
+  initialize(client: GraphQLClient) {
+    shopifyClient = client;
+  },
+
+  execute: async (input: MoveInventoryInput) => {
+    try {
+      const { reason, referenceDocumentUri, dryRun } = input;
+      const changes = await resolveInventoryLines(shopifyClient, input.changes);
+      const levels = await fetchInventoryLevels(shopifyClient, changes);
+
+      if (dryRun) {
+        const planned = changes.flatMap(
+          ({ inventoryItemId, locationId, quantity, from, to }) => {
+            const level = levels.get(inventoryItemId, locationId)!;
+            return [
+              plannedChange(level, from, -quantity),
+              plannedChange(level, to, quantity)
+            ];
+          }
+        );
+        return {
+          dryRun: true,
+          reason,
+          referenceDocumentUri,
+          changes: planned,
+          changeCount: planned.length
+        };
+      }
+
+      // Shopify asks for a ledger document for every quantity but available
+      const terminal = (locationId: string, name: string) => ({
+        locationId,
+        name,
+        ...(name !== "available" && { ledgerDocumentUri: referenceDocumentUri })
+      });
+
+      const data = await withAudit(
+        shopifyClient,
+        {
+          tool: "move-inventory",
+          objectId: null,
+          objectName: referenceDocumentUri,
+          input,
+          before: levels.all()
+        },
+        () =>
+          shopifyClient.request(INVENTORY_MOVE_QUANTITIES_MUTATION, {
+            input: {
+              reason,
+              referenceDocumentUri,
+              changes: changes.map(
+                ({ inventoryItemId, locationId, quantity, from, to }) => ({
+                  inventoryItemId,
+                  quantity,
+                  from: terminal(locationId, from),
+                  to: terminal(locationId, to)
+                })
+              )
+            }
+          }) as Promise<{
+            inventoryMoveQuantities: {
+              inventoryAdjustmentGroup: InventoryAdjustmentGroup | null;
+              userErrors: Array<{
+                field: string[];
+                message: string;
+                code?: string | null;
+              }>;
+            };
+          }>,
+        (result) => ({
+          after: result.inventoryMoveQuantities.inventoryAdjustmentGroup,
+          userErrors: result.inventoryMoveQuantities.userErrors
+        })
+      );
+
+      // If there are user errors, throw an error
+      if (data.inventoryMoveQuantities.userErrors.length > 0) {
+        throw userErrorsToToolError(
+          "Failed to move inventory",
+          data.inventoryMoveQuantities.userErrors
+        );
+      }
+
+      const group = data.inventoryMoveQuantities.inventoryAdjustmentGroup!;
+      const applied = appliedChanges(group, levels);
+
+      return {
+        reason: group.reason,
+        referenceDocumentUri: group.referenceDocumentUri,
+        createdAt: group.createdAt,
+        changes: applied,
+        changeCount: applied.length
+      };
+    } catch (error) {
+      console.error("Error moving inventory:", error);
+      throw toolError("Failed to move inventory", error);
+    }
+  }
+};
+
+export { moveInventory };
@@ -0,0 +1,219 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GraphQLClient } from "graphql-request";
+import { z } from "zod";
+import { toolErrorResult } from "../utils/errors.js";
+import { cacheInputShape, type ResponseCache } from "../utils/responseCache.js";
+import {
+  responseShapeInputShape,
+  shapedResultContent,
+  type ResponseShapeOptions
+} from "../utils/responseFormat.js";
+import type { MultiStoreClient } from "../utils/stores.js";
+
+import { addProductMedia } from "./addProductMedia.js";
+import { adjustInventory } from "./adjustInventory.js";
+import { archiveProduct } from "./archiveProduct.js";
+import { checkConnection } from "./checkConnection.js";
+import { createProduct } from "./createProduct.js";
+import { createProductVariants } from "./createProductVariants.js";
+import { deleteProduct } from "./deleteProduct.js";
+import { deleteProductMedia } from "./deleteProductMedia.js";
+import { deleteProductVariants } from "./deleteProductVariants.js";
+import { diffInventorySnapshot } from "./diffInventorySnapshot.js";
+import { duplicateProduct } from "./duplicateProduct.js";
+import { getAuditLog } from "./getAuditLog.js";
+import { getCollections } from "./getCollections.js";
+import { getCustomerOrders } from "./getCustomerOrders.js";
+import { getCustomers } from "./getCustomers.js";
+import { getInventoryLevels } from "./getInventoryLevels.js";
+import { getInventoryValuation } from "./getInventoryValuation.js";
+import { getLocations } from "./getLocations.js";
+import { getLowStockReport } from "./getLowStockReport.js";
+import { getOrderById } from "./getOrderById.js";
+import { getOrders } from "./getOrders.js";
+import { getProductById } from "./getProductById.js";
+import { getProducts } from "./getProducts.js";
+import { listStores } from "./listStores.js";
+import { moveInventory } from "./moveInventory.js";
+import { reorderProductMedia } from "./reorderProductMedia.js";
+import { saveInventorySnapshot } from "./saveInventorySnapshot.js";
+import { searchOrders } from "./searchOrders.js";
+import { setInventory } from "./setInventory.js";
+import { suggestReorders } from "./suggestReorders.js";
+import { updateCustomer } from "./updateCustomer.js";
+import { updateOrder } from "./updateOrder.js";
+import { updateProduct } from "./updateProduct.js";
+import { updateProductMedia } from "./updateProductMedia.js";
+import { updateProductVariants } from "./updateProductVariants.js";
+
+import { getCustomerAnalytics } from "./analytics/getCustomerAnalytics.js";
+import { getProductPerformance } from "./analytics/getProductPerformance.js";
+import { getSalesReport } from "./analytics/getSalesReport.js";
+import { runShopifyqlQuery } from "./analytics/runShopifyqlQuery.js";
+
+/**
+ * Shape every tool module exports: its MCP name and description, the zod
+ * schema used both for validation and for MCP registration, and its handlers
+ */
+export interface ShopifyTool<TSchema extends z.AnyZodObject = z.AnyZodObject> {
+  name: string;
+  description: string;
+  schema: TSchema;
+  // Set to false for tools that are not about a single store
+  storeArgument?: boolean;
+  // True for tools that write to the store; dropped in read-only mode
+  mutation?: boolean;
+  // Every GraphQL document the tool sends, checked against the Admin API
+  // schema at startup
+  documents?: string[];
+  // Admin API access scopes the tool needs, checked by check-connection. A
+  // write scope also grants its read scope
+  scopes?: string[];
+  // Result property holding the tool's list of records. List tools get the
+  // shared `fields` and `format` arguments applied to it
+  listField?: string;
+  // How long results stay in the response cache; uncached when unset
+  cacheTtlSeconds?: number;
+  // Resource types (e.g. "Product") a mutation creates, so every cached
+  // result with objects of the type is dropped when it runs, and read tools
+  // (e.g. "get-products") whose cached results it may change
+  cacheInvalidates?: string[];
+  // registeredTools is every tool registered alongside this one
+  initialize(client: GraphQLClient, registeredTools?: ShopifyTool[]): void;
+  execute(input: z.infer<TSchema>): Promise<unknown>;
+}
+
+// Every tool the server exposes, in registration order. Adding a tool means
+// writing its module and adding it here.
+export const toolRegistry: ShopifyTool[] = [
+  // Store configuration, connection check and audit log
+  listStores,
+  checkConnection,
+  getAuditLog,
+
+  // Products, customers and orders
+  getProducts,
+  getProductById,
+  getCustomers,
+  getOrders,
+  getOrderById,
+  updateOrder,
+  getCustomerOrders,
+  updateCustomer,
+  createProduct,
+  updateProduct,
+  duplicateProduct,
+  archiveProduct,
+  deleteProduct,
+  createProductVariants,
+  updateProductVariants,
+  deleteProductVariants,
+  addProductMedia,
+  updateProductMedia,
+  reorderProductMedia,
+  deleteProductMedia,
+
+  // ShopifyQL analytics
+  runShopifyqlQuery,
+  getSalesReport,
+  getProductPerformance,
+  getCustomerAnalytics,
+
+  // Enhanced data access
+  getLocations,
+  getInventoryLevels,
+  adjustInventory,
+  setInventory,
+  moveInventory,
+  getLowStockReport,
+  suggestReorders,
+  getInventoryValuation,
+  saveInventorySnapshot,
+  diffInventorySnapshot,
+  getCollections,
+  searchOrders
+];
+
+/**
+ * Initialize each tool with the Shopify client and register it on the MCP
+ * server using the tool's own name, description and schema. Every tool also
+ * gets a `store` argument selecting which configured store the call runs
+ * against, and list tools get `fields` and `format` for shaping their
+ * output, see utils/responseFormat.ts. With a cache, read tools that
+ * declare a TTL are served from it and mutations invalidate it, see
+ * utils/responseCache.ts. Errors are returned as `isError` results, see
+ * utils/errors.ts.
+ */
+export function registerTools(
+  server: McpServer,
+  client: MultiStoreClient,
+  tools: ShopifyTool[] = toolRegistry,
+  cache?: ResponseCache
+) {
+  const storeNames = client.storeNames() as [string, ...string[]];
+  const storeArgument = z
+    .enum(storeNames)
+    .optional()
+    .describe(
+      `Store to run against (see list-stores). Defaults to "${client.defaultStore}"`
+    );
+
+  for (const tool of tools) {
+    tool.initialize(client, tools);
+
+    const withStore = tool.storeArgument !== false;
+    const cacheTtl = cache && withStore ? cache.ttlSeconds(tool) : 0;
+    const shape = {
+      ...tool.schema.shape,
+      ...(tool.listField !== undefined && responseShapeInputShape),
+      ...(cacheTtl > 0 && cacheInputShape),
+      ...(withStore && { store: storeArgument })
+    };
+
+    server.tool(
+      tool.name,
+      tool.description,
+      shape,
+      { readOnlyHint: !tool.mutation },
+      async (args: Record<string, unknown>) => {
+        const { store, fields, format, bypassCache, ...toolArgs } = args;
+        const storeName = (store as string | undefined) ?? client.defaultStore;
+        try {
+          const cacheKey =
+            cache && cacheTtl > 0
+              ? cache.key(storeName, tool.name, toolArgs)
+              : undefined;
+          const cached =
+            cache && cacheKey && !bypassCache ? cache.get(cacheKey) : undefined;
+
+          const result =
+            cached ??
+            (await client.runWithStore(
+              withStore ? storeName : undefined,
+              () => tool.execute(toolArgs)
+            ));
+
+          if (cache && cacheKey && cached === undefined) {
+            cache.set(cacheKey, storeName, tool.name, result, cacheTtl);
+          }
+          if (cache && tool.mutation) {
+            cache.invalidate(storeName, tool, toolArgs, result);
+          }
+          return {
+            content:
+              tool.listField !== undefined
+                ? shapedResultContent(
+                    result as Record<string, unknown>,
+                    tool.listField,
+                    { fields, format } as ResponseShapeOptions
+                  )
+                : [{ type: "text" as const, text: JSON.stringify(result) }]
+          };
+        } catch (error) {
+          // Failures go back as structured results the agent can act on
+          return toolErrorResult(error);
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,175 @@
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { z } from "zod";
+import { withAudit } from "../utils/auditLog.js";
+import { dryRunInputShape } from "../utils/dryRun.js";
+import {
+  ShopifyToolError,
+  toolError,
+  userErrorsToToolError
+} from "../utils/errors.js";
+import { ID_LOOKUP_DOCUMENTS, idDescription, resolveId } from "../utils/ids.js";
+import {
+  GET_PRODUCT_MEDIA_QUERY,
+  fetchProductMedia,
+  matchMedia
+} from "../utils/productMedia.js";
+
+// Will be initialized by the tool registry
+let shopifyClient: GraphQLClient;
+
+// Input schema for reorderProductMedia
+// Based on https://shopify.dev/docs/api/admin-graphql/latest/mutations/productreordermedia
+const ReorderProductMediaInputSchema = z.object({
+  productId: z.string().min(1).describe(idDescription("Product")),
+  mediaIds: z
+    .array(z.string().min(1))
+    .min(1)
+    .describe(
+      "Media IDs in the new order. Media left out keep their relative order after these; the first one becomes the featured media"
+    ),
+  ...dryRunInputShape
+});
+
+type ReorderProductMediaInput = z.infer<typeof ReorderProductMediaInputSchema>;
+
+const PRODUCT_REORDER_MEDIA_MUTATION = gql`
+  mutation productReorderMedia($id: ID!, $moves: [MoveInput!]!) {
+    productReorderMedia(id: $id, moves: $moves) {
+      job {
+        id
+        done
+      }
+      mediaUserErrors {
+        field
+        message
+        code
+      }
+    }
+  }
+`;
+
+const reorderProductMedia = {
+  name: "reorder-product-media",
+  description:
+    "Change the order of a product's media. Shopify applies the new order in a background job",
+  schema: ReorderProductMediaInputSchema,
+  documents: [
+    PRODUCT_REORDER_MEDIA_MUTATION,
+    GET_PRODUCT_MEDIA_QUERY,
+    ...ID_LOOKUP_DOCUMENTS.Product
+  ],
+  scopes: ["write_products"],
+  mutation: true,
+
+  // Add initialize method to set up the GraphQL client
+  initialize(client: GraphQLClient) {
+    shopifyClient = client;
+  },
+
+  execute: async (input: ReorderProductMediaInput) => {
+    try {
+      const { productId: productInput, dryRun } = input;
+      const productId = await resolveId(shopifyClient, "Product", productInput);
+
+      const product = await fetchProductMedia(shopifyClient, productId);
+      const moved = matchMedia(product, input.mediaIds, "mediaIds").map(
+        (media) => media.id
+      );
+      if (new Set(moved).size !== moved.length) {
+        throw new ShopifyToolError("mediaIds lists the same media twice", {
+          category: "validation",
+          field: ["mediaIds"]
+        });
+      }
+
+      const currentOrder = product.media.map((media) => media.id);
+      const newOrder = [
+        ...moved,
+        ...currentOrder.filter((id) => !moved.includes(id))
+      ];
+
+      // Shopify applies moves one after another; only send the ones that
+      // change something at that point
+      const order = [...currentOrder];
+      const moves: Array<{ id: string; newPosition: string }> = [];
+      newOrder.forEach((id, position) => {
+        if (order[position] !== id) {
+          order.splice(order.indexOf(id), 1);
+          order.splice(position, 0, id);
+          moves.push({ id, newPosition: String(position) });
+        }
+      });
+
+      if (dryRun) {
+        const changes =
+          moves.length === 0
+            ? []
+            : [{ field: "media", before: currentOrder, after: newOrder }];
+        return {
+          dryRun: true,
+          product: { id: product.id, title: product.title },
+          changes,
+          changeCount: changes.length
+        };
+      }
+
+      // Already in this order
+      if (moves.length === 0) {
+        return {
+          product: { id: product.id, title: product.title },
+          mediaIds: newOrder,
+          job: null
+        };
+      }
+
+      const data = await withAudit(
+        shopifyClient,
+        {
+          tool: "reorder-product-media",
+          objectId: productId,
+          objectName: product.title,
+          input,
+          before: currentOrder
+        },
+        () =>
+          shopifyClient.request(PRODUCT_REORDER_MEDIA_MUTATION, {
+            id: productId,
+            moves
+          }) as Promise<{
+            productReorderMedia: {
+              job: { id: string; done: boolean } | null;
+              mediaUserErrors: Array<{
+                field: string[];
+                message: string;
+                code: string | null;
+              }>;
+            };
+          }>,
+        (result) => ({
+          after: newOrder,
+          userErrors: result.productReorderMedia.mediaUserErrors
+        })
+      );
+
+      // If there are user errors, throw an error
+      if (data.productReorderMedia.mediaUserErrors.length > 0) {
+        throw userErrorsToToolError(
+          "Failed to reorder product media",
+          data.productReorderMedia.mediaUserErrors
+        );
+      }
+
+      return {
+        product: { id: product.id, title: product.title },
+        mediaIds: newOrder,
+        job: data.productReorderMedia.job
+      };
+    } catch (error) {
+      console.error("Error reordering product media:", error);
+      throw toolError("Failed to reorder product media", error);
+    }
+  }
+};
+
+export { reorderProductMedia };
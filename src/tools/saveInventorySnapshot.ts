@@ -0,0 +1,93 @@
+import type { GraphQLClient } from "graphql-request";
+import { z } from "zod";
+import { toolError } from "../utils/errors.js";
+import { GET_MORE_INVENTORY_LEVELS_QUERY } from "../utils/inventoryItems.js";
+import {
+  GET_INVENTORY_SNAPSHOT_QUERY,
+  checkSnapshotNameFree,
+  saveInventorySnapshot as writeSnapshot,
+  snapshotStore,
+  takeInventorySnapshot
+} from "../utils/inventorySnapshots.js";
+
+// Input schema for saveInventorySnapshot
+const SaveInventorySnapshotInputSchema = z.object({
+  name: z
+    .string()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe(
+      "Name to save the snapshot under, e.g. '2024-01-31'. Letters, digits, '.', '_' and '-'. Defaults to the current time"
+    ),
+  overwrite: z
+    .boolean()
+    .default(false)
+    .describe("Replace an existing snapshot with the same name"),
+  maxScannedItems: z
+    .number()
+    .int()
+    .min(1)
+    .max(50000)
+    .default(10000)
+    .describe("Stop after saving this many inventory items")
+});
+
+type SaveInventorySnapshotInput = z.infer<
+  typeof SaveInventorySnapshotInputSchema
+>;
+
+// Will be initialized by the tool registry
+let shopifyClient: GraphQLClient;
+
+const saveInventorySnapshot = {
+  name: "save-inventory-snapshot",
+  description:
+    "Save the quantities of every tracked inventory item at every location to a local snapshot file, to compare later stock against with diff-inventory-snapshot",
+  schema: SaveInventorySnapshotInputSchema,
+  documents: [GET_INVENTORY_SNAPSHOT_QUERY, GET_MORE_INVENTORY_LEVELS_QUERY],
+  scopes: ["read_inventory", "read_products"],
+
+  initialize(client: GraphQLClient) {
+    shopifyClient = client;
+  },
+
+  execute: async (input: SaveInventorySnapshotInput) => {
+    try {
+      const { overwrite, maxScannedItems } = input;
+      // Colons are not allowed in names, so the default time uses dashes
+      const name =
+        input.name ?? new Date().toISOString().replace(/[:.]/g, "-");
+      if (!overwrite) {
+        await checkSnapshotNameFree(name, snapshotStore(shopifyClient));
+      }
+
+      const snapshot = await takeInventorySnapshot(
+        shopifyClient,
+        name,
+        maxScannedItems
+      );
+      const filePath = await writeSnapshot(snapshot, overwrite);
+      const itemIds = new Set(
+        snapshot.levels.map((level) => level.inventoryItemId)
+      );
+
+      return {
+        name: snapshot.name,
+        path: filePath,
+        takenAt: snapshot.takenAt,
+        store: snapshot.store,
+        itemCount: itemIds.size,
+        levelCount: snapshot.levels.length,
+        scannedItemCount: snapshot.scannedItemCount,
+        // More items remain past maxScannedItems
+        complete: snapshot.complete
+      };
+    } catch (error) {
+      console.error("Error saving inventory snapshot:", error);
+      throw toolError("Failed to save inventory snapshot", error);
+    }
+  }
+};
+
+export { saveInventorySnapshot };
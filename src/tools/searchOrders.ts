@@ -1,6 +1,13 @@
 import type { GraphQLClient } from "graphql-request";
 import { gql } from "graphql-request";
 import { z } from "zod";
+import { toolError } from "../utils/errors.js";
+import {
+  fetchPages,
+  paginationInputShape,
+  type Connection,
+  type CursorVariables
+} from "../utils/pagination.js";
 
 // Input schema for searchOrders
 const SearchOrdersInputSchema = z.object({
@@ -14,7 +21,7 @@ const SearchOrdersInputSchema = z.object({
     .min(1)
     .max(50)
     .default(20)
-    .describe("Maximum number of orders to return"),
+    .describe("Maximum number of orders to return per page"),
   sortKey: z
     .enum([
       "CREATED_AT",
@@ -31,176 +38,207 @@ const SearchOrdersInputSchema = z.object({
   reverse: z
     .boolean()
     .default(true)
-    .describe("Reverse sort order (true = descending, most recent first)")
+    .describe("Reverse sort order (true = descending, most recent first)"),
+  ...paginationInputShape
 });
 
 type SearchOrdersInput = z.infer<typeof SearchOrdersInputSchema>;
 
-// Will be initialized in index.ts
-let shopifyClient: GraphQLClient;
-
-const searchOrders = {
-  name: "search-orders",
-  description:
-    "Search orders with advanced filtering. Use Shopify query syntax for powerful filtering by status, date, customer, tags, and more. Requires read_orders scope.",
-  schema: SearchOrdersInputSchema,
-
-  initialize(client: GraphQLClient) {
-    shopifyClient = client;
-  },
+// Order fields selected by the SearchOrders query
+type SearchOrdersNode = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  processedAt: string | null;
+  displayFinancialStatus: string;
+  displayFulfillmentStatus: string;
+  confirmed: boolean;
+  closed: boolean;
+  cancelledAt: string | null;
+  totalPriceSet: {
+    shopMoney: { amount: string; currencyCode: string };
+  };
+  subtotalPriceSet: {
+    shopMoney: { amount: string; currencyCode: string };
+  };
+  totalTaxSet: {
+    shopMoney: { amount: string; currencyCode: string };
+  };
+  totalShippingPriceSet: {
+    shopMoney: { amount: string; currencyCode: string };
+  };
+  customer: {
+    id: string;
+    firstName: string | null;
+    lastName: string | null;
+    email: string | null;
+  } | null;
+  shippingAddress: {
+    city: string | null;
+    province: string | null;
+    country: string | null;
+  } | null;
+  tags: string[];
+  note: string | null;
+  lineItems: {
+    edges: Array<{
+      node: {
+        title: string;
+        quantity: number;
+        originalTotalSet: {
+          shopMoney: { amount: string; currencyCode: string };
+        };
+      };
+    }>;
+  };
+};
 
-  execute: async (input: SearchOrdersInput) => {
-    try {
-      const { query: searchQuery, limit, sortKey, reverse } = input;
+// Will be initialized by the tool registry
+let shopifyClient: GraphQLClient;
 
-      const query = gql`
-        query SearchOrders(
-          $first: Int!
-          $query: String!
-          $sortKey: OrderSortKeys
-          $reverse: Boolean
-        ) {
-          orders(
-            first: $first
-            query: $query
-            sortKey: $sortKey
-            reverse: $reverse
-          ) {
+const SEARCH_ORDERS_QUERY = gql`
+  query SearchOrders(
+    $first: Int
+    $last: Int
+    $after: String
+    $before: String
+    $query: String!
+    $sortKey: OrderSortKeys
+    $reverse: Boolean
+  ) {
+    orders(
+      first: $first
+      last: $last
+      after: $after
+      before: $before
+      query: $query
+      sortKey: $sortKey
+      reverse: $reverse
+    ) {
+      edges {
+        node {
+          id
+          name
+          createdAt
+          updatedAt
+          processedAt
+          displayFinancialStatus
+          displayFulfillmentStatus
+          confirmed
+          closed
+          cancelledAt
+          totalPriceSet {
+            shopMoney {
+              amount
+              currencyCode
+            }
+          }
+          subtotalPriceSet {
+            shopMoney {
+              amount
+              currencyCode
+            }
+          }
+          totalTaxSet {
+            shopMoney {
+              amount
+              currencyCode
+            }
+          }
+          totalShippingPriceSet {
+            shopMoney {
+              amount
+              currencyCode
+            }
+          }
+          customer {
+            id
+            firstName
+            lastName
+            email
+          }
+          shippingAddress {
+            city
+            province
+            country
+          }
+          tags
+          note
+          lineItems(first: 5) {
             edges {
               node {
-                id
-                name
-                createdAt
-                updatedAt
-                processedAt
-                displayFinancialStatus
-                displayFulfillmentStatus
-                confirmed
-                closed
-                cancelledAt
-                totalPriceSet {
-                  shopMoney {
-                    amount
-                    currencyCode
-                  }
-                }
-                subtotalPriceSet {
-                  shopMoney {
-                    amount
-                    currencyCode
-                  }
-                }
-                totalTaxSet {
+                title
+                quantity
+                originalTotalSet {
                   shopMoney {
                     amount
                     currencyCode
                   }
                 }
-                totalShippingPriceSet {
-                  shopMoney {
-                    amount
-                    currencyCode
-                  }
-                }
-                customer {
-                  id
-                  firstName
-                  lastName
-                  email
-                }
-                shippingAddress {
-                  city
-                  province
-                  country
-                }
-                tags
-                note
-                lineItems(first: 5) {
-                  edges {
-                    node {
-                      title
-                      quantity
-                      originalTotalSet {
-                        shopMoney {
-                          amount
-                          currencyCode
-                        }
-                      }
-                    }
-                  }
-                }
               }
             }
           }
         }
-      `;
+      }
+      pageInfo {
+        hasNextPage
+        hasPreviousPage
+        startCursor
+        endCursor
+      }
+    }
+  }
+`;
+
+const searchOrders = {
+  name: "search-orders",
+  description:
+    "Search orders with advanced filtering. Use Shopify query syntax for powerful filtering by status, date, customer, tags, and more. Requires read_orders scope.",
+  schema: SearchOrdersInputSchema,
+  documents: [SEARCH_ORDERS_QUERY],
+  scopes: ["read_orders", "read_customers"],
+  listField: "orders",
+  cacheTtlSeconds: 30,
 
-      const variables = {
-        first: limit,
+  initialize(client: GraphQLClient) {
+    shopifyClient = client;
+  },
+
+  execute: async (input: SearchOrdersInput) => {
+    try {
+      const {
         query: searchQuery,
+        limit,
         sortKey,
-        reverse
-      };
+        reverse,
+        after,
+        before,
+        maxItems
+      } = input;
 
-      const data = (await shopifyClient.request(query, variables)) as {
-        orders: {
-          edges: Array<{
-            node: {
-              id: string;
-              name: string;
-              createdAt: string;
-              updatedAt: string;
-              processedAt: string | null;
-              displayFinancialStatus: string;
-              displayFulfillmentStatus: string;
-              confirmed: boolean;
-              closed: boolean;
-              cancelledAt: string | null;
-              totalPriceSet: {
-                shopMoney: { amount: string; currencyCode: string };
-              };
-              subtotalPriceSet: {
-                shopMoney: { amount: string; currencyCode: string };
-              };
-              totalTaxSet: {
-                shopMoney: { amount: string; currencyCode: string };
-              };
-              totalShippingPriceSet: {
-                shopMoney: { amount: string; currencyCode: string };
-              };
-              customer: {
-                id: string;
-                firstName: string | null;
-                lastName: string | null;
-                email: string | null;
-              } | null;
-              shippingAddress: {
-                city: string | null;
-                province: string | null;
-                country: string | null;
-              } | null;
-              tags: string[];
-              note: string | null;
-              lineItems: {
-                edges: Array<{
-                  node: {
-                    title: string;
-                    quantity: number;
-                    originalTotalSet: {
-                      shopMoney: { amount: string; currencyCode: string };
-                    };
-                  };
-                }>;
-              };
-            };
-          }>;
-        };
-      };
+      const { nodes, pageInfo } = await fetchPages(
+        async (cursorVariables: CursorVariables) => {
+          const variables = {
+            ...cursorVariables,
+            query: searchQuery,
+            sortKey,
+            reverse
+          };
 
-      // Format orders
-      const orders = data.orders.edges.map((edge) => {
-        const order = edge.node;
+          const data = (await shopifyClient.request(
+            SEARCH_ORDERS_QUERY,
+            variables
+          )) as {
+            orders: Connection<SearchOrdersNode>;
+          };
+          return data.orders;
+        },
+        { limit, after, before, maxItems }
+      );
 
+      // Format orders
+      const orders = nodes.map((order) => {
         return {
           id: order.id,
           name: order.name,
@@ -261,15 +299,12 @@ const searchOrders = {
         sortKey,
         reverse,
         orders,
-        orderCount: orders.length
+        orderCount: orders.length,
+        pageInfo
       };
     } catch (error) {
       console.error("Error searching orders:", error);
-      throw new Error(
-        `Failed to search orders: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
+      throw toolError("Failed to search orders", error);
     }
   }
 };
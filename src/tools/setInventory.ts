@@ -0,0 +1,203 @@
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { z } from "zod";
+import { withAudit } from "../utils/auditLog.js";
+import { dryRunInputShape } from "../utils/dryRun.js";
+import { toolError, userErrorsToToolError } from "../utils/errors.js";
+import { ID_LOOKUP_DOCUMENTS } from "../utils/ids.js";
+import {
+  ADJUSTMENT_GROUP_FIELDS,
+  GET_INVENTORY_LEVEL_QUERY,
+  appliedChanges,
+  fetchInventoryLevels,
+  inventoryChangeInputShape,
+  inventoryLineShape,
+  plannedChange,
+  resolveInventoryLines,
+  type InventoryAdjustmentGroup
+} from "../utils/inventoryQuantities.js";
+import { INVENTORY_REPORT_TOOLS } from "../utils/responseCache.js";
+
+// Will be initialized by the tool registry
+let shopifyClient: GraphQLClient;
+
+// Input schema for setInventory
+// Based on https://shopify.dev/docs/api/admin-graphql/latest/mutations/inventorysetquantities
+const SetInventoryInputSchema = z.object({
+  ...inventoryChangeInputShape,
+  name: z
+    .enum(["available", "on_hand"])
+    .default("available")
+    .describe(
+      "Quantity to set. Shopify changes on_hand along with available and the other way round"
+    ),
+  quantities: z
+    .array(
+      z.object({
+        ...inventoryLineShape,
+        quantity: z
+          .number()
+          .int()
+          .min(0)
+          .describe("New quantity, e.g. a counted amount")
+      })
+    )
+    .min(1)
+    .max(250),
+  ...dryRunInputShape
+});
+
+type SetInventoryInput = z.infer<typeof SetInventoryInputSchema>;
+
+const INVENTORY_SET_QUANTITIES_MUTATION = gql`
+  mutation inventorySetQuantities($input: InventorySetQuantitiesInput!) {
+    inventorySetQuantities(input: $input) {
+      inventoryAdjustmentGroup {
+        ${ADJUSTMENT_GROUP_FIELDS}
+      }
+      userErrors {
+        field
+        message
+        code
+      }
+    }
+  }
+`;
+
+const setInventory = {
+  name: "set-inventory",
+  description:
+    "Set the available or on-hand quantity of inventory items at locations to counted amounts, with a reason and reference document. Fails if a quantity changed since it was read. Returns the quantities before and after",
+  schema: SetInventoryInputSchema,
+  documents: [
+    INVENTORY_SET_QUANTITIES_MUTATION,
+    GET_INVENTORY_LEVEL_QUERY,
+    ...ID_LOOKUP_DOCUMENTS.InventoryItem
+  ],
+  scopes: ["write_inventory", "read_products"],
+  // Product totals and variant quantities change along with the levels
+  cacheInvalidates: [
+    "ProductVariant",
+    "get-products",
+    ...INVENTORY_REPORT_TOOLS
+  ],
+  mutation: true,
+
+  // Add initialize method to set up the GraphQL client
+  initialize(client: GraphQLClient) {
+    shopifyClient = client;
+  },
+
+  execute: async (input: SetInventoryInput) => {
+    try {
+      const { reason, referenceDocumentUri, name, dryRun } = input;
+      const quantities = await resolveInventoryLines(
+        shopifyClient,
+        input.quantities
+      );
+      const levels = await fetchInventoryLevels(shopifyClient, quantities);
+
+      // Quantities already at the requested amount are left out
+      const updates = quantities
+        .map((line) => ({
+          ...line,
+          current:
+            levels.get(line.inventoryItemId, line.locationId)!.quantities[
+              name
+            ] ?? 0
+        }))
+        .filter(({ quantity, current }) => quantity !== current);
+
+      if (dryRun) {
+        const linkedName = name === "available" ? "on_hand" : "available";
+        const planned = updates.flatMap(
+          ({ inventoryItemId, locationId, quantity, current }) => {
+            const level = levels.get(inventoryItemId, locationId)!;
+            return [
+              plannedChange(level, name, quantity - current),
+              plannedChange(level, linkedName, quantity - current)
+            ];
+          }
+        );
+        return {
+          dryRun: true,
+          reason,
+          referenceDocumentUri,
+          changes: planned,
+          changeCount: planned.length
+        };
+      }
+
+      // Nothing to do
+      if (updates.length === 0) {
+        return { reason, referenceDocumentUri, changes: [], changeCount: 0 };
+      }
+
+      const data = await withAudit(
+        shopifyClient,
+        {
+          tool: "set-inventory",
+          objectId: null,
+          objectName: referenceDocumentUri,
+          input,
+          before: levels.all()
+        },
+        () =>
+          shopifyClient.request(INVENTORY_SET_QUANTITIES_MUTATION, {
+            input: {
+              reason,
+              name,
+              referenceDocumentUri,
+              // compareQuantity makes Shopify reject the update if the
+              // quantity changed since it was read
+              quantities: updates.map(
+                ({ inventoryItemId, locationId, quantity, current }) => ({
+                  inventoryItemId,
+                  locationId,
+                  quantity,
+                  compareQuantity: current
+                })
+              )
+            }
+          }) as Promise<{
+            inventorySetQuantities: {
+              inventoryAdjustmentGroup: InventoryAdjustmentGroup | null;
+              userErrors: Array<{
+                field: string[];
+                message: string;
+                code?: string | null;
+              }>;
+            };
+          }>,
+        (result) => ({
+          after: result.inventorySetQuantities.inventoryAdjustmentGroup,
+          userErrors: result.inventorySetQuantities.userErrors
+        })
+      );
+
+      // If there are user errors, throw an error
+      if (data.inventorySetQuantities.userErrors.length > 0) {
+        throw userErrorsToToolError(
+          "Failed to set inventory",
+          data.inventorySetQuantities.userErrors
+        );
+      }
+
+      const group = data.inventorySetQuantities.inventoryAdjustmentGroup!;
+      const applied = appliedChanges(group, levels);
+
+      return {
+        reason: group.reason,
+        referenceDocumentUri: group.referenceDocumentUri,
+        createdAt: group.createdAt,
+        changes: applied,
+        changeCount: applied.length
+      };
+    } catch (error) {
+      console.error("Error setting inventory:", error);
+      throw toolError("Failed to set inventory", error);
+    }
+  }
+};
+
+export { setInventory };
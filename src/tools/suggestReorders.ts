@@ -0,0 +1,329 @@
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { z } from "zod";
+import {
+  ShopifyToolError,
+  shopifyqlParseError,
+  toolError
+} from "../utils/errors.js";
+import {
+  GET_MORE_INVENTORY_LEVELS_QUERY,
+  INVENTORY_LEVELS_FIELDS,
+  fetchInventoryItems,
+  type InventoryLevelNode
+} from "../utils/inventoryItems.js";
+import type { Connection } from "../utils/pagination.js";
+
+// Input schema for suggestReorders
+const SuggestReordersInputSchema = z.object({
+  salesWindowDays: z
+    .number()
+    .int()
+    .min(1)
+    .max(365)
+    .default(30)
+    .describe("Trailing number of days of sales used for the daily sales rate"),
+  leadTimeDays: z
+    .number()
+    .int()
+    .min(0)
+    .default(14)
+    .describe("Days between placing an order and the stock arriving"),
+  safetyStockDays: z
+    .number()
+    .int()
+    .min(0)
+    .default(7)
+    .describe(
+      "Extra days of sales to keep in stock against demand spikes and late deliveries"
+    ),
+  coverDays: z
+    .number()
+    .int()
+    .min(1)
+    .default(30)
+    .describe("Days of sales a new order should cover once it arrives"),
+  onlyNeedingReorder: z
+    .boolean()
+    .default(true)
+    .describe("Only return variants at or below their reorder point"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(250)
+    .default(50)
+    .describe("Maximum number of variants to return"),
+  maxScannedItems: z
+    .number()
+    .int()
+    .min(1)
+    .max(50000)
+    .default(10000)
+    .describe("Stop after checking this many inventory items")
+});
+
+type SuggestReordersInput = z.infer<typeof SuggestReordersInputSchema>;
+
+// Inventory item fields selected by the GetReorderStock query
+type StockItemNode = {
+  id: string;
+  sku: string | null;
+  tracked: boolean;
+  inventoryLevels: Connection<InventoryLevelNode>;
+  variant: {
+    id: string;
+    title: string;
+    product: {
+      id: string;
+      title: string;
+    };
+  } | null;
+};
+
+// Most rows ShopifyQL returns for one query
+const MAX_SALES_ROWS = 1000;
+
+// Will be initialized by the tool registry
+let shopifyClient: GraphQLClient;
+
+const GET_UNITS_SOLD_QUERY = gql`
+  query GetUnitsSold($query: String!) {
+    shopifyqlQuery(query: $query) {
+      tableData {
+        columns {
+          name
+          dataType
+          displayName
+        }
+        rows
+      }
+      parseErrors
+    }
+  }
+`;
+
+const GET_REORDER_STOCK_QUERY = gql`
+  query GetReorderStock($first: Int, $after: String) {
+    inventoryItems(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          sku
+          tracked
+          ${INVENTORY_LEVELS_FIELDS}
+          variant {
+            id
+            title
+            product {
+              id
+              title
+            }
+          }
+        }
+      }
+      pageInfo {
+        hasNextPage
+        hasPreviousPage
+        startCursor
+        endCursor
+      }
+    }
+  }
+`;
+
+const suggestReorders = {
+  name: "suggest-reorders",
+  description:
+    "Suggest what to reorder: combines each variant's units sold over a trailing window (ShopifyQL) with its available and incoming stock to compute days of cover, reorder point and order quantity for a lead time and safety stock. Variants are matched to sales by SKU",
+  schema: SuggestReordersInputSchema,
+  documents: [
+    GET_UNITS_SOLD_QUERY,
+    GET_REORDER_STOCK_QUERY,
+    GET_MORE_INVENTORY_LEVELS_QUERY
+  ],
+  scopes: ["read_reports", "read_inventory", "read_products"],
+  listField: "variants",
+  cacheTtlSeconds: 300,
+
+  initialize(client: GraphQLClient) {
+    shopifyClient = client;
+  },
+
+  execute: async (input: SuggestReordersInput) => {
+    try {
+      const {
+        salesWindowDays,
+        leadTimeDays,
+        safetyStockDays,
+        coverDays,
+        onlyNeedingReorder,
+        limit,
+        maxScannedItems
+      } = input;
+
+      const salesQuery = `FROM sales SHOW units_sold SINCE -${salesWindowDays}d GROUP BY product_variant_sku ORDER BY units_sold DESC LIMIT ${MAX_SALES_ROWS}`;
+      const { unitsSold, complete: salesComplete } =
+        await fetchUnitsSold(salesQuery);
+
+      const { nodes, pageInfo } = await fetchInventoryItems<StockItemNode>(
+        shopifyClient,
+        GET_REORDER_STOCK_QUERY,
+        {},
+        maxScannedItems
+      );
+
+      // Sales can only be matched to variants with a SKU, and Shopify only
+      // counts stock for tracked items
+      const items = nodes.filter((item) => item.tracked && item.sku);
+
+      const suggestions = items.map((item) => {
+        const totals: Record<string, number> = {};
+        for (const edge of item.inventoryLevels.edges) {
+          for (const q of edge.node.quantities) {
+            totals[q.name] = (totals[q.name] || 0) + q.quantity;
+          }
+        }
+        const onHand = totals["on_hand"] || 0;
+        const available = totals["available"] || 0;
+        const committed = totals["committed"] || 0;
+        const incoming = totals["incoming"] || 0;
+
+        // On hand also counts committed, reserved, damaged, safety stock and
+        // quality control units, none of which can cover new sales
+        const stockPosition = available + incoming;
+        const sold = unitsSold.get(item.sku!) ?? 0;
+        const dailySales = sold / salesWindowDays;
+
+        const reorderPoint = dailySales * (leadTimeDays + safetyStockDays);
+        const needsReorder = dailySales > 0 && stockPosition <= reorderPoint;
+        // Enough to last until the order arrives, then coverDays, with the
+        // safety stock left over
+        const targetStock =
+          dailySales * (leadTimeDays + coverDays + safetyStockDays);
+
+        return {
+          inventoryItemId: item.id,
+          sku: item.sku,
+          productId: item.variant?.product.id ?? null,
+          productTitle: item.variant?.product.title ?? null,
+          variantId: item.variant?.id ?? null,
+          variantTitle: item.variant?.title ?? null,
+          unitsSold: sold,
+          dailySales: round(dailySales, 2),
+          onHand,
+          available,
+          committed,
+          incoming,
+          stockPosition,
+          daysOfCover:
+            dailySales > 0
+              ? round(Math.max(stockPosition, 0) / dailySales, 1)
+              : null,
+          reorderPoint: Math.ceil(reorderPoint),
+          needsReorder,
+          suggestedQuantity: needsReorder
+            ? Math.max(Math.ceil(targetStock - stockPosition), 0)
+            : 0
+        };
+      });
+
+      // Fewest days of cover first; variants without sales last
+      const variants = suggestions
+        .filter((suggestion) => !onlyNeedingReorder || suggestion.needsReorder)
+        .sort(
+          (a, b) =>
+            (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity) ||
+            (a.sku ?? "").localeCompare(b.sku ?? "")
+        );
+
+      return {
+        query: salesQuery,
+        parameters: {
+          salesWindowDays,
+          leadTimeDays,
+          safetyStockDays,
+          coverDays
+        },
+        variants: variants.slice(0, limit),
+        variantCount: Math.min(variants.length, limit),
+        reorderCount: suggestions.filter((suggestion) => suggestion.needsReorder)
+          .length,
+        // False when more SKUs sold than one ShopifyQL query returns. SKUs
+        // past the cut-off, the slowest sellers, count as unsold
+        salesComplete,
+        scannedItemCount: nodes.length,
+        // More items remain past maxScannedItems
+        complete: !pageInfo.hasNextPage
+      };
+    } catch (error) {
+      console.error("Error suggesting reorders:", error);
+      throw toolError("Failed to suggest reorders", error);
+    }
+  }
+};
+
+// Units sold per SKU over the sales query's window, and whether every SKU
+// with sales fit in the result
+async function fetchUnitsSold(
+  query: string
+): Promise<{ unitsSold: Map<string, number>; complete: boolean }> {
+  const data = (await shopifyClient.request(GET_UNITS_SOLD_QUERY, {
+    query
+  })) as {
+    shopifyqlQuery: {
+      tableData: {
+        columns: Array<{
+          name: string;
+          dataType: string;
+          displayName: string;
+        }>;
+        rows: string[][];
+      } | null;
+      parseErrors: string[];
+    };
+  };
+
+  // Handle ShopifyQL parse errors
+  if (
+    data.shopifyqlQuery.parseErrors &&
+    data.shopifyqlQuery.parseErrors.length > 0
+  ) {
+    throw shopifyqlParseError(data.shopifyqlQuery.parseErrors);
+  }
+
+  const unitsSold = new Map<string, number>();
+  const tableData = data.shopifyqlQuery.tableData;
+  if (!tableData) {
+    return { unitsSold, complete: true };
+  }
+
+  const [skuColumn, unitsColumn] = ["product_variant_sku", "units_sold"].map(
+    (name) => {
+      const index = tableData.columns.findIndex((col) => col.name === name);
+      if (index === -1) {
+        throw new ShopifyToolError(
+          `ShopifyQL sales result has no ${name} column`,
+          { category: "internal" }
+        );
+      }
+      return index;
+    }
+  );
+  for (const row of tableData.rows) {
+    const sku = row[skuColumn];
+    if (sku) {
+      unitsSold.set(sku, (unitsSold.get(sku) ?? 0) + Number(row[unitsColumn]));
+    }
+  }
+  return {
+    unitsSold,
+    // A full result may have cut off more SKUs
+    complete: tableData.rows.length < MAX_SALES_ROWS
+  };
+}
+
+const round = (value: number, digits: number) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+export { suggestReorders };
@@ -1,10 +1,18 @@
 import type { GraphQLClient } from "graphql-request";
 import { gql } from "graphql-request";
 import { z } from "zod";
+import { isAuditLogEnabled, withAudit } from "../utils/auditLog.js";
+import { diffFields, dryRunInputShape } from "../utils/dryRun.js";
+import {
+  ShopifyToolError,
+  toolError,
+  userErrorsToToolError
+} from "../utils/errors.js";
+import { ID_LOOKUP_DOCUMENTS, idDescription, resolveId } from "../utils/ids.js";
 
 // Input schema for updating a customer
 const UpdateCustomerInputSchema = z.object({
-  id: z.string().regex(/^\d+$/, "Customer ID must be numeric"),
+  id: z.string().min(1).describe(idDescription("Customer")),
   firstName: z.string().optional(),
   lastName: z.string().optional(),
   email: z.string().email().optional(),
@@ -24,18 +32,88 @@ const UpdateCustomerInputSchema = z.object({
         type: z.string().optional()
       })
     )
-    .optional()
+    .optional(),
+  ...dryRunInputShape
 });
 
 type UpdateCustomerInput = z.infer<typeof UpdateCustomerInputSchema>;
 
-// Will be initialized in index.ts
+// Will be initialized by the tool registry
 let shopifyClient: GraphQLClient;
 
+const CUSTOMER_UPDATE_MUTATION = gql`
+  mutation customerUpdate($input: CustomerInput!) {
+    customerUpdate(input: $input) {
+      customer {
+        id
+        firstName
+        lastName
+        email
+        phone
+        tags
+        note
+        taxExempt
+        metafields(first: 10) {
+          edges {
+            node {
+              id
+              namespace
+              key
+              value
+            }
+          }
+        }
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const GET_CUSTOMER_FOR_UPDATE_QUERY = gql`
+  query GetCustomerForUpdate($id: ID!) {
+    customer(id: $id) {
+      id
+      firstName
+      lastName
+      email
+      phone
+      tags
+      note
+      taxExempt
+      metafields(first: 50) {
+        edges {
+          node {
+            id
+            namespace
+            key
+            value
+            type
+          }
+        }
+      }
+    }
+  }
+`;
+
 const updateCustomer = {
   name: "update-customer",
   description: "Update a customer's information",
   schema: UpdateCustomerInputSchema,
+  documents: [
+    CUSTOMER_UPDATE_MUTATION,
+    GET_CUSTOMER_FOR_UPDATE_QUERY,
+    ...ID_LOOKUP_DOCUMENTS.Customer
+  ],
+  scopes: ["write_customers"],
+  cacheInvalidates: [
+    "get-customers",
+    "get-customer-analytics",
+    "run-shopifyql-query"
+  ],
+  mutation: true,
 
   // Add initialize method to set up the GraphQL client
   initialize(client: GraphQLClient) {
@@ -44,10 +122,24 @@ const updateCustomer = {
 
   execute: async (input: UpdateCustomerInput) => {
     try {
-      const { id, acceptsMarketing, ...customerFields } = input;
-
-      // Convert numeric ID to GID format
-      const customerGid = `gid://shopify/Customer/${id}`;
+      const { id, acceptsMarketing, dryRun, ...customerFields } = input;
+
+      const customerGid = await resolveId(shopifyClient, "Customer", id);
+
+      if (dryRun) {
+        const current = await fetchCustomerSnapshot(customerGid);
+        const changes = diffFields(current, customerFields);
+        return {
+          dryRun: true,
+          customer: {
+            id: current.id,
+            firstName: current.firstName,
+            lastName: current.lastName
+          },
+          changes,
+          changeCount: changes.length
+        };
+      }
 
       // Log a warning if acceptsMarketing was provided
       if (acceptsMarketing !== undefined) {
@@ -56,36 +148,10 @@ const updateCustomer = {
         );
       }
 
-      const query = gql`
-        mutation customerUpdate($input: CustomerInput!) {
-          customerUpdate(input: $input) {
-            customer {
-              id
-              firstName
-              lastName
-              email
-              phone
-              tags
-              note
-              taxExempt
-              metafields(first: 10) {
-                edges {
-                  node {
-                    id
-                    namespace
-                    key
-                    value
-                  }
-                }
-              }
-            }
-            userErrors {
-              field
-              message
-            }
-          }
-        }
-      `;
+      // Snapshot the customer first so the audit log can show what changed
+      const before = isAuditLogEnabled()
+        ? await fetchCustomerSnapshot(customerGid)
+        : null;
 
       const variables = {
         input: {
@@ -94,22 +160,41 @@ const updateCustomer = {
         }
       };
 
-      const data = (await shopifyClient.request(query, variables)) as {
-        customerUpdate: {
-          customer: any;
-          userErrors: Array<{
-            field: string;
-            message: string;
-          }>;
-        };
-      };
+      const data = await withAudit(
+        shopifyClient,
+        {
+          tool: "update-customer",
+          objectId: customerGid,
+          objectName: before
+            ? [before.firstName, before.lastName].filter(Boolean).join(" ")
+            : null,
+          input,
+          before
+        },
+        () =>
+          shopifyClient.request(
+            CUSTOMER_UPDATE_MUTATION,
+            variables
+          ) as Promise<{
+            customerUpdate: {
+              customer: any;
+              userErrors: Array<{
+                field: string;
+                message: string;
+              }>;
+            };
+          }>,
+        (result) => ({
+          after: result.customerUpdate.customer,
+          userErrors: result.customerUpdate.userErrors
+        })
+      );
 
       // If there are user errors, throw an error
       if (data.customerUpdate.userErrors.length > 0) {
-        throw new Error(
-          `Failed to update customer: ${data.customerUpdate.userErrors
-            .map((e) => `${e.field}: ${e.message}`)
-            .join(", ")}`
+        throw userErrorsToToolError(
+          "Failed to update customer",
+          data.customerUpdate.userErrors
         );
       }
 
@@ -135,13 +220,31 @@ const updateCustomer = {
       };
     } catch (error) {
       console.error("Error updating customer:", error);
-      throw new Error(
-        `Failed to update customer: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
+      throw toolError("Failed to update customer", error);
     }
   }
 };
 
+// Fetch the fields update-customer can change, for dry-run diffs and audit
+// snapshots
+async function fetchCustomerSnapshot(customerGid: string) {
+  const data = (await shopifyClient.request(
+    GET_CUSTOMER_FOR_UPDATE_QUERY,
+    { id: customerGid }
+  )) as {
+    customer: any;
+  };
+
+  if (!data.customer) {
+    throw new ShopifyToolError(`Customer with ID ${customerGid} not found`, {
+      category: "not_found"
+    });
+  }
+
+  return {
+    ...data.customer,
+    metafields: data.customer.metafields.edges.map((edge: any) => edge.node)
+  };
+}
+
 export { updateCustomer };
@@ -1,14 +1,22 @@
 import type { GraphQLClient } from "graphql-request";
 import { gql } from "graphql-request";
 import { z } from "zod";
+import { isAuditLogEnabled, withAudit } from "../utils/auditLog.js";
+import { diffFields, dryRunInputShape } from "../utils/dryRun.js";
+import {
+  ShopifyToolError,
+  toolError,
+  userErrorsToToolError
+} from "../utils/errors.js";
+import { ID_LOOKUP_DOCUMENTS, idDescription, resolveId } from "../utils/ids.js";
 
-// Will be initialized in index.ts
+// Will be initialized by the tool registry
 let shopifyClient: GraphQLClient;
 
 // Input schema for updateOrder
 // Based on https://shopify.dev/docs/api/admin-graphql/latest/mutations/orderupdate
 const UpdateOrderInputSchema = z.object({
-  id: z.string().min(1),
+  id: z.string().min(1).describe(idDescription("Order")),
   tags: z.array(z.string()).optional(),
   email: z.string().email().optional(),
   note: z.string().optional(),
@@ -44,15 +52,107 @@ const UpdateOrderInputSchema = z.object({
       province: z.string().optional(),
       zip: z.string().optional()
     })
-    .optional()
+    .optional(),
+  ...dryRunInputShape
 });
 
 type UpdateOrderInput = z.infer<typeof UpdateOrderInputSchema>;
 
+const ORDER_UPDATE_MUTATION = gql`
+  mutation orderUpdate($input: OrderInput!) {
+    orderUpdate(input: $input) {
+      order {
+        id
+        name
+        email
+        note
+        tags
+        customAttributes {
+          key
+          value
+        }
+        metafields(first: 10) {
+          edges {
+            node {
+              id
+              namespace
+              key
+              value
+            }
+          }
+        }
+        shippingAddress {
+          address1
+          address2
+          city
+          company
+          country
+          firstName
+          lastName
+          phone
+          province
+          zip
+        }
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const GET_ORDER_FOR_UPDATE_QUERY = gql`
+  query GetOrderForUpdate($id: ID!) {
+    order(id: $id) {
+      id
+      name
+      email
+      note
+      tags
+      customAttributes {
+        key
+        value
+      }
+      metafields(first: 50) {
+        edges {
+          node {
+            id
+            namespace
+            key
+            value
+            type
+          }
+        }
+      }
+      shippingAddress {
+        address1
+        address2
+        city
+        company
+        country
+        firstName
+        lastName
+        phone
+        province
+        zip
+      }
+    }
+  }
+`;
+
 const updateOrder = {
   name: "update-order",
   description: "Update an existing order with new information",
   schema: UpdateOrderInputSchema,
+  documents: [
+    ORDER_UPDATE_MUTATION,
+    GET_ORDER_FOR_UPDATE_QUERY,
+    ...ID_LOOKUP_DOCUMENTS.Order
+  ],
+  scopes: ["write_orders"],
+  cacheInvalidates: ["search-orders", "run-shopifyql-query"],
+  mutation: true,
 
   // Add initialize method to set up the GraphQL client
   initialize(client: GraphQLClient) {
@@ -62,51 +162,22 @@ const updateOrder = {
   execute: async (input: UpdateOrderInput) => {
     try {
       // Prepare input for GraphQL mutation
-      const { id, ...orderFields } = input;
+      const { id: orderId, dryRun, ...orderFields } = input;
+      const id = await resolveId(shopifyClient, "Order", orderId);
 
-      const query = gql`
-        mutation orderUpdate($input: OrderInput!) {
-          orderUpdate(input: $input) {
-            order {
-              id
-              name
-              email
-              note
-              tags
-              customAttributes {
-                key
-                value
-              }
-              metafields(first: 10) {
-                edges {
-                  node {
-                    id
-                    namespace
-                    key
-                    value
-                  }
-                }
-              }
-              shippingAddress {
-                address1
-                address2
-                city
-                company
-                country
-                firstName
-                lastName
-                phone
-                province
-                zip
-              }
-            }
-            userErrors {
-              field
-              message
-            }
-          }
-        }
-      `;
+      if (dryRun) {
+        const current = await fetchOrderSnapshot(id);
+        const changes = diffFields(current, orderFields);
+        return {
+          dryRun: true,
+          order: { id: current.id, name: current.name },
+          changes,
+          changeCount: changes.length
+        };
+      }
+
+      // Snapshot the order first so the audit log can show what changed
+      const before = isAuditLogEnabled() ? await fetchOrderSnapshot(id) : null;
 
       const variables = {
         input: {
@@ -115,22 +186,36 @@ const updateOrder = {
         }
       };
 
-      const data = (await shopifyClient.request(query, variables)) as {
-        orderUpdate: {
-          order: any;
-          userErrors: Array<{
-            field: string;
-            message: string;
-          }>;
-        };
-      };
+      const data = await withAudit(
+        shopifyClient,
+        {
+          tool: "update-order",
+          objectId: id,
+          objectName: before?.name,
+          input,
+          before
+        },
+        () =>
+          shopifyClient.request(ORDER_UPDATE_MUTATION, variables) as Promise<{
+            orderUpdate: {
+              order: any;
+              userErrors: Array<{
+                field: string;
+                message: string;
+              }>;
+            };
+          }>,
+        (result) => ({
+          after: result.orderUpdate.order,
+          userErrors: result.orderUpdate.userErrors
+        })
+      );
 
       // If there are user errors, throw an error
       if (data.orderUpdate.userErrors.length > 0) {
-        throw new Error(
-          `Failed to update order: ${data.orderUpdate.userErrors
-            .map((e) => `${e.field}: ${e.message}`)
-            .join(", ")}`
+        throw userErrorsToToolError(
+          "Failed to update order",
+          data.orderUpdate.userErrors
         );
       }
 
@@ -153,13 +238,31 @@ const updateOrder = {
       };
     } catch (error) {
       console.error("Error updating order:", error);
-      throw new Error(
-        `Failed to update order: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
+      throw toolError("Failed to update order", error);
     }
   }
 };
 
+// Fetch the fields update-order can change, for dry-run diffs and audit
+// snapshots
+async function fetchOrderSnapshot(id: string) {
+  const data = (await shopifyClient.request(
+    GET_ORDER_FOR_UPDATE_QUERY,
+    { id }
+  )) as {
+    order: any;
+  };
+
+  if (!data.order) {
+    throw new ShopifyToolError(`Order with ID ${id} not found`, {
+      category: "not_found"
+    });
+  }
+
+  return {
+    ...data.order,
+    metafields: data.order.metafields.edges.map((edge: any) => edge.node)
+  };
+}
+
 export { updateOrder };
@@ -0,0 +1,385 @@
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { z } from "zod";
+import { isAuditLogEnabled, withAudit } from "../utils/auditLog.js";
+import { diffFields, dryRunInputShape } from "../utils/dryRun.js";
+import {
+  ShopifyToolError,
+  toolError,
+  userErrorsToToolError
+} from "../utils/errors.js";
+import { ID_LOOKUP_DOCUMENTS, idDescription, resolveId } from "../utils/ids.js";
+import {
+  ANALYTICS_TOOLS,
+  INVENTORY_REPORT_TOOLS,
+  PRODUCT_LIST_TOOLS
+} from "../utils/responseCache.js";
+
+// Will be initialized by the tool registry
+let shopifyClient: GraphQLClient;
+
+// Input schema for updateProduct
+// Based on https://shopify.dev/docs/api/admin-graphql/latest/mutations/productupdate
+const UpdateProductInputSchema = z.object({
+  id: z.string().min(1).describe(idDescription("Product")),
+  title: z.string().min(1).optional(),
+  descriptionHtml: z.string().optional(),
+  vendor: z.string().optional(),
+  productType: z.string().optional(),
+  handle: z.string().min(1).optional(),
+  status: z.enum(["ACTIVE", "DRAFT", "ARCHIVED"]).optional(),
+  tags: z
+    .array(z.string())
+    .optional()
+    .describe("Replace all tags. Cannot be combined with addTags or removeTags"),
+  addTags: z
+    .array(z.string())
+    .optional()
+    .describe("Tags to add, keeping the existing ones"),
+  removeTags: z
+    .array(z.string())
+    .optional()
+    .describe("Tags to remove, keeping the rest"),
+  seo: z
+    .object({
+      title: z.string().optional(),
+      description: z.string().optional()
+    })
+    .optional(),
+  metafields: z
+    .array(
+      z.object({
+        id: z.string().optional(),
+        namespace: z.string().optional(),
+        key: z.string().optional(),
+        value: z.string(),
+        type: z.string().optional()
+      })
+    )
+    .optional(),
+  ...dryRunInputShape
+});
+
+type UpdateProductInput = z.infer<typeof UpdateProductInputSchema>;
+
+// Product fields returned by every mutation update-product sends
+const PRODUCT_FIELDS = `
+  id
+  title
+  handle
+  descriptionHtml
+  vendor
+  productType
+  status
+  tags
+  seo {
+    title
+    description
+  }
+  metafields(first: 50) {
+    edges {
+      node {
+        id
+        namespace
+        key
+        value
+        type
+      }
+    }
+  }
+  updatedAt
+`;
+
+const PRODUCT_UPDATE_MUTATION = gql`
+  mutation productUpdate($product: ProductUpdateInput!) {
+    productUpdate(product: $product) {
+      product {
+        ${PRODUCT_FIELDS}
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// Based on https://shopify.dev/docs/api/admin-graphql/latest/mutations/tagsadd
+const TAGS_ADD_MUTATION = gql`
+  mutation tagsAdd($id: ID!, $tags: [String!]!) {
+    tagsAdd(id: $id, tags: $tags) {
+      node {
+        ... on Product {
+          ${PRODUCT_FIELDS}
+        }
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// Based on https://shopify.dev/docs/api/admin-graphql/latest/mutations/tagsremove
+const TAGS_REMOVE_MUTATION = gql`
+  mutation tagsRemove($id: ID!, $tags: [String!]!) {
+    tagsRemove(id: $id, tags: $tags) {
+      node {
+        ... on Product {
+          ${PRODUCT_FIELDS}
+        }
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const GET_PRODUCT_FOR_UPDATE_QUERY = gql`
+  query GetProductForUpdate($id: ID!) {
+    product(id: $id) {
+      id
+      title
+      handle
+      descriptionHtml
+      vendor
+      productType
+      status
+      tags
+      seo {
+        title
+        description
+      }
+      metafields(first: 50) {
+        edges {
+          node {
+            id
+            namespace
+            key
+            value
+            type
+          }
+        }
+      }
+    }
+  }
+`;
+
+const updateProduct = {
+  name: "update-product",
+  description:
+    "Update an existing product's title, description, vendor, type, handle, status, tags, SEO and metafields",
+  schema: UpdateProductInputSchema,
+  documents: [
+    PRODUCT_UPDATE_MUTATION,
+    TAGS_ADD_MUTATION,
+    TAGS_REMOVE_MUTATION,
+    GET_PRODUCT_FOR_UPDATE_QUERY,
+    ...ID_LOOKUP_DOCUMENTS.Product
+  ],
+  scopes: ["write_products"],
+  cacheInvalidates: [
+    ...PRODUCT_LIST_TOOLS,
+    ...INVENTORY_REPORT_TOOLS,
+    ...ANALYTICS_TOOLS
+  ],
+  mutation: true,
+
+  // Add initialize method to set up the GraphQL client
+  initialize(client: GraphQLClient) {
+    shopifyClient = client;
+  },
+
+  execute: async (input: UpdateProductInput) => {
+    try {
+      const {
+        id: productId,
+        dryRun,
+        addTags,
+        removeTags,
+        ...productFields
+      } = input;
+
+      if (productFields.tags && (addTags || removeTags)) {
+        throw new ShopifyToolError(
+          "tags cannot be combined with addTags or removeTags",
+          {
+            category: "validation",
+            field: ["tags"],
+            hint: "Pass tags to replace the whole list, or addTags/removeTags to edit it."
+          }
+        );
+      }
+
+      const id = await resolveId(shopifyClient, "Product", productId);
+
+      // Dry runs and audit snapshots need the current product
+      const needsSnapshot = dryRun || isAuditLogEnabled();
+      const before = needsSnapshot ? await fetchProductSnapshot(id) : null;
+
+      if (dryRun) {
+        const fields = { ...productFields };
+        if (addTags || removeTags) {
+          fields.tags = editTags(before.tags, addTags ?? [], removeTags ?? []);
+        }
+        const changes = diffFields(before, fields);
+        return {
+          dryRun: true,
+          product: { id: before.id, title: before.title },
+          changes,
+          changeCount: changes.length
+        };
+      }
+
+      const data = await withAudit(
+        shopifyClient,
+        {
+          tool: "update-product",
+          objectId: id,
+          objectName: before?.title,
+          input,
+          before
+        },
+        () => applyUpdate(id, productFields, addTags, removeTags),
+        (result) => ({
+          after: result.product,
+          userErrors: result.userErrors,
+          partial: result.applied.length > 0
+        })
+      );
+
+      // If there are user errors, throw an error. Say which changes were
+      // made before the failing mutation, since they stay on the product
+      if (data.userErrors.length > 0) {
+        if (data.applied.length === 0) {
+          throw userErrorsToToolError(
+            "Failed to update product",
+            data.userErrors
+          );
+        }
+        throw userErrorsToToolError(
+          `Failed to update product after applying ${data.applied.join(" and ")}`,
+          data.userErrors,
+          `The product was partly updated by ${data.applied.join(" and ")}. Check it with get-product-by-id, then send only the changes that failed.`
+        );
+      }
+
+      const product = data.product;
+
+      return {
+        product: {
+          ...product,
+          metafields:
+            product.metafields?.edges.map((edge: any) => edge.node) || []
+        }
+      };
+    } catch (error) {
+      console.error("Error updating product:", error);
+      throw toolError("Failed to update product", error);
+    }
+  }
+};
+
+type UserErrors = Array<{
+  field: string[];
+  message: string;
+}>;
+
+type UpdateResult = {
+  // The product after the last mutation that succeeded, null if none did
+  product: any;
+  userErrors: UserErrors;
+  // Mutations that succeeded, in order
+  applied: string[];
+};
+
+// Send the field update, then the tag edits. tagsRemove and tagsAdd only
+// touch the tags named, so tags changed elsewhere since the product was read
+// are kept. Stops at the first mutation with userErrors, keeping the changes
+// the earlier ones made
+async function applyUpdate(
+  id: string,
+  fields: Omit<UpdateProductInput, "id" | "dryRun" | "addTags" | "removeTags">,
+  addTags: string[] | undefined,
+  removeTags: string[] | undefined
+): Promise<UpdateResult> {
+  const result: UpdateResult = { product: null, userErrors: [], applied: [] };
+
+  const hasFields = Object.values(fields).some((value) => value !== undefined);
+  if (hasFields || (!addTags?.length && !removeTags?.length)) {
+    const data = (await shopifyClient.request(PRODUCT_UPDATE_MUTATION, {
+      product: { id, ...fields }
+    })) as {
+      productUpdate: { product: any; userErrors: UserErrors };
+    };
+    const { product, userErrors } = data.productUpdate;
+    if (userErrors.length > 0) {
+      return { ...result, userErrors };
+    }
+    result.product = product;
+    result.applied.push("productUpdate");
+  }
+
+  // Removing first means a tag in both lists ends up on the product
+  for (const [document, field, tags] of [
+    [TAGS_REMOVE_MUTATION, "tagsRemove", removeTags],
+    [TAGS_ADD_MUTATION, "tagsAdd", addTags]
+  ] as const) {
+    if (!tags?.length) {
+      continue;
+    }
+    const data = (await shopifyClient.request(document, { id, tags })) as {
+      [key: string]: { node: any; userErrors: UserErrors };
+    };
+    const { node, userErrors } = data[field];
+    if (userErrors.length > 0) {
+      return { ...result, userErrors };
+    }
+    result.product = node;
+    result.applied.push(field);
+  }
+
+  return result;
+}
+
+// Apply tag additions and removals to the current list, keeping its order,
+// to preview them in a dry run. Shopify compares tags case-insensitively.
+function editTags(current: string[], add: string[], remove: string[]) {
+  const removed = new Set(remove.map((tag) => tag.toLowerCase()));
+  const tags = current.filter((tag) => !removed.has(tag.toLowerCase()));
+
+  for (const tag of add) {
+    if (!tags.some((existing) => existing.toLowerCase() === tag.toLowerCase())) {
+      tags.push(tag);
+    }
+  }
+
+  return tags;
+}
+
+// Fetch the fields update-product can change, for dry-run diffs and audit
+// snapshots
+async function fetchProductSnapshot(id: string) {
+  const data = (await shopifyClient.request(
+    GET_PRODUCT_FOR_UPDATE_QUERY,
+    { id }
+  )) as {
+    product: any;
+  };
+
+  if (!data.product) {
+    throw new ShopifyToolError(`Product with ID ${id} not found`, {
+      category: "not_found"
+    });
+  }
+
+  return {
+    ...data.product,
+    metafields: data.product.metafields.edges.map((edge: any) => edge.node)
+  };
+}
+
+export { updateProduct };
@@ -0,0 +1,154 @@
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { z } from "zod";
+import { withAudit } from "../utils/auditLog.js";
+import { diffFields, dryRunInputShape } from "../utils/dryRun.js";
+import { toolError, userErrorsToToolError } from "../utils/errors.js";
+import { ID_LOOKUP_DOCUMENTS, idDescription, resolveId } from "../utils/ids.js";
+import {
+  GET_PRODUCT_MEDIA_QUERY,
+  MEDIA_FIELDS,
+  fetchProductMedia,
+  formatMedia,
+  matchMedia
+} from "../utils/productMedia.js";
+
+// Will be initialized by the tool registry
+let shopifyClient: GraphQLClient;
+
+// Input schema for updateProductMedia
+// Based on https://shopify.dev/docs/api/admin-graphql/latest/mutations/productupdatemedia
+const UpdateProductMediaInputSchema = z.object({
+  productId: z.string().min(1).describe(idDescription("Product")),
+  media: z
+    .array(
+      z.object({
+        id: z.string().min(1).describe("Media ID, as a GID or numeric ID"),
+        alt: z.string().describe("Alt text. An empty string removes it")
+      })
+    )
+    .min(1),
+  ...dryRunInputShape
+});
+
+type UpdateProductMediaInput = z.infer<typeof UpdateProductMediaInputSchema>;
+
+const PRODUCT_UPDATE_MEDIA_MUTATION = gql`
+  mutation productUpdateMedia($productId: ID!, $media: [UpdateMediaInput!]!) {
+    productUpdateMedia(productId: $productId, media: $media) {
+      media {
+        ${MEDIA_FIELDS}
+      }
+      mediaUserErrors {
+        field
+        message
+        code
+      }
+      product {
+        id
+        title
+      }
+    }
+  }
+`;
+
+const updateProductMedia = {
+  name: "update-product-media",
+  description: "Set the alt text of a product's images, videos or 3D models",
+  schema: UpdateProductMediaInputSchema,
+  documents: [
+    PRODUCT_UPDATE_MEDIA_MUTATION,
+    GET_PRODUCT_MEDIA_QUERY,
+    ...ID_LOOKUP_DOCUMENTS.Product
+  ],
+  scopes: ["write_products"],
+  mutation: true,
+
+  // Add initialize method to set up the GraphQL client
+  initialize(client: GraphQLClient) {
+    shopifyClient = client;
+  },
+
+  execute: async (input: UpdateProductMediaInput) => {
+    try {
+      const { productId: productInput, dryRun } = input;
+      const productId = await resolveId(shopifyClient, "Product", productInput);
+
+      // The snapshot also turns numeric media IDs into GIDs
+      const product = await fetchProductMedia(shopifyClient, productId);
+      const current = matchMedia(
+        product,
+        input.media.map((item) => item.id),
+        "media"
+      );
+
+      if (dryRun) {
+        const changes = input.media.flatMap((item, index) =>
+          diffFields(current[index], { alt: item.alt }, `media.${current[index].id}.`)
+        );
+        return {
+          dryRun: true,
+          product: { id: product.id, title: product.title },
+          changes,
+          changeCount: changes.length
+        };
+      }
+
+      const variables = {
+        productId,
+        media: input.media.map((item, index) => ({
+          id: current[index].id,
+          alt: item.alt
+        }))
+      };
+
+      const data = await withAudit(
+        shopifyClient,
+        {
+          tool: "update-product-media",
+          objectId: productId,
+          objectName: product.title,
+          input,
+          before: current
+        },
+        () =>
+          shopifyClient.request(
+            PRODUCT_UPDATE_MEDIA_MUTATION,
+            variables
+          ) as Promise<{
+            productUpdateMedia: {
+              media: any[] | null;
+              mediaUserErrors: Array<{
+                field: string[];
+                message: string;
+                code: string | null;
+              }>;
+              product: any;
+            };
+          }>,
+        (result) => ({
+          after: result.productUpdateMedia.media,
+          userErrors: result.productUpdateMedia.mediaUserErrors
+        })
+      );
+
+      // If there are user errors, throw an error
+      if (data.productUpdateMedia.mediaUserErrors.length > 0) {
+        throw userErrorsToToolError(
+          "Failed to update product media",
+          data.productUpdateMedia.mediaUserErrors
+        );
+      }
+
+      return {
+        product: data.productUpdateMedia.product,
+        media: (data.productUpdateMedia.media ?? []).map(formatMedia)
+      };
+    } catch (error) {
+      console.error("Error updating product media:", error);
+      throw toolError("Failed to update product media", error);
+    }
+  }
+};
+
+export { updateProductMedia };
@@ -0,0 +1,193 @@
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { z } from "zod";
+import { isAuditLogEnabled, withAudit } from "../utils/auditLog.js";
+import { diffFields, dryRunInputShape } from "../utils/dryRun.js";
+import {
+  ShopifyToolError,
+  toolError,
+  userErrorsToToolError
+} from "../utils/errors.js";
+import { ID_LOOKUP_DOCUMENTS, idDescription, resolveId } from "../utils/ids.js";
+import {
+  GET_PRODUCT_VARIANTS_QUERY,
+  VARIANT_FIELDS,
+  fetchProductVariants,
+  formatVariant,
+  toVariantsBulkInput,
+  variantInputShape
+} from "../utils/productVariants.js";
+import {
+  INVENTORY_REPORT_TOOLS,
+  PRODUCT_LIST_TOOLS
+} from "../utils/responseCache.js";
+
+// Will be initialized by the tool registry
+let shopifyClient: GraphQLClient;
+
+// Input schema for updateProductVariants
+// Based on https://shopify.dev/docs/api/admin-graphql/latest/mutations/productvariantsbulkupdate
+const UpdateProductVariantsInputSchema = z.object({
+  productId: z.string().min(1).describe(idDescription("Product")),
+  variants: z
+    .array(
+      z.object({
+        id: z.string().min(1).describe(idDescription("ProductVariant")),
+        options: variantInputShape.options.optional(),
+        price: variantInputShape.price.optional(),
+        compareAtPrice: variantInputShape.compareAtPrice.optional(),
+        sku: variantInputShape.sku.optional(),
+        barcode: variantInputShape.barcode.optional(),
+        weight: variantInputShape.weight.optional(),
+        inventoryPolicy: variantInputShape.inventoryPolicy.optional()
+      })
+    )
+    .min(1)
+    .max(250),
+  ...dryRunInputShape
+});
+
+type UpdateProductVariantsInput = z.infer<
+  typeof UpdateProductVariantsInputSchema
+>;
+
+const PRODUCT_VARIANTS_BULK_UPDATE_MUTATION = gql`
+  mutation productVariantsBulkUpdate(
+    $productId: ID!
+    $variants: [ProductVariantsBulkInput!]!
+  ) {
+    productVariantsBulkUpdate(productId: $productId, variants: $variants) {
+      product {
+        id
+        title
+      }
+      productVariants {
+        ${VARIANT_FIELDS}
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const updateProductVariants = {
+  name: "update-product-variants",
+  description:
+    "Update a product's variants: option values, price, compare-at price, SKU, barcode, weight and inventory policy",
+  schema: UpdateProductVariantsInputSchema,
+  documents: [
+    PRODUCT_VARIANTS_BULK_UPDATE_MUTATION,
+    GET_PRODUCT_VARIANTS_QUERY,
+    ...ID_LOOKUP_DOCUMENTS.Product
+  ],
+  scopes: ["write_products"],
+  cacheInvalidates: [...PRODUCT_LIST_TOOLS, ...INVENTORY_REPORT_TOOLS],
+  mutation: true,
+
+  // Add initialize method to set up the GraphQL client
+  initialize(client: GraphQLClient) {
+    shopifyClient = client;
+  },
+
+  execute: async (input: UpdateProductVariantsInput) => {
+    try {
+      const { productId: productInput, variants, dryRun } = input;
+      const productId = await resolveId(shopifyClient, "Product", productInput);
+      const variantIds: string[] = [];
+      for (const variant of variants) {
+        variantIds.push(
+          await resolveId(shopifyClient, "ProductVariant", variant.id)
+        );
+      }
+
+      if (dryRun) {
+        const product = await fetchProductVariants(shopifyClient, productId);
+        const current = variantIds.map((id) => {
+          const variant = product.variants.find((v) => v.id === id);
+          if (!variant) {
+            throw new ShopifyToolError(
+              `Variant ${id} does not belong to product ${product.id}`,
+              { category: "validation", field: ["variants"] }
+            );
+          }
+          return variant;
+        });
+        const changes = variants.flatMap(({ id, ...fields }, index) =>
+          diffFields(current[index], fields, `variants.${index}.`)
+        );
+        return {
+          dryRun: true,
+          product: { id: product.id, title: product.title },
+          variants: current.map(({ id, title }) => ({ id, title })),
+          changes,
+          changeCount: changes.length
+        };
+      }
+
+      const before = isAuditLogEnabled()
+        ? await fetchProductVariants(shopifyClient, productId)
+        : null;
+
+      const variables = {
+        productId,
+        variants: variants.map(({ id, ...fields }, index) =>
+          toVariantsBulkInput(fields, variantIds[index])
+        )
+      };
+
+      const data = await withAudit(
+        shopifyClient,
+        {
+          tool: "update-product-variants",
+          objectId: productId,
+          objectName: before?.title,
+          input,
+          before:
+            before?.variants.filter((variant) =>
+              variantIds.includes(variant.id)
+            ) ?? null
+        },
+        () =>
+          shopifyClient.request(
+            PRODUCT_VARIANTS_BULK_UPDATE_MUTATION,
+            variables
+          ) as Promise<{
+            productVariantsBulkUpdate: {
+              product: any;
+              productVariants: any[] | null;
+              userErrors: Array<{
+                field: string[];
+                message: string;
+              }>;
+            };
+          }>,
+        (result) => ({
+          after: result.productVariantsBulkUpdate.productVariants,
+          userErrors: result.productVariantsBulkUpdate.userErrors
+        })
+      );
+
+      // If there are user errors, throw an error
+      if (data.productVariantsBulkUpdate.userErrors.length > 0) {
+        throw userErrorsToToolError(
+          "Failed to update product variants",
+          data.productVariantsBulkUpdate.userErrors
+        );
+      }
+
+      return {
+        product: data.productVariantsBulkUpdate.product,
+        variants: (data.productVariantsBulkUpdate.productVariants ?? []).map(
+          formatVariant
+        )
+      };
+    } catch (error) {
+      console.error("Error updating product variants:", error);
+      throw toolError("Failed to update product variants", error);
+    }
+  }
+};
+
+export { updateProductVariants };
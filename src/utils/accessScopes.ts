@@ -0,0 +1,126 @@
+/**
+ * Access Scopes
+ * Check a store's connection and granted access scopes against the scopes
+ * each registered tool needs
+ */
+
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+
+interface ScopedTool {
+  name: string;
+  scopes?: string[];
+}
+
+export interface ToolScopeStatus {
+  tool: string;
+  ready: boolean;
+  requiredScopes: string[];
+  missingScopes: string[];
+}
+
+export interface ConnectionReport {
+  shop: {
+    name: string;
+    myshopifyDomain: string;
+    currencyCode: string;
+    plan: string;
+  };
+  grantedScopes: string[];
+  tools: ToolScopeStatus[];
+  readyCount: number;
+  blockedCount: number;
+}
+
+export const CHECK_CONNECTION_QUERY = gql`
+  query CheckConnection {
+    shop {
+      name
+      myshopifyDomain
+      currencyCode
+      plan {
+        displayName
+      }
+    }
+    currentAppInstallation {
+      accessScopes {
+        handle
+      }
+    }
+  }
+`;
+
+/**
+ * Whether a scope is granted. A write scope includes its read scope, and
+ * Shopify lists only the write scope when both were requested.
+ */
+export function hasScope(grantedScopes: string[], scope: string): boolean {
+  if (grantedScopes.includes(scope)) {
+    return true;
+  }
+
+  const read = /^(unauthenticated_)?read_(\w+)$/.exec(scope);
+  return (
+    read !== null &&
+    grantedScopes.includes(`${read[1] ?? ""}write_${read[2]}`)
+  );
+}
+
+/**
+ * Which tools can run with the granted scopes, and what each one is missing
+ */
+export function checkToolScopes(
+  tools: ScopedTool[],
+  grantedScopes: string[]
+): ToolScopeStatus[] {
+  return tools.map((tool) => {
+    const requiredScopes = tool.scopes ?? [];
+    const missingScopes = requiredScopes.filter(
+      (scope) => !hasScope(grantedScopes, scope)
+    );
+    return {
+      tool: tool.name,
+      ready: missingScopes.length === 0,
+      requiredScopes,
+      missingScopes
+    };
+  });
+}
+
+/**
+ * Query the shop and the app's granted scopes, and map them onto the tools.
+ * Throws when the store cannot be reached or rejects the token.
+ */
+export async function runConnectionCheck(
+  client: GraphQLClient,
+  tools: ScopedTool[]
+): Promise<ConnectionReport> {
+  const data = await client.request<{
+    shop: {
+      name: string;
+      myshopifyDomain: string;
+      currencyCode: string;
+      plan: { displayName: string };
+    };
+    currentAppInstallation: { accessScopes: Array<{ handle: string }> };
+  }>(CHECK_CONNECTION_QUERY);
+
+  const grantedScopes = data.currentAppInstallation.accessScopes
+    .map((scope) => scope.handle)
+    .sort();
+  const statuses = checkToolScopes(tools, grantedScopes);
+  const readyCount = statuses.filter((status) => status.ready).length;
+
+  return {
+    shop: {
+      name: data.shop.name,
+      myshopifyDomain: data.shop.myshopifyDomain,
+      currencyCode: data.shop.currencyCode,
+      plan: data.shop.plan.displayName
+    },
+    grantedScopes,
+    tools: statuses,
+    readyCount,
+    blockedCount: statuses.length - readyCount
+  };
+}
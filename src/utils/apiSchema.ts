@@ -0,0 +1,134 @@
+/**
+ * Admin API Version Compatibility
+ * Validate tool GraphQL documents against a saved introspection of the
+ * selected Admin API version
+ */
+
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import {
+  NoDeprecatedCustomRule,
+  buildClientSchema,
+  getIntrospectionQuery,
+  parse,
+  validate,
+  type GraphQLSchema,
+  type IntrospectionQuery
+} from "graphql";
+import type { GraphQLClient } from "graphql-request";
+
+export const DEFAULT_API_VERSION = "2025-10";
+
+// Where --saveSchema writes introspection files and the startup check looks
+// for them unless --schemaFile is given
+export const DEFAULT_SCHEMA_DIR = path.join(
+  os.homedir(),
+  ".shopify-mcp",
+  "schemas"
+);
+
+interface CheckableTool {
+  name: string;
+  documents?: string[];
+}
+
+export interface ToolCompatibility {
+  tool: string;
+  // Fields, arguments or types the schema does not have; these requests fail
+  errors: string[];
+  // Deprecated fields, arguments and enum values the tool still uses
+  deprecations: string[];
+}
+
+/**
+ * Stable versions are quarterly (YYYY-01, -04, -07, -10); "unstable" is the
+ * preview of the next one
+ */
+export function isValidApiVersion(version: string): boolean {
+  return version === "unstable" || /^\d{4}-(01|04|07|10)$/.test(version);
+}
+
+export function adminApiUrl(domain: string, apiVersion: string): string {
+  return `https://${domain}/admin/api/${apiVersion}/graphql.json`;
+}
+
+export function defaultSchemaPath(apiVersion: string): string {
+  return path.join(DEFAULT_SCHEMA_DIR, `admin-${apiVersion}.json`);
+}
+
+/**
+ * Read an introspection result, either the raw `{ data: { __schema } }`
+ * response or just its data
+ */
+export async function loadIntrospectionSchema(
+  filePath: string
+): Promise<GraphQLSchema> {
+  const raw = JSON.parse(await fs.readFile(filePath, "utf8"));
+  const introspection: IntrospectionQuery = raw.data ?? raw;
+
+  if (!introspection.__schema) {
+    throw new Error(`${filePath} is not a GraphQL introspection result`);
+  }
+
+  return buildClientSchema(introspection);
+}
+
+/**
+ * Run the standard introspection query against the client's endpoint and
+ * save the result, so later startups can check documents offline
+ */
+export async function saveIntrospectionSchema(
+  client: GraphQLClient,
+  filePath: string
+) {
+  const data = await client.request<IntrospectionQuery>(
+    getIntrospectionQuery({ inputValueDeprecation: true })
+  );
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify({ data }), "utf8");
+}
+
+/**
+ * Validate every document of every tool against the schema. Only tools with
+ * errors or deprecations are returned.
+ */
+export function checkToolDocuments(
+  schema: GraphQLSchema,
+  tools: CheckableTool[]
+): ToolCompatibility[] {
+  const report: ToolCompatibility[] = [];
+
+  for (const tool of tools) {
+    const errors: string[] = [];
+    const deprecations: string[] = [];
+
+    for (const document of tool.documents ?? []) {
+      let ast;
+      try {
+        ast = parse(document);
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+        continue;
+      }
+
+      errors.push(...validate(schema, ast).map((error) => error.message));
+      deprecations.push(
+        ...validate(schema, ast, [NoDeprecatedCustomRule]).map(
+          (error) => error.message
+        )
+      );
+    }
+
+    if (errors.length > 0 || deprecations.length > 0) {
+      report.push({
+        tool: tool.name,
+        errors: [...new Set(errors)],
+        deprecations: [...new Set(deprecations)]
+      });
+    }
+  }
+
+  return report;
+}
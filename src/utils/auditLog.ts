@@ -0,0 +1,190 @@
+/**
+ * Mutation Audit Log
+ * Append-only JSONL record of every change a tool makes to a store
+ */
+
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { GraphQLClient } from "graphql-request";
+import { MultiStoreClient } from "./stores.js";
+
+export interface AuditRecord {
+  timestamp: string;
+  store: string | null;
+  tool: string;
+  objectId: string | null;
+  // Human-readable name such as an order number, when the tool knows it
+  objectName?: string | null;
+  input: unknown;
+  before: unknown;
+  after: unknown;
+  userErrors: Array<{ field?: string[] | string | null; message: string }>;
+  error?: string;
+}
+
+export interface AuditLogFilter {
+  objectId?: string;
+  tool?: string;
+  store?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+export const DEFAULT_AUDIT_LOG_PATH = path.join(
+  os.homedir(),
+  ".shopify-mcp",
+  "audit.jsonl"
+);
+
+// null disables the audit log
+let auditLogPath: string | null = DEFAULT_AUDIT_LOG_PATH;
+
+export function configureAuditLog(filePath: string | null) {
+  auditLogPath = filePath;
+}
+
+export function getAuditLogPath(): string | null {
+  return auditLogPath;
+}
+
+export function isAuditLogEnabled(): boolean {
+  return auditLogPath !== null;
+}
+
+/**
+ * Append one mutation record. Failures are logged rather than thrown, since
+ * by the time this runs the mutation has already been applied.
+ */
+export async function recordMutation(
+  client: GraphQLClient,
+  record: Omit<AuditRecord, "timestamp" | "store">
+) {
+  if (!auditLogPath) {
+    return;
+  }
+
+  const entry: AuditRecord = {
+    timestamp: new Date().toISOString(),
+    store: client instanceof MultiStoreClient ? client.currentStore() : null,
+    ...record
+  };
+
+  try {
+    await fs.mkdir(path.dirname(auditLogPath), { recursive: true });
+    await fs.appendFile(auditLogPath, `${JSON.stringify(entry)}\n`, "utf8");
+  } catch (error) {
+    console.error("Error writing audit log:", error);
+  }
+}
+
+/**
+ * Read records matching the filter, newest first
+ */
+export async function readAuditLog(
+  filter: AuditLogFilter = {}
+): Promise<AuditRecord[]> {
+  if (!auditLogPath) {
+    return [];
+  }
+
+  let contents: string;
+  try {
+    contents = await fs.readFile(auditLogPath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const since = filter.since ? Date.parse(filter.since) : undefined;
+  const until = filter.until ? Date.parse(filter.until) : undefined;
+
+  const records = contents
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as AuditRecord];
+      } catch {
+        // Skip a partially written trailing line rather than failing the read
+        return [];
+      }
+    })
+    .filter((record) => {
+      const time = Date.parse(record.timestamp);
+      return (
+        (!filter.objectId || matchesObject(record, filter.objectId)) &&
+        (!filter.tool || record.tool === filter.tool) &&
+        (!filter.store || record.store === filter.store) &&
+        (since === undefined || time >= since) &&
+        (until === undefined || time <= until)
+      );
+    })
+    .reverse();
+
+  return filter.limit ? records.slice(0, filter.limit) : records;
+}
+
+// Match a full GID, its numeric suffix, or an object name such as "#1042"
+function matchesObject(record: AuditRecord, objectId: string): boolean {
+  const wanted = objectId.trim();
+  const id = record.objectId ?? "";
+  return (
+    id === wanted ||
+    id.split("/").pop() === wanted ||
+    (record.objectName !== undefined &&
+      record.objectName !== null &&
+      (record.objectName === wanted || record.objectName === `#${wanted}`))
+  );
+}
+
+/**
+ * Run a mutation request and record it. The record is written whether the
+ * request succeeds, returns userErrors or throws; the outcome is passed
+ * through unchanged.
+ */
+export async function withAudit<TData>(
+  client: GraphQLClient,
+  context: {
+    tool: string;
+    objectId: string | null;
+    objectName?: string | null;
+    input: unknown;
+    before: unknown;
+  },
+  mutate: () => Promise<TData>,
+  describe: (data: TData) => {
+    objectId?: string | null;
+    after: unknown;
+    userErrors: AuditRecord["userErrors"];
+    // Set when a tool sending several mutations failed after some applied,
+    // so after is kept despite the userErrors
+    partial?: boolean;
+  }
+): Promise<TData> {
+  let data: TData;
+  try {
+    data = await mutate();
+  } catch (error) {
+    await recordMutation(client, {
+      ...context,
+      after: null,
+      userErrors: [],
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+
+  const { objectId, after, userErrors, partial } = describe(data);
+  await recordMutation(client, {
+    ...context,
+    objectId: objectId ?? context.objectId,
+    after: userErrors.length > 0 && !partial ? null : after,
+    userErrors
+  });
+
+  return data;
+}
@@ -0,0 +1,153 @@
+/**
+ * Dry-Run Helpers
+ * Shared dryRun and confirm input fields and field-by-field diffs for
+ * mutation previews
+ */
+
+import { z } from "zod";
+import { ShopifyToolError } from "./errors.js";
+
+/**
+ * dryRun field shared by every mutation tool, spread into each input schema
+ */
+export const dryRunInputShape = {
+  dryRun: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Preview the change without applying it. Fetches the current object and returns a field-by-field diff"
+    )
+};
+
+/**
+ * confirm field for tools that cannot be undone, spread into their input
+ * schemas next to dryRunInputShape
+ */
+export const confirmInputShape = {
+  confirm: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Must be true to apply this change, which cannot be undone. Not needed with dryRun"
+    )
+};
+
+/**
+ * Refuse a destructive change the caller has not confirmed
+ */
+export function requireConfirmation(confirm: boolean, action: string) {
+  if (!confirm) {
+    throw new ShopifyToolError(`Refusing to ${action} without confirm: true`, {
+      category: "validation",
+      field: ["confirm"],
+      hint: "Preview the change with dryRun: true, then call again with confirm: true."
+    });
+  }
+}
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+  // Set for string lists such as tags
+  added?: string[];
+  removed?: string[];
+}
+
+interface MetafieldValue {
+  id?: string;
+  namespace?: string;
+  key?: string;
+  value: string;
+  type?: string;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const sameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Compare the requested fields of a mutation input against the current
+ * object. Fields left out of the request are not reported; nested objects
+ * such as addresses are compared per subfield, string lists as sets and
+ * metafields by id or namespace/key.
+ */
+export function diffFields(
+  current: Record<string, any> | null,
+  requested: Record<string, unknown>,
+  prefix = ""
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const [key, after] of Object.entries(requested)) {
+    if (after === undefined) {
+      continue;
+    }
+
+    const field = `${prefix}${key}`;
+    const before = current?.[key] ?? null;
+
+    if (key === "metafields" && Array.isArray(after)) {
+      changes.push(
+        ...diffMetafields(
+          Array.isArray(before) ? before : [],
+          after as MetafieldValue[],
+          field
+        )
+      );
+    } else if (isStringList(after)) {
+      const beforeList = isStringList(before) ? before : [];
+      const added = after.filter((item) => !beforeList.includes(item));
+      const removed = beforeList.filter((item) => !after.includes(item));
+      if (added.length > 0 || removed.length > 0) {
+        changes.push({ field, before: beforeList, after, added, removed });
+      }
+    } else if (isPlainObject(after)) {
+      changes.push(
+        ...diffFields(isPlainObject(before) ? before : null, after, `${field}.`)
+      );
+    } else if (!sameValue(before, after)) {
+      changes.push({ field, before, after });
+    }
+  }
+
+  return changes;
+}
+
+function diffMetafields(
+  current: MetafieldValue[],
+  requested: MetafieldValue[],
+  field: string
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const metafield of requested) {
+    const existing = current.find((candidate) =>
+      metafield.id
+        ? candidate.id === metafield.id
+        : candidate.namespace === metafield.namespace &&
+          candidate.key === metafield.key
+    );
+    const label =
+      metafield.namespace && metafield.key
+        ? `${metafield.namespace}.${metafield.key}`
+        : existing
+          ? `${existing.namespace}.${existing.key}`
+          : metafield.id ?? "unknown";
+
+    if (!existing || existing.value !== metafield.value) {
+      changes.push({
+        field: `${field}.${label}`,
+        before: existing ? existing.value : null,
+        after: metafield.value
+      });
+    }
+  }
+
+  return changes;
+}
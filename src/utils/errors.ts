@@ -0,0 +1,273 @@
+/**
+ * Tool Errors
+ * One error model for every tool, returned to MCP clients as structured
+ * `isError` results instead of flattened strings
+ */
+
+import { ClientError } from "graphql-request";
+
+export type ErrorCategory =
+  // The access token is missing, invalid or revoked
+  | "auth"
+  // The app lacks an access scope the request needs
+  | "scope"
+  // Shopify rate limits, after the client's own retries ran out
+  | "throttle"
+  // Input, query or ShopifyQL that Shopify or the tool rejected as invalid
+  | "validation"
+  // The requested object does not exist
+  | "not_found"
+  // A mutation returned userErrors
+  | "user_error"
+  | "shopify_server"
+  | "network"
+  | "internal";
+
+export interface UserError {
+  field?: string[] | string | null;
+  message: string;
+  code?: string | null;
+}
+
+export interface ToolErrorDetails {
+  category: ErrorCategory;
+  // Shopify's error code, e.g. THROTTLED or ACCESS_DENIED
+  code?: string;
+  // Path of the input field the error is about, e.g. ["email"]
+  field?: string[];
+  // What the caller can do about it
+  hint?: string;
+  userErrors?: UserError[];
+}
+
+const DEFAULT_HINTS: Record<ErrorCategory, string | undefined> = {
+  auth: "Check the store's access token; it may be wrong, revoked or for another store.",
+  scope:
+    "Grant the missing access scope to the Shopify app and reinstall it on the store.",
+  throttle:
+    "Shopify's rate limit was reached. Wait a few seconds, or request fewer items per call.",
+  validation: "Correct the input and call the tool again.",
+  not_found: "Check the ID. Use a list or search tool to find valid IDs.",
+  user_error: "Shopify rejected the change. Fix the listed fields and retry.",
+  shopify_server: "Shopify returned a server error. Retry later.",
+  network: "Shopify could not be reached. Check the store domain and network.",
+  internal: undefined
+};
+
+export class ShopifyToolError extends Error {
+  readonly category: ErrorCategory;
+  readonly code?: string;
+  readonly field?: string[];
+  readonly hint?: string;
+  readonly userErrors?: UserError[];
+
+  constructor(message: string, details: ToolErrorDetails) {
+    super(message);
+    this.name = "ShopifyToolError";
+    this.category = details.category;
+    this.code = details.code;
+    this.field = details.field;
+    this.hint = details.hint ?? DEFAULT_HINTS[details.category];
+    this.userErrors = details.userErrors;
+  }
+
+  toJSON() {
+    return {
+      category: this.category,
+      message: this.message,
+      ...(this.code !== undefined && { code: this.code }),
+      ...(this.field !== undefined && { field: this.field }),
+      ...(this.hint !== undefined && { hint: this.hint }),
+      ...(this.userErrors !== undefined && { userErrors: this.userErrors })
+    };
+  }
+}
+
+const normalizeField = (field: UserError["field"]) =>
+  field === null || field === undefined
+    ? undefined
+    : Array.isArray(field)
+      ? field
+      : [field];
+
+/**
+ * Error for a mutation that returned userErrors, keeping every error and
+ * pointing at the first one's field
+ */
+export function userErrorsToToolError(
+  message: string,
+  userErrors: UserError[],
+  hint?: string
+): ShopifyToolError {
+  const [first] = userErrors;
+  return new ShopifyToolError(
+    `${message}: ${userErrors
+      .map((e) =>
+        e.field && normalizeField(e.field)!.length > 0
+          ? `${normalizeField(e.field)!.join(".")}: ${e.message}`
+          : e.message
+      )
+      .join(", ")}`,
+    {
+      category: "user_error",
+      code: first?.code ?? undefined,
+      field: normalizeField(first?.field),
+      hint,
+      userErrors
+    }
+  );
+}
+
+/**
+ * Error for a ShopifyQL query Shopify could not parse
+ */
+export function shopifyqlParseError(parseErrors: string[]): ShopifyToolError {
+  return new ShopifyToolError(
+    `ShopifyQL parse errors: ${parseErrors.join("; ")}`,
+    {
+      category: "validation",
+      hint: "Fix the ShopifyQL syntax, table or column names and run the query again."
+    }
+  );
+}
+
+// Shopify names the scope in ACCESS_DENIED messages, e.g. "Required access:
+// `read_reports` access scope."
+function missingScope(message: string): string | undefined {
+  return /\b((?:read|write|unauthenticated_read|unauthenticated_write)_\w+)/.exec(
+    message
+  )?.[1];
+}
+
+function fromClientError(error: ClientError): ShopifyToolError {
+  const { status } = error.response;
+  const errors = Array.isArray(error.response.errors)
+    ? error.response.errors
+    : [];
+  const codes = errors
+    .map((e) => (e.extensions as { code?: string } | undefined)?.code)
+    .filter((code): code is string => typeof code === "string");
+  const code = codes[0];
+
+  // graphql-request puts the whole response in the message; keep only what
+  // Shopify said
+  const rawErrors = (error.response as { errors?: unknown }).errors;
+  const message =
+    errors.length > 0
+      ? errors.map((e) => e.message).join("; ")
+      : typeof rawErrors === "string"
+        ? rawErrors
+        : `HTTP ${status}`;
+
+  if (status === 401) {
+    return new ShopifyToolError(message, { category: "auth", code });
+  }
+
+  if (status === 403 || code === "ACCESS_DENIED") {
+    const scope = missingScope(message);
+    return new ShopifyToolError(message, {
+      category: "scope",
+      code,
+      hint: scope
+        ? `Missing ${scope} scope. Grant it to the Shopify app and reinstall the app on the store.`
+        : undefined
+    });
+  }
+
+  if (status === 429 || code === "THROTTLED") {
+    return new ShopifyToolError(message, { category: "throttle", code });
+  }
+
+  if (code === "MAX_COST_EXCEEDED") {
+    return new ShopifyToolError(message, {
+      category: "throttle",
+      code,
+      hint: "The query is too expensive for a single request. Lower the limit and page through results."
+    });
+  }
+
+  if (status >= 500 || code === "INTERNAL_SERVER_ERROR") {
+    return new ShopifyToolError(message, { category: "shopify_server", code });
+  }
+
+  // GraphQL validation failures: the document does not match the schema
+  // of the selected API version
+  return new ShopifyToolError(message, {
+    category: "validation",
+    code,
+    hint: "The request does not match this Admin API version's schema. Check --apiVersion."
+  });
+}
+
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ETIMEDOUT",
+  "UND_ERR_CONNECT_TIMEOUT"
+]);
+
+function isNetworkError(error: Error): boolean {
+  const cause = (error as { cause?: { code?: string } }).cause;
+  const code = (error as { code?: string }).code ?? cause?.code;
+  return (
+    (code !== undefined && NETWORK_ERROR_CODES.has(code)) ||
+    error.message === "fetch failed"
+  );
+}
+
+/**
+ * Classify any thrown value as a ShopifyToolError
+ */
+export function toToolError(error: unknown): ShopifyToolError {
+  if (error instanceof ShopifyToolError) {
+    return error;
+  }
+
+  if (error instanceof ClientError) {
+    return fromClientError(error);
+  }
+
+  if (error instanceof Error) {
+    return new ShopifyToolError(error.message, {
+      category: isNetworkError(error) ? "network" : "internal"
+    });
+  }
+
+  return new ShopifyToolError(String(error), { category: "internal" });
+}
+
+/**
+ * Classify an error and prefix its message with what the tool was doing,
+ * for the rethrow at the end of each tool's execute
+ */
+export function toolError(context: string, error: unknown): ShopifyToolError {
+  const cause = toToolError(error);
+  const message = cause.message.startsWith(context)
+    ? cause.message
+    : `${context}: ${cause.message}`;
+
+  return new ShopifyToolError(message, {
+    category: cause.category,
+    code: cause.code,
+    field: cause.field,
+    hint: cause.hint,
+    userErrors: cause.userErrors
+  });
+}
+
+/**
+ * MCP tool result for a failed call
+ */
+export function toolErrorResult(error: unknown) {
+  return {
+    isError: true,
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify({ error: toToolError(error) })
+      }
+    ]
+  };
+}
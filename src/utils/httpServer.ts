@@ -0,0 +1,248 @@
+/**
+ * Streamable HTTP Server
+ * Serve MCP over HTTP for shared deployments, with bearer token auth and a
+ * health endpoint
+ */
+
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  // Clients must send `Authorization: Bearer <authToken>`
+  authToken: string;
+  // Path MCP clients connect to
+  path?: string;
+  // Builds a server with every tool registered; one is created per session
+  createServer: () => McpServer;
+  // Sessions with no request for this long are closed, 30 minutes by default
+  sessionIdleTimeoutMs?: number;
+}
+
+export interface RunningHttpServer {
+  url: string;
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+// Requests larger than this are rejected before parsing
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Longest time between checks for idle sessions
+const MAX_SESSION_SWEEP_MS = 60 * 1000;
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  lastActiveAt: number;
+  // Requests still being answered, including open event streams
+  openRequests: number;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function isAuthorized(header: string | undefined, authToken: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(header ?? "");
+  if (!match) {
+    return false;
+  }
+
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(authToken);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, "Request body too large");
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+// Errors on the MCP endpoint are JSON-RPC shaped so clients can surface them
+function sendRpcError(
+  res: http.ServerResponse,
+  status: number,
+  message: string
+) {
+  sendJson(res, status, {
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null
+  });
+}
+
+/**
+ * Listen for MCP clients over streamable HTTP. Each client session gets its
+ * own McpServer and transport; sessions end when the client sends DELETE, or
+ * are closed once idle for sessionIdleTimeoutMs, since clients that go away
+ * do not always say so.
+ */
+export async function startHttpServer(
+  options: HttpServerOptions
+): Promise<RunningHttpServer> {
+  const mcpPath = options.path ?? "/mcp";
+  const idleTimeoutMs =
+    options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  const sessions = new Map<string, Session>();
+
+  const closeIdleSessions = async () => {
+    const now = Date.now();
+    const idle = [...sessions.values()].filter(
+      (session) =>
+        session.openRequests === 0 &&
+        now - session.lastActiveAt >= idleTimeoutMs
+    );
+    // Closing a transport removes its session through onclose
+    await Promise.all(idle.map((session) => session.transport.close()));
+  };
+
+  // Keep the session active from the start of a request until its response
+  // ends, so a long tool call or event stream is not taken for idleness
+  const trackRequest = (session: Session, res: http.ServerResponse) => {
+    session.openRequests++;
+    session.lastActiveAt = Date.now();
+    res.once("close", () => {
+      session.openRequests--;
+      session.lastActiveAt = Date.now();
+    });
+  };
+
+  const handleMcpRequest = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ) => {
+    if (!isAuthorized(req.headers.authorization, options.authToken)) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="shopify-mcp"');
+      sendRpcError(res, 401, "Unauthorized: missing or invalid bearer token");
+      return;
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    if (typeof sessionId === "string") {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendRpcError(res, 404, "Session not found");
+        return;
+      }
+      trackRequest(session, res);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendRpcError(res, 400, "Bad Request: no valid session ID provided");
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        const session = {
+          transport,
+          lastActiveAt: Date.now(),
+          openRequests: 0
+        };
+        sessions.set(id, session);
+        trackRequest(session, res);
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    await options.createServer().connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+
+    try {
+      if (pathname === "/health" && req.method === "GET") {
+        sendJson(res, 200, { status: "ok", sessions: sessions.size });
+        return;
+      }
+
+      if (pathname === mcpPath) {
+        await handleMcpRequest(req, res);
+        return;
+      }
+
+      sendJson(res, 404, { error: "Not found" });
+    } catch (error) {
+      if (!res.headersSent) {
+        if (error instanceof HttpError) {
+          sendRpcError(res, error.status, error.message);
+        } else {
+          console.error("Error handling MCP HTTP request:", error);
+          sendRpcError(res, 500, "Internal server error");
+        }
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const sweep = setInterval(() => {
+    closeIdleSessions().catch((error: unknown) => {
+      console.error("Error closing idle MCP sessions:", error);
+    });
+  }, Math.min(idleTimeoutMs, MAX_SESSION_SWEEP_MS));
+  sweep.unref();
+
+  const { port } = httpServer.address() as AddressInfo;
+  const host = options.host.includes(":") ? `[${options.host}]` : options.host;
+
+  return {
+    url: `http://${host}:${port}${mcpPath}`,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      clearInterval(sweep);
+      await Promise.all(
+        [...sessions.values()].map((session) => session.transport.close())
+      );
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve, reject) =>
+        httpServer.close((error) => (error ? reject(error) : resolve()))
+      );
+    }
+  };
+}
@@ -0,0 +1,271 @@
+/**
+ * Shopify IDs
+ * Accept numeric IDs, full GIDs, order names, handles, SKUs and emails
+ * wherever a tool takes an ID, and resolve them to the GID Shopify expects
+ */
+
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { ShopifyToolError } from "./errors.js";
+
+export type ShopifyResource =
+  | "Product"
+  | "ProductVariant"
+  | "InventoryItem"
+  | "Customer"
+  | "Order"
+  | "Collection"
+  | "Location";
+
+const GID_PATTERN = /^gid:\/\/shopify\/(\w+)\/(\d+)(?:\?.*)?$/;
+
+const ORDER_BY_NAME_QUERY = gql`
+  query OrderByName($query: String!) {
+    orders(first: 1, query: $query) {
+      edges {
+        node {
+          id
+          name
+        }
+      }
+    }
+  }
+`;
+
+const PRODUCT_BY_HANDLE_QUERY = gql`
+  query ProductByHandle($query: String!) {
+    products(first: 1, query: $query) {
+      edges {
+        node {
+          id
+          handle
+        }
+      }
+    }
+  }
+`;
+
+const VARIANTS_BY_SKU_QUERY = gql`
+  query VariantsBySku($query: String!) {
+    productVariants(first: 2, query: $query) {
+      edges {
+        node {
+          id
+          sku
+          product {
+            id
+          }
+          inventoryItem {
+            id
+          }
+        }
+      }
+    }
+  }
+`;
+
+const CUSTOMER_BY_EMAIL_QUERY = gql`
+  query CustomerByEmail($query: String!) {
+    customers(first: 1, query: $query) {
+      edges {
+        node {
+          id
+          email
+        }
+      }
+    }
+  }
+`;
+
+const COLLECTION_BY_HANDLE_QUERY = gql`
+  query CollectionByHandle($query: String!) {
+    collections(first: 1, query: $query) {
+      edges {
+        node {
+          id
+          handle
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Lookup documents resolveId may send for each resource, for the tools'
+ * `documents` lists
+ */
+export const ID_LOOKUP_DOCUMENTS: Record<ShopifyResource, string[]> = {
+  Product: [PRODUCT_BY_HANDLE_QUERY, VARIANTS_BY_SKU_QUERY],
+  ProductVariant: [VARIANTS_BY_SKU_QUERY],
+  InventoryItem: [VARIANTS_BY_SKU_QUERY],
+  Customer: [CUSTOMER_BY_EMAIL_QUERY],
+  Order: [ORDER_BY_NAME_QUERY],
+  Collection: [COLLECTION_BY_HANDLE_QUERY],
+  Location: []
+};
+
+// What each resource accepts besides numeric IDs and GIDs, for messages
+const ACCEPTED_FORMS: Record<ShopifyResource, string> = {
+  Product: "numeric ID, GID, handle or SKU",
+  ProductVariant: "numeric ID, GID or SKU",
+  InventoryItem: "numeric ID, GID or a variant SKU",
+  Customer: "numeric ID, GID or email",
+  Order: "numeric ID, GID or order name like '#1042'",
+  Collection: "numeric ID, GID or handle",
+  Location: "numeric ID or GID"
+};
+
+/**
+ * Description for an ID input, listing the forms it accepts
+ */
+export function idDescription(resource: ShopifyResource): string {
+  return `${resource} ID: ${ACCEPTED_FORMS[resource]}`;
+}
+
+/**
+ * Numeric part of a GID, or the value itself if it is already numeric
+ */
+export function numericId(id: string): string {
+  return GID_PATTERN.exec(id)?.[2] ?? id;
+}
+
+/**
+ * GID for a numeric ID or GID of the given resource, without any lookup.
+ * Returns undefined for handles, SKUs and other forms that need one, and
+ * throws for a GID of another resource.
+ */
+export function toGid(
+  resource: ShopifyResource,
+  id: string
+): string | undefined {
+  const value = id.trim();
+
+  const gid = GID_PATTERN.exec(value);
+  if (gid) {
+    if (gid[1] !== resource) {
+      throw new ShopifyToolError(
+        `Expected a ${resource} ID but got a ${gid[1]} ID: ${value}`,
+        {
+          category: "validation",
+          hint: `Pass a ${ACCEPTED_FORMS[resource]}.`
+        }
+      );
+    }
+    return `gid://shopify/${resource}/${gid[2]}`;
+  }
+
+  if (/^\d+$/.test(value)) {
+    return `gid://shopify/${resource}/${value}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Quote a value for Shopify search syntax
+ */
+export const searchValue = (value: string) =>
+  `"${value.replace(/(["\\])/g, "\\$1")}"`;
+
+type Edges<TNode> = { edges: Array<{ node: TNode }> };
+
+async function findVariantsBySku(client: GraphQLClient, sku: string) {
+  const data = await client.request<{
+    productVariants: Edges<{
+      id: string;
+      sku: string | null;
+      product: { id: string };
+      inventoryItem: { id: string };
+    }>;
+  }>(VARIANTS_BY_SKU_QUERY, { query: `sku:${searchValue(sku)}` });
+
+  const variants = data.productVariants.edges.map((edge) => edge.node);
+  if (variants.length > 1) {
+    throw new ShopifyToolError(`SKU ${sku} matches more than one variant`, {
+      category: "validation",
+      hint: "Pass the variant's numeric ID or GID instead."
+    });
+  }
+  return variants[0];
+}
+
+async function lookup(
+  client: GraphQLClient,
+  resource: ShopifyResource,
+  value: string
+): Promise<string | undefined> {
+  const firstId = async (document: string, connection: string, query: string) => {
+    const data = await client.request<Record<string, Edges<{ id: string }>>>(
+      document,
+      { query }
+    );
+    return data[connection].edges[0]?.node.id;
+  };
+
+  switch (resource) {
+    case "Order":
+      return /^#\d+$/.test(value)
+        ? firstId(ORDER_BY_NAME_QUERY, "orders", `name:${searchValue(value)}`)
+        : undefined;
+
+    case "Customer":
+      return value.includes("@")
+        ? firstId(
+            CUSTOMER_BY_EMAIL_QUERY,
+            "customers",
+            `email:${searchValue(value)}`
+          )
+        : undefined;
+
+    case "Collection":
+      return firstId(
+        COLLECTION_BY_HANDLE_QUERY,
+        "collections",
+        `handle:${searchValue(value)}`
+      );
+
+    case "Product":
+      return (
+        (await firstId(
+          PRODUCT_BY_HANDLE_QUERY,
+          "products",
+          `handle:${searchValue(value)}`
+        )) ?? (await findVariantsBySku(client, value))?.product.id
+      );
+
+    case "ProductVariant":
+      return (await findVariantsBySku(client, value))?.id;
+
+    case "InventoryItem":
+      return (await findVariantsBySku(client, value))?.inventoryItem.id;
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Resolve any accepted form of an ID to the resource's GID, querying Shopify
+ * for order names, handles, SKUs and emails. Throws a not_found error when
+ * nothing matches.
+ */
+export async function resolveId(
+  client: GraphQLClient,
+  resource: ShopifyResource,
+  id: string
+): Promise<string> {
+  const gid = toGid(resource, id);
+  if (gid) {
+    return gid;
+  }
+
+  const value = id.trim();
+  const found = await lookup(client, resource, value);
+  if (!found) {
+    throw new ShopifyToolError(`No ${resource} found for "${value}"`, {
+      category: "not_found",
+      hint: `Pass a ${ACCEPTED_FORMS[resource]}.`
+    });
+  }
+  return found;
+}
@@ -0,0 +1,136 @@
+/**
+ * Inventory Item Walking
+ * Page through inventory items with every one of their levels, in pages
+ * small enough for Shopify's 1000-point single query cost limit
+ */
+
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { QUANTITY_NAMES } from "./inventoryQuantities.js";
+import {
+  fetchPages,
+  type Connection,
+  type CursorVariables,
+  type PageInfo
+} from "./pagination.js";
+
+export interface InventoryLevelNode {
+  quantities: Array<{
+    name: string;
+    quantity: number;
+  }>;
+  location: {
+    id: string;
+    name: string;
+  };
+}
+
+// Items per page, and levels fetched along with each item. A level costs 3
+// points, so a page stays near 800 points with the item's other fields
+const ITEMS_PAGE_SIZE = 10;
+const LEVELS_PAGE_SIZE = 25;
+
+// Levels per follow-up request for an item stocked at more locations
+const MORE_LEVELS_PAGE_SIZE = 250;
+
+const LEVEL_CONNECTION_FIELDS = `
+  edges {
+    node {
+      quantities(names: ${JSON.stringify(QUANTITY_NAMES)}) {
+        name
+        quantity
+      }
+      location {
+        id
+        name
+      }
+    }
+  }
+  pageInfo {
+    hasNextPage
+    hasPreviousPage
+    startCursor
+    endCursor
+  }
+`;
+
+/**
+ * Selection for an item's first page of levels, interpolated into each
+ * walking query's inventoryItems node
+ */
+export const INVENTORY_LEVELS_FIELDS = `
+  inventoryLevels(first: ${LEVELS_PAGE_SIZE}) {
+    ${LEVEL_CONNECTION_FIELDS}
+  }
+`;
+
+export const GET_MORE_INVENTORY_LEVELS_QUERY = gql`
+  query GetMoreInventoryLevels($id: ID!, $first: Int, $after: String) {
+    inventoryItem(id: $id) {
+      inventoryLevels(first: $first, after: $after) {
+        ${LEVEL_CONNECTION_FIELDS}
+      }
+    }
+  }
+`;
+
+/**
+ * Walk the inventoryItems connection of a query selecting
+ * INVENTORY_LEVELS_FIELDS, then fetch the remaining levels of any item
+ * stocked at more locations than the first page holds. Each item comes back
+ * with all its levels in inventoryLevels.edges
+ */
+export async function fetchInventoryItems<
+  TItem extends {
+    id: string;
+    inventoryLevels: Connection<InventoryLevelNode>;
+  }
+>(
+  client: GraphQLClient,
+  document: string,
+  variables: Record<string, unknown>,
+  maxItems: number
+): Promise<{ nodes: TItem[]; pageInfo: PageInfo }> {
+  const items = await fetchPages(
+    async (cursorVariables: CursorVariables) => {
+      const data = (await client.request(document, {
+        ...variables,
+        ...cursorVariables
+      })) as {
+        inventoryItems: Connection<TItem>;
+      };
+      return data.inventoryItems;
+    },
+    { limit: ITEMS_PAGE_SIZE, maxItems }
+  );
+
+  for (const item of items.nodes) {
+    const { hasNextPage, endCursor } = item.inventoryLevels.pageInfo;
+    if (!hasNextPage || !endCursor) {
+      continue;
+    }
+
+    const more = await fetchPages(
+      async (cursorVariables: CursorVariables) => {
+        const data = (await client.request(GET_MORE_INVENTORY_LEVELS_QUERY, {
+          id: item.id,
+          ...cursorVariables
+        })) as {
+          inventoryItem: {
+            inventoryLevels: Connection<InventoryLevelNode>;
+          };
+        };
+        return data.inventoryItem.inventoryLevels;
+      },
+      {
+        limit: MORE_LEVELS_PAGE_SIZE,
+        after: endCursor,
+        maxItems: Number.POSITIVE_INFINITY
+      }
+    );
+    item.inventoryLevels.edges.push(...more.nodes.map((node) => ({ node })));
+    item.inventoryLevels.pageInfo = more.pageInfo;
+  }
+
+  return items;
+}
@@ -0,0 +1,294 @@
+/**
+ * Inventory Quantity Helpers
+ * Shared inputs, GraphQL selections and before/after formatting for the
+ * tools that change stock through inventory*Quantities mutations
+ */
+
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { z } from "zod";
+import { ShopifyToolError } from "./errors.js";
+import { idDescription, resolveId } from "./ids.js";
+
+// Reasons Shopify accepts for a quantity change
+export const INVENTORY_REASONS = [
+  "correction",
+  "cycle_count_available",
+  "damaged",
+  "movement_created",
+  "movement_updated",
+  "movement_received",
+  "movement_canceled",
+  "other",
+  "promotion",
+  "quality_control",
+  "received",
+  "reservation_created",
+  "reservation_deleted",
+  "reservation_updated",
+  "restock",
+  "safety_stock",
+  "shrinkage"
+] as const;
+
+// Quantity names reported for every level; on_hand is the sum of the others
+// except incoming
+export const QUANTITY_NAMES = [
+  "available",
+  "committed",
+  "damaged",
+  "incoming",
+  "on_hand",
+  "quality_control",
+  "reserved",
+  "safety_stock"
+] as const;
+
+/**
+ * Reason and reference document every inventory change requires, spread
+ * into each tool's schema
+ */
+export const inventoryChangeInputShape = {
+  reason: z
+    .enum(INVENTORY_REASONS)
+    .describe(
+      "Why the quantities change, e.g. correction, cycle_count_available, damaged, received"
+    ),
+  referenceDocumentUri: z
+    .string()
+    .url()
+    .describe(
+      "URI of the document behind the change, e.g. 'logistics://warehouse/count/2024-01-31' or a link to a purchase order"
+    )
+};
+
+/**
+ * Inventory item and location of one line of a change
+ */
+export const inventoryLineShape = {
+  inventoryItemId: z
+    .string()
+    .min(1)
+    .describe(idDescription("InventoryItem")),
+  locationId: z.string().min(1).describe(idDescription("Location"))
+};
+
+export const ADJUSTMENT_GROUP_FIELDS = `
+  createdAt
+  reason
+  referenceDocumentUri
+  changes {
+    name
+    delta
+    quantityAfterChange
+    item {
+      id
+      sku
+    }
+    location {
+      id
+      name
+    }
+  }
+`;
+
+export const GET_INVENTORY_LEVEL_QUERY = gql`
+  query GetInventoryLevel($inventoryItemId: ID!, $locationId: ID!) {
+    inventoryItem(id: $inventoryItemId) {
+      id
+      sku
+      inventoryLevel(locationId: $locationId) {
+        quantities(names: ${JSON.stringify(QUANTITY_NAMES)}) {
+          name
+          quantity
+        }
+        location {
+          id
+          name
+        }
+      }
+    }
+  }
+`;
+
+export interface InventoryLevelSnapshot {
+  inventoryItemId: string;
+  sku: string | null;
+  locationId: string;
+  locationName: string;
+  quantities: Record<string, number>;
+}
+
+export interface InventoryAdjustmentGroup {
+  createdAt: string;
+  reason: string;
+  referenceDocumentUri: string | null;
+  changes: Array<{
+    name: string;
+    delta: number;
+    quantityAfterChange: number | null;
+    item: { id: string; sku: string | null };
+    location: { id: string; name: string };
+  }>;
+}
+
+export interface InventoryLevels {
+  get(
+    inventoryItemId: string,
+    locationId: string
+  ): InventoryLevelSnapshot | undefined;
+  all(): InventoryLevelSnapshot[];
+}
+
+/**
+ * One quantity of one item at one location, before and after a change
+ */
+export interface QuantityChange {
+  inventoryItemId: string;
+  sku: string | null;
+  locationId: string;
+  locationName: string;
+  name: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+const levelKey = (inventoryItemId: string, locationId: string) =>
+  `${inventoryItemId}|${locationId}`;
+
+/**
+ * Resolve the item and location IDs of each line to GIDs, keeping the
+ * other fields
+ */
+export async function resolveInventoryLines<
+  T extends { inventoryItemId: string; locationId: string }
+>(client: GraphQLClient, lines: T[]): Promise<T[]> {
+  const resolved: T[] = [];
+  for (const line of lines) {
+    resolved.push({
+      ...line,
+      inventoryItemId: await resolveId(
+        client,
+        "InventoryItem",
+        line.inventoryItemId
+      ),
+      locationId: await resolveId(client, "Location", line.locationId)
+    });
+  }
+  return resolved;
+}
+
+/**
+ * Current quantities of each resolved line. Throws when an item does not
+ * exist or is not stocked at the location, since Shopify rejects changes to
+ * those.
+ */
+export async function fetchInventoryLevels(
+  client: GraphQLClient,
+  lines: Array<{ inventoryItemId: string; locationId: string }>
+): Promise<InventoryLevels> {
+  const levels = new Map<string, InventoryLevelSnapshot>();
+
+  for (const { inventoryItemId, locationId } of lines) {
+    const key = levelKey(inventoryItemId, locationId);
+    if (levels.has(key)) {
+      continue;
+    }
+
+    const data = (await client.request(GET_INVENTORY_LEVEL_QUERY, {
+      inventoryItemId,
+      locationId
+    })) as {
+      inventoryItem: {
+        id: string;
+        sku: string | null;
+        inventoryLevel: {
+          quantities: Array<{ name: string; quantity: number }>;
+          location: { id: string; name: string };
+        } | null;
+      } | null;
+    };
+
+    const item = data.inventoryItem;
+    if (!item) {
+      throw new ShopifyToolError(
+        `Inventory item with ID ${inventoryItemId} not found`,
+        { category: "not_found" }
+      );
+    }
+    if (!item.inventoryLevel) {
+      throw new ShopifyToolError(
+        `Inventory item ${item.sku ?? inventoryItemId} is not stocked at location ${locationId}`,
+        {
+          category: "validation",
+          field: ["locationId"],
+          hint: "Check get-inventory-levels for the locations that stock the item."
+        }
+      );
+    }
+
+    levels.set(key, {
+      inventoryItemId: item.id,
+      sku: item.sku,
+      locationId: item.inventoryLevel.location.id,
+      locationName: item.inventoryLevel.location.name,
+      quantities: Object.fromEntries(
+        item.inventoryLevel.quantities.map((q) => [q.name, q.quantity])
+      )
+    });
+  }
+
+  return {
+    get: (inventoryItemId: string, locationId: string) =>
+      levels.get(levelKey(inventoryItemId, locationId)),
+    all: () => [...levels.values()]
+  };
+}
+
+/**
+ * Before and after quantities for a planned change of one quantity
+ */
+export function plannedChange(
+  level: InventoryLevelSnapshot,
+  name: string,
+  delta: number
+): QuantityChange {
+  const before = level.quantities[name] ?? 0;
+  return {
+    inventoryItemId: level.inventoryItemId,
+    sku: level.sku,
+    locationId: level.locationId,
+    locationName: level.locationName,
+    name,
+    before,
+    after: before + delta,
+    delta
+  };
+}
+
+/**
+ * Before and after quantities for the changes Shopify applied
+ */
+export function appliedChanges(
+  group: InventoryAdjustmentGroup,
+  levels: InventoryLevels
+): QuantityChange[] {
+  return group.changes.map((change) => {
+    const after =
+      change.quantityAfterChange ??
+      (levels.get(change.item.id, change.location.id)?.quantities[
+        change.name
+      ] ?? 0) + change.delta;
+    return {
+      inventoryItemId: change.item.id,
+      sku: change.item.sku,
+      locationId: change.location.id,
+      locationName: change.location.name,
+      name: change.name,
+      before: after - change.delta,
+      after,
+      delta: change.delta
+    };
+  });
+}
@@ -0,0 +1,237 @@
+/**
+ * Inventory Snapshots
+ * Point-in-time copies of every tracked inventory level, saved as local JSON
+ * files so later stock can be compared against them
+ */
+
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { ShopifyToolError } from "./errors.js";
+import {
+  INVENTORY_LEVELS_FIELDS,
+  fetchInventoryItems,
+  type InventoryLevelNode
+} from "./inventoryItems.js";
+import type { Connection } from "./pagination.js";
+import { MultiStoreClient } from "./stores.js";
+
+export interface InventorySnapshotLevel {
+  inventoryItemId: string;
+  sku: string | null;
+  productTitle: string | null;
+  variantTitle: string | null;
+  locationId: string;
+  locationName: string;
+  quantities: Record<string, number>;
+}
+
+export interface InventorySnapshot {
+  name: string;
+  takenAt: string;
+  store: string | null;
+  // False when maxScannedItems stopped the walk before the last item
+  complete: boolean;
+  scannedItemCount: number;
+  levels: InventorySnapshotLevel[];
+}
+
+// Inventory item fields selected by the GetInventorySnapshot query
+type SnapshotItemNode = {
+  id: string;
+  sku: string | null;
+  tracked: boolean;
+  inventoryLevels: Connection<InventoryLevelNode>;
+  variant: {
+    title: string;
+    product: {
+      title: string;
+    };
+  } | null;
+};
+
+export const DEFAULT_SNAPSHOT_DIRECTORY = path.join(
+  os.homedir(),
+  ".shopify-mcp",
+  "snapshots"
+);
+
+let snapshotDirectory = DEFAULT_SNAPSHOT_DIRECTORY;
+
+export function configureInventorySnapshots(directory: string) {
+  snapshotDirectory = directory;
+}
+
+export function getInventorySnapshotDirectory(): string {
+  return snapshotDirectory;
+}
+
+/**
+ * Store the client sends requests to, or null for a single-store setup
+ */
+export function snapshotStore(client: GraphQLClient): string | null {
+  return client instanceof MultiStoreClient ? client.currentStore() : null;
+}
+
+export const GET_INVENTORY_SNAPSHOT_QUERY = gql`
+  query GetInventorySnapshot($first: Int, $after: String) {
+    inventoryItems(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          sku
+          tracked
+          ${INVENTORY_LEVELS_FIELDS}
+          variant {
+            title
+            product {
+              title
+            }
+          }
+        }
+      }
+      pageInfo {
+        hasNextPage
+        hasPreviousPage
+        startCursor
+        endCursor
+      }
+    }
+  }
+`;
+
+/**
+ * Read every level of every tracked inventory item in the client's store
+ */
+export async function takeInventorySnapshot(
+  client: GraphQLClient,
+  name: string,
+  maxItems: number
+): Promise<InventorySnapshot> {
+  const takenAt = new Date().toISOString();
+  const { nodes, pageInfo } = await fetchInventoryItems<SnapshotItemNode>(
+    client,
+    GET_INVENTORY_SNAPSHOT_QUERY,
+    {},
+    maxItems
+  );
+
+  // Shopify only counts stock for tracked items
+  const levels = nodes
+    .filter((item) => item.tracked)
+    .flatMap((item) =>
+      item.inventoryLevels.edges.map(({ node: level }) => {
+        const quantities: Record<string, number> = {};
+        level.quantities.forEach((q) => {
+          quantities[q.name] = q.quantity;
+        });
+        return {
+          inventoryItemId: item.id,
+          sku: item.sku,
+          productTitle: item.variant?.product.title ?? null,
+          variantTitle: item.variant?.title ?? null,
+          locationId: level.location.id,
+          locationName: level.location.name,
+          quantities
+        };
+      })
+    );
+
+  return {
+    name,
+    takenAt,
+    store: snapshotStore(client),
+    complete: !pageInfo.hasNextPage,
+    scannedItemCount: nodes.length,
+    levels
+  };
+}
+
+/**
+ * Fail early when a snapshot of this name already exists in the store, so
+ * the catalog is not walked only to be refused at the end
+ */
+export async function checkSnapshotNameFree(
+  name: string,
+  store: string | null
+) {
+  try {
+    await fs.access(snapshotPath(name, store));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return;
+    }
+    throw error;
+  }
+  throw snapshotExistsError(name);
+}
+
+/**
+ * Save a snapshot under its name and store. An existing snapshot of the same
+ * name is only replaced when overwrite is set. Returns the file path
+ */
+export async function saveInventorySnapshot(
+  snapshot: InventorySnapshot,
+  overwrite = false
+): Promise<string> {
+  const filePath = snapshotPath(snapshot.name, snapshot.store);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  try {
+    await fs.writeFile(filePath, JSON.stringify(snapshot), {
+      encoding: "utf8",
+      flag: overwrite ? "w" : "wx"
+    });
+  } catch (error) {
+    // Another snapshot of the name may have been saved during the walk
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      throw snapshotExistsError(snapshot.name);
+    }
+    throw error;
+  }
+  return filePath;
+}
+
+export async function readInventorySnapshot(
+  name: string,
+  store: string | null
+): Promise<InventorySnapshot> {
+  let contents: string;
+  try {
+    contents = await fs.readFile(snapshotPath(name, store), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new ShopifyToolError(`Inventory snapshot "${name}" not found`, {
+        category: "not_found",
+        field: ["name"],
+        hint: "Save one first with save-inventory-snapshot."
+      });
+    }
+    throw error;
+  }
+  return JSON.parse(contents) as InventorySnapshot;
+}
+
+// Names become file names, so they are kept to characters that cannot
+// leave the snapshot directory. Each store's snapshots get a directory of
+// their own, so stores can use the same names
+function snapshotPath(name: string, store: string | null): string {
+  if (!/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(name)) {
+    throw new ShopifyToolError(
+      `Invalid inventory snapshot name "${name}": use letters, digits, ".", "_" and "-"`,
+      { category: "validation", field: ["name"] }
+    );
+  }
+  return store
+    ? path.join(snapshotDirectory, store, `${name}.json`)
+    : path.join(snapshotDirectory, `${name}.json`);
+}
+
+function snapshotExistsError(name: string) {
+  return new ShopifyToolError(`Inventory snapshot "${name}" already exists`, {
+    category: "validation",
+    field: ["name"],
+    hint: "Choose another name, or set overwrite to replace it."
+  });
+}
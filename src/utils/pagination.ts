@@ -0,0 +1,143 @@
+/**
+ * Cursor Pagination Utilities
+ * Shared input fields and page walking for Shopify connection queries
+ */
+
+import { z } from "zod";
+import { ShopifyToolError } from "./errors.js";
+
+export interface PageInfo {
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  startCursor: string | null;
+  endCursor: string | null;
+}
+
+export interface Connection<TNode> {
+  edges: Array<{ node: TNode }>;
+  pageInfo: PageInfo;
+}
+
+/**
+ * Variables passed to a connection field: `first`/`after` when paging
+ * forwards, `last`/`before` when paging backwards
+ */
+export interface CursorVariables {
+  first?: number;
+  last?: number;
+  after?: string;
+  before?: string;
+}
+
+/**
+ * Pagination fields shared by every list tool, spread into each input schema
+ */
+export const paginationInputShape = {
+  after: z
+    .string()
+    .optional()
+    .describe(
+      "Cursor to continue after (pageInfo.endCursor from a previous response)"
+    ),
+  before: z
+    .string()
+    .optional()
+    .describe(
+      "Cursor to page backwards from (pageInfo.startCursor from a previous response). Cannot be combined with after"
+    ),
+  maxItems: z
+    .number()
+    .min(1)
+    .max(5000)
+    .optional()
+    .describe(
+      "Auto-paginate: keep following cursors until this many items are collected or the list ends. Each page requests 'limit' items"
+    )
+};
+
+export interface PaginationOptions {
+  limit: number;
+  after?: string;
+  before?: string;
+  maxItems?: number;
+}
+
+/**
+ * Fetch one page, or walk pages until maxItems is reached, and return the
+ * collected nodes with the pageInfo describing where the walk stopped
+ */
+export async function fetchPages<TNode>(
+  fetchPage: (variables: CursorVariables) => Promise<Connection<TNode>>,
+  options: PaginationOptions
+): Promise<{ nodes: TNode[]; pageInfo: PageInfo }> {
+  const { limit, after, before, maxItems } = options;
+
+  if (after !== undefined && before !== undefined) {
+    throw new ShopifyToolError("after cannot be combined with before", {
+      category: "validation",
+      field: ["before"],
+      hint: "Pass after to page forwards or before to page backwards, not both."
+    });
+  }
+  const backwards = before !== undefined;
+
+  if (maxItems === undefined) {
+    const page = await fetchPage(
+      backwards ? { last: limit, before } : { first: limit, after }
+    );
+    return {
+      nodes: page.edges.map((edge) => edge.node),
+      pageInfo: page.pageInfo
+    };
+  }
+
+  let nodes: TNode[] = [];
+  let cursor = backwards ? before : after;
+  let firstPageInfo: PageInfo | undefined;
+  let lastPageInfo: PageInfo | undefined;
+
+  while (nodes.length < maxItems) {
+    const pageSize = Math.min(limit, maxItems - nodes.length);
+    const page = await fetchPage(
+      backwards
+        ? { last: pageSize, before: cursor }
+        : { first: pageSize, after: cursor }
+    );
+    const pageNodes = page.edges.map((edge) => edge.node);
+
+    // Backwards pages arrive in list order, so earlier pages go in front
+    nodes = backwards ? [...pageNodes, ...nodes] : [...nodes, ...pageNodes];
+    firstPageInfo = firstPageInfo ?? page.pageInfo;
+    lastPageInfo = page.pageInfo;
+
+    const hasMore = backwards
+      ? page.pageInfo.hasPreviousPage
+      : page.pageInfo.hasNextPage;
+    cursor =
+      (backwards ? page.pageInfo.startCursor : page.pageInfo.endCursor) ??
+      undefined;
+    if (!hasMore || !cursor || pageNodes.length === 0) {
+      break;
+    }
+  }
+
+  const first = firstPageInfo!;
+  const last = lastPageInfo!;
+
+  return {
+    nodes,
+    pageInfo: backwards
+      ? {
+          hasNextPage: first.hasNextPage,
+          hasPreviousPage: last.hasPreviousPage,
+          startCursor: last.startCursor,
+          endCursor: first.endCursor
+        }
+      : {
+          hasNextPage: last.hasNextPage,
+          hasPreviousPage: first.hasPreviousPage,
+          startCursor: first.startCursor,
+          endCursor: last.endCursor
+        }
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Product Media Helpers
+ * Shared selection, formatting and ID matching for the product media tools
+ */
+
+import path from "node:path";
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { ShopifyToolError } from "./errors.js";
+
+export type MediaContentType = "IMAGE" | "VIDEO" | "EXTERNAL_VIDEO" | "MODEL_3D";
+
+// Media Shopify accepts, by file extension
+const MEDIA_FILE_TYPES: Record<
+  string,
+  { mimeType: string; mediaContentType: MediaContentType }
+> = {
+  ".jpg": { mimeType: "image/jpeg", mediaContentType: "IMAGE" },
+  ".jpeg": { mimeType: "image/jpeg", mediaContentType: "IMAGE" },
+  ".png": { mimeType: "image/png", mediaContentType: "IMAGE" },
+  ".gif": { mimeType: "image/gif", mediaContentType: "IMAGE" },
+  ".webp": { mimeType: "image/webp", mediaContentType: "IMAGE" },
+  ".heic": { mimeType: "image/heic", mediaContentType: "IMAGE" },
+  ".mp4": { mimeType: "video/mp4", mediaContentType: "VIDEO" },
+  ".mov": { mimeType: "video/quicktime", mediaContentType: "VIDEO" },
+  ".webm": { mimeType: "video/webm", mediaContentType: "VIDEO" },
+  ".glb": { mimeType: "model/gltf-binary", mediaContentType: "MODEL_3D" },
+  ".usdz": { mimeType: "model/vnd.usdz+zip", mediaContentType: "MODEL_3D" }
+};
+
+const EXTERNAL_VIDEO_HOSTS = /(^|\.)(youtube\.com|youtu\.be|vimeo\.com)$/;
+
+/**
+ * MIME and media type of a local file, from its extension
+ */
+export function mediaTypeForFile(filePath: string) {
+  const type = MEDIA_FILE_TYPES[path.extname(filePath).toLowerCase()];
+  if (!type) {
+    throw new ShopifyToolError(`Unsupported media file type: ${filePath}`, {
+      category: "validation",
+      hint: `Use one of ${Object.keys(MEDIA_FILE_TYPES).join(", ")}.`
+    });
+  }
+  return type;
+}
+
+/**
+ * Media type of a remote URL: YouTube and Vimeo links are external videos,
+ * anything else goes by extension and defaults to an image
+ */
+export function mediaTypeForUrl(url: string): MediaContentType {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new ShopifyToolError(`Invalid media URL: ${url}`, {
+      category: "validation"
+    });
+  }
+
+  if (EXTERNAL_VIDEO_HOSTS.test(parsed.hostname)) {
+    return "EXTERNAL_VIDEO";
+  }
+  return (
+    MEDIA_FILE_TYPES[path.extname(parsed.pathname).toLowerCase()]
+      ?.mediaContentType ?? "IMAGE"
+  );
+}
+
+/**
+ * Selection for a media item, interpolated into each tool's documents
+ */
+export const MEDIA_FIELDS = `
+  id
+  alt
+  mediaContentType
+  status
+  preview {
+    image {
+      url
+    }
+  }
+`;
+
+export const GET_PRODUCT_MEDIA_QUERY = gql`
+  query GetProductMedia($id: ID!) {
+    product(id: $id) {
+      id
+      title
+      media(first: 250) {
+        edges {
+          node {
+            ${MEDIA_FIELDS}
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Flatten a media node; the preview stays empty until Shopify has
+ * processed new media
+ */
+export function formatMedia(node: any) {
+  return {
+    id: node.id,
+    alt: node.alt,
+    mediaContentType: node.mediaContentType,
+    status: node.status,
+    previewUrl: node.preview?.image?.url ?? null
+  };
+}
+
+export type FormattedMedia = ReturnType<typeof formatMedia>;
+
+/**
+ * Fetch a product's title and media in order
+ */
+export async function fetchProductMedia(
+  client: GraphQLClient,
+  productId: string
+): Promise<{ id: string; title: string; media: FormattedMedia[] }> {
+  const data = (await client.request(GET_PRODUCT_MEDIA_QUERY, {
+    id: productId
+  })) as { product: any };
+
+  if (!data.product) {
+    throw new ShopifyToolError(`Product with ID ${productId} not found`, {
+      category: "not_found"
+    });
+  }
+
+  return {
+    id: data.product.id,
+    title: data.product.title,
+    media: data.product.media.edges.map((edge: any) => formatMedia(edge.node))
+  };
+}
+
+/**
+ * Match media IDs, as GIDs or their numeric part, against a product's
+ * media. Throws for media the product doesn't have.
+ */
+export function matchMedia(
+  product: { id: string; media: FormattedMedia[] },
+  ids: string[],
+  field: string
+): FormattedMedia[] {
+  return ids.map((id) => {
+    const value = id.trim();
+    const media = product.media.find(
+      (candidate) =>
+        candidate.id === value || candidate.id.endsWith(`/${value}`)
+    );
+    if (!media) {
+      throw new ShopifyToolError(
+        `Media ${value} is not attached to product ${product.id}`,
+        {
+          category: "validation",
+          field: [field],
+          hint: "Use get-product-by-id to list the product's media IDs."
+        }
+      );
+    }
+    return media;
+  });
+}
@@ -0,0 +1,199 @@
+/**
+ * Product Variant Helpers
+ * Shared input fields, GraphQL selection and formatting for the
+ * productVariantsBulk* tools
+ */
+
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { z } from "zod";
+import { ShopifyToolError } from "./errors.js";
+import {
+  fetchPages,
+  type Connection,
+  type CursorVariables
+} from "./pagination.js";
+
+// Variants per page; 250 variants with their inventory item selection cost
+// more than Shopify's 1000-point single query limit
+const VARIANTS_PAGE_SIZE = 100;
+
+// Most variants a product can have
+const MAX_VARIANTS = 2048;
+
+/**
+ * Variant fields the create and update tools accept, spread into each
+ * tool's variant schema
+ */
+export const variantInputShape = {
+  options: z
+    .array(z.object({ name: z.string().min(1), value: z.string().min(1) }))
+    .min(1)
+    .describe(
+      'Option values, e.g. [{"name": "Size", "value": "Large"}, {"name": "Color", "value": "Blue"}]'
+    ),
+  price: z
+    .string()
+    .regex(/^\d+(\.\d+)?$/, "Expected a decimal amount like 19.99")
+    .describe("Price in the store currency, e.g. 19.99"),
+  compareAtPrice: z
+    .string()
+    .regex(/^\d+(\.\d+)?$/, "Expected a decimal amount like 24.99")
+    .nullable()
+    .describe("Original price shown struck through. null removes it"),
+  sku: z.string(),
+  barcode: z.string().describe("Barcode, e.g. UPC, EAN or ISBN"),
+  weight: z.object({
+    value: z.number().min(0),
+    unit: z.enum(["GRAMS", "KILOGRAMS", "OUNCES", "POUNDS"])
+  }),
+  inventoryPolicy: z
+    .enum(["DENY", "CONTINUE"])
+    .describe("DENY stops selling when out of stock, CONTINUE keeps selling")
+};
+
+export interface VariantInput {
+  options?: Array<{ name: string; value: string }>;
+  price?: string;
+  compareAtPrice?: string | null;
+  sku?: string;
+  barcode?: string;
+  weight?: {
+    value: number;
+    unit: "GRAMS" | "KILOGRAMS" | "OUNCES" | "POUNDS";
+  };
+  inventoryPolicy?: "DENY" | "CONTINUE";
+}
+
+/**
+ * Selection for a variant, interpolated into each tool's documents
+ */
+export const VARIANT_FIELDS = `
+  id
+  title
+  price
+  compareAtPrice
+  sku
+  barcode
+  inventoryPolicy
+  selectedOptions {
+    name
+    value
+  }
+  inventoryItem {
+    id
+    measurement {
+      weight {
+        value
+        unit
+      }
+    }
+  }
+`;
+
+export const GET_PRODUCT_VARIANTS_QUERY = gql`
+  query GetProductVariants($id: ID!, $first: Int, $after: String) {
+    product(id: $id) {
+      id
+      title
+      variants(first: $first, after: $after) {
+        edges {
+          node {
+            ${VARIANT_FIELDS}
+          }
+        }
+        pageInfo {
+          hasNextPage
+          hasPreviousPage
+          startCursor
+          endCursor
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Flatten a variant node into the shape the tools return and take as input
+ */
+export function formatVariant(node: any) {
+  return {
+    id: node.id,
+    title: node.title,
+    options: node.selectedOptions,
+    price: node.price,
+    compareAtPrice: node.compareAtPrice,
+    sku: node.sku,
+    barcode: node.barcode,
+    weight: node.inventoryItem?.measurement?.weight ?? null,
+    inventoryPolicy: node.inventoryPolicy,
+    inventoryItemId: node.inventoryItem?.id
+  };
+}
+
+export type FormattedVariant = ReturnType<typeof formatVariant>;
+
+/**
+ * Map a tool's variant input to a ProductVariantsBulkInput. SKU and weight
+ * live on the variant's inventory item.
+ */
+export function toVariantsBulkInput(variant: VariantInput, id?: string) {
+  const { options, sku, weight, ...fields } = variant;
+
+  return {
+    ...(id && { id }),
+    ...fields,
+    ...(options && {
+      optionValues: options.map((option) => ({
+        optionName: option.name,
+        name: option.value
+      }))
+    }),
+    ...((sku !== undefined || weight) && {
+      inventoryItem: {
+        ...(sku !== undefined && { sku }),
+        ...(weight && { measurement: { weight } })
+      }
+    })
+  };
+}
+
+/**
+ * Fetch a product's title and variants, for dry-run diffs and audit
+ * snapshots
+ */
+export async function fetchProductVariants(
+  client: GraphQLClient,
+  productId: string
+): Promise<{ id: string; title: string; variants: FormattedVariant[] }> {
+  let product: { id: string; title: string } | undefined;
+  const { nodes } = await fetchPages(
+    async (cursorVariables: CursorVariables) => {
+      const data = (await client.request(GET_PRODUCT_VARIANTS_QUERY, {
+        id: productId,
+        ...cursorVariables
+      })) as {
+        product: {
+          id: string;
+          title: string;
+          variants: Connection<any>;
+        } | null;
+      };
+
+      if (!data.product) {
+        throw new ShopifyToolError(`Product with ID ${productId} not found`, {
+          category: "not_found"
+        });
+      }
+      product = data.product;
+      return data.product.variants;
+    },
+    { limit: VARIANTS_PAGE_SIZE, maxItems: MAX_VARIANTS }
+  );
+
+  return {
+    id: product!.id,
+    title: product!.title,
+    variants: nodes.map(formatVariant)
+  };
+}
@@ -0,0 +1,262 @@
+/**
+ * Response Cache
+ * In-memory cache of read tool results with per-tool TTLs. Entries are
+ * dropped when a mutation touches an object the cached result contains, or
+ * could change which objects the result holds.
+ */
+
+import { z } from "zod";
+import { globToRegExp, parsePatternList } from "./toolFilter.js";
+
+interface CacheableTool {
+  name: string;
+  mutation?: boolean;
+  cacheTtlSeconds?: number;
+  cacheInvalidates?: string[];
+}
+
+/**
+ * TTL override from --cacheTtl, e.g. "get-locations=3600" or "get-*=0"
+ */
+export interface CacheTtlRule {
+  pattern: string;
+  seconds: number;
+}
+
+export interface ResponseCacheOptions {
+  // Entries kept before the least recently used are evicted
+  maxEntries?: number;
+  // Override the TTLs tools declare; later rules win
+  ttlRules?: CacheTtlRule[];
+  now?: () => number;
+}
+
+interface CacheEntry {
+  store: string;
+  tool: string;
+  value: unknown;
+  expiresAt: number;
+  // Shopify GIDs in the result, and their resource types
+  objectIds: Set<string>;
+  objectTypes: Set<string>;
+}
+
+export const DEFAULT_CACHE_MAX_ENTRIES = 500;
+
+// Cached tools that filter, total or group objects by their fields, for
+// mutation tools to list in cacheInvalidates. A change can put an object in
+// one of their results that does not hold it yet, or alter a total that holds
+// no object IDs at all
+export const PRODUCT_LIST_TOOLS = ["get-products", "get-collections"];
+export const INVENTORY_REPORT_TOOLS = [
+  "get-inventory-levels",
+  "get-low-stock-report",
+  "get-inventory-valuation",
+  "suggest-reorders"
+];
+export const ANALYTICS_TOOLS = [
+  "get-sales-report",
+  "get-product-performance",
+  "get-customer-analytics",
+  "run-shopifyql-query"
+];
+
+/**
+ * bypassCache field, added to the arguments of every cached tool by the
+ * registry
+ */
+export const cacheInputShape = {
+  bypassCache: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Fetch fresh data from Shopify instead of returning a recently cached result"
+    )
+};
+
+const GID_PATTERN = /gid:\/\/shopify\/(\w+)\/[\w-]+/g;
+
+/**
+ * Every Shopify GID in a value, with the resource types they belong to
+ */
+export function collectObjectIds(value: unknown): {
+  ids: Set<string>;
+  types: Set<string>;
+} {
+  const ids = new Set<string>();
+  const types = new Set<string>();
+
+  for (const match of (JSON.stringify(value) ?? "").matchAll(GID_PATTERN)) {
+    ids.add(match[0]);
+    types.add(match[1]);
+  }
+
+  return { ids, types };
+}
+
+/**
+ * JSON with object keys sorted and undefined values dropped, so equal
+ * arguments give equal cache keys
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(",")}]`;
+  }
+
+  if (typeof value === "object" && value !== null) {
+    return `{${Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`)
+      .join(",")}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Parse a --cacheTtl value like "get-locations=3600,get-orders=0"
+ */
+export function parseCacheTtlRules(value: unknown): CacheTtlRule[] | undefined {
+  return parsePatternList(value)?.map((rule) => {
+    const match = /^(.+?)=(\d+)$/.exec(rule);
+    if (!match) {
+      throw new Error(
+        `Invalid cache TTL "${rule}". Use <tool pattern>=<seconds>, e.g. get-locations=3600`
+      );
+    }
+    return { pattern: match[1].trim(), seconds: Number(match[2]) };
+  });
+}
+
+/**
+ * Results of read tools, keyed on store, tool name and normalized
+ * arguments. Least recently used entries are evicted past maxEntries.
+ */
+export class ResponseCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly maxEntries: number;
+  private readonly ttlRules: Array<{ pattern: RegExp; seconds: number }>;
+  private readonly now: () => number;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_CACHE_MAX_ENTRIES;
+    this.ttlRules = (options.ttlRules ?? []).map((rule) => ({
+      pattern: globToRegExp(rule.pattern),
+      seconds: rule.seconds
+    }));
+    this.now = options.now ?? Date.now;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * How long a tool's results are cached. 0 for mutations and for tools
+   * that declare no TTL
+   */
+  ttlSeconds(tool: CacheableTool): number {
+    if (tool.mutation) {
+      return 0;
+    }
+
+    let seconds = tool.cacheTtlSeconds ?? 0;
+    for (const rule of this.ttlRules) {
+      if (rule.pattern.test(tool.name)) {
+        seconds = rule.seconds;
+      }
+    }
+    return seconds;
+  }
+
+  key(store: string, tool: string, args: Record<string, unknown>): string {
+    return `${store}\u0000${tool}\u0000${stableStringify(args)}`;
+  }
+
+  get(key: string): unknown | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert so Map order tracks recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(
+    key: string,
+    store: string,
+    tool: string,
+    value: unknown,
+    ttlSeconds: number
+  ) {
+    if (ttlSeconds <= 0 || this.maxEntries <= 0) {
+      return;
+    }
+
+    const { ids, types } = collectObjectIds(value);
+    this.entries.delete(key);
+    this.entries.set(key, {
+      store,
+      tool,
+      value,
+      expiresAt: this.now() + ttlSeconds * 1000,
+      objectIds: ids,
+      objectTypes: types
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Drop the store's entries that contain an object a mutation touched,
+   * found from the GIDs in its arguments and result. Tools that create
+   * objects name the resource types in cacheInvalidates, dropping every
+   * entry with objects of those types, since no cached list contains the
+   * new object yet. Tool names in cacheInvalidates drop every entry of
+   * those tools, for filtered lists and reports the change may alter.
+   * Returns the number of entries dropped.
+   */
+  invalidate(
+    store: string,
+    tool: CacheableTool,
+    args: unknown,
+    result: unknown
+  ): number {
+    const { ids } = collectObjectIds([args, result]);
+    const invalidates = new Set(tool.cacheInvalidates ?? []);
+    let dropped = 0;
+
+    for (const [key, entry] of this.entries) {
+      if (entry.store !== store) {
+        continue;
+      }
+
+      const touched =
+        invalidates.has(entry.tool) ||
+        [...entry.objectIds].some((id) => ids.has(id)) ||
+        [...entry.objectTypes].some((type) => invalidates.has(type));
+      if (touched) {
+        this.entries.delete(key);
+        dropped++;
+      }
+    }
+
+    return dropped;
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Response Shaping
+ * Shared `fields` and `format` arguments for list tools: keep only the
+ * requested fields of each record and render the list as JSON, a Markdown
+ * table or CSV
+ */
+
+import { z } from "zod";
+import { ShopifyToolError } from "./errors.js";
+
+export type ResponseFormat = "json" | "markdown_table" | "csv";
+
+/**
+ * fields and format, added to every list tool's arguments by the registry
+ */
+export const responseShapeInputShape = {
+  fields: z
+    .array(z.string().min(1))
+    .min(1)
+    .optional()
+    .describe(
+      'Only include these fields of each record. Use dots for nested fields, e.g. ["name", "totalPrice.amount", "customer.email"]'
+    ),
+  format: z
+    .enum(["json", "markdown_table", "csv"])
+    .default("json")
+    .describe(
+      "json (default), or markdown_table / csv for compact output with one row per record and one column per field"
+    )
+};
+
+export interface ResponseShapeOptions {
+  fields?: string[];
+  format?: ResponseFormat;
+}
+
+type Row = Record<string, unknown>;
+
+const isPlainObject = (value: unknown): value is Row =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Value at a dot path. Paths pass through lists, so "lineItems.title" gives
+// the title of every line item
+function pickPath(value: unknown, path: string[]): unknown {
+  if (path.length === 0 || value === null || value === undefined) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => pickPath(item, path));
+  }
+  if (!isPlainObject(value)) {
+    return undefined;
+  }
+  return pickPath(value[path[0]], path.slice(1));
+}
+
+function hasPath(value: unknown, path: string[]): boolean {
+  if (path.length === 0) {
+    return true;
+  }
+  if (Array.isArray(value)) {
+    return value.some((item) => hasPath(item, path));
+  }
+  return (
+    isPlainObject(value) &&
+    path[0] in value &&
+    (value[path[0]] === null || hasPath(value[path[0]], path.slice(1)))
+  );
+}
+
+/**
+ * Copy of a record with only the given dot-path fields, nested as in the
+ * original
+ */
+export function selectFields(record: Row, fields: string[]): Row {
+  const selected: Row = {};
+
+  for (const field of fields) {
+    const path = field.split(".");
+    let target = selected;
+    for (const key of path.slice(0, -1)) {
+      if (!isPlainObject(target[key])) {
+        target[key] = {};
+      }
+      target = target[key] as Row;
+    }
+
+    const value = pickPath(record, path);
+    target[path[path.length - 1]] = value === undefined ? null : value;
+  }
+
+  return selected;
+}
+
+/**
+ * Flatten nested objects into dot-path columns. Lists stay whole, as one cell
+ */
+export function flattenRecord(record: Row, prefix = ""): Row {
+  const flat: Row = {};
+
+  for (const [key, value] of Object.entries(record)) {
+    const column = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      Object.assign(flat, flattenRecord(value, column));
+    } else {
+      flat[column] = value;
+    }
+  }
+
+  return flat;
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (Array.isArray(value) && value.every((item) => !isPlainObject(item))) {
+    return value.map((item) => cellText(item)).join(", ");
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+// Columns in the order they first appear
+function columnsOf(rows: Row[]): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    for (const column of Object.keys(row)) {
+      columns.add(column);
+    }
+  }
+  return [...columns];
+}
+
+/**
+ * Render records as a Markdown table, one column per flattened field
+ */
+export function toMarkdownTable(records: Row[]): string {
+  const rows = records.map((record) => flattenRecord(record));
+  const columns = columnsOf(rows);
+  if (columns.length === 0) {
+    return "_No records_";
+  }
+
+  const escape = (text: string) =>
+    text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+  const line = (cells: string[]) => `| ${cells.join(" | ")} |`;
+
+  return [
+    line(columns.map(escape)),
+    line(columns.map(() => "---")),
+    ...rows.map((row) =>
+      line(columns.map((column) => escape(cellText(row[column]))))
+    )
+  ].join("\n");
+}
+
+/**
+ * Render records as RFC 4180 CSV with a header row
+ */
+export function toCsv(records: Row[]): string {
+  const rows = records.map((record) => flattenRecord(record));
+  const columns = columnsOf(rows);
+
+  const quote = (text: string) =>
+    /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+  return [
+    columns.map(quote).join(","),
+    ...rows.map((row) =>
+      columns.map((column) => quote(cellText(row[column]))).join(",")
+    )
+  ].join("\r\n");
+}
+
+/**
+ * MCP content for a list tool's result, with fields and format applied to
+ * the records in result[listField]. JSON keeps the result's shape; the table
+ * formats send the rendered records, then the rest of the result (counts,
+ * pageInfo) as JSON in a second block.
+ */
+export function shapedResultContent(
+  result: Row,
+  listField: string,
+  { fields, format = "json" }: ResponseShapeOptions
+) {
+  const { [listField]: list, ...rest } = result;
+  let records = Array.isArray(list) ? (list as Row[]) : [];
+
+  if (fields) {
+    const unknown = fields.filter(
+      (field) =>
+        records.length > 0 &&
+        !records.some((record) => hasPath(record, field.split(".")))
+    );
+    if (unknown.length > 0) {
+      throw new ShopifyToolError(
+        `Unknown fields: ${unknown.join(", ")}. Available fields: ${Object.keys(
+          records[0]
+        ).join(", ")}`,
+        { category: "validation", field: ["fields"] }
+      );
+    }
+    records = records.map((record) => selectFields(record, fields));
+  }
+
+  const text = (value: string) => ({ type: "text" as const, text: value });
+
+  if (format === "json") {
+    return [text(JSON.stringify({ ...result, [listField]: records }))];
+  }
+
+  return [
+    text(format === "csv" ? toCsv(records) : toMarkdownTable(records)),
+    ...(Object.keys(rest).length > 0 ? [text(JSON.stringify(rest))] : [])
+  ];
+}
@@ -0,0 +1,133 @@
+/**
+ * Staged Uploads
+ * Upload local files to Shopify's staging storage so mutations can take
+ * them by URL
+ */
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import type { GraphQLClient } from "graphql-request";
+import { gql } from "graphql-request";
+import { ShopifyToolError, userErrorsToToolError } from "./errors.js";
+
+export const STAGED_UPLOADS_CREATE_MUTATION = gql`
+  mutation stagedUploadsCreate($input: [StagedUploadInput!]!) {
+    stagedUploadsCreate(input: $input) {
+      stagedTargets {
+        url
+        resourceUrl
+        parameters {
+          name
+          value
+        }
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+export interface StagedFile {
+  filePath: string;
+  mimeType: string;
+  // StagedUploadTargetGenerateUploadResource, e.g. IMAGE or VIDEO
+  resource: string;
+}
+
+interface StagedTarget {
+  url: string;
+  resourceUrl: string;
+  parameters: Array<{ name: string; value: string }>;
+}
+
+async function readLocalFile(filePath: string): Promise<Buffer> {
+  try {
+    return await readFile(filePath);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    throw new ShopifyToolError(
+      code === "ENOENT"
+        ? `File not found: ${filePath}`
+        : `Cannot read ${filePath}: ${(error as Error).message}`,
+      {
+        category: "validation",
+        hint: "Pass a path to a readable file on the machine running the server."
+      }
+    );
+  }
+}
+
+/**
+ * Upload local files through staged upload targets, returning the
+ * resource URL of each file in order, to pass as a mutation's source
+ */
+export async function stageFiles(
+  client: GraphQLClient,
+  files: StagedFile[]
+): Promise<string[]> {
+  if (files.length === 0) {
+    return [];
+  }
+
+  // Read everything first so a bad path fails before anything is staged
+  const contents = await Promise.all(
+    files.map((file) => readLocalFile(file.filePath))
+  );
+
+  const data = await client.request<{
+    stagedUploadsCreate: {
+      stagedTargets: StagedTarget[] | null;
+      userErrors: Array<{ field: string[]; message: string }>;
+    };
+  }>(STAGED_UPLOADS_CREATE_MUTATION, {
+    input: files.map((file, index) => ({
+      filename: path.basename(file.filePath),
+      mimeType: file.mimeType,
+      resource: file.resource,
+      httpMethod: "POST",
+      fileSize: String(contents[index].length)
+    }))
+  });
+
+  const { stagedTargets, userErrors } = data.stagedUploadsCreate;
+  if (userErrors.length > 0 || !stagedTargets) {
+    throw userErrorsToToolError("Failed to stage uploads", userErrors);
+  }
+
+  return Promise.all(
+    stagedTargets.map(async (target, index) => {
+      const { filePath, mimeType } = files[index];
+
+      // The target is presigned: the parameters go first, then the file
+      const form = new FormData();
+      for (const { name, value } of target.parameters) {
+        form.append(name, value);
+      }
+      form.append(
+        "file",
+        new Blob([contents[index]], { type: mimeType }),
+        path.basename(filePath)
+      );
+
+      let response: Response;
+      try {
+        response = await fetch(target.url, { method: "POST", body: form });
+      } catch (error) {
+        throw new ShopifyToolError(
+          `Uploading ${filePath} failed: ${(error as Error).message}`,
+          { category: "network" }
+        );
+      }
+      if (!response.ok) {
+        throw new ShopifyToolError(
+          `Uploading ${filePath} failed with HTTP ${response.status}`,
+          { category: "shopify_server" }
+        );
+      }
+
+      return target.resourceUrl;
+    })
+  );
+}
@@ -0,0 +1,164 @@
+/**
+ * Multi-Store Support
+ * Load named store credentials and route each tool call to its store's client
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import fs from "node:fs";
+import { GraphQLClient } from "graphql-request";
+import type { RequestDocument, RequestOptions, Variables } from "graphql-request";
+import { z } from "zod";
+import { ShopifyToolError } from "./errors.js";
+
+const StoreConfigSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1)
+      .regex(/^[\w-]+$/, "Store names may only use letters, digits, _ and -"),
+    domain: z.string().min(1),
+    accessToken: z.string().min(1).optional(),
+    // Name of an environment variable holding the token, to keep secrets out
+    // of the config file
+    accessTokenEnv: z.string().min(1).optional()
+  })
+  .refine((store) => store.accessToken || store.accessTokenEnv, {
+    message: "Each store needs accessToken or accessTokenEnv"
+  });
+
+const StoresConfigSchema = z.object({
+  defaultStore: z.string().optional(),
+  stores: z.array(StoreConfigSchema).min(1)
+});
+
+export interface StoreConfig {
+  name: string;
+  domain: string;
+  accessToken: string;
+}
+
+export interface StoresConfig {
+  defaultStore: string;
+  stores: StoreConfig[];
+}
+
+/**
+ * Read and validate a stores config file, resolving tokens from the
+ * environment where the file names a variable instead of a token
+ */
+export function loadStoresConfig(
+  filePath: string,
+  env: NodeJS.ProcessEnv = process.env
+): StoresConfig {
+  const raw = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  const parsed = StoresConfigSchema.parse(raw);
+
+  const stores = parsed.stores.map((store) => {
+    const accessToken =
+      store.accessToken ?? env[store.accessTokenEnv as string];
+    if (!accessToken) {
+      throw new Error(
+        `Store "${store.name}": environment variable ${store.accessTokenEnv} is not set`
+      );
+    }
+    return { name: store.name, domain: store.domain, accessToken };
+  });
+
+  const names = new Set<string>();
+  for (const store of stores) {
+    if (names.has(store.name)) {
+      throw new Error(`Duplicate store name "${store.name}"`);
+    }
+    names.add(store.name);
+  }
+
+  const defaultStore = parsed.defaultStore ?? stores[0].name;
+  if (!names.has(defaultStore)) {
+    throw new Error(`defaultStore "${defaultStore}" is not a configured store`);
+  }
+
+  return { defaultStore, stores };
+}
+
+/**
+ * Client handed to every tool. Each request is forwarded to the client of the
+ * store selected for the current tool call, or the default store.
+ */
+export class MultiStoreClient extends GraphQLClient {
+  private readonly storeContext = new AsyncLocalStorage<string>();
+
+  constructor(
+    private readonly clients: Map<string, GraphQLClient>,
+    private readonly domains: Map<string, string>,
+    readonly defaultStore: string
+  ) {
+    super(`https://${domains.get(defaultStore)}`);
+
+    this.rawRequest = ((...args: unknown[]) =>
+      (this.currentClient().rawRequest as (...a: unknown[]) => unknown)(
+        ...args
+      )) as GraphQLClient["rawRequest"];
+  }
+
+  async request<T = any, V extends Variables = Variables>(
+    documentOrOptions: RequestDocument | RequestOptions<V, T>,
+    ...variablesAndRequestHeaders: any[]
+  ): Promise<T> {
+    return (this.currentClient().request as (...a: unknown[]) => Promise<T>)(
+      documentOrOptions,
+      ...variablesAndRequestHeaders
+    );
+  }
+
+  /**
+   * Run fn with every request inside it sent to the named store
+   */
+  runWithStore<T>(store: string | undefined, fn: () => Promise<T>): Promise<T> {
+    const name = store ?? this.defaultStore;
+    if (!this.clients.has(name)) {
+      throw new ShopifyToolError(
+        `Unknown store "${name}". Configured stores: ${this.storeNames().join(", ")}`,
+        { category: "validation", field: ["store"] }
+      );
+    }
+    return this.storeContext.run(name, fn);
+  }
+
+  currentStore(): string {
+    return this.storeContext.getStore() ?? this.defaultStore;
+  }
+
+  storeNames(): string[] {
+    return [...this.clients.keys()];
+  }
+
+  listStores() {
+    return this.storeNames().map((name) => ({
+      name,
+      domain: this.domains.get(name) as string,
+      isDefault: name === this.defaultStore
+    }));
+  }
+
+  private currentClient(): GraphQLClient {
+    return this.clients.get(this.currentStore()) as GraphQLClient;
+  }
+}
+
+/**
+ * Build the routing client from store configs, creating one client per store
+ */
+export function createMultiStoreClient(
+  config: StoresConfig,
+  createClient: (store: StoreConfig) => GraphQLClient
+): MultiStoreClient {
+  const clients = new Map<string, GraphQLClient>();
+  const domains = new Map<string, string>();
+
+  for (const store of config.stores) {
+    clients.set(store.name, createClient(store));
+    domains.set(store.name, store.domain);
+  }
+
+  return new MultiStoreClient(clients, domains, config.defaultStore);
+}
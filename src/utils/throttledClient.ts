@@ -0,0 +1,312 @@
+/**
+ * Throttle-aware Shopify GraphQL Client
+ * Serialises requests, tracks the Admin API leaky bucket and retries
+ * throttled or failed responses with backoff
+ */
+
+import { Kind, parse } from "graphql";
+import {
+  ClientError,
+  GraphQLClient,
+  resolveRequestDocument
+} from "graphql-request";
+import type {
+  RequestDocument,
+  RequestOptions,
+  Variables
+} from "graphql-request";
+
+type RequestConfig = ConstructorParameters<typeof GraphQLClient>[1];
+type RequestHeaders = RequestOptions["requestHeaders"];
+
+/**
+ * Leaky bucket state reported in `extensions.cost.throttleStatus`
+ */
+export interface ThrottleStatus {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number;
+}
+
+interface QueryCost {
+  requestedQueryCost?: number;
+  actualQueryCost?: number | null;
+  throttleStatus?: ThrottleStatus;
+}
+
+export interface ThrottleOptions {
+  // Retries after the first attempt for throttled, 5xx and network failures.
+  // Mutations are only retried when Shopify cannot have applied them
+  maxRetries?: number;
+  // First backoff delay, doubled on every retry
+  baseDelayMs?: number;
+  // Upper bound for any single wait
+  maxDelayMs?: number;
+}
+
+const DEFAULT_THROTTLE_OPTIONS: Required<ThrottleOptions> = {
+  maxRetries: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 30000
+};
+
+// Errors raised while connecting, before any of the request was sent
+const CONNECT_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "UND_ERR_CONNECT_TIMEOUT"
+]);
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Drop-in replacement for GraphQLClient. Requests run one at a time; before
+ * each one the client waits until the bucket has refilled enough to cover
+ * the cost Shopify last reported for the same document.
+ */
+export class ThrottledGraphQLClient extends GraphQLClient {
+  private readonly throttleOptions: Required<ThrottleOptions>;
+  private queue: Promise<unknown> = Promise.resolve();
+  private throttleStatus: ThrottleStatus | null = null;
+  private throttleStatusAt = 0;
+  private readonly queryCosts = new Map<string, number>();
+  private readonly mutations = new Map<string, boolean>();
+
+  constructor(
+    url: string,
+    requestConfig?: RequestConfig,
+    throttleOptions: ThrottleOptions = {}
+  ) {
+    super(url, requestConfig);
+    this.throttleOptions = { ...DEFAULT_THROTTLE_OPTIONS, ...throttleOptions };
+  }
+
+  async request<T = any, V extends Variables = Variables>(
+    documentOrOptions: RequestDocument | RequestOptions<V, T>,
+    ...variablesAndRequestHeaders: any[]
+  ): Promise<T> {
+    const options: RequestOptions<Variables, T> =
+      typeof documentOrOptions === "object" && "document" in documentOrOptions
+        ? (documentOrOptions as RequestOptions<Variables, T>)
+        : {
+            document: documentOrOptions,
+            variables: variablesAndRequestHeaders[0],
+            requestHeaders: variablesAndRequestHeaders[1]
+          };
+    const { query } = resolveRequestDocument(options.document);
+
+    return this.enqueue(() =>
+      this.send<T>(query, options.variables, options.requestHeaders)
+    );
+  }
+
+  /**
+   * Last throttle status reported by Shopify, projected forward by the
+   * restore rate to the current time
+   */
+  getThrottleStatus(): ThrottleStatus | null {
+    if (!this.throttleStatus) {
+      return null;
+    }
+
+    const elapsedSeconds = (Date.now() - this.throttleStatusAt) / 1000;
+    const { maximumAvailable, currentlyAvailable, restoreRate } =
+      this.throttleStatus;
+
+    return {
+      maximumAvailable,
+      currentlyAvailable: Math.min(
+        maximumAvailable,
+        currentlyAvailable + restoreRate * elapsedSeconds
+      ),
+      restoreRate
+    };
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async send<T>(
+    query: string,
+    variables: Variables | undefined,
+    requestHeaders: RequestHeaders
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForCapacity(query);
+
+      try {
+        const response = await this.rawRequest<T>(
+          query,
+          variables,
+          requestHeaders
+        );
+        this.recordCost(query, response.extensions);
+        return response.data;
+      } catch (error) {
+        const delay = this.retryDelay(query, error, attempt);
+        if (delay === null) {
+          throw error;
+        }
+
+        console.warn(
+          `Shopify request failed (${describeFailure(error)}), retrying in ${delay}ms (attempt ${attempt + 1} of ${this.throttleOptions.maxRetries})`
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async waitForCapacity(query: string) {
+    const status = this.getThrottleStatus();
+    const cost = this.queryCosts.get(query);
+    if (!status || cost === undefined || status.restoreRate <= 0) {
+      return;
+    }
+
+    const needed = Math.min(cost, status.maximumAvailable);
+    if (status.currentlyAvailable >= needed) {
+      return;
+    }
+
+    const waitMs = Math.ceil(
+      ((needed - status.currentlyAvailable) / status.restoreRate) * 1000
+    );
+    await sleep(Math.min(waitMs, this.throttleOptions.maxDelayMs));
+  }
+
+  private recordCost(query: string, extensions: unknown) {
+    const cost = (extensions as { cost?: QueryCost } | undefined)?.cost;
+    if (!cost) {
+      return;
+    }
+
+    if (cost.requestedQueryCost !== undefined) {
+      this.queryCosts.set(query, cost.requestedQueryCost);
+    }
+    if (cost.throttleStatus) {
+      this.throttleStatus = cost.throttleStatus;
+      this.throttleStatusAt = Date.now();
+    }
+  }
+
+  /**
+   * Milliseconds to wait before retrying, or null if the error is final
+   */
+  private retryDelay(
+    query: string,
+    error: unknown,
+    attempt: number
+  ): number | null {
+    const { maxRetries, baseDelayMs, maxDelayMs } = this.throttleOptions;
+    if (attempt >= maxRetries) {
+      return null;
+    }
+
+    const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+
+    // A mutation that failed after being sent may already have been applied,
+    // so retrying it could repeat the change. Only a refused connection or a
+    // throttled response show that Shopify did not run it
+    const mutation = this.isMutation(query);
+
+    if (!(error instanceof ClientError)) {
+      return !mutation || isConnectError(error) ? backoff : null;
+    }
+
+    const { response } = error;
+    this.recordCost(query, response.extensions);
+
+    if (isThrottled(error)) {
+      const retryAfter = retryAfterMs(response.headers);
+      if (retryAfter !== null) {
+        return Math.min(retryAfter, maxDelayMs);
+      }
+      // With a known cost waitForCapacity covers the refill before retrying
+      return this.queryCosts.has(query) && this.throttleStatus ? 0 : backoff;
+    }
+
+    if (response.status >= 500 && !mutation) {
+      return backoff;
+    }
+
+    return null;
+  }
+
+  private isMutation(query: string): boolean {
+    let mutation = this.mutations.get(query);
+    if (mutation === undefined) {
+      mutation = parsesAsMutation(query);
+      this.mutations.set(query, mutation);
+    }
+    return mutation;
+  }
+}
+
+/**
+ * True for HTTP 429 and for GraphQL errors with the THROTTLED code
+ */
+export function isThrottled(error: unknown): boolean {
+  if (!(error instanceof ClientError)) {
+    return false;
+  }
+
+  return (
+    error.response.status === 429 ||
+    (error.response.errors ?? []).some(
+      (e) => (e.extensions as { code?: string } | undefined)?.code === "THROTTLED"
+    )
+  );
+}
+
+function parsesAsMutation(query: string): boolean {
+  try {
+    return parse(query).definitions.some(
+      (definition) =>
+        definition.kind === Kind.OPERATION_DEFINITION &&
+        definition.operation === "mutation"
+    );
+  } catch {
+    // Shopify rejects a document that does not parse without running it
+    return false;
+  }
+}
+
+/**
+ * True when the error, or any error it wraps, is a failure to connect
+ */
+function isConnectError(error: unknown): boolean {
+  for (
+    let e = error;
+    e instanceof Error;
+    e = (e as { cause?: unknown }).cause
+  ) {
+    const code = (e as NodeJS.ErrnoException).code;
+    if (code && CONNECT_ERROR_CODES.has(code)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function retryAfterMs(headers: unknown): number | null {
+  const value =
+    headers && typeof (headers as Headers).get === "function"
+      ? (headers as Headers).get("retry-after")
+      : null;
+  const seconds = value ? Number(value) : NaN;
+  return Number.isFinite(seconds) ? seconds * 1000 : null;
+}
+
+function describeFailure(error: unknown): string {
+  if (error instanceof ClientError) {
+    return isThrottled(error) ? "throttled" : `HTTP ${error.response.status}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
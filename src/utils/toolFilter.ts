@@ -0,0 +1,80 @@
+/**
+ * Tool Filtering
+ * Decide which tools get registered from --readOnly, --enableTools and
+ * --disableTools
+ */
+
+export interface ToolFilterOptions {
+  // Drop every tool that writes to the store
+  readOnly?: boolean;
+  // Glob patterns; when given, only matching tools are registered
+  enableTools?: string[];
+  // Glob patterns; matching tools are never registered
+  disableTools?: string[];
+}
+
+interface FilterableTool {
+  name: string;
+  mutation?: boolean;
+}
+
+/**
+ * Convert a glob with `*` and `?` wildcards into an anchored RegExp
+ */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Split a CLI value like "get-*,list-stores" into trimmed patterns. minimist
+ * gives an array when the flag is repeated.
+ */
+export function parsePatternList(value: unknown): string[] | undefined {
+  if (value === undefined || value === null || value === false) {
+    return undefined;
+  }
+
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .flatMap((v) => String(v).split(","))
+    .map((pattern) => pattern.trim())
+    .filter((pattern) => pattern.length > 0);
+}
+
+export function filterTools<T extends FilterableTool>(
+  tools: T[],
+  options: ToolFilterOptions
+): T[] {
+  const enable = options.enableTools?.map(globToRegExp);
+  const disable = options.disableTools?.map(globToRegExp) ?? [];
+
+  return tools.filter((tool) => {
+    if (options.readOnly && tool.mutation) {
+      return false;
+    }
+    if (enable && !enable.some((pattern) => pattern.test(tool.name))) {
+      return false;
+    }
+    return !disable.some((pattern) => pattern.test(tool.name));
+  });
+}
+
+/**
+ * Patterns that match none of the given tools, usually typos
+ */
+export function unmatchedPatterns(
+  tools: FilterableTool[],
+  patterns: string[] = []
+): string[] {
+  return patterns.filter(
+    (pattern) => !tools.some((tool) => globToRegExp(pattern).test(tool.name))
+  );
+}
@@ -0,0 +1,867 @@
+/**
+ * Mock Store Fixtures
+ * Seed data for the mock Admin API. Each mock server works on its own deep
+ * copy, so mutations in one test never leak into another.
+ */
+
+export interface MetafieldFixture {
+  id: string;
+  namespace: string;
+  key: string;
+  value: string;
+  type: string;
+}
+
+export interface AddressFixture {
+  address1?: string | null;
+  address2?: string | null;
+  city?: string | null;
+  company?: string | null;
+  country?: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+  phone?: string | null;
+  province?: string | null;
+  provinceCode?: string | null;
+  zip?: string | null;
+}
+
+export interface LocationFixture {
+  id: string;
+  name: string;
+  isActive: boolean;
+  fulfillsOnlineOrders: boolean;
+  hasActiveInventory: boolean;
+  shipsInventory: boolean;
+  address: {
+    address1: string | null;
+    address2: string | null;
+    city: string | null;
+    province: string | null;
+    provinceCode: string | null;
+    country: string | null;
+    countryCode: string;
+    zip: string | null;
+    phone: string | null;
+  };
+}
+
+export interface VariantFixture {
+  id: string;
+  title: string;
+  price: string;
+  compareAtPrice: string | null;
+  sku: string | null;
+  barcode: string | null;
+  inventoryPolicy: "DENY" | "CONTINUE";
+  selectedOptions: Array<{ name: string; value: string }>;
+  metafields: MetafieldFixture[];
+  inventoryItemId: string;
+}
+
+export interface MediaFixture {
+  id: string;
+  mediaContentType: "IMAGE" | "VIDEO" | "EXTERNAL_VIDEO" | "MODEL_3D";
+  alt: string | null;
+  status: "UPLOADED" | "PROCESSING" | "READY" | "FAILED";
+  url: string;
+  width: number | null;
+  height: number | null;
+}
+
+export interface ProductFixture {
+  id: string;
+  title: string;
+  descriptionHtml: string;
+  handle: string;
+  status: "ACTIVE" | "ARCHIVED" | "DRAFT";
+  vendor: string;
+  productType: string;
+  tags: string[];
+  seo: { title: string | null; description: string | null };
+  metafields: MetafieldFixture[];
+  createdAt: string;
+  updatedAt: string;
+  // Product images are the IMAGE media, in media order
+  media: MediaFixture[];
+  variants: VariantFixture[];
+}
+
+export interface InventoryItemFixture {
+  id: string;
+  sku: string | null;
+  tracked: boolean;
+  unitCost: { amount: string; currencyCode: string } | null;
+  weight: {
+    value: number;
+    unit: "GRAMS" | "KILOGRAMS" | "OUNCES" | "POUNDS";
+  } | null;
+  variantId: string;
+  levels: Array<{
+    id: string;
+    locationId: string;
+    quantities: Record<string, number>;
+  }>;
+}
+
+export interface CustomerFixture {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  phone: string | null;
+  note: string | null;
+  taxExempt: boolean;
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
+  addresses: AddressFixture[];
+  amountSpent: { amount: string; currencyCode: string };
+  numberOfOrders: string;
+  metafields: MetafieldFixture[];
+}
+
+export interface OrderFixture {
+  id: string;
+  name: string;
+  email: string | null;
+  note: string | null;
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
+  processedAt: string;
+  cancelledAt: string | null;
+  closed: boolean;
+  confirmed: boolean;
+  financialStatus: string;
+  fulfillmentStatus: string;
+  totalPrice: string;
+  subtotalPrice: string;
+  totalTax: string;
+  totalShipping: string;
+  customerId: string | null;
+  shippingAddress: AddressFixture | null;
+  customAttributes: Array<{ key: string; value: string }>;
+  lineItems: Array<{
+    id: string;
+    title: string;
+    quantity: number;
+    total: string;
+    variantId: string | null;
+  }>;
+  metafields: MetafieldFixture[];
+}
+
+export interface CollectionFixture {
+  id: string;
+  title: string;
+  handle: string;
+  descriptionHtml: string;
+  sortOrder: string;
+  templateSuffix: string | null;
+  updatedAt: string;
+  image: { url: string; altText: string | null } | null;
+  ruleSet: {
+    appliedDisjunctively: boolean;
+    rules: Array<{ column: string; relation: string; condition: string }>;
+  } | null;
+  productIds: string[];
+}
+
+export interface ShopifyqlTableFixture {
+  columns: Array<{ name: string; dataType: string; displayName: string }>;
+  rows: Array<Record<string, string | number>>;
+}
+
+export interface MockStoreData {
+  shop: {
+    name: string;
+    myshopifyDomain: string;
+    currencyCode: string;
+    ianaTimezone: string;
+    plan: { displayName: string };
+  };
+  // Access scope handles granted to the app
+  accessScopes: string[];
+  locations: LocationFixture[];
+  products: ProductFixture[];
+  inventoryItems: InventoryItemFixture[];
+  customers: CustomerFixture[];
+  orders: OrderFixture[];
+  collections: CollectionFixture[];
+  shopifyqlTables: Record<string, ShopifyqlTableFixture>;
+}
+
+const usd = (amount: string) => ({ amount, currencyCode: "USD" });
+
+export const fixtures: MockStoreData = {
+  shop: {
+    name: "Mock Outfitters",
+    myshopifyDomain: "mock-outfitters.myshopify.com",
+    currencyCode: "USD",
+    ianaTimezone: "America/New_York",
+    plan: { displayName: "Basic" }
+  },
+
+  accessScopes: [
+    "write_customers",
+    "write_orders",
+    "write_products",
+    "write_inventory",
+    "read_inventory",
+    "read_locations",
+    "read_reports"
+  ],
+
+  locations: [
+    {
+      id: "gid://shopify/Location/1",
+      name: "Main Warehouse",
+      isActive: true,
+      fulfillsOnlineOrders: true,
+      hasActiveInventory: true,
+      shipsInventory: true,
+      address: {
+        address1: "1 Depot Road",
+        address2: null,
+        city: "Newark",
+        province: "New Jersey",
+        provinceCode: "NJ",
+        country: "United States",
+        countryCode: "US",
+        zip: "07102",
+        phone: null
+      }
+    },
+    {
+      id: "gid://shopify/Location/2",
+      name: "Downtown Store",
+      isActive: true,
+      fulfillsOnlineOrders: false,
+      hasActiveInventory: true,
+      shipsInventory: false,
+      address: {
+        address1: "200 Main Street",
+        address2: "Unit 4",
+        city: "New York",
+        province: "New York",
+        provinceCode: "NY",
+        country: "United States",
+        countryCode: "US",
+        zip: "10001",
+        phone: "+12125550100"
+      }
+    },
+    {
+      id: "gid://shopify/Location/3",
+      name: "Old Depot",
+      isActive: false,
+      fulfillsOnlineOrders: false,
+      hasActiveInventory: false,
+      shipsInventory: false,
+      address: {
+        address1: null,
+        address2: null,
+        city: "Trenton",
+        province: "New Jersey",
+        provinceCode: "NJ",
+        country: "United States",
+        countryCode: "US",
+        zip: null,
+        phone: null
+      }
+    }
+  ],
+
+  products: [
+    {
+      id: "gid://shopify/Product/1001",
+      title: "Classic Tee",
+      descriptionHtml: "<p>A soft cotton tee.</p>",
+      handle: "classic-tee",
+      status: "ACTIVE",
+      vendor: "Acme Apparel",
+      productType: "Shirts",
+      tags: ["cotton", "summer"],
+      seo: {
+        title: "Classic Cotton Tee",
+        description: "A soft cotton tee for every day."
+      },
+      metafields: [
+        {
+          id: "gid://shopify/Metafield/8101",
+          namespace: "custom",
+          key: "fabric",
+          value: "100% cotton",
+          type: "single_line_text_field"
+        }
+      ],
+      createdAt: "2024-01-10T10:00:00Z",
+      updatedAt: "2024-05-01T12:00:00Z",
+      media: [
+        {
+          id: "gid://shopify/MediaImage/7001",
+          mediaContentType: "IMAGE",
+          alt: "Classic Tee front",
+          status: "READY",
+          url: "https://cdn.example.com/classic-tee.jpg",
+          width: 800,
+          height: 800
+        },
+        {
+          id: "gid://shopify/MediaImage/7002",
+          mediaContentType: "IMAGE",
+          alt: null,
+          status: "READY",
+          url: "https://cdn.example.com/classic-tee-back.jpg",
+          width: 800,
+          height: 800
+        }
+      ],
+      variants: [
+        {
+          id: "gid://shopify/ProductVariant/2001",
+          title: "Small",
+          price: "19.99",
+          compareAtPrice: "24.99",
+          sku: "TEE-S",
+          barcode: "0123456789012",
+          inventoryPolicy: "DENY",
+          selectedOptions: [{ name: "Size", value: "Small" }],
+          metafields: [],
+          inventoryItemId: "gid://shopify/InventoryItem/3001"
+        },
+        {
+          id: "gid://shopify/ProductVariant/2002",
+          title: "Large",
+          price: "21.99",
+          compareAtPrice: null,
+          sku: "TEE-L",
+          barcode: null,
+          inventoryPolicy: "DENY",
+          selectedOptions: [{ name: "Size", value: "Large" }],
+          metafields: [
+            {
+              id: "gid://shopify/Metafield/8201",
+              namespace: "inventory",
+              key: "low_stock_threshold",
+              value: "2",
+              type: "number_integer"
+            }
+          ],
+          inventoryItemId: "gid://shopify/InventoryItem/3002"
+        }
+      ]
+    },
+    {
+      id: "gid://shopify/Product/1002",
+      title: "Canvas Tote",
+      descriptionHtml: "<p>Carries everything.</p>",
+      handle: "canvas-tote",
+      status: "ACTIVE",
+      vendor: "Acme Goods",
+      productType: "Bags",
+      tags: ["eco"],
+      seo: { title: null, description: null },
+      metafields: [],
+      createdAt: "2024-02-15T09:30:00Z",
+      updatedAt: "2024-04-20T08:00:00Z",
+      media: [],
+      variants: [
+        {
+          id: "gid://shopify/ProductVariant/2003",
+          title: "Default Title",
+          price: "15.00",
+          compareAtPrice: null,
+          sku: "TOTE-1",
+          barcode: null,
+          inventoryPolicy: "DENY",
+          selectedOptions: [{ name: "Title", value: "Default Title" }],
+          metafields: [],
+          inventoryItemId: "gid://shopify/InventoryItem/3003"
+        }
+      ]
+    },
+    {
+      id: "gid://shopify/Product/1003",
+      title: "Winter Beanie",
+      descriptionHtml: "<p>Warm knit beanie.</p>",
+      handle: "winter-beanie",
+      status: "DRAFT",
+      vendor: "Acme Apparel",
+      productType: "Hats",
+      tags: ["winter", "wool"],
+      seo: { title: null, description: null },
+      metafields: [],
+      createdAt: "2024-03-01T15:00:00Z",
+      updatedAt: "2024-03-02T15:00:00Z",
+      media: [],
+      variants: [
+        {
+          id: "gid://shopify/ProductVariant/2004",
+          title: "Default Title",
+          price: "12.50",
+          compareAtPrice: null,
+          sku: "BEANIE-1",
+          barcode: null,
+          inventoryPolicy: "CONTINUE",
+          selectedOptions: [{ name: "Title", value: "Default Title" }],
+          metafields: [],
+          inventoryItemId: "gid://shopify/InventoryItem/3004"
+        }
+      ]
+    }
+  ],
+
+  inventoryItems: [
+    {
+      id: "gid://shopify/InventoryItem/3001",
+      sku: "TEE-S",
+      tracked: true,
+      unitCost: usd("6.50"),
+      weight: { value: 180, unit: "GRAMS" },
+      variantId: "gid://shopify/ProductVariant/2001",
+      levels: [
+        {
+          id: "gid://shopify/InventoryLevel/3001-1",
+          locationId: "gid://shopify/Location/1",
+          quantities: {
+            available: 10,
+            incoming: 20,
+            committed: 2,
+            reserved: 0,
+            on_hand: 12
+          }
+        },
+        {
+          id: "gid://shopify/InventoryLevel/3001-2",
+          locationId: "gid://shopify/Location/2",
+          quantities: {
+            available: 2,
+            incoming: 0,
+            committed: 0,
+            reserved: 0,
+            on_hand: 2
+          }
+        }
+      ]
+    },
+    {
+      id: "gid://shopify/InventoryItem/3002",
+      sku: "TEE-L",
+      tracked: true,
+      unitCost: usd("7.00"),
+      weight: { value: 220, unit: "GRAMS" },
+      variantId: "gid://shopify/ProductVariant/2002",
+      levels: [
+        {
+          id: "gid://shopify/InventoryLevel/3002-1",
+          locationId: "gid://shopify/Location/1",
+          quantities: {
+            available: 3,
+            incoming: 0,
+            committed: 1,
+            reserved: 0,
+            on_hand: 4
+          }
+        }
+      ]
+    },
+    {
+      id: "gid://shopify/InventoryItem/3003",
+      sku: "TOTE-1",
+      tracked: true,
+      unitCost: usd("4.25"),
+      weight: { value: 300, unit: "GRAMS" },
+      variantId: "gid://shopify/ProductVariant/2003",
+      levels: [
+        {
+          id: "gid://shopify/InventoryLevel/3003-1",
+          locationId: "gid://shopify/Location/1",
+          quantities: {
+            available: 0,
+            incoming: 50,
+            committed: 0,
+            reserved: 0,
+            on_hand: 0
+          }
+        }
+      ]
+    },
+    {
+      id: "gid://shopify/InventoryItem/3004",
+      sku: "BEANIE-1",
+      tracked: false,
+      unitCost: null,
+      weight: null,
+      variantId: "gid://shopify/ProductVariant/2004",
+      levels: [
+        {
+          id: "gid://shopify/InventoryLevel/3004-2",
+          locationId: "gid://shopify/Location/2",
+          quantities: {
+            available: 40,
+            incoming: 0,
+            committed: 0,
+            reserved: 0,
+            on_hand: 40
+          }
+        }
+      ]
+    }
+  ],
+
+  customers: [
+    {
+      id: "gid://shopify/Customer/501",
+      firstName: "Ada",
+      lastName: "Lovelace",
+      email: "ada@example.com",
+      phone: "+15555550101",
+      note: null,
+      taxExempt: false,
+      tags: ["vip"],
+      createdAt: "2023-11-01T10:00:00Z",
+      updatedAt: "2024-05-02T10:00:00Z",
+      addresses: [
+        {
+          address1: "12 Analytical Way",
+          address2: null,
+          city: "London",
+          provinceCode: null,
+          zip: "N1 9GU",
+          country: "United Kingdom",
+          phone: null
+        }
+      ],
+      amountSpent: usd("77.96"),
+      numberOfOrders: "2",
+      metafields: [
+        {
+          id: "gid://shopify/Metafield/8001",
+          namespace: "loyalty",
+          key: "tier",
+          value: "gold",
+          type: "single_line_text_field"
+        }
+      ]
+    },
+    {
+      id: "gid://shopify/Customer/502",
+      firstName: "Grace",
+      lastName: "Hopper",
+      email: "grace@example.com",
+      phone: null,
+      note: "Prefers email contact",
+      taxExempt: true,
+      tags: [],
+      createdAt: "2024-01-05T10:00:00Z",
+      updatedAt: "2024-01-05T10:00:00Z",
+      addresses: [],
+      amountSpent: usd("15.00"),
+      numberOfOrders: "1",
+      metafields: []
+    }
+  ],
+
+  orders: [
+    {
+      id: "gid://shopify/Order/9001",
+      name: "#1001",
+      email: "ada@example.com",
+      note: null,
+      tags: ["vip"],
+      createdAt: "2024-04-01T10:00:00Z",
+      updatedAt: "2024-04-02T10:00:00Z",
+      processedAt: "2024-04-01T10:00:00Z",
+      cancelledAt: null,
+      closed: true,
+      confirmed: true,
+      financialStatus: "PAID",
+      fulfillmentStatus: "FULFILLED",
+      totalPrice: "46.97",
+      subtotalPrice: "41.98",
+      totalTax: "0.00",
+      totalShipping: "4.99",
+      customerId: "gid://shopify/Customer/501",
+      shippingAddress: {
+        address1: "12 Analytical Way",
+        address2: null,
+        city: "London",
+        company: null,
+        country: "United Kingdom",
+        firstName: "Ada",
+        lastName: "Lovelace",
+        phone: null,
+        province: null,
+        provinceCode: null,
+        zip: "N1 9GU"
+      },
+      customAttributes: [],
+      lineItems: [
+        {
+          id: "gid://shopify/LineItem/9101",
+          title: "Classic Tee",
+          quantity: 1,
+          total: "19.99",
+          variantId: "gid://shopify/ProductVariant/2001"
+        },
+        {
+          id: "gid://shopify/LineItem/9102",
+          title: "Classic Tee",
+          quantity: 1,
+          total: "21.99",
+          variantId: "gid://shopify/ProductVariant/2002"
+        }
+      ],
+      metafields: []
+    },
+    {
+      id: "gid://shopify/Order/9002",
+      name: "#1002",
+      email: "ada@example.com",
+      note: "Gift wrap please",
+      tags: ["gift"],
+      createdAt: "2024-05-01T09:00:00Z",
+      updatedAt: "2024-05-01T09:00:00Z",
+      processedAt: "2024-05-01T09:00:00Z",
+      cancelledAt: null,
+      closed: false,
+      confirmed: true,
+      financialStatus: "PENDING",
+      fulfillmentStatus: "UNFULFILLED",
+      totalPrice: "30.99",
+      subtotalPrice: "30.99",
+      totalTax: "0.00",
+      totalShipping: "0.00",
+      customerId: "gid://shopify/Customer/501",
+      shippingAddress: {
+        address1: "12 Analytical Way",
+        address2: null,
+        city: "London",
+        company: null,
+        country: "United Kingdom",
+        firstName: "Ada",
+        lastName: "Lovelace",
+        phone: null,
+        province: null,
+        provinceCode: null,
+        zip: "N1 9GU"
+      },
+      customAttributes: [{ key: "gift_message", value: "Happy birthday" }],
+      lineItems: [
+        {
+          id: "gid://shopify/LineItem/9201",
+          title: "Canvas Tote",
+          quantity: 1,
+          total: "15.00",
+          variantId: "gid://shopify/ProductVariant/2003"
+        },
+        {
+          id: "gid://shopify/LineItem/9202",
+          title: "Classic Tee",
+          quantity: 1,
+          total: "15.99",
+          variantId: "gid://shopify/ProductVariant/2001"
+        }
+      ],
+      metafields: [
+        {
+          id: "gid://shopify/Metafield/8101",
+          namespace: "custom",
+          key: "gift",
+          value: "true",
+          type: "boolean"
+        }
+      ]
+    },
+    {
+      id: "gid://shopify/Order/9003",
+      name: "#1003",
+      email: "grace@example.com",
+      note: null,
+      tags: [],
+      createdAt: "2024-05-03T14:00:00Z",
+      updatedAt: "2024-05-04T14:00:00Z",
+      processedAt: "2024-05-03T14:00:00Z",
+      cancelledAt: "2024-05-04T14:00:00Z",
+      closed: true,
+      confirmed: true,
+      financialStatus: "REFUNDED",
+      fulfillmentStatus: "UNFULFILLED",
+      totalPrice: "15.00",
+      subtotalPrice: "15.00",
+      totalTax: "0.00",
+      totalShipping: "0.00",
+      customerId: "gid://shopify/Customer/502",
+      shippingAddress: null,
+      customAttributes: [],
+      lineItems: [
+        {
+          id: "gid://shopify/LineItem/9301",
+          title: "Canvas Tote",
+          quantity: 1,
+          total: "15.00",
+          variantId: "gid://shopify/ProductVariant/2003"
+        }
+      ],
+      metafields: []
+    }
+  ],
+
+  collections: [
+    {
+      id: "gid://shopify/Collection/4001",
+      title: "Summer Collection",
+      handle: "summer",
+      descriptionHtml: "<p>Light layers.</p>",
+      sortOrder: "MANUAL",
+      templateSuffix: null,
+      updatedAt: "2024-04-01T00:00:00Z",
+      image: null,
+      ruleSet: null,
+      productIds: ["gid://shopify/Product/1001", "gid://shopify/Product/1002"]
+    },
+    {
+      id: "gid://shopify/Collection/4002",
+      title: "Hats",
+      handle: "hats",
+      descriptionHtml: "",
+      sortOrder: "BEST_SELLING",
+      templateSuffix: null,
+      updatedAt: "2024-03-01T00:00:00Z",
+      image: {
+        url: "https://cdn.example.com/hats.jpg",
+        altText: "Hats"
+      },
+      ruleSet: {
+        appliedDisjunctively: false,
+        rules: [{ column: "TYPE", relation: "EQUALS", condition: "Hats" }]
+      },
+      productIds: ["gid://shopify/Product/1003"]
+    }
+  ],
+
+  shopifyqlTables: {
+    sales: {
+      columns: [
+        { name: "day", dataType: "DAY_TIMESTAMP", displayName: "Day" },
+        { name: "week", dataType: "WEEK_TIMESTAMP", displayName: "Week" },
+        { name: "month", dataType: "MONTH_TIMESTAMP", displayName: "Month" },
+        { name: "product_title", dataType: "STRING", displayName: "Product title" },
+        { name: "product_type", dataType: "STRING", displayName: "Product type" },
+        {
+          name: "product_variant_sku",
+          dataType: "STRING",
+          displayName: "Product variant SKU"
+        },
+        {
+          name: "product_variant_title",
+          dataType: "STRING",
+          displayName: "Product variant title"
+        },
+        { name: "customer_type", dataType: "STRING", displayName: "Customer type" },
+        { name: "billing_country", dataType: "STRING", displayName: "Billing country" },
+        { name: "sales_channel", dataType: "STRING", displayName: "Sales channel" },
+        { name: "total_sales", dataType: "MONEY", displayName: "Total sales" },
+        { name: "net_sales", dataType: "MONEY", displayName: "Net sales" },
+        { name: "gross_profit", dataType: "MONEY", displayName: "Gross profit" },
+        { name: "discounts", dataType: "MONEY", displayName: "Discounts" },
+        { name: "returns", dataType: "MONEY", displayName: "Returns" },
+        { name: "orders", dataType: "INTEGER", displayName: "Orders" },
+        { name: "units_sold", dataType: "INTEGER", displayName: "Units sold" },
+        {
+          name: "average_order_value",
+          dataType: "MONEY",
+          displayName: "Average order value"
+        }
+      ],
+      rows: [
+        {
+          day: "2024-05-01",
+          week: "2024-04-29",
+          month: "2024-05-01",
+          product_title: "Classic Tee",
+          product_type: "Shirts",
+          product_variant_sku: "TEE-S",
+          product_variant_title: "Small",
+          customer_type: "Returning",
+          billing_country: "United Kingdom",
+          sales_channel: "Online Store",
+          total_sales: 15.99,
+          net_sales: 15.99,
+          gross_profit: 9.49,
+          discounts: 0,
+          returns: 0,
+          orders: 1,
+          units_sold: 1,
+          average_order_value: 15.99
+        },
+        {
+          day: "2024-05-01",
+          week: "2024-04-29",
+          month: "2024-05-01",
+          product_title: "Canvas Tote",
+          product_type: "Bags",
+          product_variant_sku: "TOTE-1",
+          product_variant_title: "Default Title",
+          customer_type: "Returning",
+          billing_country: "United Kingdom",
+          sales_channel: "Online Store",
+          total_sales: 15,
+          net_sales: 15,
+          gross_profit: 10.75,
+          discounts: 0,
+          returns: 0,
+          orders: 1,
+          units_sold: 1,
+          average_order_value: 15
+        },
+        {
+          day: "2024-05-03",
+          week: "2024-04-29",
+          month: "2024-05-01",
+          product_title: "Canvas Tote",
+          product_type: "Bags",
+          product_variant_sku: "TOTE-1",
+          product_variant_title: "Default Title",
+          customer_type: "First-time",
+          billing_country: "United States",
+          sales_channel: "Point of Sale",
+          total_sales: 15,
+          net_sales: 0,
+          gross_profit: 0,
+          discounts: 0,
+          returns: 15,
+          orders: 1,
+          units_sold: 1,
+          average_order_value: 15
+        },
+        {
+          day: "2024-05-06",
+          week: "2024-05-06",
+          month: "2024-05-01",
+          product_title: "Classic Tee",
+          product_type: "Shirts",
+          product_variant_sku: "TEE-L",
+          product_variant_title: "Large",
+          customer_type: "First-time",
+          billing_country: "United States",
+          sales_channel: "Online Store",
+          total_sales: 43.98,
+          net_sales: 43.98,
+          gross_profit: 30.48,
+          discounts: 0,
+          returns: 0,
+          orders: 1,
+          units_sold: 2,
+          average_order_value: 43.98
+        }
+      ]
+    }
+  }
+};
+
+export function cloneFixtures(): MockStoreData {
+  return JSON.parse(JSON.stringify(fixtures));
+}
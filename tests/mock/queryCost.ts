@@ -0,0 +1,187 @@
+/**
+ * Mock Query Cost Calculator
+ * Shopify's requested-cost rules, close enough to catch documents over the
+ * single query limit: scalars are free, objects cost 1, connections cost 2
+ * plus first/last times the cost of each node, and mutations cost 10
+ */
+
+import {
+  Kind,
+  getNamedType,
+  isInterfaceType,
+  isObjectType,
+  parse,
+  type DocumentNode,
+  type FieldNode,
+  type FragmentDefinitionNode,
+  type GraphQLNamedType,
+  type GraphQLSchema,
+  type SelectionSetNode,
+  type ValueNode
+} from "graphql";
+
+// Shopify rejects any single query that could cost more than this
+export const MAX_QUERY_COST = 1000;
+
+const MUTATION_COST = 10;
+
+interface CostContext {
+  schema: GraphQLSchema;
+  fragments: Map<string, FragmentDefinitionNode>;
+  variables: Record<string, unknown>;
+  defaults: Map<string, ValueNode>;
+}
+
+/**
+ * Requested cost of the document's first operation, or 0 for documents
+ * graphql-js will reject anyway
+ */
+export function requestedQueryCost(
+  schema: GraphQLSchema,
+  source: string,
+  variables: Record<string, unknown>
+): number {
+  let document: DocumentNode;
+  try {
+    document = parse(source);
+  } catch {
+    return 0;
+  }
+
+  const operation = document.definitions.find(
+    (definition) => definition.kind === Kind.OPERATION_DEFINITION
+  );
+  if (!operation || operation.kind !== Kind.OPERATION_DEFINITION) {
+    return 0;
+  }
+  if (operation.operation === "mutation") {
+    return MUTATION_COST;
+  }
+
+  const context: CostContext = {
+    schema,
+    fragments: new Map(
+      document.definitions.flatMap((definition) =>
+        definition.kind === Kind.FRAGMENT_DEFINITION
+          ? [[definition.name.value, definition] as const]
+          : []
+      )
+    ),
+    variables,
+    defaults: new Map(
+      (operation.variableDefinitions ?? []).flatMap((definition) =>
+        definition.defaultValue
+          ? [[definition.variable.name.value, definition.defaultValue] as const]
+          : []
+      )
+    )
+  };
+  return selectionCost(context, operation.selectionSet, schema.getQueryType());
+}
+
+function selectionCost(
+  context: CostContext,
+  selectionSet: SelectionSetNode | undefined,
+  parentType: GraphQLNamedType | null | undefined
+): number {
+  if (!selectionSet || !parentType) {
+    return 0;
+  }
+
+  let cost = 0;
+  for (const selection of selectionSet.selections) {
+    if (selection.kind === Kind.FIELD) {
+      cost += fieldCost(context, selection, parentType);
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      const type = selection.typeCondition
+        ? context.schema.getType(selection.typeCondition.name.value)
+        : parentType;
+      cost += selectionCost(context, selection.selectionSet, type);
+    } else {
+      const fragment = context.fragments.get(selection.name.value);
+      if (fragment) {
+        cost += selectionCost(
+          context,
+          fragment.selectionSet,
+          context.schema.getType(fragment.typeCondition.name.value)
+        );
+      }
+    }
+  }
+  return cost;
+}
+
+function fieldCost(
+  context: CostContext,
+  field: FieldNode,
+  parentType: GraphQLNamedType
+): number {
+  if (!isObjectType(parentType) && !isInterfaceType(parentType)) {
+    return 0;
+  }
+  const definition = parentType.getFields()[field.name.value];
+  if (!definition) {
+    return 0;
+  }
+  const type = getNamedType(definition.type);
+  if (!isObjectType(type) && !isInterfaceType(type)) {
+    return 0;
+  }
+
+  if (!type.name.endsWith("Connection")) {
+    return 1 + selectionCost(context, field.selectionSet, type);
+  }
+
+  // Each node in edges { node } or nodes is charged as its own object
+  const size =
+    argumentValue(context, field, "first") ??
+    argumentValue(context, field, "last") ??
+    0;
+  let nodeCost = 0;
+  for (const selection of field.selectionSet?.selections ?? []) {
+    if (selection.kind !== Kind.FIELD) {
+      continue;
+    }
+    if (selection.name.value === "nodes") {
+      const nodeType = getNamedType(type.getFields().nodes?.type);
+      nodeCost += 1 + selectionCost(context, selection.selectionSet, nodeType);
+    } else if (selection.name.value === "edges") {
+      const edgeType = getNamedType(type.getFields().edges.type);
+      const nodeType =
+        isObjectType(edgeType) && getNamedType(edgeType.getFields().node.type);
+      for (const edgeField of selection.selectionSet?.selections ?? []) {
+        if (edgeField.kind === Kind.FIELD && edgeField.name.value === "node") {
+          nodeCost +=
+            1 +
+            selectionCost(
+              context,
+              edgeField.selectionSet,
+              nodeType || undefined
+            );
+        }
+      }
+    }
+  }
+  return 2 + size * nodeCost;
+}
+
+// Integer argument given inline or through a variable
+function argumentValue(
+  context: CostContext,
+  field: FieldNode,
+  name: string
+): number | undefined {
+  const argument = field.arguments?.find((arg) => arg.name.value === name);
+  if (!argument) {
+    return undefined;
+  }
+  let value: ValueNode | undefined = argument.value;
+  if (value.kind === Kind.VARIABLE) {
+    const variable = context.variables[value.name.value];
+    if (typeof variable === "number") {
+      return variable;
+    }
+    value = context.defaults.get(value.name.value);
+  }
+  return value?.kind === Kind.INT ? Number(value.value) : undefined;
+}
@@ -0,0 +1,26 @@
+/**
+ * Tool Test Helpers
+ */
+
+import type { GraphQLClient } from "graphql-request";
+import type { ShopifyTool } from "../../src/tools/registry";
+
+/**
+ * Initialize a tool against a client and run it with input parsed by its own
+ * schema, so defaults apply exactly as they do when called over MCP
+ */
+export async function runTool<TTool extends ShopifyTool>(
+  tool: TTool,
+  client: GraphQLClient,
+  input: Record<string, unknown> = {}
+): Promise<any> {
+  tool.initialize(client);
+  return tool.execute(tool.schema.parse(input));
+}
+
+/**
+ * Silence the console.error logging tools do before rethrowing
+ */
+export function silenceConsoleErrors() {
+  return jest.spyOn(console, "error").mockImplementation(() => undefined);
+}
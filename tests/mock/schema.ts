@@ -0,0 +1,1030 @@
+/**
+ * Mock Admin API Schema
+ * The subset of the Shopify Admin GraphQL schema the tools query, so every
+ * tool document is validated against it just like against the real API
+ */
+
+export const typeDefs = /* GraphQL */ `
+  scalar DateTime
+  scalar Decimal
+  scalar Money
+  scalar URL
+  scalar HTML
+  scalar JSON
+  scalar UnsignedInt64
+
+  type Query {
+    shop: Shop!
+    currentAppInstallation: AppInstallation!
+    product(id: ID!): Product
+    products(
+      first: Int
+      last: Int
+      after: String
+      before: String
+      query: String
+      sortKey: ProductSortKeys
+      reverse: Boolean
+    ): ProductConnection!
+    productVariant(id: ID!): ProductVariant
+    productVariants(
+      first: Int
+      last: Int
+      after: String
+      before: String
+      query: String
+    ): ProductVariantConnection!
+    customer(id: ID!): Customer
+    customers(
+      first: Int
+      last: Int
+      after: String
+      before: String
+      query: String
+    ): CustomerConnection!
+    order(id: ID!): Order
+    orders(
+      first: Int
+      last: Int
+      after: String
+      before: String
+      query: String
+      sortKey: OrderSortKeys
+      reverse: Boolean
+    ): OrderConnection!
+    collections(
+      first: Int
+      last: Int
+      after: String
+      before: String
+      query: String
+    ): CollectionConnection!
+    inventoryItems(
+      first: Int
+      last: Int
+      after: String
+      before: String
+      query: String
+    ): InventoryItemConnection!
+    inventoryItem(id: ID!): InventoryItem
+    locations(
+      first: Int
+      last: Int
+      after: String
+      before: String
+      includeInactive: Boolean
+    ): LocationConnection!
+    shopifyqlQuery(query: String!): ShopifyqlQueryResponse
+  }
+
+  type Mutation {
+    orderUpdate(input: OrderInput!): OrderUpdatePayload
+    customerUpdate(input: CustomerInput!): CustomerUpdatePayload
+    productCreate(input: ProductInput!): ProductCreatePayload
+    productUpdate(product: ProductUpdateInput!): ProductUpdatePayload
+    productDelete(input: ProductDeleteInput!): ProductDeletePayload
+    productDuplicate(
+      productId: ID!
+      newTitle: String!
+      newStatus: ProductStatus
+      includeImages: Boolean
+    ): ProductDuplicatePayload
+    productVariantsBulkCreate(
+      productId: ID!
+      variants: [ProductVariantsBulkInput!]!
+      strategy: ProductVariantsBulkCreateStrategy
+    ): ProductVariantsBulkCreatePayload
+    productVariantsBulkUpdate(
+      productId: ID!
+      variants: [ProductVariantsBulkInput!]!
+      allowPartialUpdates: Boolean
+    ): ProductVariantsBulkUpdatePayload
+    productVariantsBulkDelete(
+      productId: ID!
+      variantsIds: [ID!]!
+    ): ProductVariantsBulkDeletePayload
+    stagedUploadsCreate(input: [StagedUploadInput!]!): StagedUploadsCreatePayload
+    productCreateMedia(
+      productId: ID!
+      media: [CreateMediaInput!]!
+    ): ProductCreateMediaPayload
+    productUpdateMedia(
+      productId: ID!
+      media: [UpdateMediaInput!]!
+    ): ProductUpdateMediaPayload
+    productReorderMedia(id: ID!, moves: [MoveInput!]!): ProductReorderMediaPayload
+    productDeleteMedia(productId: ID!, mediaIds: [ID!]!): ProductDeleteMediaPayload
+    inventoryAdjustQuantities(
+      input: InventoryAdjustQuantitiesInput!
+    ): InventoryAdjustQuantitiesPayload
+    inventorySetQuantities(
+      input: InventorySetQuantitiesInput!
+    ): InventorySetQuantitiesPayload
+    inventoryMoveQuantities(
+      input: InventoryMoveQuantitiesInput!
+    ): InventoryMoveQuantitiesPayload
+    tagsAdd(id: ID!, tags: [String!]!): TagsAddPayload
+    tagsRemove(id: ID!, tags: [String!]!): TagsRemovePayload
+  }
+
+  type PageInfo {
+    hasNextPage: Boolean!
+    hasPreviousPage: Boolean!
+    startCursor: String
+    endCursor: String
+  }
+
+  type UserError {
+    field: [String!]
+    message: String!
+  }
+
+  type Count {
+    count: Int!
+  }
+
+  type MoneyV2 {
+    amount: Decimal!
+    currencyCode: String!
+  }
+
+  type MoneyBag {
+    shopMoney: MoneyV2!
+  }
+
+  type Attribute {
+    key: String!
+    value: String
+  }
+
+  type MailingAddress {
+    address1: String
+    address2: String
+    city: String
+    company: String
+    country: String
+    firstName: String
+    lastName: String
+    phone: String
+    province: String
+    provinceCode: String
+    zip: String
+  }
+
+  type Metafield {
+    id: ID!
+    namespace: String!
+    key: String!
+    value: String!
+    type: String!
+  }
+
+  type MetafieldEdge {
+    cursor: String!
+    node: Metafield!
+  }
+
+  type MetafieldConnection {
+    edges: [MetafieldEdge!]!
+    pageInfo: PageInfo!
+  }
+
+  type ShopPlan {
+    displayName: String!
+  }
+
+  type Shop {
+    name: String!
+    myshopifyDomain: String!
+    currencyCode: String!
+    ianaTimezone: String!
+    plan: ShopPlan!
+  }
+
+  type AccessScope {
+    handle: String!
+  }
+
+  type AppInstallation {
+    accessScopes: [AccessScope!]!
+  }
+
+  enum ProductStatus {
+    ACTIVE
+    ARCHIVED
+    DRAFT
+  }
+
+  enum ProductSortKeys {
+    CREATED_AT
+    ID
+    INVENTORY_TOTAL
+    PRODUCT_TYPE
+    TITLE
+    UPDATED_AT
+    VENDOR
+  }
+
+  type Image {
+    id: ID
+    url: URL!
+    altText: String
+    width: Int
+    height: Int
+  }
+
+  type ImageEdge {
+    cursor: String!
+    node: Image!
+  }
+
+  type ImageConnection {
+    edges: [ImageEdge!]!
+    pageInfo: PageInfo!
+  }
+
+  enum MediaContentType {
+    EXTERNAL_VIDEO
+    IMAGE
+    MODEL_3D
+    VIDEO
+  }
+
+  enum MediaStatus {
+    FAILED
+    PROCESSING
+    READY
+    UPLOADED
+  }
+
+  type MediaPreviewImage {
+    image: Image
+  }
+
+  interface Media {
+    id: ID!
+    alt: String
+    mediaContentType: MediaContentType!
+    status: MediaStatus!
+    preview: MediaPreviewImage
+  }
+
+  type MediaImage implements Media {
+    id: ID!
+    alt: String
+    mediaContentType: MediaContentType!
+    status: MediaStatus!
+    preview: MediaPreviewImage
+    image: Image
+  }
+
+  type Video implements Media {
+    id: ID!
+    alt: String
+    mediaContentType: MediaContentType!
+    status: MediaStatus!
+    preview: MediaPreviewImage
+  }
+
+  type ExternalVideo implements Media {
+    id: ID!
+    alt: String
+    mediaContentType: MediaContentType!
+    status: MediaStatus!
+    preview: MediaPreviewImage
+    originUrl: URL!
+  }
+
+  type Model3d implements Media {
+    id: ID!
+    alt: String
+    mediaContentType: MediaContentType!
+    status: MediaStatus!
+    preview: MediaPreviewImage
+  }
+
+  type MediaEdge {
+    cursor: String!
+    node: Media!
+  }
+
+  type MediaConnection {
+    edges: [MediaEdge!]!
+    pageInfo: PageInfo!
+  }
+
+  type ProductPriceRangeV2 {
+    minVariantPrice: MoneyV2!
+    maxVariantPrice: MoneyV2!
+  }
+
+  type SelectedOption {
+    name: String!
+    value: String!
+  }
+
+  interface Node {
+    id: ID!
+  }
+
+  type Product implements Node {
+    id: ID!
+    title: String!
+    description: String!
+    descriptionHtml: HTML!
+    handle: String!
+    status: ProductStatus!
+    vendor: String!
+    productType: String!
+    tags: [String!]!
+    seo: SEO!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+    totalInventory: Int!
+    priceRangeV2: ProductPriceRangeV2!
+    images(first: Int, last: Int, after: String, before: String): ImageConnection!
+    media(first: Int, last: Int, after: String, before: String): MediaConnection!
+    variants(
+      first: Int
+      last: Int
+      after: String
+      before: String
+    ): ProductVariantConnection!
+    collections(
+      first: Int
+      last: Int
+      after: String
+      before: String
+    ): CollectionConnection!
+    metafields(
+      first: Int
+      last: Int
+      after: String
+      before: String
+    ): MetafieldConnection!
+  }
+
+  type SEO {
+    title: String
+    description: String
+  }
+
+  type ProductEdge {
+    cursor: String!
+    node: Product!
+  }
+
+  type ProductConnection {
+    edges: [ProductEdge!]!
+    pageInfo: PageInfo!
+  }
+
+  enum ProductVariantInventoryPolicy {
+    DENY
+    CONTINUE
+  }
+
+  enum WeightUnit {
+    GRAMS
+    KILOGRAMS
+    OUNCES
+    POUNDS
+  }
+
+  type Weight {
+    unit: WeightUnit!
+    value: Float!
+  }
+
+  type InventoryItemMeasurement {
+    weight: Weight
+  }
+
+  type ProductVariant {
+    id: ID!
+    title: String!
+    displayName: String!
+    price: Money!
+    compareAtPrice: Money
+    sku: String
+    barcode: String
+    inventoryPolicy: ProductVariantInventoryPolicy!
+    inventoryQuantity: Int
+    selectedOptions: [SelectedOption!]!
+    product: Product!
+    metafield(namespace: String, key: String!): Metafield
+    inventoryItem: InventoryItem!
+  }
+
+  type ProductVariantEdge {
+    cursor: String!
+    node: ProductVariant!
+  }
+
+  type ProductVariantConnection {
+    edges: [ProductVariantEdge!]!
+    pageInfo: PageInfo!
+  }
+
+  type CollectionRule {
+    column: String!
+    relation: String!
+    condition: String!
+  }
+
+  type CollectionRuleSet {
+    appliedDisjunctively: Boolean!
+    rules: [CollectionRule!]!
+  }
+
+  type Collection {
+    id: ID!
+    title: String!
+    handle: String!
+    description: String!
+    descriptionHtml: HTML!
+    productsCount: Count
+    sortOrder: String!
+    templateSuffix: String
+    updatedAt: DateTime!
+    image: Image
+    ruleSet: CollectionRuleSet
+  }
+
+  type CollectionEdge {
+    cursor: String!
+    node: Collection!
+  }
+
+  type CollectionConnection {
+    edges: [CollectionEdge!]!
+    pageInfo: PageInfo!
+  }
+
+  type Customer {
+    id: ID!
+    firstName: String
+    lastName: String
+    email: String
+    phone: String
+    note: String
+    taxExempt: Boolean!
+    tags: [String!]!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+    defaultAddress: MailingAddress
+    addresses: [MailingAddress!]!
+    amountSpent: MoneyV2!
+    numberOfOrders: UnsignedInt64!
+    metafields(
+      first: Int
+      last: Int
+      after: String
+      before: String
+    ): MetafieldConnection!
+  }
+
+  type CustomerEdge {
+    cursor: String!
+    node: Customer!
+  }
+
+  type CustomerConnection {
+    edges: [CustomerEdge!]!
+    pageInfo: PageInfo!
+  }
+
+  enum OrderSortKeys {
+    CREATED_AT
+    CUSTOMER_NAME
+    FINANCIAL_STATUS
+    FULFILLMENT_STATUS
+    ID
+    ORDER_NUMBER
+    PROCESSED_AT
+    TOTAL_PRICE
+    UPDATED_AT
+  }
+
+  type LineItem {
+    id: ID!
+    title: String!
+    quantity: Int!
+    originalTotalSet: MoneyBag!
+    variant: ProductVariant
+  }
+
+  type LineItemEdge {
+    cursor: String!
+    node: LineItem!
+  }
+
+  type LineItemConnection {
+    edges: [LineItemEdge!]!
+    pageInfo: PageInfo!
+  }
+
+  type Order {
+    id: ID!
+    name: String!
+    email: String
+    note: String
+    tags: [String!]!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+    processedAt: DateTime!
+    cancelledAt: DateTime
+    closed: Boolean!
+    confirmed: Boolean!
+    displayFinancialStatus: String
+    displayFulfillmentStatus: String!
+    totalPriceSet: MoneyBag!
+    subtotalPriceSet: MoneyBag
+    totalTaxSet: MoneyBag
+    totalShippingPriceSet: MoneyBag!
+    customer: Customer
+    shippingAddress: MailingAddress
+    customAttributes: [Attribute!]!
+    lineItems(
+      first: Int
+      last: Int
+      after: String
+      before: String
+    ): LineItemConnection!
+    metafields(
+      first: Int
+      last: Int
+      after: String
+      before: String
+    ): MetafieldConnection!
+  }
+
+  type OrderEdge {
+    cursor: String!
+    node: Order!
+  }
+
+  type OrderConnection {
+    edges: [OrderEdge!]!
+    pageInfo: PageInfo!
+  }
+
+  type LocationAddress {
+    address1: String
+    address2: String
+    city: String
+    province: String
+    provinceCode: String
+    country: String
+    countryCode: String!
+    zip: String
+    phone: String
+  }
+
+  type Location {
+    id: ID!
+    name: String!
+    isActive: Boolean!
+    fulfillsOnlineOrders: Boolean!
+    hasActiveInventory: Boolean!
+    shipsInventory: Boolean!
+    address: LocationAddress!
+  }
+
+  type LocationEdge {
+    cursor: String!
+    node: Location!
+  }
+
+  type LocationConnection {
+    edges: [LocationEdge!]!
+    pageInfo: PageInfo!
+  }
+
+  type InventoryQuantity {
+    name: String!
+    quantity: Int!
+  }
+
+  type InventoryLevel {
+    id: ID!
+    quantities(names: [String!]!): [InventoryQuantity!]!
+    location: Location!
+  }
+
+  type InventoryLevelEdge {
+    cursor: String!
+    node: InventoryLevel!
+  }
+
+  type InventoryLevelConnection {
+    edges: [InventoryLevelEdge!]!
+    pageInfo: PageInfo!
+  }
+
+  type InventoryItem {
+    id: ID!
+    sku: String
+    tracked: Boolean!
+    unitCost: MoneyV2
+    measurement: InventoryItemMeasurement!
+    variant: ProductVariant!
+    inventoryLevels(
+      first: Int
+      last: Int
+      after: String
+      before: String
+    ): InventoryLevelConnection!
+    inventoryLevel(locationId: ID!): InventoryLevel
+  }
+
+  type InventoryItemEdge {
+    cursor: String!
+    node: InventoryItem!
+  }
+
+  type InventoryItemConnection {
+    edges: [InventoryItemEdge!]!
+    pageInfo: PageInfo!
+  }
+
+  type ShopifyqlTableDataColumn {
+    name: String!
+    dataType: String!
+    displayName: String!
+  }
+
+  type ShopifyqlTableData {
+    columns: [ShopifyqlTableDataColumn!]!
+    rows: JSON!
+  }
+
+  type ShopifyqlQueryResponse {
+    tableData: ShopifyqlTableData
+    parseErrors: [String!]!
+  }
+
+  input AttributeInput {
+    key: String!
+    value: String!
+  }
+
+  input MetafieldInput {
+    id: ID
+    namespace: String
+    key: String
+    value: String
+    type: String
+  }
+
+  input MailingAddressInput {
+    address1: String
+    address2: String
+    city: String
+    company: String
+    country: String
+    firstName: String
+    lastName: String
+    phone: String
+    province: String
+    zip: String
+  }
+
+  input OrderInput {
+    id: ID!
+    email: String
+    note: String
+    tags: [String!]
+    customAttributes: [AttributeInput!]
+    metafields: [MetafieldInput!]
+    shippingAddress: MailingAddressInput
+  }
+
+  type OrderUpdatePayload {
+    order: Order
+    userErrors: [UserError!]!
+  }
+
+  input CustomerInput {
+    id: ID
+    firstName: String
+    lastName: String
+    email: String
+    phone: String
+    note: String
+    tags: [String!]
+    taxExempt: Boolean
+    metafields: [MetafieldInput!]
+  }
+
+  type CustomerUpdatePayload {
+    customer: Customer
+    userErrors: [UserError!]!
+  }
+
+  input ProductInput {
+    id: ID
+    title: String
+    descriptionHtml: String
+    vendor: String
+    productType: String
+    tags: [String!]
+    status: ProductStatus
+  }
+
+  type ProductCreatePayload {
+    product: Product
+    userErrors: [UserError!]!
+  }
+
+  input SEOInput {
+    title: String
+    description: String
+  }
+
+  input ProductUpdateInput {
+    id: ID!
+    title: String
+    descriptionHtml: String
+    vendor: String
+    productType: String
+    handle: String
+    tags: [String!]
+    status: ProductStatus
+    seo: SEOInput
+    metafields: [MetafieldInput!]
+  }
+
+  type ProductUpdatePayload {
+    product: Product
+    userErrors: [UserError!]!
+  }
+
+  input ProductDeleteInput {
+    id: ID!
+  }
+
+  type ProductDeletePayload {
+    deletedProductId: ID
+    userErrors: [UserError!]!
+  }
+
+  type TagsAddPayload {
+    node: Node
+    userErrors: [UserError!]!
+  }
+
+  type TagsRemovePayload {
+    node: Node
+    userErrors: [UserError!]!
+  }
+
+  type ProductDuplicatePayload {
+    newProduct: Product
+    imageJob: Job
+    userErrors: [UserError!]!
+  }
+
+  enum ProductVariantsBulkCreateStrategy {
+    DEFAULT
+    PRESERVE_STANDALONE_VARIANT
+    REMOVE_STANDALONE_VARIANT
+  }
+
+  input VariantOptionValueInput {
+    optionName: String
+    name: String
+  }
+
+  input WeightInput {
+    value: Float!
+    unit: WeightUnit!
+  }
+
+  input InventoryItemMeasurementInput {
+    weight: WeightInput
+  }
+
+  input InventoryItemInput {
+    sku: String
+    tracked: Boolean
+    measurement: InventoryItemMeasurementInput
+  }
+
+  input ProductVariantsBulkInput {
+    id: ID
+    price: Money
+    compareAtPrice: Money
+    barcode: String
+    inventoryPolicy: ProductVariantInventoryPolicy
+    optionValues: [VariantOptionValueInput!]
+    inventoryItem: InventoryItemInput
+  }
+
+  type ProductVariantsBulkCreatePayload {
+    product: Product
+    productVariants: [ProductVariant!]
+    userErrors: [UserError!]!
+  }
+
+  type ProductVariantsBulkUpdatePayload {
+    product: Product
+    productVariants: [ProductVariant!]
+    userErrors: [UserError!]!
+  }
+
+  type ProductVariantsBulkDeletePayload {
+    product: Product
+    userErrors: [UserError!]!
+  }
+
+  enum StagedUploadTargetGenerateUploadResource {
+    FILE
+    IMAGE
+    MODEL_3D
+    VIDEO
+  }
+
+  enum StagedUploadHttpMethodType {
+    POST
+    PUT
+  }
+
+  input StagedUploadInput {
+    resource: StagedUploadTargetGenerateUploadResource!
+    filename: String!
+    mimeType: String!
+    httpMethod: StagedUploadHttpMethodType
+    fileSize: UnsignedInt64
+  }
+
+  type StagedUploadParameter {
+    name: String!
+    value: String!
+  }
+
+  type StagedMediaUploadTarget {
+    url: URL
+    resourceUrl: URL
+    parameters: [StagedUploadParameter!]!
+  }
+
+  type StagedUploadsCreatePayload {
+    stagedTargets: [StagedMediaUploadTarget!]
+    userErrors: [UserError!]!
+  }
+
+  type MediaUserError {
+    field: [String!]
+    message: String!
+    code: String
+  }
+
+  input CreateMediaInput {
+    originalSource: String!
+    alt: String
+    mediaContentType: MediaContentType!
+  }
+
+  input UpdateMediaInput {
+    id: ID!
+    alt: String
+    previewImageSource: String
+  }
+
+  input MoveInput {
+    id: ID!
+    newPosition: UnsignedInt64!
+  }
+
+  type Job {
+    id: ID!
+    done: Boolean!
+  }
+
+  type ProductCreateMediaPayload {
+    media: [Media!]
+    mediaUserErrors: [MediaUserError!]!
+    product: Product
+  }
+
+  type ProductUpdateMediaPayload {
+    media: [Media!]
+    mediaUserErrors: [MediaUserError!]!
+    product: Product
+  }
+
+  type ProductReorderMediaPayload {
+    job: Job
+    mediaUserErrors: [MediaUserError!]!
+  }
+
+  type ProductDeleteMediaPayload {
+    deletedMediaIds: [ID!]
+    deletedProductImageIds: [ID!]
+    mediaUserErrors: [MediaUserError!]!
+    product: Product
+  }
+
+  type InventoryChange {
+    name: String!
+    delta: Int!
+    quantityAfterChange: Int
+    ledgerDocumentUri: String
+    item: InventoryItem
+    location: Location
+  }
+
+  type InventoryAdjustmentGroup {
+    id: ID!
+    createdAt: DateTime!
+    reason: String!
+    referenceDocumentUri: String
+    changes(
+      inventoryItemIds: [ID!]
+      locationIds: [ID!]
+      quantityNames: [String!]
+    ): [InventoryChange!]!
+  }
+
+  input InventoryChangeInput {
+    delta: Int!
+    inventoryItemId: ID!
+    locationId: ID!
+    ledgerDocumentUri: String
+  }
+
+  input InventoryAdjustQuantitiesInput {
+    reason: String!
+    name: String!
+    referenceDocumentUri: String
+    changes: [InventoryChangeInput!]!
+  }
+
+  input InventoryQuantityInput {
+    inventoryItemId: ID!
+    locationId: ID!
+    quantity: Int!
+    compareQuantity: Int
+  }
+
+  input InventorySetQuantitiesInput {
+    reason: String!
+    name: String!
+    referenceDocumentUri: String
+    ignoreCompareQuantity: Boolean
+    quantities: [InventoryQuantityInput!]!
+  }
+
+  input InventoryMoveQuantityTerminalNodeInput {
+    locationId: ID!
+    name: String!
+    ledgerDocumentUri: String
+  }
+
+  input InventoryMoveQuantityChange {
+    inventoryItemId: ID!
+    quantity: Int!
+    from: InventoryMoveQuantityTerminalNodeInput!
+    to: InventoryMoveQuantityTerminalNodeInput!
+  }
+
+  input InventoryMoveQuantitiesInput {
+    reason: String!
+    referenceDocumentUri: String!
+    changes: [InventoryMoveQuantityChange!]!
+  }
+
+  type InventoryAdjustQuantitiesUserError {
+    field: [String!]
+    message: String!
+    code: String
+  }
+
+  type InventoryAdjustQuantitiesPayload {
+    inventoryAdjustmentGroup: InventoryAdjustmentGroup
+    userErrors: [InventoryAdjustQuantitiesUserError!]!
+  }
+
+  type InventorySetQuantitiesUserError {
+    field: [String!]
+    message: String!
+    code: String
+  }
+
+  type InventorySetQuantitiesPayload {
+    inventoryAdjustmentGroup: InventoryAdjustmentGroup
+    userErrors: [InventorySetQuantitiesUserError!]!
+  }
+
+  type InventoryMoveQuantitiesUserError {
+    field: [String!]
+    message: String!
+    code: String
+  }
+
+  type InventoryMoveQuantitiesPayload {
+    inventoryAdjustmentGroup: InventoryAdjustmentGroup
+    userErrors: [InventoryMoveQuantitiesUserError!]!
+  }
+`;
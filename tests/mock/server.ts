@@ -0,0 +1,1855 @@
+/**
+ * Mock Shopify Admin GraphQL Server
+ * A local HTTP endpoint that executes tool documents against the mock schema
+ * and fixture data, so tool tests run without network access
+ */
+
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { buildSchema, graphql } from "graphql";
+import { GraphQLClient } from "graphql-request";
+import {
+  cloneFixtures,
+  type CustomerFixture,
+  type InventoryItemFixture,
+  type MediaFixture,
+  type MetafieldFixture,
+  type MockStoreData,
+  type OrderFixture,
+  type ProductFixture,
+  type VariantFixture
+} from "./fixtures";
+import { MAX_QUERY_COST, requestedQueryCost } from "./queryCost";
+import { typeDefs } from "./schema";
+import { runShopifyql } from "./shopifyql";
+
+export const MOCK_ACCESS_TOKEN = "shpat_mock_token";
+
+export interface RecordedRequest {
+  query: string;
+  variables: Record<string, unknown>;
+}
+
+// A canned reply served instead of executing the next request
+export interface ScriptedResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+export interface MockShopify {
+  url: string;
+  data: MockStoreData;
+  requests: RecordedRequest[];
+  // Bodies posted to staged upload targets, by target path
+  uploads: Map<string, string>;
+  // Serve these replies, in order, before executing requests normally
+  enqueue(...responses: ScriptedResponse[]): void;
+  // GraphQLClient authenticated against this server
+  client(): GraphQLClient;
+  close(): Promise<void>;
+}
+
+// Reported on every executed request, like the real Admin API
+export const MOCK_THROTTLE_STATUS = {
+  maximumAvailable: 2000,
+  currentlyAvailable: 1990,
+  restoreRate: 100
+};
+
+interface ConnectionArgs {
+  first?: number | null;
+  last?: number | null;
+  after?: string | null;
+  before?: string | null;
+}
+
+const encodeCursor = (index: number) =>
+  Buffer.from(`cursor:${index}`).toString("base64");
+
+const decodeCursor = (cursor: string) =>
+  Number(Buffer.from(cursor, "base64").toString("utf8").split(":")[1]);
+
+/**
+ * Relay connection over an in-memory list, honouring first/last/after/before
+ */
+export function connection<T>(items: T[], args: ConnectionArgs = {}) {
+  if (args.first == null && args.last == null) {
+    throw new Error("you must provide one of first or last");
+  }
+
+  let start = args.after ? decodeCursor(args.after) + 1 : 0;
+  let end = args.before ? decodeCursor(args.before) : items.length;
+
+  if (args.first != null) {
+    end = Math.min(end, start + args.first);
+  }
+  if (args.last != null) {
+    start = Math.max(start, end - args.last);
+  }
+
+  const edges = items
+    .slice(start, end)
+    .map((node, offset) => ({ cursor: encodeCursor(start + offset), node }));
+
+  return {
+    edges,
+    pageInfo: {
+      hasNextPage: end < items.length,
+      hasPreviousPage: start > 0,
+      startCursor: edges.length > 0 ? edges[0].cursor : null,
+      endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : null
+    }
+  };
+}
+
+type Accessors<T> = Record<string, (item: T) => unknown>;
+
+function matchesTerm(actual: unknown, rawValue: string): boolean {
+  const values = Array.isArray(actual) ? actual : [actual];
+  const comparison = /^(>=|<=|>|<)(.*)$/.exec(rawValue);
+
+  return values.some((value) => {
+    if (value === null || value === undefined) {
+      return false;
+    }
+
+    if (comparison) {
+      const [, operator, operand] = comparison;
+      const left = Number.isNaN(Number(value))
+        ? Date.parse(String(value))
+        : Number(value);
+      const right = Number.isNaN(Number(operand))
+        ? Date.parse(operand)
+        : Number(operand);
+      switch (operator) {
+        case ">":
+          return left > right;
+        case ">=":
+          return left >= right;
+        case "<":
+          return left < right;
+        default:
+          return left <= right;
+      }
+    }
+
+    const pattern = new RegExp(
+      `^${rawValue
+        .replace(/^"|"$/g, "")
+        .replace(/[.+^${}()|[\]\\?]/g, "\\$&")
+        .replace(/\*/g, ".*")}$`,
+      "i"
+    );
+    return pattern.test(String(value));
+  });
+}
+
+/**
+ * Apply Shopify search syntax (`field:value`, `field:>value`, wildcards,
+ * `-field:value`, `field:a,b`, bare words) joined with AND
+ */
+export function search<T>(
+  items: T[],
+  query: string | null | undefined,
+  accessors: Accessors<T>,
+  defaultField: string
+): T[] {
+  if (!query) {
+    return items;
+  }
+
+  const terms = (query.match(/-?[\w.]+:"[^"]*"|"[^"]*"|\S+/g) ?? []).filter(
+    (term) => term.toUpperCase() !== "AND"
+  );
+
+  return items.filter((item) =>
+    terms.every((term) => {
+      // Grouping parentheses around ANDed terms don't change the result
+      const bare = term.replace(/^\(+|\)+$/g, "");
+      const negated = bare.startsWith("-");
+      const body = negated ? bare.slice(1) : bare;
+      const separator = body.indexOf(":");
+      const field = separator > 0 ? body.slice(0, separator) : defaultField;
+      const value = separator > 0 ? body.slice(separator + 1) : `*${body}*`;
+      const accessor = accessors[field];
+      // Unknown fields are ignored, as Shopify does
+      if (!accessor) {
+        return true;
+      }
+      // Comma-separated values match any of them, e.g. status:active,draft
+      const values = value.startsWith('"') ? [value] : value.split(",");
+      return (
+        values.some((option) => matchesTerm(accessor(item), option)) !==
+        negated
+      );
+    })
+  );
+}
+
+function sortItems<T>(
+  items: T[],
+  sortKey: string | null | undefined,
+  reverse: boolean | null | undefined,
+  keys: Accessors<T>
+): T[] {
+  const accessor = sortKey ? keys[sortKey] : undefined;
+  const sorted = accessor
+    ? [...items].sort((a, b) => {
+        const left = accessor(a) as string | number;
+        const right = accessor(b) as string | number;
+        return typeof left === "number" && typeof right === "number"
+          ? left - right
+          : String(left).localeCompare(String(right));
+      })
+    : [...items];
+  return reverse ? sorted.reverse() : sorted;
+}
+
+const numericId = (gid: string) => gid.split("/").pop() as string;
+
+const money = (amount: string, currencyCode = "USD") => ({
+  amount,
+  currencyCode
+});
+
+interface VariantBulkInput {
+  id?: string;
+  price?: string;
+  compareAtPrice?: string | null;
+  barcode?: string;
+  inventoryPolicy?: VariantFixture["inventoryPolicy"];
+  optionValues?: Array<{ optionName: string; name: string }>;
+  inventoryItem?: {
+    sku?: string;
+    tracked?: boolean;
+    measurement?: { weight?: InventoryItemFixture["weight"] };
+  };
+}
+
+// Variant titles join the option values, e.g. "Large / Blue"
+const variantTitle = (optionValues: Array<{ name: string }>) =>
+  optionValues.map((option) => option.name).join(" / ");
+
+function upsertMetafields(
+  current: MetafieldFixture[],
+  inputs: Array<Partial<MetafieldFixture>>,
+  nextId: () => string
+) {
+  for (const input of inputs) {
+    const existing = current.find((metafield) =>
+      input.id
+        ? metafield.id === input.id
+        : metafield.namespace === input.namespace && metafield.key === input.key
+    );
+    if (existing) {
+      existing.value = input.value ?? existing.value;
+      existing.type = input.type ?? existing.type;
+    } else {
+      current.push({
+        id: nextId(),
+        namespace: input.namespace ?? "custom",
+        key: input.key ?? "unknown",
+        value: input.value ?? "",
+        type: input.type ?? "single_line_text_field"
+      });
+    }
+  }
+}
+
+// Where staged upload targets point, and what was posted to them
+interface StagedUploads {
+  origin: () => string;
+  uploads: Map<string, string>;
+}
+
+const STAGED_RESOURCE_BASE =
+  "https://shopify-staged-uploads.storage.googleapis.com";
+
+interface InventoryMoveTerminal {
+  locationId: string;
+  name: string;
+  ledgerDocumentUri?: string | null;
+}
+
+const MEDIA_TYPENAMES: Record<MediaFixture["mediaContentType"], string> = {
+  IMAGE: "MediaImage",
+  VIDEO: "Video",
+  EXTERNAL_VIDEO: "ExternalVideo",
+  MODEL_3D: "Model3d"
+};
+
+/**
+ * Build the root resolvers over one copy of the fixture data
+ */
+function createRoot(data: MockStoreData, staged: StagedUploads) {
+  let idSequence = 100000;
+  const nextId = (type: string) => `gid://shopify/${type}/${idSequence++}`;
+  const now = () => new Date().toISOString();
+
+  const locationById = (id: string) =>
+    data.locations.find((location) => location.id === id)!;
+
+  const findVariant = (id: string) => {
+    for (const product of data.products) {
+      const variant = product.variants.find((v) => v.id === id);
+      if (variant) {
+        return { product, variant };
+      }
+    }
+    return null;
+  };
+
+  const availableFor = (inventoryItemId: string) =>
+    (
+      data.inventoryItems.find((item) => item.id === inventoryItemId)?.levels ??
+      []
+    ).reduce((sum, level) => sum + (level.quantities.available ?? 0), 0);
+
+  // Remove variants along with their inventory items
+  const deleteVariants = (product: ProductFixture, ids: string[]) => {
+    const removed = product.variants.filter((variant) => ids.includes(variant.id));
+    product.variants = product.variants.filter(
+      (variant) => !ids.includes(variant.id)
+    );
+    data.inventoryItems = data.inventoryItems.filter(
+      (item) =>
+        !removed.some((variant) => variant.inventoryItemId === item.id)
+    );
+  };
+
+  const totalInventory = (product: ProductFixture) =>
+    product.variants.reduce(
+      (sum, variant) => sum + availableFor(variant.inventoryItemId),
+      0
+    );
+
+  const productImageView = (media: MediaFixture) => ({
+    id: `gid://shopify/ProductImage/${numericId(media.id)}`,
+    url: media.url,
+    altText: media.alt,
+    width: media.width,
+    height: media.height
+  });
+
+  const mediaView = (media: MediaFixture): Record<string, unknown> => ({
+    ...media,
+    __typename: MEDIA_TYPENAMES[media.mediaContentType],
+    preview: {
+      image: media.status === "READY" ? productImageView(media) : null
+    },
+    image: productImageView(media),
+    originUrl: media.url
+  });
+
+  const variantView = (
+    product: ProductFixture,
+    variant: ProductFixture["variants"][number]
+  ): Record<string, unknown> => ({
+    ...variant,
+    displayName: `${product.title} - ${variant.title}`,
+    inventoryQuantity: availableFor(variant.inventoryItemId),
+    product: () => productView(product),
+    metafield: ({ namespace, key }: { namespace?: string; key: string }) =>
+      variant.metafields.find(
+        (metafield) =>
+          metafield.key === key &&
+          (namespace === undefined || metafield.namespace === namespace)
+      ) ?? null,
+    inventoryItem: () =>
+      inventoryItemView(
+        data.inventoryItems.find((item) => item.id === variant.inventoryItemId)!
+      )
+  });
+
+  const productView = (product: ProductFixture): Record<string, unknown> => {
+    const prices = product.variants.map((variant) => Number(variant.price));
+    const formatPrice = (value: number) =>
+      money(Number.isFinite(value) ? value.toFixed(2) : "0.00");
+
+    return {
+      ...product,
+      description: product.descriptionHtml.replace(/<[^>]+>/g, ""),
+      totalInventory: totalInventory(product),
+      priceRangeV2: {
+        minVariantPrice: formatPrice(Math.min(...prices)),
+        maxVariantPrice: formatPrice(Math.max(...prices))
+      },
+      images: (args: ConnectionArgs) =>
+        connection(
+          product.media
+            .filter((media) => media.mediaContentType === "IMAGE")
+            .map(productImageView),
+          args
+        ),
+      media: (args: ConnectionArgs) =>
+        connection(product.media.map(mediaView), args),
+      variants: (args: ConnectionArgs) =>
+        connection(
+          product.variants.map((variant) => variantView(product, variant)),
+          args
+        ),
+      collections: (args: ConnectionArgs) =>
+        connection(
+          data.collections
+            .filter((collection) => collection.productIds.includes(product.id))
+            .map(collectionView),
+          args
+        ),
+      metafields: (args: ConnectionArgs) => connection(product.metafields, args)
+    };
+  };
+
+  const collectionView = (
+    collection: MockStoreData["collections"][number]
+  ) => ({
+    ...collection,
+    description: collection.descriptionHtml.replace(/<[^>]+>/g, ""),
+    productsCount: { count: collection.productIds.length }
+  });
+
+  const customerView = (customer: CustomerFixture): Record<string, unknown> => ({
+    ...customer,
+    defaultAddress: customer.addresses[0] ?? null,
+    metafields: (args: ConnectionArgs) => connection(customer.metafields, args)
+  });
+
+  const orderView = (order: OrderFixture): Record<string, unknown> => ({
+    ...order,
+    displayFinancialStatus: order.financialStatus,
+    displayFulfillmentStatus: order.fulfillmentStatus,
+    totalPriceSet: { shopMoney: money(order.totalPrice) },
+    subtotalPriceSet: { shopMoney: money(order.subtotalPrice) },
+    totalTaxSet: { shopMoney: money(order.totalTax) },
+    totalShippingPriceSet: { shopMoney: money(order.totalShipping) },
+    customer: () => {
+      const customer = data.customers.find((c) => c.id === order.customerId);
+      return customer ? customerView(customer) : null;
+    },
+    lineItems: (args: ConnectionArgs) =>
+      connection(
+        order.lineItems.map((lineItem) => ({
+          ...lineItem,
+          originalTotalSet: { shopMoney: money(lineItem.total) },
+          variant: () => {
+            const found = lineItem.variantId
+              ? findVariant(lineItem.variantId)
+              : null;
+            return found ? variantView(found.product, found.variant) : null;
+          }
+        })),
+        args
+      ),
+    metafields: (args: ConnectionArgs) => connection(order.metafields, args)
+  });
+
+  const inventoryLevelView = (
+    level: InventoryItemFixture["levels"][number]
+  ) => ({
+    id: level.id,
+    location: locationById(level.locationId),
+    quantities: ({ names }: { names: string[] }) =>
+      names.map((name) => ({
+        name,
+        quantity: level.quantities[name] ?? 0
+      }))
+  });
+
+  const inventoryItemView = (
+    item: MockStoreData["inventoryItems"][number]
+  ): Record<string, unknown> => ({
+    ...item,
+    measurement: { weight: item.weight },
+    variant: () => {
+      const found = findVariant(item.variantId)!;
+      return variantView(found.product, found.variant);
+    },
+    inventoryLevels: (args: ConnectionArgs) =>
+      connection(item.levels.map(inventoryLevelView), args),
+    inventoryLevel: ({ locationId }: { locationId: string }) => {
+      const level = item.levels.find((l) => l.locationId === locationId);
+      return level ? inventoryLevelView(level) : null;
+    }
+  });
+
+  // Inventory level of an item at a location, or the userError Shopify
+  // returns when the item is not stocked there
+  const findInventoryLevel = (
+    inventoryItemId: string,
+    locationId: string,
+    field: Array<string | number>
+  ) => {
+    const item = data.inventoryItems.find((i) => i.id === inventoryItemId);
+    const level = item?.levels.find((l) => l.locationId === locationId);
+    if (!item || !level) {
+      return {
+        error: {
+          field: field.map(String),
+          message:
+            "The specified inventory item is not stocked at the location.",
+          code: "ITEM_NOT_STOCKED_AT_LOCATION"
+        }
+      };
+    }
+    return { item, level };
+  };
+
+  // Apply quantity changes and report them as an adjustment group
+  const applyInventoryChanges = (
+    reason: string,
+    referenceDocumentUri: string | null,
+    changes: Array<{
+      item: InventoryItemFixture;
+      level: InventoryItemFixture["levels"][number];
+      name: string;
+      delta: number;
+      ledgerDocumentUri?: string | null;
+    }>
+  ) => ({
+    id: nextId("InventoryAdjustmentGroup"),
+    createdAt: now(),
+    reason,
+    referenceDocumentUri,
+    changes: changes.map(({ item, level, name, delta, ledgerDocumentUri }) => {
+      level.quantities[name] = (level.quantities[name] ?? 0) + delta;
+      return {
+        name,
+        delta,
+        quantityAfterChange: level.quantities[name],
+        ledgerDocumentUri: ledgerDocumentUri ?? null,
+        item: inventoryItemView(item),
+        location: locationById(level.locationId)
+      };
+    })
+  });
+
+  // Changing available changes on_hand by the same amount, and the other
+  // way round
+  const linkedQuantity = (name: string) =>
+    name === "available" ? "on_hand" : "available";
+
+  const productAccessors: Accessors<ProductFixture> = {
+    title: (p) => p.title,
+    handle: (p) => p.handle,
+    vendor: (p) => p.vendor,
+    product_type: (p) => p.productType,
+    tag: (p) => p.tags,
+    status: (p) => p.status.toLowerCase(),
+    sku: (p) => p.variants.map((v) => v.sku),
+    created_at: (p) => p.createdAt,
+    updated_at: (p) => p.updatedAt,
+    inventory_total: (p) => totalInventory(p),
+    price: (p) => p.variants.map((v) => v.price),
+    collection_id: (p) =>
+      data.collections
+        .filter((collection) => collection.productIds.includes(p.id))
+        .map((collection) => numericId(collection.id)),
+    id: (p) => numericId(p.id)
+  };
+
+  const orderAccessors: Accessors<OrderFixture> = {
+    name: (o) => [o.name, o.name.replace("#", "")],
+    status: (o) =>
+      o.cancelledAt ? "cancelled" : o.closed ? "closed" : "open",
+    financial_status: (o) => o.financialStatus.toLowerCase(),
+    fulfillment_status: (o) => o.fulfillmentStatus.toLowerCase(),
+    customer_id: (o) => (o.customerId ? numericId(o.customerId) : null),
+    email: (o) => o.email,
+    tag: (o) => o.tags,
+    created_at: (o) => o.createdAt,
+    updated_at: (o) => o.updatedAt,
+    id: (o) => numericId(o.id)
+  };
+
+  const customerAccessors: Accessors<CustomerFixture> = {
+    name: (c) => [c.firstName, c.lastName, `${c.firstName} ${c.lastName}`],
+    first_name: (c) => c.firstName,
+    last_name: (c) => c.lastName,
+    email: (c) => c.email,
+    phone: (c) => c.phone,
+    tag: (c) => c.tags,
+    id: (c) => numericId(c.id)
+  };
+
+  return {
+    shop: () => data.shop,
+    currentAppInstallation: () => ({
+      accessScopes: data.accessScopes.map((handle) => ({ handle }))
+    }),
+
+    product: ({ id }: { id: string }) => {
+      const product = data.products.find((p) => p.id === id);
+      return product ? productView(product) : null;
+    },
+
+    products: (
+      args: ConnectionArgs & {
+        query?: string;
+        sortKey?: string;
+        reverse?: boolean;
+      }
+    ) =>
+      connection(
+        sortItems(
+          search(data.products, args.query, productAccessors, "title"),
+          args.sortKey,
+          args.reverse,
+          {
+            CREATED_AT: (p) => p.createdAt,
+            ID: (p) => Number(numericId(p.id)),
+            INVENTORY_TOTAL: (p) => totalInventory(p),
+            PRODUCT_TYPE: (p) => p.productType,
+            TITLE: (p) => p.title,
+            UPDATED_AT: (p) => p.updatedAt,
+            VENDOR: (p) => p.vendor
+          }
+        ).map(productView),
+        args
+      ),
+
+    productVariant: ({ id }: { id: string }) => {
+      const found = findVariant(id);
+      return found ? variantView(found.product, found.variant) : null;
+    },
+
+    productVariants: (args: ConnectionArgs & { query?: string }) =>
+      connection(
+        search(
+          data.products.flatMap((product) =>
+            product.variants.map((variant) => ({ product, variant }))
+          ),
+          args.query,
+          {
+            sku: ({ variant }) => variant.sku,
+            title: ({ variant }) => variant.title,
+            product_id: ({ product }) => numericId(product.id),
+            id: ({ variant }) => numericId(variant.id)
+          },
+          "title"
+        ).map(({ product, variant }) => variantView(product, variant)),
+        args
+      ),
+
+    customer: ({ id }: { id: string }) => {
+      const customer = data.customers.find((c) => c.id === id);
+      return customer ? customerView(customer) : null;
+    },
+
+    customers: (args: ConnectionArgs & { query?: string }) =>
+      connection(
+        search(data.customers, args.query, customerAccessors, "name").map(
+          customerView
+        ),
+        args
+      ),
+
+    order: ({ id }: { id: string }) => {
+      const order = data.orders.find((o) => o.id === id);
+      return order ? orderView(order) : null;
+    },
+
+    orders: (
+      args: ConnectionArgs & {
+        query?: string;
+        sortKey?: string;
+        reverse?: boolean;
+      }
+    ) =>
+      connection(
+        sortItems(
+          search(data.orders, args.query, orderAccessors, "name"),
+          args.sortKey,
+          args.reverse,
+          {
+            CREATED_AT: (o) => o.createdAt,
+            ID: (o) => Number(numericId(o.id)),
+            ORDER_NUMBER: (o) => Number(o.name.replace("#", "")),
+            PROCESSED_AT: (o) => o.processedAt,
+            TOTAL_PRICE: (o) => Number(o.totalPrice),
+            UPDATED_AT: (o) => o.updatedAt,
+            FINANCIAL_STATUS: (o) => o.financialStatus,
+            FULFILLMENT_STATUS: (o) => o.fulfillmentStatus
+          }
+        ).map(orderView),
+        args
+      ),
+
+    collections: (args: ConnectionArgs & { query?: string }) =>
+      connection(
+        search(
+          data.collections,
+          args.query,
+          {
+            title: (c) => c.title,
+            handle: (c) => c.handle,
+            collection_type: (c) => (c.ruleSet ? "smart" : "custom")
+          },
+          "title"
+        ).map(collectionView),
+        args
+      ),
+
+    inventoryItems: (args: ConnectionArgs & { query?: string }) =>
+      connection(
+        search(
+          data.inventoryItems,
+          args.query,
+          {
+            sku: (item) => item.sku,
+            id: (item) => numericId(item.id),
+            product_id: (item) =>
+              numericId(findVariant(item.variantId)!.product.id),
+            tracked: (item) => String(item.tracked)
+          },
+          "sku"
+        ).map(inventoryItemView),
+        args
+      ),
+
+    inventoryItem: ({ id }: { id: string }) => {
+      const item = data.inventoryItems.find((i) => i.id === id);
+      return item ? inventoryItemView(item) : null;
+    },
+
+    locations: (args: ConnectionArgs & { includeInactive?: boolean }) =>
+      connection(
+        data.locations.filter(
+          (location) => args.includeInactive || location.isActive
+        ),
+        args
+      ),
+
+    shopifyqlQuery: ({ query }: { query: string }) =>
+      runShopifyql(query, data.shopifyqlTables),
+
+    orderUpdate: ({ input }: { input: Record<string, any> }) => {
+      const order = data.orders.find((o) => o.id === input.id);
+      if (!order) {
+        return {
+          order: null,
+          userErrors: [{ field: ["id"], message: "Order does not exist" }]
+        };
+      }
+      if (input.email !== undefined && !String(input.email).includes("@")) {
+        return {
+          order: null,
+          userErrors: [{ field: ["email"], message: "Email is invalid" }]
+        };
+      }
+
+      if (input.email !== undefined) order.email = input.email;
+      if (input.note !== undefined) order.note = input.note;
+      if (input.tags !== undefined) order.tags = input.tags;
+      if (input.customAttributes !== undefined) {
+        order.customAttributes = input.customAttributes;
+      }
+      if (input.shippingAddress !== undefined) {
+        order.shippingAddress = {
+          ...(order.shippingAddress ?? {}),
+          ...input.shippingAddress
+        };
+      }
+      if (input.metafields !== undefined) {
+        upsertMetafields(order.metafields, input.metafields, () =>
+          nextId("Metafield")
+        );
+      }
+      order.updatedAt = now();
+
+      return { order: orderView(order), userErrors: [] };
+    },
+
+    customerUpdate: ({ input }: { input: Record<string, any> }) => {
+      const customer = data.customers.find((c) => c.id === input.id);
+      if (!customer) {
+        return {
+          customer: null,
+          userErrors: [{ field: ["id"], message: "Customer does not exist" }]
+        };
+      }
+      if (
+        input.email !== undefined &&
+        data.customers.some(
+          (other) => other.id !== customer.id && other.email === input.email
+        )
+      ) {
+        return {
+          customer: null,
+          userErrors: [
+            { field: ["email"], message: "Email has already been taken" }
+          ]
+        };
+      }
+
+      for (const field of [
+        "firstName",
+        "lastName",
+        "email",
+        "phone",
+        "note",
+        "tags",
+        "taxExempt"
+      ] as const) {
+        if (input[field] !== undefined) {
+          Object.assign(customer, { [field]: input[field] });
+        }
+      }
+      if (input.metafields !== undefined) {
+        upsertMetafields(customer.metafields, input.metafields, () =>
+          nextId("Metafield")
+        );
+      }
+      customer.updatedAt = now();
+
+      return { customer: customerView(customer), userErrors: [] };
+    },
+
+    productUpdate: ({ product: input }: { product: Record<string, any> }) => {
+      const product = data.products.find((p) => p.id === input.id);
+      if (!product) {
+        return {
+          product: null,
+          userErrors: [{ field: ["id"], message: "Product does not exist" }]
+        };
+      }
+      if (input.title !== undefined && String(input.title).trim() === "") {
+        return {
+          product: null,
+          userErrors: [{ field: ["title"], message: "Title can't be blank" }]
+        };
+      }
+      if (
+        input.handle !== undefined &&
+        data.products.some((p) => p !== product && p.handle === input.handle)
+      ) {
+        return {
+          product: null,
+          userErrors: [
+            {
+              field: ["handle"],
+              message: `Handle '${input.handle}' already in use. Please provide a new handle.`
+            }
+          ]
+        };
+      }
+
+      for (const field of [
+        "title",
+        "descriptionHtml",
+        "vendor",
+        "productType",
+        "handle",
+        "tags",
+        "status"
+      ] as const) {
+        if (input[field] !== undefined) {
+          Object.assign(product, { [field]: input[field] });
+        }
+      }
+      if (input.seo !== undefined) {
+        product.seo = { ...product.seo, ...input.seo };
+      }
+      if (input.metafields !== undefined) {
+        upsertMetafields(product.metafields, input.metafields, () =>
+          nextId("Metafield")
+        );
+      }
+      product.updatedAt = now();
+
+      return { product: productView(product), userErrors: [] };
+    },
+
+    productCreate: ({ input }: { input: Record<string, any> }) => {
+      const title = String(input.title ?? "");
+      if (title.trim().length === 0) {
+        return {
+          product: null,
+          userErrors: [{ field: ["title"], message: "Title can't be blank" }]
+        };
+      }
+      if (title.length > 255) {
+        return {
+          product: null,
+          userErrors: [
+            {
+              field: ["title"],
+              message: "Title is too long (maximum is 255 characters)"
+            }
+          ]
+        };
+      }
+
+      const id = nextId("Product");
+      const inventoryItemId = nextId("InventoryItem");
+      const product: ProductFixture = {
+        id,
+        title,
+        descriptionHtml: input.descriptionHtml ?? "",
+        handle: title.toLowerCase().replace(/[^a-z0-9]+/g, "-"),
+        status: input.status ?? "ACTIVE",
+        vendor: input.vendor ?? data.shop.name,
+        productType: input.productType ?? "",
+        tags: input.tags ?? [],
+        seo: { title: null, description: null },
+        metafields: [],
+        createdAt: now(),
+        updatedAt: now(),
+        media: [],
+        variants: [
+          {
+            id: nextId("ProductVariant"),
+            title: "Default Title",
+            price: "0.00",
+            compareAtPrice: null,
+            sku: null,
+            barcode: null,
+            inventoryPolicy: "DENY",
+            selectedOptions: [{ name: "Title", value: "Default Title" }],
+            metafields: [],
+            inventoryItemId
+          }
+        ]
+      };
+      data.products.push(product);
+      data.inventoryItems.push({
+        id: inventoryItemId,
+        sku: null,
+        tracked: false,
+        unitCost: null,
+        weight: null,
+        variantId: product.variants[0].id,
+        levels: []
+      });
+
+      return { product: productView(product), userErrors: [] };
+    },
+
+    productDelete: ({ input }: { input: { id: string } }) => {
+      const product = data.products.find((p) => p.id === input.id);
+      if (!product) {
+        return {
+          deletedProductId: null,
+          userErrors: [{ field: ["id"], message: "Product does not exist" }]
+        };
+      }
+
+      deleteVariants(
+        product,
+        product.variants.map((variant) => variant.id)
+      );
+      data.products = data.products.filter((p) => p !== product);
+      for (const collection of data.collections) {
+        collection.productIds = collection.productIds.filter(
+          (id) => id !== product.id
+        );
+      }
+
+      return { deletedProductId: product.id, userErrors: [] };
+    },
+
+    // Only products take tags here. Tags compare case-insensitively
+    tagsAdd: ({ id, tags }: { id: string; tags: string[] }) => {
+      const product = data.products.find((p) => p.id === id);
+      if (!product) {
+        return {
+          node: null,
+          userErrors: [{ field: ["id"], message: "Product does not exist" }]
+        };
+      }
+      if (tags.some((tag) => tag.length > 255)) {
+        return {
+          node: null,
+          userErrors: [
+            {
+              field: ["tags"],
+              message: "Tags is invalid. Tags can't be longer than 255 characters"
+            }
+          ]
+        };
+      }
+
+      for (const tag of tags) {
+        const lower = tag.toLowerCase();
+        if (!product.tags.some((existing) => existing.toLowerCase() === lower)) {
+          product.tags.push(tag);
+        }
+      }
+      product.updatedAt = now();
+
+      return {
+        node: { __typename: "Product", ...productView(product) },
+        userErrors: []
+      };
+    },
+
+    tagsRemove: ({ id, tags }: { id: string; tags: string[] }) => {
+      const product = data.products.find((p) => p.id === id);
+      if (!product) {
+        return {
+          node: null,
+          userErrors: [{ field: ["id"], message: "Product does not exist" }]
+        };
+      }
+
+      const removed = new Set(tags.map((tag) => tag.toLowerCase()));
+      product.tags = product.tags.filter(
+        (tag) => !removed.has(tag.toLowerCase())
+      );
+      product.updatedAt = now();
+
+      return {
+        node: { __typename: "Product", ...productView(product) },
+        userErrors: []
+      };
+    },
+
+    productDuplicate: ({
+      productId,
+      newTitle,
+      newStatus,
+      includeImages
+    }: {
+      productId: string;
+      newTitle: string;
+      newStatus?: ProductFixture["status"];
+      includeImages?: boolean;
+    }) => {
+      const source = data.products.find((p) => p.id === productId);
+      if (!source) {
+        return {
+          newProduct: null,
+          imageJob: null,
+          userErrors: [{ field: ["productId"], message: "Product does not exist" }]
+        };
+      }
+      if (newTitle.trim() === "") {
+        return {
+          newProduct: null,
+          imageJob: null,
+          userErrors: [{ field: ["newTitle"], message: "Title can't be blank" }]
+        };
+      }
+
+      const baseHandle = newTitle
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-|-$/g, "");
+      let handle = baseHandle;
+      for (let n = 1; data.products.some((p) => p.handle === handle); n++) {
+        handle = `${baseHandle}-${n}`;
+      }
+
+      const product: ProductFixture = {
+        ...structuredClone(source),
+        id: nextId("Product"),
+        title: newTitle,
+        handle,
+        status: newStatus ?? source.status,
+        metafields: source.metafields.map((metafield) => ({
+          ...metafield,
+          id: nextId("Metafield")
+        })),
+        createdAt: now(),
+        updatedAt: now(),
+        media: includeImages
+          ? source.media.map((media) => ({
+              ...media,
+              id: nextId(MEDIA_TYPENAMES[media.mediaContentType])
+            }))
+          : [],
+        variants: []
+      };
+      for (const variant of source.variants) {
+        const item = data.inventoryItems.find(
+          (candidate) => candidate.id === variant.inventoryItemId
+        )!;
+        const copy: VariantFixture = {
+          ...structuredClone(variant),
+          id: nextId("ProductVariant"),
+          metafields: variant.metafields.map((metafield) => ({
+            ...metafield,
+            id: nextId("Metafield")
+          })),
+          inventoryItemId: nextId("InventoryItem")
+        };
+        product.variants.push(copy);
+        // Duplicates start without stock
+        data.inventoryItems.push({
+          ...structuredClone(item),
+          id: copy.inventoryItemId,
+          variantId: copy.id,
+          levels: []
+        });
+      }
+      data.products.push(product);
+
+      return {
+        newProduct: productView(product),
+        imageJob: includeImages ? { id: nextId("Job"), done: false } : null,
+        userErrors: []
+      };
+    },
+
+    productVariantsBulkCreate: ({
+      productId,
+      variants: inputs,
+      strategy
+    }: {
+      productId: string;
+      variants: VariantBulkInput[];
+      strategy?: string;
+    }) => {
+      const product = data.products.find((p) => p.id === productId);
+      if (!product) {
+        return {
+          product: null,
+          productVariants: null,
+          userErrors: [{ field: ["productId"], message: "Product does not exist" }]
+        };
+      }
+
+      const standalone =
+        product.variants.length === 1 &&
+        product.variants[0].title === "Default Title"
+          ? product.variants[0]
+          : null;
+      const removeStandalone =
+        standalone !== null && strategy === "REMOVE_STANDALONE_VARIANT";
+      const titles = product.variants
+        .filter((variant) => !(removeStandalone && variant === standalone))
+        .map((variant) => variant.title);
+
+      const userErrors: Array<{ field: string[]; message: string }> = [];
+      inputs.forEach((input, index) => {
+        const title = variantTitle(input.optionValues ?? []);
+        if (!title) {
+          userErrors.push({
+            field: ["variants", String(index), "optionValues"],
+            message: "Option values can't be blank"
+          });
+        } else if (titles.includes(title)) {
+          userErrors.push({
+            field: ["variants", String(index)],
+            message: `The variant '${title}' already exists.`
+          });
+        }
+        titles.push(title);
+      });
+      if (userErrors.length > 0) {
+        return { product: null, productVariants: null, userErrors };
+      }
+
+      if (removeStandalone) {
+        deleteVariants(product, [standalone!.id]);
+      }
+
+      const created = inputs.map((input) => {
+        const inventoryItemId = nextId("InventoryItem");
+        const variant: VariantFixture = {
+          id: nextId("ProductVariant"),
+          title: variantTitle(input.optionValues ?? []),
+          price: input.price ?? "0.00",
+          compareAtPrice: input.compareAtPrice ?? null,
+          sku: input.inventoryItem?.sku ?? null,
+          barcode: input.barcode ?? null,
+          inventoryPolicy: input.inventoryPolicy ?? "DENY",
+          selectedOptions: (input.optionValues ?? []).map((option) => ({
+            name: option.optionName,
+            value: option.name
+          })),
+          metafields: [],
+          inventoryItemId
+        };
+        product.variants.push(variant);
+        data.inventoryItems.push({
+          id: inventoryItemId,
+          sku: variant.sku,
+          tracked: input.inventoryItem?.tracked ?? false,
+          unitCost: null,
+          weight: input.inventoryItem?.measurement?.weight ?? null,
+          variantId: variant.id,
+          levels: []
+        });
+        return variant;
+      });
+      product.updatedAt = now();
+
+      return {
+        product: productView(product),
+        productVariants: created.map((variant) => variantView(product, variant)),
+        userErrors: []
+      };
+    },
+
+    productVariantsBulkUpdate: ({
+      productId,
+      variants: inputs
+    }: {
+      productId: string;
+      variants: VariantBulkInput[];
+    }) => {
+      const product = data.products.find((p) => p.id === productId);
+      if (!product) {
+        return {
+          product: null,
+          productVariants: null,
+          userErrors: [{ field: ["productId"], message: "Product does not exist" }]
+        };
+      }
+
+      const userErrors: Array<{ field: string[]; message: string }> = [];
+      inputs.forEach((input, index) => {
+        if (!product.variants.some((variant) => variant.id === input.id)) {
+          userErrors.push({
+            field: ["variants", String(index), "id"],
+            message: "Product variant does not exist"
+          });
+        }
+      });
+      if (userErrors.length > 0) {
+        return { product: null, productVariants: null, userErrors };
+      }
+
+      const updated = inputs.map((input) => {
+        const variant = product.variants.find((v) => v.id === input.id)!;
+        const item = data.inventoryItems.find(
+          (candidate) => candidate.id === variant.inventoryItemId
+        )!;
+
+        if (input.price !== undefined) variant.price = input.price;
+        if (input.compareAtPrice !== undefined) {
+          variant.compareAtPrice = input.compareAtPrice;
+        }
+        if (input.barcode !== undefined) variant.barcode = input.barcode;
+        if (input.inventoryPolicy !== undefined) {
+          variant.inventoryPolicy = input.inventoryPolicy;
+        }
+        if (input.optionValues !== undefined) {
+          for (const option of input.optionValues) {
+            const selected = variant.selectedOptions.find(
+              (candidate) => candidate.name === option.optionName
+            );
+            if (selected) {
+              selected.value = option.name;
+            } else {
+              variant.selectedOptions.push({
+                name: option.optionName,
+                value: option.name
+              });
+            }
+          }
+          variant.title = variant.selectedOptions
+            .map((option) => option.value)
+            .join(" / ");
+        }
+        if (input.inventoryItem?.sku !== undefined) {
+          variant.sku = input.inventoryItem.sku;
+          item.sku = input.inventoryItem.sku;
+        }
+        if (input.inventoryItem?.tracked !== undefined) {
+          item.tracked = input.inventoryItem.tracked;
+        }
+        if (input.inventoryItem?.measurement?.weight !== undefined) {
+          item.weight = input.inventoryItem.measurement.weight;
+        }
+        return variant;
+      });
+      product.updatedAt = now();
+
+      return {
+        product: productView(product),
+        productVariants: updated.map((variant) => variantView(product, variant)),
+        userErrors: []
+      };
+    },
+
+    productVariantsBulkDelete: ({
+      productId,
+      variantsIds
+    }: {
+      productId: string;
+      variantsIds: string[];
+    }) => {
+      const product = data.products.find((p) => p.id === productId);
+      if (!product) {
+        return {
+          product: null,
+          userErrors: [{ field: ["productId"], message: "Product does not exist" }]
+        };
+      }
+      if (
+        variantsIds.some(
+          (id) => !product.variants.some((variant) => variant.id === id)
+        )
+      ) {
+        return {
+          product: null,
+          userErrors: [
+            {
+              field: ["variantsIds"],
+              message: "At least one variant does not belong to the product"
+            }
+          ]
+        };
+      }
+
+      deleteVariants(product, variantsIds);
+      product.updatedAt = now();
+
+      return { product: productView(product), userErrors: [] };
+    },
+
+    stagedUploadsCreate: ({
+      input
+    }: {
+      input: Array<{ filename: string; mimeType: string; resource: string }>;
+    }) => {
+      const userErrors = input.flatMap((target, index) =>
+        target.filename.trim() === ""
+          ? [
+              {
+                field: ["input", String(index), "filename"],
+                message: "Filename can't be blank"
+              }
+            ]
+          : []
+      );
+      if (userErrors.length > 0) {
+        return { stagedTargets: null, userErrors };
+      }
+
+      return {
+        stagedTargets: input.map((target) => {
+          const key = `tmp/${numericId(nextId("StagedUpload"))}/${target.filename}`;
+          return {
+            url: `${staged.origin()}/staged-uploads/${key}`,
+            resourceUrl: `${STAGED_RESOURCE_BASE}/${key}`,
+            parameters: [
+              { name: "key", value: key },
+              { name: "Content-Type", value: target.mimeType },
+              { name: "success_action_status", value: "201" }
+            ]
+          };
+        }),
+        userErrors: []
+      };
+    },
+
+    productCreateMedia: ({
+      productId,
+      media: inputs
+    }: {
+      productId: string;
+      media: Array<{
+        originalSource: string;
+        alt?: string;
+        mediaContentType: MediaFixture["mediaContentType"];
+      }>;
+    }) => {
+      const product = data.products.find((p) => p.id === productId);
+      if (!product) {
+        return {
+          media: null,
+          product: null,
+          mediaUserErrors: [
+            {
+              field: ["productId"],
+              message: "Product does not exist",
+              code: "PRODUCT_DOES_NOT_EXIST"
+            }
+          ]
+        };
+      }
+
+      const mediaUserErrors = inputs.flatMap((input, index) => {
+        const field = ["media", String(index), "originalSource"];
+        if (!/^https?:\/\//.test(input.originalSource)) {
+          return [{ field, message: "Media URL is invalid", code: "INVALID" }];
+        }
+        const stagedKey = input.originalSource.startsWith(STAGED_RESOURCE_BASE)
+          ? input.originalSource.slice(STAGED_RESOURCE_BASE.length + 1)
+          : null;
+        if (stagedKey && !staged.uploads.has(`/staged-uploads/${stagedKey}`)) {
+          return [
+            {
+              field,
+              message: "Media failed to process because the file was not uploaded",
+              code: "INVALID"
+            }
+          ];
+        }
+        return [];
+      });
+      if (mediaUserErrors.length > 0) {
+        return { media: null, product: null, mediaUserErrors };
+      }
+
+      const created = inputs.map((input) => {
+        const media: MediaFixture = {
+          id: nextId(MEDIA_TYPENAMES[input.mediaContentType]),
+          mediaContentType: input.mediaContentType,
+          alt: input.alt ?? null,
+          status: "UPLOADED",
+          url: input.originalSource,
+          width: null,
+          height: null
+        };
+        product.media.push(media);
+        return media;
+      });
+      product.updatedAt = now();
+
+      return {
+        media: created.map(mediaView),
+        mediaUserErrors: [],
+        product: productView(product)
+      };
+    },
+
+    productUpdateMedia: ({
+      productId,
+      media: inputs
+    }: {
+      productId: string;
+      media: Array<{ id: string; alt?: string }>;
+    }) => {
+      const product = data.products.find((p) => p.id === productId);
+      const mediaUserErrors = !product
+        ? [
+            {
+              field: ["productId"],
+              message: "Product does not exist",
+              code: "PRODUCT_DOES_NOT_EXIST"
+            }
+          ]
+        : inputs.flatMap((input, index) =>
+            product.media.some((media) => media.id === input.id)
+              ? []
+              : [
+                  {
+                    field: ["media", String(index), "id"],
+                    message: `Media id ${input.id} does not exist`,
+                    code: "MEDIA_DOES_NOT_EXIST"
+                  }
+                ]
+          );
+      if (!product || mediaUserErrors.length > 0) {
+        return { media: null, product: null, mediaUserErrors };
+      }
+
+      const updated = inputs.map((input) => {
+        const media = product.media.find((m) => m.id === input.id)!;
+        if (input.alt !== undefined) {
+          media.alt = input.alt;
+        }
+        return media;
+      });
+      product.updatedAt = now();
+
+      return {
+        media: updated.map(mediaView),
+        mediaUserErrors: [],
+        product: productView(product)
+      };
+    },
+
+    productReorderMedia: ({
+      id,
+      moves
+    }: {
+      id: string;
+      moves: Array<{ id: string; newPosition: string }>;
+    }) => {
+      const product = data.products.find((p) => p.id === id);
+      if (!product) {
+        return {
+          job: null,
+          mediaUserErrors: [
+            {
+              field: ["id"],
+              message: "Product does not exist",
+              code: "PRODUCT_DOES_NOT_EXIST"
+            }
+          ]
+        };
+      }
+      const mediaUserErrors = moves.flatMap((move, index) =>
+        product.media.some((media) => media.id === move.id)
+          ? []
+          : [
+              {
+                field: ["moves", String(index), "id"],
+                message: `Media id ${move.id} does not exist`,
+                code: "MEDIA_DOES_NOT_EXIST"
+              }
+            ]
+      );
+      if (mediaUserErrors.length > 0) {
+        return { job: null, mediaUserErrors };
+      }
+
+      // Shopify applies the moves in a background job; apply them right away
+      for (const move of moves) {
+        const index = product.media.findIndex((media) => media.id === move.id);
+        const [media] = product.media.splice(index, 1);
+        product.media.splice(Number(move.newPosition), 0, media);
+      }
+      product.updatedAt = now();
+
+      return { job: { id: nextId("Job"), done: false }, mediaUserErrors: [] };
+    },
+
+    productDeleteMedia: ({
+      productId,
+      mediaIds
+    }: {
+      productId: string;
+      mediaIds: string[];
+    }) => {
+      const product = data.products.find((p) => p.id === productId);
+      const missing = mediaIds.find(
+        (mediaId) => !product?.media.some((media) => media.id === mediaId)
+      );
+      if (!product || missing) {
+        return {
+          deletedMediaIds: null,
+          deletedProductImageIds: null,
+          product: null,
+          mediaUserErrors: [
+            product
+              ? {
+                  field: ["mediaIds"],
+                  message: `Media id ${missing} does not exist`,
+                  code: "MEDIA_DOES_NOT_EXIST"
+                }
+              : {
+                  field: ["productId"],
+                  message: "Product does not exist",
+                  code: "PRODUCT_DOES_NOT_EXIST"
+                }
+          ]
+        };
+      }
+
+      const deleted = product.media.filter((media) => mediaIds.includes(media.id));
+      product.media = product.media.filter(
+        (media) => !mediaIds.includes(media.id)
+      );
+      product.updatedAt = now();
+
+      return {
+        deletedMediaIds: deleted.map((media) => media.id),
+        deletedProductImageIds: deleted
+          .filter((media) => media.mediaContentType === "IMAGE")
+          .map((media) => productImageView(media).id),
+        mediaUserErrors: [],
+        product: productView(product)
+      };
+    },
+
+    inventoryAdjustQuantities: ({
+      input
+    }: {
+      input: {
+        reason: string;
+        name: string;
+        referenceDocumentUri?: string | null;
+        changes: Array<{
+          inventoryItemId: string;
+          locationId: string;
+          delta: number;
+          ledgerDocumentUri?: string | null;
+        }>;
+      };
+    }) => {
+      const changes = [];
+      for (const [index, change] of input.changes.entries()) {
+        const found = findInventoryLevel(
+          change.inventoryItemId,
+          change.locationId,
+          ["input", "changes", index, "locationId"]
+        );
+        if ("error" in found) {
+          return { inventoryAdjustmentGroup: null, userErrors: [found.error] };
+        }
+        if (input.name !== "available" && !change.ledgerDocumentUri) {
+          return {
+            inventoryAdjustmentGroup: null,
+            userErrors: [
+              {
+                field: ["input", "changes", String(index), "ledgerDocumentUri"],
+                message:
+                  "A ledger document URI is required for this quantity name.",
+                code: "NON_AVAILABLE_QUANTITY_REQUIRES_LEDGER_DOCUMENT"
+              }
+            ]
+          };
+        }
+        for (const name of [input.name, linkedQuantity(input.name)]) {
+          changes.push({
+            ...found,
+            name,
+            delta: change.delta,
+            ledgerDocumentUri: change.ledgerDocumentUri
+          });
+        }
+      }
+
+      return {
+        inventoryAdjustmentGroup: applyInventoryChanges(
+          input.reason,
+          input.referenceDocumentUri ?? null,
+          changes
+        ),
+        userErrors: []
+      };
+    },
+
+    inventorySetQuantities: ({
+      input
+    }: {
+      input: {
+        reason: string;
+        name: string;
+        referenceDocumentUri?: string | null;
+        ignoreCompareQuantity?: boolean;
+        quantities: Array<{
+          inventoryItemId: string;
+          locationId: string;
+          quantity: number;
+          compareQuantity?: number | null;
+        }>;
+      };
+    }) => {
+      const changes = [];
+      for (const [index, line] of input.quantities.entries()) {
+        const found = findInventoryLevel(
+          line.inventoryItemId,
+          line.locationId,
+          ["input", "quantities", index, "locationId"]
+        );
+        if ("error" in found) {
+          return { inventoryAdjustmentGroup: null, userErrors: [found.error] };
+        }
+        const current = found.level.quantities[input.name] ?? 0;
+        if (
+          !input.ignoreCompareQuantity &&
+          line.compareQuantity !== current
+        ) {
+          return {
+            inventoryAdjustmentGroup: null,
+            userErrors: [
+              {
+                field: ["input", "quantities", String(index), "compareQuantity"],
+                message:
+                  "The compareQuantity argument no longer matches the persisted quantity.",
+                code: "COMPARE_QUANTITY_STALE"
+              }
+            ]
+          };
+        }
+        for (const name of [input.name, linkedQuantity(input.name)]) {
+          changes.push({ ...found, name, delta: line.quantity - current });
+        }
+      }
+
+      return {
+        inventoryAdjustmentGroup: applyInventoryChanges(
+          input.reason,
+          input.referenceDocumentUri ?? null,
+          changes
+        ),
+        userErrors: []
+      };
+    },
+
+    inventoryMoveQuantities: ({
+      input
+    }: {
+      input: {
+        reason: string;
+        referenceDocumentUri: string;
+        changes: Array<{
+          inventoryItemId: string;
+          quantity: number;
+          from: InventoryMoveTerminal;
+          to: InventoryMoveTerminal;
+        }>;
+      };
+    }) => {
+      const changes = [];
+      for (const [index, change] of input.changes.entries()) {
+        if (change.from.locationId !== change.to.locationId) {
+          return {
+            inventoryAdjustmentGroup: null,
+            userErrors: [
+              {
+                field: ["input", "changes", String(index), "to", "locationId"],
+                message:
+                  "The quantities can't be moved between different locations.",
+                code: "DIFFERENT_LOCATIONS"
+              }
+            ]
+          };
+        }
+        const found = findInventoryLevel(
+          change.inventoryItemId,
+          change.from.locationId,
+          ["input", "changes", index, "from", "locationId"]
+        );
+        if ("error" in found) {
+          return { inventoryAdjustmentGroup: null, userErrors: [found.error] };
+        }
+        changes.push(
+          {
+            ...found,
+            name: change.from.name,
+            delta: -change.quantity,
+            ledgerDocumentUri: change.from.ledgerDocumentUri
+          },
+          {
+            ...found,
+            name: change.to.name,
+            delta: change.quantity,
+            ledgerDocumentUri: change.to.ledgerDocumentUri
+          }
+        );
+      }
+
+      return {
+        inventoryAdjustmentGroup: applyInventoryChanges(
+          input.reason,
+          input.referenceDocumentUri,
+          changes
+        ),
+        userErrors: []
+      };
+    }
+  };
+}
+
+/**
+ * Start a mock Admin API server on a free local port
+ */
+export async function startMockShopify(
+  options: { accessToken?: string; data?: MockStoreData } = {}
+): Promise<MockShopify> {
+  const accessToken = options.accessToken ?? MOCK_ACCESS_TOKEN;
+  const data = options.data ?? cloneFixtures();
+  // Custom scalars keep graphql-js defaults, which pass values through as-is
+  const schema = buildSchema(typeDefs);
+  const uploads = new Map<string, string>();
+  let origin = "";
+  const root = createRoot(data, { origin: () => origin, uploads });
+  const requests: RecordedRequest[] = [];
+  const scripted: ScriptedResponse[] = [];
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+    });
+    req.on("end", async () => {
+      const send = (
+        status: number,
+        payload: unknown,
+        headers: Record<string, string> = {}
+      ) => {
+        res.writeHead(status, {
+          "Content-Type":
+            typeof payload === "string" ? "text/plain" : "application/json",
+          ...headers
+        });
+        res.end(
+          typeof payload === "string" ? payload : JSON.stringify(payload)
+        );
+      };
+
+      // Staged upload targets are presigned and take no access token
+      if (req.method === "POST" && req.url?.startsWith("/staged-uploads/")) {
+        uploads.set(req.url, body);
+        send(201, "");
+        return;
+      }
+
+      if (req.headers["x-shopify-access-token"] !== accessToken) {
+        send(401, {
+          errors:
+            "[API] Invalid API key or access token (unrecognized login or wrong password)"
+        });
+        return;
+      }
+
+      const { query, variables = {} } = JSON.parse(body || "{}");
+      requests.push({ query, variables });
+
+      const reply = scripted.shift();
+      if (reply) {
+        send(reply.status ?? 200, reply.body, reply.headers);
+        return;
+      }
+
+      // Shopify refuses a query over the cost limit before running any of it
+      const cost = requestedQueryCost(schema, query, variables);
+      if (cost > MAX_QUERY_COST) {
+        send(200, {
+          errors: [
+            {
+              message: `Query cost is ${cost}, which exceeds the single query max cost limit (${MAX_QUERY_COST}).`,
+              extensions: {
+                code: "MAX_COST_EXCEEDED",
+                cost,
+                maxCost: MAX_QUERY_COST
+              }
+            }
+          ]
+        });
+        return;
+      }
+
+      const result = await graphql({
+        schema,
+        source: query,
+        rootValue: root,
+        variableValues: variables
+      });
+
+      send(200, {
+        ...result,
+        extensions: {
+          cost: {
+            requestedQueryCost: cost,
+            actualQueryCost: result.errors ? null : cost,
+            throttleStatus: MOCK_THROTTLE_STATUS
+          }
+        }
+      });
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  origin = `http://127.0.0.1:${port}`;
+  const url = `${origin}/admin/api/2025-10/graphql.json`;
+
+  return {
+    url,
+    data,
+    requests,
+    uploads,
+    enqueue: (...responses) => {
+      scripted.push(...responses);
+    },
+    client: () =>
+      new GraphQLClient(url, {
+        headers: {
+          "X-Shopify-Access-Token": accessToken,
+          "Content-Type": "application/json"
+        }
+      }),
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      )
+  };
+}
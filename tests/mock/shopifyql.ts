@@ -0,0 +1,146 @@
+/**
+ * Mock ShopifyQL Engine
+ * Enough of FROM/SHOW/WHERE/GROUP BY/ORDER BY/LIMIT to run the queries the
+ * analytics tools build against the fixture tables
+ */
+
+import type { ShopifyqlTableFixture } from "./fixtures";
+
+interface ShopifyqlResult {
+  tableData: {
+    columns: ShopifyqlTableFixture["columns"];
+    rows: string[][];
+  } | null;
+  parseErrors: string[];
+}
+
+const CLAUSES = "WHERE|SINCE|DURING|UNTIL|GROUP BY|ORDER BY|LIMIT";
+
+function clause(query: string, name: string): string | undefined {
+  const match = new RegExp(
+    `\\b${name}\\s+(.+?)(?=\\s+(?:${CLAUSES})\\b|$)`,
+    "i"
+  ).exec(query);
+  return match?.[1].trim();
+}
+
+const splitList = (value: string | undefined) =>
+  value
+    ? value
+        .split(",")
+        .map((part) => part.trim())
+        .filter((part) => part.length > 0)
+    : [];
+
+function matchesWhere(
+  row: Record<string, string | number>,
+  where: string
+): boolean {
+  return where.split(/\s+OR\s+/i).some((alternative) =>
+    alternative.split(/\s+AND\s+/i).every((condition) => {
+      const match = /^(\w+)\s*=\s*'([^']*)'$/.exec(condition.trim());
+      return match ? String(row[match[1]]) === match[2] : true;
+    })
+  );
+}
+
+export function runShopifyql(
+  query: string,
+  tables: Record<string, ShopifyqlTableFixture>
+): ShopifyqlResult {
+  const normalized = query.replace(/\s+/g, " ").trim();
+  const fail = (message: string): ShopifyqlResult => ({
+    tableData: null,
+    parseErrors: [message]
+  });
+
+  const from = /^FROM (\w+)/i.exec(normalized);
+  if (!from) {
+    return fail("Query must start with a FROM clause");
+  }
+
+  const table = tables[from[1]];
+  if (!table) {
+    return fail(`Table '${from[1]}' does not exist`);
+  }
+
+  const show = splitList(clause(normalized, "SHOW"));
+  if (show.length === 0) {
+    return fail("Query must include a SHOW clause");
+  }
+
+  const groupBy = splitList(clause(normalized, "GROUP BY"));
+  const columnNames = [...new Set([...groupBy, ...show])];
+  for (const name of columnNames) {
+    if (!table.columns.some((column) => column.name === name)) {
+      return fail(`Column '${name}' does not exist in table '${from[1]}'`);
+    }
+  }
+
+  const where = clause(normalized, "WHERE");
+  const rows = where
+    ? table.rows.filter((row) => matchesWhere(row, where))
+    : table.rows;
+
+  // Aggregate metric columns over each group of dimension values
+  const groups = new Map<string, Record<string, string | number>>();
+  for (const row of rows) {
+    const key = groupBy.map((name) => row[name]).join("\u0000");
+    const group = groups.get(key);
+    if (!group) {
+      groups.set(key, { ...row });
+      continue;
+    }
+    for (const name of columnNames) {
+      if (!groupBy.includes(name) && typeof row[name] === "number") {
+        group[name] = Number(group[name]) + Number(row[name]);
+      }
+    }
+  }
+
+  let results = [...groups.values()].map((group) => {
+    if (typeof group.orders === "number" && group.orders > 0) {
+      group.average_order_value = Number(group.total_sales) / group.orders;
+    }
+    return group;
+  });
+
+  const orderBy = /^(\w+)(?:\s+(ASC|DESC))?/i.exec(
+    clause(normalized, "ORDER BY") ?? ""
+  );
+  if (orderBy) {
+    const [, name, direction] = orderBy;
+    const sign = direction?.toUpperCase() === "DESC" ? -1 : 1;
+    results = results.sort((a, b) =>
+      typeof a[name] === "number"
+        ? (Number(a[name]) - Number(b[name])) * sign
+        : String(a[name]).localeCompare(String(b[name])) * sign
+    );
+  }
+
+  const limit = clause(normalized, "LIMIT");
+  if (limit) {
+    results = results.slice(0, Number(limit));
+  }
+
+  return {
+    tableData: {
+      columns: columnNames.map(
+        (name) => table.columns.find((column) => column.name === name)!
+      ),
+      rows: results.map((row) =>
+        columnNames.map((name) =>
+          typeof row[name] === "number"
+            ? Number(row[name]).toFixed(
+                table.columns.find((c) => c.name === name)!.dataType ===
+                  "MONEY"
+                  ? 2
+                  : 0
+              )
+            : String(row[name])
+        )
+      )
+    },
+    parseErrors: []
+  };
+}
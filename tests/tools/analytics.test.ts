@@ -0,0 +1,121 @@
+import { getCustomerAnalytics } from "../../src/tools/analytics/getCustomerAnalytics";
+import { getProductPerformance } from "../../src/tools/analytics/getProductPerformance";
+import { getSalesReport } from "../../src/tools/analytics/getSalesReport";
+import { runShopifyqlQuery } from "../../src/tools/analytics/runShopifyqlQuery";
+import { runTool, silenceConsoleErrors } from "../mock/runTool";
+import { startMockShopify, type MockShopify } from "../mock/server";
+
+describe("analytics tools", () => {
+  let mock: MockShopify;
+
+  beforeEach(async () => {
+    mock = await startMockShopify();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await mock.close();
+  });
+
+  describe("run-shopifyql-query", () => {
+    it("returns columns and rows", async () => {
+      const result = await runTool(runShopifyqlQuery, mock.client(), {
+        query: "FROM sales SHOW total_sales, orders GROUP BY day ORDER BY day"
+      });
+
+      expect(result.columns.map((c: any) => c.name)).toEqual([
+        "day",
+        "total_sales",
+        "orders"
+      ]);
+      expect(result.rows).toEqual([
+        ["2024-05-01", "30.99", "2"],
+        ["2024-05-03", "15.00", "1"],
+        ["2024-05-06", "43.98", "1"]
+      ]);
+      expect(result.rowCount).toBe(3);
+    });
+
+    it("surfaces parse errors", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(runShopifyqlQuery, mock.client(), {
+          query: "FROM refunds SHOW total_sales"
+        })
+      ).rejects.toThrow("ShopifyQL parse errors: Table 'refunds' does not exist");
+    });
+  });
+
+  describe("get-sales-report", () => {
+    it("groups by product", async () => {
+      const result = await runTool(getSalesReport, mock.client(), {
+        groupBy: "product"
+      });
+
+      expect(result.query).toContain("GROUP BY product_title");
+      expect(result.rows).toEqual([
+        ["Classic Tee", "59.97", "2"],
+        ["Canvas Tote", "30.00", "2"]
+      ]);
+    });
+
+    it("surfaces parse errors for metrics the table lacks", async () => {
+      silenceConsoleErrors();
+      mock.data.shopifyqlTables.sales.columns =
+        mock.data.shopifyqlTables.sales.columns.filter(
+          (column) => column.name !== "gross_profit"
+        );
+
+      await expect(
+        runTool(getSalesReport, mock.client(), { metrics: ["gross_profit"] })
+      ).rejects.toThrow("Column 'gross_profit' does not exist");
+    });
+  });
+
+  describe("get-product-performance", () => {
+    it("ranks products and maps rows to objects", async () => {
+      const result = await runTool(getProductPerformance, mock.client(), {
+        sortBy: "units_sold"
+      });
+
+      expect(result.products.map((p: any) => p.product_title)).toEqual([
+        "Classic Tee",
+        "Canvas Tote"
+      ]);
+      expect(result.products[0].units_sold).toBe("3");
+    });
+
+    it("filters by product type", async () => {
+      const result = await runTool(getProductPerformance, mock.client(), {
+        productType: "Bags"
+      });
+
+      expect(result.products).toEqual([
+        expect.objectContaining({ product_title: "Canvas Tote", total_sales: "30.00" })
+      ]);
+    });
+  });
+
+  describe("get-customer-analytics", () => {
+    it("compares first-time and returning customers", async () => {
+      const result = await runTool(getCustomerAnalytics, mock.client(), {
+        reportType: "retention"
+      });
+
+      expect(result.results).toEqual([
+        expect.objectContaining({ customer_type: "First-time", total_sales: "58.98" }),
+        expect.objectContaining({ customer_type: "Returning", total_sales: "30.99" })
+      ]);
+    });
+
+    it("surfaces parse errors", async () => {
+      silenceConsoleErrors();
+      delete mock.data.shopifyqlTables.sales;
+
+      await expect(
+        runTool(getCustomerAnalytics, mock.client())
+      ).rejects.toThrow("Table 'sales' does not exist");
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { getCollections } from "../../src/tools/getCollections";
+import { getInventoryLevels } from "../../src/tools/getInventoryLevels";
+import { getLocations } from "../../src/tools/getLocations";
+import { runTool, silenceConsoleErrors } from "../mock/runTool";
+import { startMockShopify, type MockShopify } from "../mock/server";
+
+describe("location, inventory and collection tools", () => {
+  let mock: MockShopify;
+
+  beforeEach(async () => {
+    mock = await startMockShopify();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await mock.close();
+  });
+
+  describe("get-locations", () => {
+    it("lists active locations by default", async () => {
+      const result = await runTool(getLocations, mock.client());
+
+      expect(result.locations.map((l: any) => l.name)).toEqual([
+        "Main Warehouse",
+        "Downtown Store"
+      ]);
+      expect(result.locations[1].address.address2).toBe("Unit 4");
+    });
+
+    it("includes inactive locations on request", async () => {
+      const result = await runTool(getLocations, mock.client(), {
+        includeInactive: true
+      });
+
+      expect(result.locationCount).toBe(3);
+    });
+  });
+
+  describe("get-inventory-levels", () => {
+    it("totals quantities across locations", async () => {
+      const result = await runTool(getInventoryLevels, mock.client(), {
+        sku: "TEE-S"
+      });
+
+      expect(result.inventoryItems).toHaveLength(1);
+      const [item] = result.inventoryItems;
+      expect(item.variant).toMatchObject({
+        displayName: "Classic Tee - Small",
+        productId: "gid://shopify/Product/1001"
+      });
+      expect(item.inventoryLevels.map((l: any) => l.locationName)).toEqual([
+        "Main Warehouse",
+        "Downtown Store"
+      ]);
+      expect(item.totalAvailable).toBe(12);
+      expect(item.totalOnHand).toBe(14);
+    });
+
+    it("filters by product GID", async () => {
+      const result = await runTool(getInventoryLevels, mock.client(), {
+        productId: "gid://shopify/Product/1001"
+      });
+
+      expect(result.inventoryItems.map((i: any) => i.sku)).toEqual([
+        "TEE-S",
+        "TEE-L"
+      ]);
+      expect(mock.requests[0].variables.query).toBe("product_id:1001");
+    });
+  });
+
+  describe("get-collections", () => {
+    it("distinguishes smart and manual collections", async () => {
+      const result = await runTool(getCollections, mock.client());
+
+      expect(
+        result.collections.map((c: any) => [c.title, c.collectionType])
+      ).toEqual([
+        ["Summer Collection", "manual"],
+        ["Hats", "smart"]
+      ]);
+      expect(result.collections[1].rules.rules).toHaveLength(1);
+      expect(result.collections[0].productCount).toBe(2);
+    });
+
+    it("reports GraphQL errors", async () => {
+      silenceConsoleErrors();
+      mock.enqueue({
+        body: {
+          errors: [{ message: "Field 'collections' doesn't exist on type 'QueryRoot'" }]
+        }
+      });
+
+      await expect(runTool(getCollections, mock.client())).rejects.toThrow(
+        /Failed to fetch collections: Field 'collections' doesn't exist/
+      );
+    });
+  });
+});
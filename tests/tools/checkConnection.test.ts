@@ -0,0 +1,124 @@
+import { checkConnection } from "../../src/tools/checkConnection";
+import { toolRegistry } from "../../src/tools/registry";
+import { hasScope } from "../../src/utils/accessScopes";
+import { ShopifyToolError } from "../../src/utils/errors";
+import { silenceConsoleErrors } from "../mock/runTool";
+import { startMockShopify, type MockShopify } from "../mock/server";
+
+describe("check-connection", () => {
+  let shopify: MockShopify;
+
+  beforeEach(async () => {
+    shopify = await startMockShopify();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await shopify.close();
+  });
+
+  const check = (input: Record<string, unknown> = {}) => {
+    checkConnection.initialize(shopify.client(), toolRegistry);
+    return checkConnection.execute(checkConnection.schema.parse(input));
+  };
+
+  it("reports the shop and every tool as ready", async () => {
+    const result = await check();
+
+    expect(result.shop).toEqual({
+      name: "Mock Outfitters",
+      myshopifyDomain: "mock-outfitters.myshopify.com",
+      currencyCode: "USD",
+      plan: "Basic"
+    });
+    expect(result.grantedScopes).toContain("write_products");
+    expect(result.blockedCount).toBe(0);
+    expect(result.readyCount).toBe(toolRegistry.length);
+    expect(result.tools).toContainEqual({
+      tool: "get-products",
+      ready: true,
+      requiredScopes: ["read_products"],
+      missingScopes: []
+    });
+  });
+
+  it("reports the scopes each blocked tool is missing", async () => {
+    shopify.data.accessScopes = ["read_products", "read_orders"];
+
+    const result = await check({ onlyBlocked: true });
+
+    expect(result.tools.map((tool: any) => tool.tool)).not.toContain(
+      "get-products"
+    );
+    expect(result.tools).toContainEqual({
+      tool: "create-product",
+      ready: false,
+      requiredScopes: ["write_products"],
+      missingScopes: ["write_products"]
+    });
+    expect(result.tools).toContainEqual(
+      expect.objectContaining({
+        tool: "get-inventory-levels",
+        missingScopes: ["read_inventory"]
+      })
+    );
+    // Order tools read the order's customer too
+    for (const tool of [
+      "get-orders",
+      "get-order-by-id",
+      "search-orders",
+      "get-customer-orders"
+    ]) {
+      expect(result.tools).toContainEqual(
+        expect.objectContaining({
+          tool,
+          requiredScopes: ["read_orders", "read_customers"],
+          missingScopes: ["read_customers"]
+        })
+      );
+    }
+    expect(result.tools.every((tool: any) => !tool.ready)).toBe(true);
+    expect(result.blockedCount).toBe(result.tools.length);
+  });
+
+  it("only checks the tools registered with it", async () => {
+    shopify.data.accessScopes = [];
+    checkConnection.initialize(shopify.client(), [checkConnection]);
+
+    const result = await checkConnection.execute({ onlyBlocked: false });
+
+    expect(result.tools).toEqual([
+      {
+        tool: "check-connection",
+        ready: true,
+        requiredScopes: [],
+        missingScopes: []
+      }
+    ]);
+  });
+
+  it("fails with an auth error when the token is rejected", async () => {
+    silenceConsoleErrors();
+    shopify.enqueue({
+      status: 401,
+      body: { errors: "[API] Invalid API key or access token" }
+    });
+
+    const error = await check().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ShopifyToolError);
+    expect((error as ShopifyToolError).category).toBe("auth");
+    expect((error as ShopifyToolError).message).toMatch(
+      /^Failed to check connection: .*Invalid API key/
+    );
+  });
+
+  it("treats a write scope as granting its read scope", () => {
+    expect(hasScope(["write_orders"], "read_orders")).toBe(true);
+    expect(hasScope(["read_orders"], "write_orders")).toBe(false);
+    expect(
+      hasScope(["unauthenticated_write_checkouts"], "unauthenticated_read_checkouts")
+    ).toBe(true);
+    expect(hasScope(["write_orders"], "read_products")).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+import { getCustomerOrders } from "../../src/tools/getCustomerOrders";
+import { getCustomers } from "../../src/tools/getCustomers";
+import { updateCustomer } from "../../src/tools/updateCustomer";
+import { configureAuditLog } from "../../src/utils/auditLog";
+import { runTool, silenceConsoleErrors } from "../mock/runTool";
+import { startMockShopify, type MockShopify } from "../mock/server";
+
+describe("customer tools", () => {
+  let mock: MockShopify;
+
+  beforeEach(async () => {
+    mock = await startMockShopify();
+    configureAuditLog(null);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await mock.close();
+  });
+
+  describe("get-customers", () => {
+    it("fits the query cost limit at its maximum limit", async () => {
+      const result = await runTool(getCustomers, mock.client(), { limit: 200 });
+
+      expect(result.customers.length).toBeGreaterThan(0);
+      await expect(
+        runTool(getCustomers, mock.client(), { limit: 201 })
+      ).rejects.toThrow("Number must be less than or equal to 200");
+    });
+
+    it("lists customers with addresses", async () => {
+      const result = await runTool(getCustomers, mock.client());
+
+      expect(result.customers.map((c: any) => c.email)).toEqual([
+        "ada@example.com",
+        "grace@example.com"
+      ]);
+      expect(result.customers[0].defaultAddress.city).toBe("London");
+    });
+
+    it("passes the search query through", async () => {
+      const result = await runTool(getCustomers, mock.client(), {
+        searchQuery: "tag:vip"
+      });
+
+      expect(result.customers.map((c: any) => c.lastName)).toEqual([
+        "Lovelace"
+      ]);
+    });
+  });
+
+  describe("get-customer-orders", () => {
+    it("fits the query cost limit at its maximum limit", async () => {
+      const result = await runTool(getCustomerOrders, mock.client(), {
+        customerId: "501",
+        limit: 30
+      });
+
+      expect(result.orders.length).toBeGreaterThan(0);
+      await expect(
+        runTool(getCustomerOrders, mock.client(), {
+          customerId: "501",
+          limit: 31
+        })
+      ).rejects.toThrow("Number must be less than or equal to 30");
+    });
+
+    it("returns only that customer's orders", async () => {
+      const result = await runTool(getCustomerOrders, mock.client(), {
+        customerId: "501"
+      });
+
+      expect(result.orders.map((o: any) => o.name)).toEqual(["#1001", "#1002"]);
+      expect(mock.requests[0].variables.query).toBe("customer_id:501");
+    });
+
+    it("accepts a GID or an email instead of the numeric ID", async () => {
+      const byGid = await runTool(getCustomerOrders, mock.client(), {
+        customerId: "gid://shopify/Customer/501"
+      });
+      const byEmail = await runTool(getCustomerOrders, mock.client(), {
+        customerId: "ada@example.com"
+      });
+
+      expect(byGid.orders.map((o: any) => o.name)).toEqual(["#1001", "#1002"]);
+      expect(byEmail.orders).toEqual(byGid.orders);
+      expect(mock.requests[2].variables.query).toBe("customer_id:501");
+    });
+  });
+
+  describe("update-customer", () => {
+    it("updates fields and upserts metafields", async () => {
+      const result = await runTool(updateCustomer, mock.client(), {
+        id: "502",
+        note: "Call before delivery",
+        metafields: [
+          { namespace: "loyalty", key: "tier", value: "silver", type: "single_line_text_field" }
+        ]
+      });
+
+      expect(result.customer.note).toBe("Call before delivery");
+      expect(result.customer.metafields).toEqual([
+        expect.objectContaining({ namespace: "loyalty", key: "tier", value: "silver" })
+      ]);
+    });
+
+    it("previews a dry run against the current customer", async () => {
+      const result = await runTool(updateCustomer, mock.client(), {
+        id: "501",
+        tags: ["vip", "wholesale"],
+        dryRun: true
+      });
+
+      expect(result.customer).toEqual({
+        id: "gid://shopify/Customer/501",
+        firstName: "Ada",
+        lastName: "Lovelace"
+      });
+      expect(result.changes).toEqual([
+        {
+          field: "tags",
+          before: ["vip"],
+          after: ["vip", "wholesale"],
+          added: ["wholesale"],
+          removed: []
+        }
+      ]);
+      expect(mock.data.customers[0].tags).toEqual(["vip"]);
+    });
+
+    it("surfaces userErrors", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(updateCustomer, mock.client(), {
+          id: "502",
+          email: "ada@example.com"
+        })
+      ).rejects.toThrow("email: Email has already been taken");
+    });
+
+    it("fails a dry run for an unknown customer", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(updateCustomer, mock.client(), {
+          id: "999",
+          note: "hi",
+          dryRun: true
+        })
+      ).rejects.toThrow("Customer with ID gid://shopify/Customer/999 not found");
+    });
+  });
+});
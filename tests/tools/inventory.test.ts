@@ -0,0 +1,874 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { adjustInventory } from "../../src/tools/adjustInventory";
+import { diffInventorySnapshot } from "../../src/tools/diffInventorySnapshot";
+import { getInventoryValuation } from "../../src/tools/getInventoryValuation";
+import { getLowStockReport } from "../../src/tools/getLowStockReport";
+import { moveInventory } from "../../src/tools/moveInventory";
+import { saveInventorySnapshot } from "../../src/tools/saveInventorySnapshot";
+import { setInventory } from "../../src/tools/setInventory";
+import { suggestReorders } from "../../src/tools/suggestReorders";
+import { configureAuditLog } from "../../src/utils/auditLog";
+import { configureInventorySnapshots } from "../../src/utils/inventorySnapshots";
+import { runTool, silenceConsoleErrors } from "../mock/runTool";
+import { startMockShopify, type MockShopify } from "../mock/server";
+
+describe("inventory tools", () => {
+  let mock: MockShopify;
+
+  beforeEach(async () => {
+    mock = await startMockShopify();
+    configureAuditLog(null);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await mock.close();
+  });
+
+  const reference = {
+    reason: "correction",
+    referenceDocumentUri: "logistics://warehouse/count/2024-01-31"
+  };
+
+  // Quantities of an item at a location in the mock store
+  const quantitiesOf = (inventoryItemId: string, locationId: string) =>
+    mock.data.inventoryItems
+      .find((item) => item.id === inventoryItemId)!
+      .levels.find((level) => level.locationId === locationId)!.quantities;
+
+  // Stock an item at this many more locations, more than one page of levels
+  const stockAtNewLocations = (
+    sku: string,
+    count: number,
+    quantities: Record<string, number>
+  ) => {
+    const item = mock.data.inventoryItems.find((i) => i.sku === sku)!;
+    for (let n = 1; n <= count; n++) {
+      const locationId = `gid://shopify/Location/${100 + n}`;
+      mock.data.locations.push({
+        ...mock.data.locations[0],
+        id: locationId,
+        name: `Pop-up ${n}`
+      });
+      item.levels.push({
+        id: `gid://shopify/InventoryLevel/${sku}-${100 + n}`,
+        locationId,
+        quantities: { ...quantities }
+      });
+    }
+  };
+
+  describe("adjust-inventory", () => {
+    it("adjusts available stock by SKU and returns before and after", async () => {
+      const result = await runTool(adjustInventory, mock.client(), {
+        ...reference,
+        changes: [{ inventoryItemId: "TEE-S", locationId: "1", delta: -3 }]
+      });
+
+      expect(result).toEqual({
+        reason: "correction",
+        referenceDocumentUri: "logistics://warehouse/count/2024-01-31",
+        createdAt: expect.any(String),
+        changes: [
+          {
+            inventoryItemId: "gid://shopify/InventoryItem/3001",
+            sku: "TEE-S",
+            locationId: "gid://shopify/Location/1",
+            locationName: "Main Warehouse",
+            name: "available",
+            before: 10,
+            after: 7,
+            delta: -3
+          },
+          expect.objectContaining({ name: "on_hand", before: 12, after: 9 })
+        ],
+        changeCount: 2
+      });
+      expect(
+        quantitiesOf("gid://shopify/InventoryItem/3001", "gid://shopify/Location/1")
+      ).toEqual(expect.objectContaining({ available: 7, on_hand: 9 }));
+    });
+
+    it("passes the reference document as ledger document for on_hand", async () => {
+      await runTool(adjustInventory, mock.client(), {
+        ...reference,
+        name: "on_hand",
+        changes: [
+          {
+            inventoryItemId: "gid://shopify/InventoryItem/3002",
+            locationId: "gid://shopify/Location/1",
+            delta: 2
+          }
+        ]
+      });
+
+      const mutation = mock.requests.find((request) =>
+        request.query.includes("inventoryAdjustQuantities(")
+      )!;
+      expect(mutation.variables.input).toEqual(
+        expect.objectContaining({
+          name: "on_hand",
+          changes: [
+            expect.objectContaining({
+              ledgerDocumentUri: "logistics://warehouse/count/2024-01-31"
+            })
+          ]
+        })
+      );
+      expect(
+        quantitiesOf("gid://shopify/InventoryItem/3002", "gid://shopify/Location/1")
+      ).toEqual(expect.objectContaining({ available: 5, on_hand: 6 }));
+    });
+
+    it("previews a dry run without changing stock", async () => {
+      const result = await runTool(adjustInventory, mock.client(), {
+        ...reference,
+        changes: [{ inventoryItemId: "TOTE-1", locationId: "1", delta: 5 }],
+        dryRun: true
+      });
+
+      expect(result.dryRun).toBe(true);
+      expect(result.changes).toEqual([
+        expect.objectContaining({ name: "available", before: 0, after: 5 }),
+        expect.objectContaining({ name: "on_hand", before: 0, after: 5 })
+      ]);
+      expect(
+        mock.requests.some((request) =>
+          request.query.includes("inventoryAdjustQuantities(")
+        )
+      ).toBe(false);
+    });
+
+    it("reports an item that is not stocked at the location", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(adjustInventory, mock.client(), {
+          ...reference,
+          changes: [{ inventoryItemId: "TEE-L", locationId: "2", delta: 1 }]
+        })
+      ).rejects.toThrow(
+        "Inventory item TEE-L is not stocked at location gid://shopify/Location/2"
+      );
+    });
+
+    it("requires a reason and a reference document", () => {
+      expect(
+        adjustInventory.schema.safeParse({
+          changes: [{ inventoryItemId: "TEE-S", locationId: "1", delta: 1 }]
+        }).success
+      ).toBe(false);
+      expect(
+        adjustInventory.schema.safeParse({
+          reason: "correction",
+          referenceDocumentUri: "count 42",
+          changes: [{ inventoryItemId: "TEE-S", locationId: "1", delta: 1 }]
+        }).success
+      ).toBe(false);
+    });
+  });
+
+  describe("set-inventory", () => {
+    it("sets counted quantities, skipping unchanged ones", async () => {
+      const result = await runTool(setInventory, mock.client(), {
+        reason: "cycle_count_available",
+        referenceDocumentUri: "logistics://warehouse/count/2024-01-31",
+        quantities: [
+          { inventoryItemId: "TEE-S", locationId: "2", quantity: 5 },
+          { inventoryItemId: "TEE-L", locationId: "1", quantity: 3 }
+        ]
+      });
+
+      expect(result.changes).toEqual([
+        expect.objectContaining({
+          sku: "TEE-S",
+          locationName: "Downtown Store",
+          name: "available",
+          before: 2,
+          after: 5,
+          delta: 3
+        }),
+        expect.objectContaining({ sku: "TEE-S", name: "on_hand", after: 5 })
+      ]);
+
+      const mutation = mock.requests.find((request) =>
+        request.query.includes("inventorySetQuantities(")
+      )!;
+      expect((mutation.variables.input as any).quantities).toEqual([
+        {
+          inventoryItemId: "gid://shopify/InventoryItem/3001",
+          locationId: "gid://shopify/Location/2",
+          quantity: 5,
+          compareQuantity: 2
+        }
+      ]);
+    });
+
+    it("does nothing when every quantity is already right", async () => {
+      const result = await runTool(setInventory, mock.client(), {
+        ...reference,
+        quantities: [{ inventoryItemId: "TEE-L", locationId: "1", quantity: 3 }]
+      });
+
+      expect(result.changes).toEqual([]);
+      expect(
+        mock.requests.some((request) =>
+          request.query.includes("inventorySetQuantities(")
+        )
+      ).toBe(false);
+    });
+
+    it("fails when the quantity changed since it was read", async () => {
+      silenceConsoleErrors();
+      // Another change lands between the read and the mutation
+      const client = mock.client();
+      const request = client.request.bind(client);
+      jest
+        .spyOn(client, "request")
+        .mockImplementation(async (document: any, variables?: any) => {
+          if (String(document).includes("inventorySetQuantities(")) {
+            quantitiesOf(
+              "gid://shopify/InventoryItem/3001",
+              "gid://shopify/Location/1"
+            ).available = 9;
+          }
+          return request(document, variables);
+        });
+
+      await expect(
+        runTool(setInventory, client, {
+          ...reference,
+          quantities: [{ inventoryItemId: "TEE-S", locationId: "1", quantity: 4 }]
+        })
+      ).rejects.toThrow(
+        "compareQuantity: The compareQuantity argument no longer matches the persisted quantity."
+      );
+    });
+  });
+
+  describe("move-inventory", () => {
+    it("moves stock between quantities at a location", async () => {
+      const result = await runTool(moveInventory, mock.client(), {
+        reason: "damaged",
+        referenceDocumentUri: "logistics://warehouse/damage/17",
+        changes: [
+          {
+            inventoryItemId: "TEE-S",
+            locationId: "1",
+            quantity: 2,
+            from: "available",
+            to: "damaged"
+          }
+        ]
+      });
+
+      expect(result.changes).toEqual([
+        expect.objectContaining({
+          name: "available",
+          before: 10,
+          after: 8,
+          delta: -2
+        }),
+        expect.objectContaining({ name: "damaged", before: 0, after: 2, delta: 2 })
+      ]);
+      expect(
+        quantitiesOf("gid://shopify/InventoryItem/3001", "gid://shopify/Location/1")
+      ).toEqual(
+        expect.objectContaining({ available: 8, damaged: 2, on_hand: 12 })
+      );
+
+      const mutation = mock.requests.find((request) =>
+        request.query.includes("inventoryMoveQuantities(")
+      )!;
+      expect((mutation.variables.input as any).changes[0]).toEqual({
+        inventoryItemId: "gid://shopify/InventoryItem/3001",
+        quantity: 2,
+        from: { locationId: "gid://shopify/Location/1", name: "available" },
+        to: {
+          locationId: "gid://shopify/Location/1",
+          name: "damaged",
+          ledgerDocumentUri: "logistics://warehouse/damage/17"
+        }
+      });
+    });
+
+    it("rejects moving to the same quantity", () => {
+      expect(
+        moveInventory.schema.safeParse({
+          ...reference,
+          changes: [
+            {
+              inventoryItemId: "TEE-S",
+              locationId: "1",
+              quantity: 1,
+              from: "available",
+              to: "available"
+            }
+          ]
+        }).success
+      ).toBe(false);
+    });
+  });
+
+  describe("get-low-stock-report", () => {
+    const summary = (items: any[]) =>
+      items.map((item) => [item.sku, item.locationName, item.status]);
+
+    it("reports tracked stock at or below the threshold, worst first", async () => {
+      const result = await runTool(getLowStockReport, mock.client());
+
+      expect(summary(result.items)).toEqual([
+        ["TOTE-1", "Main Warehouse", "out_of_stock"],
+        ["TEE-S", "Downtown Store", "low_stock"],
+        ["TEE-L", "Main Warehouse", "low_stock"]
+      ]);
+      expect(result.items[0]).toEqual({
+        inventoryItemId: "gid://shopify/InventoryItem/3003",
+        sku: "TOTE-1",
+        productId: "gid://shopify/Product/1002",
+        productTitle: "Canvas Tote",
+        variantId: "gid://shopify/ProductVariant/2003",
+        variantTitle: "Default Title",
+        locationId: "gid://shopify/Location/1",
+        locationName: "Main Warehouse",
+        available: 0,
+        incoming: 50,
+        onHand: 0,
+        threshold: 5,
+        thresholdSource: "default",
+        shortfall: 5,
+        status: "out_of_stock"
+      });
+      expect(result).toEqual(
+        expect.objectContaining({
+          itemCount: 3,
+          outOfStockCount: 1,
+          lowStockCount: 2,
+          scannedItemCount: 4,
+          complete: true
+        })
+      );
+    });
+
+    it("applies location and variant metafield thresholds", async () => {
+      const result = await runTool(getLowStockReport, mock.client(), {
+        locationThresholds: [{ locationId: "1", threshold: 12 }],
+        thresholdMetafield: { namespace: "inventory", key: "low_stock_threshold" }
+      });
+
+      expect(
+        result.items.map((item: any) => [
+          item.sku,
+          item.locationName,
+          item.threshold,
+          item.thresholdSource
+        ])
+      ).toEqual([
+        ["TOTE-1", "Main Warehouse", 12, "location"],
+        ["TEE-S", "Downtown Store", 5, "default"],
+        ["TEE-S", "Main Warehouse", 12, "location"]
+      ]);
+    });
+
+    it("limits the report to locations and a number of entries", async () => {
+      const atStore = await runTool(getLowStockReport, mock.client(), {
+        locationIds: ["gid://shopify/Location/2"]
+      });
+      expect(summary(atStore.items)).toEqual([
+        ["TEE-S", "Downtown Store", "low_stock"]
+      ]);
+
+      const worst = await runTool(getLowStockReport, mock.client(), {
+        limit: 1
+      });
+      expect(summary(worst.items)).toEqual([
+        ["TOTE-1", "Main Warehouse", "out_of_stock"]
+      ]);
+      expect(worst.lowStockCount).toBe(2);
+    });
+
+    it("reads every level of items stocked at many locations", async () => {
+      stockAtNewLocations("TOTE-1", 30, { available: 0, on_hand: 0 });
+
+      const result = await runTool(getLowStockReport, mock.client(), {
+        limit: 250
+      });
+
+      expect(
+        result.items.filter((item: any) => item.sku === "TOTE-1")
+      ).toHaveLength(31);
+      expect(
+        mock.requests.filter((request) =>
+          request.query.includes("GetMoreInventoryLevels")
+        )
+      ).toHaveLength(1);
+    });
+  });
+
+  describe("suggest-reorders", () => {
+    it("suggests quantities for variants at or below their reorder point", async () => {
+      const result = await runTool(suggestReorders, mock.client(), {
+        salesWindowDays: 2
+      });
+
+      expect(result.query).toBe(
+        "FROM sales SHOW units_sold SINCE -2d GROUP BY product_variant_sku ORDER BY units_sold DESC LIMIT 1000"
+      );
+      expect(result.variants).toEqual([
+        {
+          inventoryItemId: "gid://shopify/InventoryItem/3002",
+          sku: "TEE-L",
+          productId: "gid://shopify/Product/1001",
+          productTitle: "Classic Tee",
+          variantId: "gid://shopify/ProductVariant/2002",
+          variantTitle: "Large",
+          unitsSold: 2,
+          dailySales: 1,
+          onHand: 4,
+          available: 3,
+          committed: 1,
+          incoming: 0,
+          stockPosition: 3,
+          daysOfCover: 3,
+          reorderPoint: 21,
+          needsReorder: true,
+          // 1 a day for 14 days lead time, 30 days cover and 7 days safety
+          // stock, less the 3 in stock
+          suggestedQuantity: 48
+        }
+      ]);
+      expect(result).toEqual(
+        expect.objectContaining({
+          variantCount: 1,
+          reorderCount: 1,
+          salesComplete: true,
+          scannedItemCount: 4,
+          complete: true
+        })
+      );
+    });
+
+    it("lists every selling variant by days of cover when asked", async () => {
+      const result = await runTool(suggestReorders, mock.client(), {
+        salesWindowDays: 2,
+        leadTimeDays: 60,
+        onlyNeedingReorder: false
+      });
+
+      expect(
+        result.variants.map((variant: any) => [
+          variant.sku,
+          variant.daysOfCover,
+          variant.suggestedQuantity
+        ])
+      ).toEqual([
+        ["TEE-L", 3, 94],
+        ["TOTE-1", 50, 47],
+        ["TEE-S", 64, 17]
+      ]);
+    });
+
+    it("reports sales cut off by the ShopifyQL row limit", async () => {
+      const sales = mock.data.shopifyqlTables.sales;
+      for (let n = 0; n < 1000; n++) {
+        sales.rows.push({
+          ...sales.rows[0],
+          product_variant_sku: `OTHER-${n}`,
+          units_sold: 5
+        });
+      }
+
+      const result = await runTool(suggestReorders, mock.client());
+
+      expect(result.salesComplete).toBe(false);
+    });
+
+    it("rejects a sales result without a units column", async () => {
+      silenceConsoleErrors();
+      mock.enqueue({
+        body: {
+          data: {
+            shopifyqlQuery: {
+              tableData: {
+                columns: [
+                  {
+                    name: "product_variant_sku",
+                    dataType: "STRING",
+                    displayName: "Product variant SKU"
+                  }
+                ],
+                rows: [["TEE-S"]]
+              },
+              parseErrors: []
+            }
+          }
+        }
+      });
+
+      await expect(runTool(suggestReorders, mock.client())).rejects.toThrow(
+        "ShopifyQL sales result has no units_sold column"
+      );
+    });
+
+    it("explains ShopifyQL parse errors", async () => {
+      silenceConsoleErrors();
+      mock.enqueue({
+        body: {
+          data: {
+            shopifyqlQuery: {
+              tableData: null,
+              parseErrors: ["Unknown column units_sold"]
+            }
+          }
+        }
+      });
+
+      await expect(
+        runTool(suggestReorders, mock.client())
+      ).rejects.toMatchObject({
+        category: "validation",
+        hint: "Fix the ShopifyQL syntax, table or column names and run the query again."
+      });
+    });
+
+    it("counts stock at every location", async () => {
+      stockAtNewLocations("TEE-L", 30, { available: 1, on_hand: 1 });
+
+      const result = await runTool(suggestReorders, mock.client(), {
+        salesWindowDays: 2,
+        onlyNeedingReorder: false
+      });
+
+      const teeL = result.variants.find(
+        (variant: any) => variant.sku === "TEE-L"
+      );
+      expect(teeL).toEqual(
+        expect.objectContaining({
+          onHand: 34,
+          stockPosition: 33,
+          needsReorder: false
+        })
+      );
+    });
+
+    it("does not count damaged or reserved units as stock", async () => {
+      stockAtNewLocations("TEE-L", 1, {
+        available: 0,
+        damaged: 20,
+        reserved: 10,
+        on_hand: 30
+      });
+
+      const result = await runTool(suggestReorders, mock.client(), {
+        salesWindowDays: 2
+      });
+
+      expect(result.variants).toEqual([
+        expect.objectContaining({
+          sku: "TEE-L",
+          onHand: 34,
+          available: 3,
+          stockPosition: 3,
+          needsReorder: true,
+          suggestedQuantity: 48
+        })
+      ]);
+    });
+  });
+
+  describe("get-inventory-valuation", () => {
+    it("values on-hand stock at unit cost by location, vendor and type", async () => {
+      const result = await runTool(getInventoryValuation, mock.client());
+
+      // TEE-S 14 x 6.50 and TEE-L 4 x 7.00; TOTE-1 has none on hand and
+      // BEANIE-1 is not tracked
+      expect(result).toEqual({
+        currencyCode: "USD",
+        totalUnits: 18,
+        totalValue: "119.00",
+        byLocation: [
+          {
+            locationId: "gid://shopify/Location/1",
+            locationName: "Main Warehouse",
+            units: 16,
+            value: "106.00"
+          },
+          {
+            locationId: "gid://shopify/Location/2",
+            locationName: "Downtown Store",
+            units: 2,
+            value: "13.00"
+          }
+        ],
+        byVendor: [{ vendor: "Acme Apparel", units: 18, value: "119.00" }],
+        byProductType: [{ productType: "Shirts", units: 18, value: "119.00" }],
+        withoutUnitCost: { itemCount: 0, units: 0 },
+        scannedItemCount: 4,
+        complete: true
+      });
+    });
+
+    it("counts stock without a unit cost separately", async () => {
+      const beanie = mock.data.inventoryItems.find(
+        (item) => item.sku === "BEANIE-1"
+      )!;
+      beanie.tracked = true;
+
+      const result = await runTool(getInventoryValuation, mock.client());
+
+      expect(result.totalValue).toBe("119.00");
+      expect(result.withoutUnitCost).toEqual({ itemCount: 1, units: 40 });
+    });
+
+    it("multiplies sub-cent unit costs out before rounding", async () => {
+      const teeS = mock.data.inventoryItems.find(
+        (item) => item.sku === "TEE-S"
+      )!;
+      teeS.unitCost = { amount: "0.005", currencyCode: "USD" };
+      quantitiesOf(teeS.id, "gid://shopify/Location/1").on_hand = 1000;
+
+      const result = await runTool(getInventoryValuation, mock.client(), {
+        includeItems: true
+      });
+
+      // 1002 TEE-S at 0.005 and 4 TEE-L at 7.00
+      expect(result.totalValue).toBe("33.01");
+      expect(result.items[0]).toEqual(
+        expect.objectContaining({ sku: "TEE-S", units: 1002, value: "5.01" })
+      );
+    });
+
+    it("refuses to total unit costs in different currencies", async () => {
+      silenceConsoleErrors();
+      const teeL = mock.data.inventoryItems.find(
+        (item) => item.sku === "TEE-L"
+      )!;
+      teeL.unitCost = { amount: "6.00", currencyCode: "EUR" };
+
+      await expect(
+        runTool(getInventoryValuation, mock.client())
+      ).rejects.toThrow("mixed currencies cannot be totalled");
+    });
+
+    it("values stock at every location", async () => {
+      stockAtNewLocations("TEE-L", 30, { on_hand: 1 });
+
+      const result = await runTool(getInventoryValuation, mock.client());
+
+      // 30 more TEE-L at 7.00
+      expect(result.totalValue).toBe("329.00");
+      expect(result.byLocation).toHaveLength(32);
+    });
+
+    it("values selected locations with a line per item", async () => {
+      const result = await runTool(getInventoryValuation, mock.client(), {
+        locationIds: ["1"],
+        includeItems: true
+      });
+
+      expect(result.totalValue).toBe("106.00");
+      expect(result.byLocation).toHaveLength(1);
+      expect(result.items).toEqual([
+        {
+          inventoryItemId: "gid://shopify/InventoryItem/3001",
+          sku: "TEE-S",
+          productTitle: "Classic Tee",
+          variantTitle: expect.any(String),
+          unitCost: "6.50",
+          units: 12,
+          value: "78.00"
+        },
+        {
+          inventoryItemId: "gid://shopify/InventoryItem/3002",
+          sku: "TEE-L",
+          productTitle: "Classic Tee",
+          variantTitle: expect.any(String),
+          unitCost: "7.00",
+          units: 4,
+          value: "28.00"
+        }
+      ]);
+    });
+  });
+
+  describe("inventory snapshots", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "shopify-mcp-snapshots-"));
+      configureInventorySnapshots(dir);
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("saves every tracked level to a named file", async () => {
+      const result = await runTool(saveInventorySnapshot, mock.client(), {
+        name: "2024-01-31"
+      });
+
+      expect(result).toEqual({
+        name: "2024-01-31",
+        path: path.join(dir, "2024-01-31.json"),
+        takenAt: expect.any(String),
+        store: null,
+        // BEANIE-1 is not tracked
+        itemCount: 3,
+        levelCount: 4,
+        scannedItemCount: 4,
+        complete: true
+      });
+      const saved = JSON.parse(fs.readFileSync(result.path, "utf8"));
+      expect(saved.levels[0]).toEqual({
+        inventoryItemId: "gid://shopify/InventoryItem/3001",
+        sku: "TEE-S",
+        productTitle: "Classic Tee",
+        variantTitle: expect.any(String),
+        locationId: "gid://shopify/Location/1",
+        locationName: "Main Warehouse",
+        quantities: expect.objectContaining({
+          available: 10,
+          committed: 2,
+          incoming: 20,
+          on_hand: 12
+        })
+      });
+    });
+
+    it("saves levels past the first page of locations", async () => {
+      stockAtNewLocations("TEE-L", 30, { on_hand: 1 });
+
+      const result = await runTool(saveInventorySnapshot, mock.client(), {
+        name: "many-locations"
+      });
+
+      expect(result.levelCount).toBe(34);
+    });
+
+    it("does not replace a snapshot unless asked to", async () => {
+      silenceConsoleErrors();
+      await runTool(saveInventorySnapshot, mock.client(), { name: "daily" });
+
+      const requestCount = mock.requests.length;
+      await expect(
+        runTool(saveInventorySnapshot, mock.client(), { name: "daily" })
+      ).rejects.toThrow('Inventory snapshot "daily" already exists');
+      // Refused before walking the catalog
+      expect(mock.requests).toHaveLength(requestCount);
+      await expect(
+        runTool(saveInventorySnapshot, mock.client(), {
+          name: "daily",
+          overwrite: true
+        })
+      ).resolves.toEqual(expect.objectContaining({ name: "daily" }));
+    });
+
+    it("rejects names that are not plain file names", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(saveInventorySnapshot, mock.client(), { name: "../daily" })
+      ).rejects.toThrow('Invalid inventory snapshot name "../daily"');
+    });
+
+    it("reports shrinkage, restocks and new and removed levels", async () => {
+      await runTool(saveInventorySnapshot, mock.client(), { name: "before" });
+
+      quantitiesOf(
+        "gid://shopify/InventoryItem/3001",
+        "gid://shopify/Location/1"
+      ).on_hand = 9;
+      quantitiesOf(
+        "gid://shopify/InventoryItem/3003",
+        "gid://shopify/Location/1"
+      ).on_hand = 50;
+      const teeS = mock.data.inventoryItems.find(
+        (item) => item.sku === "TEE-S"
+      )!;
+      teeS.levels = teeS.levels.filter(
+        (level) => level.locationId !== "gid://shopify/Location/2"
+      );
+      const teeL = mock.data.inventoryItems.find(
+        (item) => item.sku === "TEE-L"
+      )!;
+      teeL.levels.push({
+        id: "gid://shopify/InventoryLevel/3002-2",
+        locationId: "gid://shopify/Location/2",
+        quantities: { available: 5, on_hand: 5 }
+      });
+
+      const result = await runTool(diffInventorySnapshot, mock.client(), {
+        name: "before"
+      });
+
+      expect(
+        result.changes.map((change: any) => [
+          change.sku,
+          change.locationName,
+          change.change,
+          change.before,
+          change.after,
+          change.delta
+        ])
+      ).toEqual([
+        ["TOTE-1", "Main Warehouse", "restock", 0, 50, 50],
+        ["TEE-L", "Downtown Store", "new", null, 5, 5],
+        ["TEE-S", "Main Warehouse", "shrinkage", 12, 9, -3],
+        ["TEE-S", "Downtown Store", "removed", 2, null, -2]
+      ]);
+      expect(result).toEqual(
+        expect.objectContaining({
+          snapshot: {
+            name: "before",
+            takenAt: expect.any(String),
+            store: null
+          },
+          quantity: "on_hand",
+          changeCount: 4,
+          summary: {
+            shrinkage: { levels: 1, units: 3 },
+            restock: { levels: 1, units: 50 },
+            new: { levels: 1, units: 5 },
+            removed: { levels: 1, units: 2 }
+          },
+          unchangedCount: 1,
+          complete: true
+        })
+      );
+    });
+
+    it("compares the chosen quantity", async () => {
+      await runTool(saveInventorySnapshot, mock.client(), { name: "before" });
+      await runTool(adjustInventory, mock.client(), {
+        ...reference,
+        changes: [{ inventoryItemId: "TEE-L", locationId: "1", delta: -1 }]
+      });
+
+      const result = await runTool(diffInventorySnapshot, mock.client(), {
+        name: "before",
+        quantity: "available"
+      });
+
+      expect(result.changes).toEqual([
+        expect.objectContaining({
+          sku: "TEE-L",
+          change: "shrinkage",
+          before: 3,
+          after: 2,
+          delta: -1
+        })
+      ]);
+    });
+
+    it("reports a snapshot that was never saved", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(diffInventorySnapshot, mock.client(), { name: "missing" })
+      ).rejects.toThrow('Inventory snapshot "missing" not found');
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { addProductMedia } from "../../src/tools/addProductMedia";
+import { deleteProductMedia } from "../../src/tools/deleteProductMedia";
+import { getProductById } from "../../src/tools/getProductById";
+import { reorderProductMedia } from "../../src/tools/reorderProductMedia";
+import { updateProductMedia } from "../../src/tools/updateProductMedia";
+import { configureAuditLog } from "../../src/utils/auditLog";
+import { runTool, silenceConsoleErrors } from "../mock/runTool";
+import { startMockShopify, type MockShopify } from "../mock/server";
+
+describe("product media tools", () => {
+  let mock: MockShopify;
+  let dir: string;
+
+  beforeEach(async () => {
+    mock = await startMockShopify();
+    configureAuditLog(null);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "shopify-media-"));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await mock.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const mediaIds = () => mock.data.products[0].media.map((media) => media.id);
+
+  describe("add-product-media", () => {
+    it("attaches media from URLs, detecting the media type", async () => {
+      const result = await runTool(addProductMedia, mock.client(), {
+        productId: "classic-tee",
+        media: [
+          { url: "https://cdn.example.com/tee-side.png", alt: "Side view" },
+          { url: "https://www.youtube.com/watch?v=abc123" }
+        ]
+      });
+
+      expect(result.media).toEqual([
+        expect.objectContaining({
+          alt: "Side view",
+          mediaContentType: "IMAGE",
+          status: "UPLOADED",
+          previewUrl: null
+        }),
+        expect.objectContaining({ mediaContentType: "EXTERNAL_VIDEO" })
+      ]);
+      expect(mediaIds()).toHaveLength(4);
+    });
+
+    it("uploads local files through a staged upload", async () => {
+      const filePath = path.join(dir, "tee-detail.png");
+      fs.writeFileSync(filePath, "fake png bytes");
+
+      const result = await runTool(addProductMedia, mock.client(), {
+        productId: "1001",
+        media: [{ filePath, alt: "Stitching detail" }]
+      });
+
+      const [upload] = [...mock.uploads.values()];
+      expect(upload).toContain('name="key"');
+      expect(upload).toContain('filename="tee-detail.png"');
+      expect(upload).toContain("fake png bytes");
+      expect(result.media[0]).toMatchObject({
+        alt: "Stitching detail",
+        mediaContentType: "IMAGE"
+      });
+      expect(mock.data.products[0].media[2].url).toMatch(
+        /^https:\/\/shopify-staged-uploads\.storage\.googleapis\.com\/tmp\/\d+\/tee-detail\.png$/
+      );
+    });
+
+    it("fails before staging anything when a file is missing", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(addProductMedia, mock.client(), {
+          productId: "1001",
+          media: [{ filePath: path.join(dir, "missing.jpg") }]
+        })
+      ).rejects.toThrow("File not found");
+      expect(mock.uploads.size).toBe(0);
+      expect(mediaIds()).toHaveLength(2);
+    });
+
+    it("needs exactly one of url and filePath", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(addProductMedia, mock.client(), {
+          productId: "1001",
+          media: [{ alt: "Nothing to attach" }]
+        })
+      ).rejects.toThrow("Each media item needs exactly one of url or filePath");
+      await expect(
+        runTool(addProductMedia, mock.client(), {
+          productId: "1001",
+          media: [{ filePath: path.join(dir, "notes.txt") }]
+        })
+      ).rejects.toThrow("Unsupported media file type");
+    });
+
+    it("previews a dry run without uploading", async () => {
+      const result = await runTool(addProductMedia, mock.client(), {
+        productId: "1001",
+        media: [{ filePath: "/photos/tee.mov" }],
+        dryRun: true
+      });
+
+      expect(result.changes).toEqual([
+        {
+          field: "media.2",
+          before: null,
+          after: { source: "/photos/tee.mov", alt: null, mediaContentType: "VIDEO" }
+        }
+      ]);
+      expect(mock.uploads.size).toBe(0);
+    });
+
+    it("surfaces mediaUserErrors", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(addProductMedia, mock.client(), {
+          productId: "1001",
+          media: [{ url: "ftp://cdn.example.com/tee.jpg" }]
+        })
+      ).rejects.toThrow("media.0.originalSource: Media URL is invalid");
+    });
+  });
+
+  describe("update-product-media", () => {
+    it("sets alt text by numeric media ID", async () => {
+      const result = await runTool(updateProductMedia, mock.client(), {
+        productId: "1001",
+        media: [{ id: "7002", alt: "Classic Tee back" }]
+      });
+
+      expect(result.media).toEqual([
+        expect.objectContaining({
+          id: "gid://shopify/MediaImage/7002",
+          alt: "Classic Tee back"
+        })
+      ]);
+    });
+
+    it("rejects media of another product", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(updateProductMedia, mock.client(), {
+          productId: "1002",
+          media: [{ id: "gid://shopify/MediaImage/7001", alt: "x" }]
+        })
+      ).rejects.toThrow(
+        "Media gid://shopify/MediaImage/7001 is not attached to product gid://shopify/Product/1002"
+      );
+    });
+  });
+
+  describe("reorder-product-media", () => {
+    it("moves the listed media to the front", async () => {
+      const result = await runTool(reorderProductMedia, mock.client(), {
+        productId: "1001",
+        mediaIds: ["7002"]
+      });
+
+      expect(result.mediaIds).toEqual([
+        "gid://shopify/MediaImage/7002",
+        "gid://shopify/MediaImage/7001"
+      ]);
+      expect(result.job).toEqual({ id: expect.any(String), done: false });
+
+      const { product } = await runTool(getProductById, mock.client(), {
+        productId: "1001"
+      });
+      expect(product.images[0].url).toBe(
+        "https://cdn.example.com/classic-tee-back.jpg"
+      );
+    });
+
+    it("sends nothing when the order is unchanged", async () => {
+      const result = await runTool(reorderProductMedia, mock.client(), {
+        productId: "1001",
+        mediaIds: ["7001", "7002"]
+      });
+
+      expect(result.job).toBeNull();
+      expect(mock.requests.map((request) => request.query)).not.toContainEqual(
+        expect.stringContaining("productReorderMedia")
+      );
+    });
+  });
+
+  describe("delete-product-media", () => {
+    it("removes media", async () => {
+      const result = await runTool(deleteProductMedia, mock.client(), {
+        productId: "1001",
+        mediaIds: ["gid://shopify/MediaImage/7001"],
+        confirm: true
+      });
+
+      expect(result.deletedMediaIds).toEqual(["gid://shopify/MediaImage/7001"]);
+      expect(mediaIds()).toEqual(["gid://shopify/MediaImage/7002"]);
+    });
+
+    it("refuses to remove media without confirm", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(deleteProductMedia, mock.client(), {
+          productId: "1001",
+          mediaIds: ["7001"]
+        })
+      ).rejects.toThrow(
+        "Refusing to delete product media without confirm: true"
+      );
+      expect(mediaIds()).toHaveLength(2);
+      expect(mock.requests).toHaveLength(0);
+    });
+
+    it("lists what a dry run would remove", async () => {
+      const result = await runTool(deleteProductMedia, mock.client(), {
+        productId: "1001",
+        mediaIds: ["7001"],
+        dryRun: true
+      });
+
+      expect(result.changes).toEqual([
+        {
+          field: "media.gid://shopify/MediaImage/7001",
+          before: expect.objectContaining({ alt: "Classic Tee front" }),
+          after: null
+        }
+      ]);
+      expect(mediaIds()).toHaveLength(2);
+    });
+  });
+});
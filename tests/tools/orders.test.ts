@@ -0,0 +1,143 @@
+import { getOrderById } from "../../src/tools/getOrderById";
+import { getOrders } from "../../src/tools/getOrders";
+import { searchOrders } from "../../src/tools/searchOrders";
+import { updateOrder } from "../../src/tools/updateOrder";
+import { configureAuditLog } from "../../src/utils/auditLog";
+import { runTool, silenceConsoleErrors } from "../mock/runTool";
+import { startMockShopify, type MockShopify } from "../mock/server";
+
+describe("order tools", () => {
+  let mock: MockShopify;
+
+  beforeEach(async () => {
+    mock = await startMockShopify();
+    configureAuditLog(null);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await mock.close();
+  });
+
+  describe("get-orders", () => {
+    it("fits the query cost limit at its maximum limit", async () => {
+      const result = await runTool(getOrders, mock.client(), { limit: 30 });
+
+      expect(result.orders.length).toBeGreaterThan(0);
+      await expect(
+        runTool(getOrders, mock.client(), { limit: 31 })
+      ).rejects.toThrow("Number must be less than or equal to 30");
+    });
+
+    it("lists orders with line items and customers", async () => {
+      const result = await runTool(getOrders, mock.client());
+
+      expect(result.orders).toHaveLength(3);
+      expect(result.orders[0]).toMatchObject({
+        name: "#1001",
+        financialStatus: "PAID",
+        totalPrice: { amount: "46.97", currencyCode: "USD" },
+        customer: { firstName: "Ada" }
+      });
+      expect(result.orders[0].lineItems[1].variant.sku).toBe("TEE-L");
+    });
+
+    it("filters by status", async () => {
+      const result = await runTool(getOrders, mock.client(), {
+        status: "cancelled"
+      });
+
+      expect(result.orders.map((o: any) => o.name)).toEqual(["#1003"]);
+    });
+  });
+
+  describe("get-order-by-id", () => {
+    it("returns the order with metafields", async () => {
+      const result = await runTool(getOrderById, mock.client(), {
+        orderId: "gid://shopify/Order/9002"
+      });
+
+      expect(result.order.note).toBe("Gift wrap please");
+      expect(result.order.metafields).toEqual([
+        expect.objectContaining({ namespace: "custom", key: "gift", value: "true" })
+      ]);
+    });
+
+    it("fails for an unknown order", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(getOrderById, mock.client(), {
+          orderId: "gid://shopify/Order/1"
+        })
+      ).rejects.toThrow("Order with ID gid://shopify/Order/1 not found");
+    });
+  });
+
+  describe("search-orders", () => {
+    it("applies search syntax and sorts newest first", async () => {
+      const result = await runTool(searchOrders, mock.client(), {
+        query: "email:ada@example.com"
+      });
+
+      expect(result.orders.map((o: any) => o.name)).toEqual(["#1002", "#1001"]);
+      expect(result.orderCount).toBe(2);
+      expect(result.sortKey).toBe("CREATED_AT");
+    });
+
+    it("supports comparisons and explicit sort keys", async () => {
+      const result = await runTool(searchOrders, mock.client(), {
+        query: "created_at:>2024-04-15",
+        sortKey: "TOTAL_PRICE",
+        reverse: false
+      });
+
+      expect(result.orders.map((o: any) => o.name)).toEqual(["#1003", "#1002"]);
+    });
+  });
+
+  describe("update-order", () => {
+    it("updates the order", async () => {
+      const result = await runTool(updateOrder, mock.client(), {
+        id: "gid://shopify/Order/9001",
+        note: "Leave at the door",
+        tags: ["vip", "priority"],
+        shippingAddress: { city: "Cambridge" }
+      });
+
+      expect(result.order).toMatchObject({
+        note: "Leave at the door",
+        tags: ["vip", "priority"],
+        shippingAddress: { city: "Cambridge", zip: "N1 9GU" }
+      });
+    });
+
+    it("previews a dry run without writing", async () => {
+      const result = await runTool(updateOrder, mock.client(), {
+        id: "gid://shopify/Order/9002",
+        note: "No gift wrap",
+        dryRun: true
+      });
+
+      expect(result.order).toEqual({
+        id: "gid://shopify/Order/9002",
+        name: "#1002"
+      });
+      expect(result.changes).toEqual([
+        { field: "note", before: "Gift wrap please", after: "No gift wrap" }
+      ]);
+      expect(mock.data.orders[1].note).toBe("Gift wrap please");
+    });
+
+    it("surfaces userErrors", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(updateOrder, mock.client(), {
+          id: "gid://shopify/Order/1",
+          note: "hello"
+        })
+      ).rejects.toThrow("id: Order does not exist");
+    });
+  });
+});
@@ -0,0 +1,566 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { archiveProduct } from "../../src/tools/archiveProduct";
+import { createProduct } from "../../src/tools/createProduct";
+import { deleteProduct } from "../../src/tools/deleteProduct";
+import { duplicateProduct } from "../../src/tools/duplicateProduct";
+import { getProductById } from "../../src/tools/getProductById";
+import { getProducts } from "../../src/tools/getProducts";
+import { updateProduct } from "../../src/tools/updateProduct";
+import { configureAuditLog, readAuditLog } from "../../src/utils/auditLog";
+import { runTool, silenceConsoleErrors } from "../mock/runTool";
+import { startMockShopify, type MockShopify } from "../mock/server";
+
+describe("product tools", () => {
+  let mock: MockShopify;
+
+  beforeEach(async () => {
+    mock = await startMockShopify();
+    configureAuditLog(null);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await mock.close();
+  });
+
+  describe("get-products", () => {
+    it("fits the query cost limit at its maximum limit", async () => {
+      const result = await runTool(getProducts, mock.client(), { limit: 70 });
+
+      expect(result.products).toHaveLength(3);
+      await expect(
+        runTool(getProducts, mock.client(), { limit: 71 })
+      ).rejects.toThrow("Number must be less than or equal to 70");
+    });
+
+    it("lists products with price range, first image and variants", async () => {
+      const result = await runTool(getProducts, mock.client());
+
+      expect(result.products).toHaveLength(3);
+      const tee = result.products[0];
+      expect(tee).toMatchObject({
+        id: "gid://shopify/Product/1001",
+        title: "Classic Tee",
+        priceRange: {
+          minPrice: { amount: "19.99", currencyCode: "USD" },
+          maxPrice: { amount: "21.99", currencyCode: "USD" }
+        }
+      });
+      expect(tee.imageUrl).toMatch(/^https:\/\//);
+      expect(tee.variants.map((v: any) => v.sku)).toEqual(["TEE-S", "TEE-L"]);
+      expect(result.pageInfo.hasNextPage).toBe(false);
+    });
+
+    it("searches by title", async () => {
+      const result = await runTool(getProducts, mock.client(), {
+        searchTitle: "tote"
+      });
+
+      expect(result.products.map((p: any) => p.title)).toEqual([
+        "Canvas Tote"
+      ]);
+      expect(mock.requests[0].variables.query).toBe("title:*tote*");
+    });
+
+    it("combines structured filters into one search query", async () => {
+      const result = await runTool(getProducts, mock.client(), {
+        vendor: "Acme Apparel",
+        status: ["ACTIVE", "DRAFT"],
+        tags: ["cotton"],
+        createdAfter: "2024-01-01",
+        updatedBefore: "2024-12-31T23:59:59Z"
+      });
+
+      expect(result.query).toBe(
+        'vendor:"Acme Apparel" AND tag:"cotton" AND status:active,draft AND created_at:>=2024-01-01 AND updated_at:<=2024-12-31T23:59:59Z'
+      );
+      expect(result.products.map((p: any) => p.title)).toEqual(["Classic Tee"]);
+    });
+
+    it("filters by price, inventory and collection", async () => {
+      const inStock = await runTool(getProducts, mock.client(), {
+        minPrice: 13,
+        minInventoryTotal: 1,
+        maxInventoryTotal: 20
+      });
+      expect(inStock.products.map((p: any) => p.title)).toEqual(["Classic Tee"]);
+
+      const summer = await runTool(getProducts, mock.client(), {
+        collectionId: "summer"
+      });
+      expect(summer.query).toBe("collection_id:4001");
+      expect(summer.products.map((p: any) => p.title)).toEqual([
+        "Classic Tee",
+        "Canvas Tote"
+      ]);
+    });
+
+    it("passes a raw query through and sorts", async () => {
+      const result = await runTool(getProducts, mock.client(), {
+        productType: "Hats",
+        query: "-tag:summer",
+        sortKey: "TITLE",
+        reverse: true
+      });
+
+      expect(mock.requests[0].variables).toMatchObject({
+        query: 'product_type:"Hats" AND (-tag:summer)',
+        sortKey: "TITLE",
+        reverse: true
+      });
+      expect(result.products.map((p: any) => p.title)).toEqual(["Winter Beanie"]);
+
+      const sorted = await runTool(getProducts, mock.client(), {
+        sortKey: "INVENTORY_TOTAL",
+        reverse: true
+      });
+      expect(sorted.products.map((p: any) => p.title)).toEqual([
+        "Winter Beanie",
+        "Classic Tee",
+        "Canvas Tote"
+      ]);
+    });
+
+    it("rejects dates that are not ISO 8601", () => {
+      expect(() =>
+        getProducts.schema.parse({ createdAfter: "last tuesday" })
+      ).toThrow("Expected an ISO 8601 date like 2024-01-31");
+    });
+
+    it("follows cursors across pages up to maxItems", async () => {
+      const result = await runTool(getProducts, mock.client(), {
+        limit: 1,
+        maxItems: 2
+      });
+
+      expect(result.products).toHaveLength(2);
+      expect(mock.requests).toHaveLength(2);
+      expect(result.pageInfo.hasNextPage).toBe(true);
+
+      const rest = await runTool(getProducts, mock.client(), {
+        limit: 5,
+        after: result.pageInfo.endCursor
+      });
+      expect(rest.products.map((p: any) => p.title)).toEqual([
+        "Winter Beanie"
+      ]);
+    });
+
+    it("rejects after and before together", async () => {
+      silenceConsoleErrors();
+      const first = await runTool(getProducts, mock.client(), { limit: 1 });
+
+      await expect(
+        runTool(getProducts, mock.client(), {
+          after: first.pageInfo.endCursor,
+          before: first.pageInfo.startCursor
+        })
+      ).rejects.toThrow("after cannot be combined with before");
+      expect(mock.requests).toHaveLength(1);
+    });
+  });
+
+  describe("get-product-by-id", () => {
+    it("returns variants, images and collections", async () => {
+      const result = await runTool(getProductById, mock.client(), {
+        productId: "gid://shopify/Product/1001"
+      });
+
+      expect(result.product.title).toBe("Classic Tee");
+      expect(result.product.variants).toHaveLength(2);
+      expect(result.product.variants[0].options).toEqual([
+        { name: "Size", value: "Small" }
+      ]);
+      expect(result.product.collections).toEqual([
+        { id: "gid://shopify/Collection/4001", title: "Summer Collection" }
+      ]);
+    });
+
+    it("fails for an unknown product", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(getProductById, mock.client(), {
+          productId: "gid://shopify/Product/1"
+        })
+      ).rejects.toThrow("Product with ID gid://shopify/Product/1 not found");
+    });
+  });
+
+  describe("create-product", () => {
+    it("creates a product", async () => {
+      const result = await runTool(createProduct, mock.client(), {
+        title: "Rain Jacket",
+        vendor: "Mock Outfitters",
+        tags: ["outerwear"]
+      });
+
+      expect(result.product).toMatchObject({
+        title: "Rain Jacket",
+        status: "DRAFT",
+        tags: ["outerwear"]
+      });
+      expect(mock.data.products).toHaveLength(4);
+    });
+
+    it("previews a dry run without calling Shopify", async () => {
+      const result = await runTool(createProduct, mock.client(), {
+        title: "Rain Jacket",
+        dryRun: true
+      });
+
+      expect(result.dryRun).toBe(true);
+      expect(result.changes).toEqual([
+        { field: "title", before: null, after: "Rain Jacket" },
+        { field: "status", before: null, after: "DRAFT" }
+      ]);
+      expect(mock.requests).toHaveLength(0);
+    });
+
+    it("surfaces userErrors", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(createProduct, mock.client(), { title: "x".repeat(256) })
+      ).rejects.toThrow("title: Title is too long (maximum is 255 characters)");
+      expect(mock.data.products).toHaveLength(3);
+    });
+  });
+
+  describe("update-product", () => {
+    it("updates fields, SEO and metafields", async () => {
+      const result = await runTool(updateProduct, mock.client(), {
+        id: "classic-tee",
+        title: "Classic Cotton Tee",
+        vendor: "Tee Works",
+        status: "ARCHIVED",
+        seo: { title: "The Classic Tee" },
+        metafields: [
+          { namespace: "custom", key: "fabric", value: "organic cotton" },
+          { namespace: "custom", key: "fit", value: "regular", type: "single_line_text_field" }
+        ]
+      });
+
+      expect(result.product).toMatchObject({
+        id: "gid://shopify/Product/1001",
+        title: "Classic Cotton Tee",
+        vendor: "Tee Works",
+        status: "ARCHIVED",
+        seo: {
+          title: "The Classic Tee",
+          description: "A soft cotton tee for every day."
+        }
+      });
+      expect(result.product.metafields).toEqual([
+        expect.objectContaining({ id: "gid://shopify/Metafield/8101", value: "organic cotton" }),
+        expect.objectContaining({ key: "fit", value: "regular" })
+      ]);
+    });
+
+    it("adds and removes tags, keeping the others", async () => {
+      const result = await runTool(updateProduct, mock.client(), {
+        id: "1001",
+        addTags: ["bestseller", "Cotton"],
+        removeTags: ["SUMMER"]
+      });
+
+      expect(result.product.tags).toEqual(["cotton", "bestseller"]);
+    });
+
+    it("edits tags without writing back the whole list", async () => {
+      const result = await runTool(updateProduct, mock.client(), {
+        id: "gid://shopify/Product/1001",
+        title: "Classic Cotton Tee",
+        addTags: ["bestseller"]
+      });
+
+      expect(result.product).toMatchObject({
+        title: "Classic Cotton Tee",
+        tags: ["cotton", "summer", "bestseller"]
+      });
+      expect(mock.requests.map((request) => request.variables)).toEqual([
+        { product: { id: "gid://shopify/Product/1001", title: "Classic Cotton Tee" } },
+        { id: "gid://shopify/Product/1001", tags: ["bestseller"] }
+      ]);
+    });
+
+    it("reports and audits the changes made before a tag edit fails", async () => {
+      silenceConsoleErrors();
+      const logDir = fs.mkdtempSync(path.join(os.tmpdir(), "shopify-mcp-audit-"));
+      configureAuditLog(path.join(logDir, "audit.jsonl"));
+
+      try {
+        await expect(
+          runTool(updateProduct, mock.client(), {
+            id: "1001",
+            title: "Classic Cotton Tee",
+            addTags: ["x".repeat(256)]
+          })
+        ).rejects.toMatchObject({
+          message: expect.stringContaining(
+            "Failed to update product after applying productUpdate: tags: Tags is invalid"
+          ),
+          hint: expect.stringContaining("partly updated by productUpdate")
+        });
+        expect(mock.data.products[0].title).toBe("Classic Cotton Tee");
+
+        const [record] = await readAuditLog();
+        expect(record.before).toMatchObject({ title: "Classic Tee" });
+        expect(record.after).toMatchObject({
+          title: "Classic Cotton Tee",
+          tags: ["cotton", "summer"]
+        });
+        expect(record.userErrors).toHaveLength(1);
+      } finally {
+        configureAuditLog(null);
+        fs.rmSync(logDir, { recursive: true, force: true });
+      }
+    });
+
+    it("rejects tags combined with addTags or removeTags", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(updateProduct, mock.client(), {
+          id: "1001",
+          tags: ["a"],
+          addTags: ["b"]
+        })
+      ).rejects.toThrow("tags cannot be combined with addTags or removeTags");
+      expect(mock.requests).toHaveLength(0);
+    });
+
+    it("previews a dry run including tag edits", async () => {
+      const result = await runTool(updateProduct, mock.client(), {
+        id: "gid://shopify/Product/1001",
+        handle: "classic-cotton-tee",
+        addTags: ["bestseller"],
+        dryRun: true
+      });
+
+      expect(result.changes).toEqual([
+        { field: "handle", before: "classic-tee", after: "classic-cotton-tee" },
+        {
+          field: "tags",
+          before: ["cotton", "summer"],
+          after: ["cotton", "summer", "bestseller"],
+          added: ["bestseller"],
+          removed: []
+        }
+      ]);
+      expect(mock.data.products[0].handle).toBe("classic-tee");
+    });
+
+    it("surfaces userErrors", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(updateProduct, mock.client(), {
+          id: "1002",
+          handle: "classic-tee"
+        })
+      ).rejects.toThrow("handle: Handle 'classic-tee' already in use");
+      expect(mock.data.products[1].handle).toBe("canvas-tote");
+    });
+
+    it("reports a product that does not exist", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(updateProduct, mock.client(), {
+          id: "no-such-handle",
+          title: "Anything"
+        })
+      ).rejects.toThrow('No Product found for "no-such-handle"');
+    });
+  });
+
+  describe("duplicate-product", () => {
+    it("copies a product with its variants and images as a draft", async () => {
+      const result = await runTool(duplicateProduct, mock.client(), {
+        id: "classic-tee",
+        newTitle: "Classic Tee (Copy)"
+      });
+
+      expect(result.sourceProductId).toBe("gid://shopify/Product/1001");
+      expect(result.product).toEqual(
+        expect.objectContaining({
+          title: "Classic Tee (Copy)",
+          handle: "classic-tee-copy",
+          status: "DRAFT",
+          variants: [
+            expect.objectContaining({ title: "Small", sku: "TEE-S" }),
+            expect.objectContaining({ title: "Large", sku: "TEE-L" })
+          ]
+        })
+      );
+      expect(result.imageJob).toEqual(
+        expect.objectContaining({ id: expect.any(String) })
+      );
+
+      const copy = mock.data.products.find(
+        (product) => product.id === result.product.id
+      )!;
+      expect(copy.media).toHaveLength(2);
+      expect(copy.variants[0].id).not.toBe("gid://shopify/ProductVariant/2001");
+    });
+
+    it("leaves images behind and sets the status when asked", async () => {
+      const result = await runTool(duplicateProduct, mock.client(), {
+        id: "gid://shopify/Product/1001",
+        newTitle: "Tee Restock",
+        newStatus: "ACTIVE",
+        includeImages: false
+      });
+
+      expect(result.product.status).toBe("ACTIVE");
+      expect(result.imageJob).toBeNull();
+      expect(
+        mock.data.products.find((product) => product.id === result.product.id)!
+          .media
+      ).toEqual([]);
+    });
+
+    it("previews a dry run without calling the mutation", async () => {
+      const result = await runTool(duplicateProduct, mock.client(), {
+        id: "classic-tee",
+        newTitle: "Classic Tee (Copy)",
+        dryRun: true
+      });
+
+      expect(result).toEqual({
+        dryRun: true,
+        product: expect.objectContaining({ title: "Classic Tee" }),
+        changes: [
+          { field: "title", before: null, after: "Classic Tee (Copy)" },
+          { field: "status", before: null, after: "DRAFT" },
+          { field: "includeImages", before: null, after: true }
+        ],
+        changeCount: 3
+      });
+      expect(mock.data.products).toHaveLength(3);
+    });
+
+    it("surfaces userErrors", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(duplicateProduct, mock.client(), {
+          id: "classic-tee",
+          newTitle: "   "
+        })
+      ).rejects.toThrow("newTitle: Title can't be blank");
+    });
+  });
+
+  describe("archive-product", () => {
+    it("archives a product", async () => {
+      const result = await runTool(archiveProduct, mock.client(), {
+        id: "classic-tee"
+      });
+
+      expect(result.product).toEqual(
+        expect.objectContaining({
+          id: "gid://shopify/Product/1001",
+          status: "ARCHIVED"
+        })
+      );
+      expect(mock.data.products[0].status).toBe("ARCHIVED");
+    });
+
+    it("previews the status change", async () => {
+      const result = await runTool(archiveProduct, mock.client(), {
+        id: "winter-beanie",
+        dryRun: true
+      });
+
+      expect(result).toEqual({
+        dryRun: true,
+        product: { id: "gid://shopify/Product/1003", title: "Winter Beanie" },
+        changes: [{ field: "status", before: "DRAFT", after: "ARCHIVED" }],
+        changeCount: 1
+      });
+      expect(mock.data.products[2].status).toBe("DRAFT");
+    });
+
+    it("leaves an archived product alone", async () => {
+      mock.data.products[1].status = "ARCHIVED";
+      const requestCount = mock.requests.length;
+
+      const result = await runTool(archiveProduct, mock.client(), {
+        id: "canvas-tote"
+      });
+
+      expect(result.product.status).toBe("ARCHIVED");
+      expect(
+        mock.requests
+          .slice(requestCount)
+          .some((request) => request.query.includes("productUpdate"))
+      ).toBe(false);
+    });
+  });
+
+  describe("delete-product", () => {
+    it("refuses to delete without confirm", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(deleteProduct, mock.client(), { id: "canvas-tote" })
+      ).rejects.toThrow("Refusing to delete a product without confirm: true");
+      expect(mock.data.products).toHaveLength(3);
+    });
+
+    it("previews what would be deleted without confirm", async () => {
+      const result = await runTool(deleteProduct, mock.client(), {
+        id: "canvas-tote",
+        dryRun: true
+      });
+
+      expect(result.changes).toEqual([
+        {
+          field: "product",
+          before: expect.objectContaining({
+            title: "Canvas Tote",
+            variants: [expect.objectContaining({ sku: "TOTE-1" })]
+          }),
+          after: null
+        }
+      ]);
+      expect(mock.data.products).toHaveLength(3);
+    });
+
+    it("deletes a product with its variants", async () => {
+      const result = await runTool(deleteProduct, mock.client(), {
+        id: "canvas-tote",
+        confirm: true
+      });
+
+      expect(result).toEqual({
+        deletedProductId: "gid://shopify/Product/1002",
+        title: "Canvas Tote"
+      });
+      expect(mock.data.products.map((product) => product.title)).toEqual([
+        "Classic Tee",
+        "Winter Beanie"
+      ]);
+      expect(
+        mock.data.inventoryItems.some(
+          (item) => item.variantId === "gid://shopify/ProductVariant/2003"
+        )
+      ).toBe(false);
+    });
+
+    it("reports a product that does not exist", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(deleteProduct, mock.client(), {
+          id: "gid://shopify/Product/1",
+          confirm: true
+        })
+      ).rejects.toThrow("Product with ID gid://shopify/Product/1 not found");
+    });
+  });
+});
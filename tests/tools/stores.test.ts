@@ -0,0 +1,212 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { GraphQLClient } from "graphql-request";
+import { diffInventorySnapshot } from "../../src/tools/diffInventorySnapshot";
+import { getAuditLog } from "../../src/tools/getAuditLog";
+import { listStores } from "../../src/tools/listStores";
+import { saveInventorySnapshot } from "../../src/tools/saveInventorySnapshot";
+import { updateCustomer } from "../../src/tools/updateCustomer";
+import { updateOrder } from "../../src/tools/updateOrder";
+import { configureAuditLog } from "../../src/utils/auditLog";
+import { configureInventorySnapshots } from "../../src/utils/inventorySnapshots";
+import {
+  createMultiStoreClient,
+  type MultiStoreClient
+} from "../../src/utils/stores";
+import { runTool, silenceConsoleErrors } from "../mock/runTool";
+import { startMockShopify, type MockShopify } from "../mock/server";
+
+describe("store and audit log tools", () => {
+  let us: MockShopify;
+  let eu: MockShopify;
+  let client: MultiStoreClient;
+  let logDir: string;
+
+  beforeEach(async () => {
+    us = await startMockShopify();
+    eu = await startMockShopify({ accessToken: "shpat_eu_token" });
+    eu.data.shop.name = "Mock Outfitters EU";
+    eu.data.shop.currencyCode = "EUR";
+
+    const urls: Record<string, string> = { us: us.url, eu: eu.url };
+    client = createMultiStoreClient(
+      {
+        defaultStore: "us",
+        stores: [
+          { name: "us", domain: "us.myshopify.com", accessToken: "shpat_mock_token" },
+          { name: "eu", domain: "eu.myshopify.com", accessToken: "shpat_eu_token" }
+        ]
+      },
+      (store) =>
+        new GraphQLClient(urls[store.name], {
+          headers: { "X-Shopify-Access-Token": store.accessToken }
+        })
+    );
+
+    logDir = fs.mkdtempSync(path.join(os.tmpdir(), "shopify-mcp-audit-"));
+    configureAuditLog(path.join(logDir, "audit.jsonl"));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    configureAuditLog(null);
+    fs.rmSync(logDir, { recursive: true, force: true });
+    await Promise.all([us.close(), eu.close()]);
+  });
+
+  describe("list-stores", () => {
+    it("lists configured stores", async () => {
+      const result = await runTool(listStores, client);
+
+      expect(result).toEqual({
+        defaultStore: "us",
+        stores: [
+          { name: "us", domain: "us.myshopify.com", isDefault: true },
+          { name: "eu", domain: "eu.myshopify.com", isDefault: false }
+        ],
+        storeCount: 2
+      });
+      expect(us.requests).toHaveLength(0);
+    });
+
+    it("queries each store for shop details", async () => {
+      const result = await runTool(listStores, client, {
+        includeShopDetails: true
+      });
+
+      expect(result.stores.map((s: any) => [s.shopName, s.currencyCode])).toEqual([
+        ["Mock Outfitters", "USD"],
+        ["Mock Outfitters EU", "EUR"]
+      ]);
+    });
+
+    it("reports a store whose token is rejected", async () => {
+      eu.enqueue({ status: 401, body: { errors: "[API] Invalid API key or access token" } });
+
+      const result = await runTool(listStores, client, {
+        includeShopDetails: true
+      });
+
+      expect(result.stores[0].shopName).toBe("Mock Outfitters");
+      expect(result.stores[1].error).toMatch(/Invalid API key or access token/);
+    });
+
+    it("requires store routing", async () => {
+      silenceConsoleErrors();
+
+      await expect(runTool(listStores, us.client())).rejects.toThrow(
+        "Store routing is not configured"
+      );
+    });
+  });
+
+  describe("get-audit-log", () => {
+    it("returns the changes made in a store", async () => {
+      await client.runWithStore("eu", () =>
+        runTool(updateOrder, client, {
+          id: "gid://shopify/Order/9002",
+          note: "Ship Monday"
+        })
+      );
+      await runTool(updateOrder, client, {
+        id: "gid://shopify/Order/9001",
+        tags: ["vip", "priority"]
+      });
+
+      const all = await runTool(getAuditLog, client);
+      expect(all.recordCount).toBe(2);
+
+      const result = await runTool(getAuditLog, client, {
+        objectId: "#1002"
+      });
+      expect(result.records).toEqual([
+        expect.objectContaining({
+          store: "eu",
+          tool: "update-order",
+          objectName: "#1002",
+          before: expect.objectContaining({ note: "Gift wrap please" }),
+          after: expect.objectContaining({ note: "Ship Monday" }),
+          userErrors: []
+        })
+      ]);
+      expect(eu.data.orders[1].note).toBe("Ship Monday");
+      expect(us.data.orders[1].note).toBe("Gift wrap please");
+    });
+
+    it("records rejected mutations with their userErrors", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(updateCustomer, client, {
+          id: "502",
+          email: "ada@example.com"
+        })
+      ).rejects.toThrow("Email has already been taken");
+
+      const result = await runTool(getAuditLog, client, {
+        tool: "update-customer"
+      });
+      expect(result.records).toEqual([
+        expect.objectContaining({
+          objectId: "gid://shopify/Customer/502",
+          after: null,
+          userErrors: [
+            { field: ["email"], message: "Email has already been taken" }
+          ]
+        })
+      ]);
+    });
+
+    it("fails when the audit log is disabled", async () => {
+      silenceConsoleErrors();
+      configureAuditLog(null);
+
+      await expect(runTool(getAuditLog, client)).rejects.toThrow(
+        "The audit log is disabled"
+      );
+    });
+  });
+
+  describe("inventory snapshots", () => {
+    beforeEach(() => {
+      configureInventorySnapshots(path.join(logDir, "snapshots"));
+    });
+
+    it("keeps each store's snapshots apart", async () => {
+      const inUs = await runTool(saveInventorySnapshot, client, {
+        name: "daily"
+      });
+      const inEu = await client.runWithStore("eu", () =>
+        runTool(saveInventorySnapshot, client, { name: "daily" })
+      );
+
+      expect(inUs.path).toBe(
+        path.join(logDir, "snapshots", "us", "daily.json")
+      );
+      expect(inEu.path).toBe(
+        path.join(logDir, "snapshots", "eu", "daily.json")
+      );
+      expect(inEu.store).toBe("eu");
+    });
+
+    it("refuses another store's snapshot before reading stock", async () => {
+      silenceConsoleErrors();
+      const saved = await runTool(saveInventorySnapshot, client, {
+        name: "daily"
+      });
+      fs.mkdirSync(path.join(logDir, "snapshots", "eu"));
+      fs.copyFileSync(
+        saved.path,
+        path.join(logDir, "snapshots", "eu", "daily.json")
+      );
+
+      await expect(
+        client.runWithStore("eu", () =>
+          runTool(diffInventorySnapshot, client, { name: "daily" })
+        )
+      ).rejects.toThrow('was taken in store "us", not "eu"');
+      expect(eu.requests).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { createProductVariants } from "../../src/tools/createProductVariants";
+import { deleteProductVariants } from "../../src/tools/deleteProductVariants";
+import { updateProductVariants } from "../../src/tools/updateProductVariants";
+import { configureAuditLog } from "../../src/utils/auditLog";
+import { runTool, silenceConsoleErrors } from "../mock/runTool";
+import { startMockShopify, type MockShopify } from "../mock/server";
+
+describe("product variant tools", () => {
+  let mock: MockShopify;
+
+  beforeEach(async () => {
+    mock = await startMockShopify();
+    configureAuditLog(null);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await mock.close();
+  });
+
+  const variantTitles = (productIndex: number) =>
+    mock.data.products[productIndex].variants.map((variant) => variant.title);
+
+  describe("create-product-variants", () => {
+    it("creates variants with prices, SKUs and weights", async () => {
+      const result = await runTool(createProductVariants, mock.client(), {
+        productId: "classic-tee",
+        variants: [
+          {
+            options: [{ name: "Size", value: "Medium" }],
+            price: "20.99",
+            compareAtPrice: "25.00",
+            sku: "TEE-M",
+            barcode: "0123456789029",
+            weight: { value: 200, unit: "GRAMS" },
+            inventoryPolicy: "CONTINUE"
+          }
+        ]
+      });
+
+      expect(result.product.id).toBe("gid://shopify/Product/1001");
+      expect(result.variants).toEqual([
+        expect.objectContaining({
+          title: "Medium",
+          options: [{ name: "Size", value: "Medium" }],
+          price: "20.99",
+          compareAtPrice: "25.00",
+          sku: "TEE-M",
+          barcode: "0123456789029",
+          weight: { value: 200, unit: "GRAMS" },
+          inventoryPolicy: "CONTINUE",
+          inventoryItemId: expect.stringMatching(/^gid:\/\/shopify\/InventoryItem\//)
+        })
+      ]);
+      expect(variantTitles(0)).toEqual(["Small", "Large", "Medium"]);
+    });
+
+    it("replaces the standalone default variant unless told to keep it", async () => {
+      const variants = [
+        { options: [{ name: "Color", value: "Natural" }], price: "15.00" },
+        { options: [{ name: "Color", value: "Black" }], price: "16.00" }
+      ];
+
+      await runTool(createProductVariants, mock.client(), {
+        productId: "1002",
+        variants
+      });
+      expect(variantTitles(1)).toEqual(["Natural", "Black"]);
+      expect(
+        mock.data.inventoryItems.some(
+          (item) => item.id === "gid://shopify/InventoryItem/3003"
+        )
+      ).toBe(false);
+
+      await runTool(createProductVariants, mock.client(), {
+        productId: "1003",
+        variants: variants.slice(0, 1),
+        removeStandaloneVariant: false
+      });
+      expect(variantTitles(2)).toEqual(["Default Title", "Natural"]);
+    });
+
+    it("previews a dry run without changing the product", async () => {
+      const result = await runTool(createProductVariants, mock.client(), {
+        productId: "1001",
+        variants: [{ options: [{ name: "Size", value: "Medium" }], price: "20.99" }],
+        dryRun: true
+      });
+
+      expect(result.changes).toEqual([
+        {
+          field: "variants.0.options",
+          before: null,
+          after: [{ name: "Size", value: "Medium" }]
+        },
+        { field: "variants.0.price", before: null, after: "20.99" }
+      ]);
+      expect(variantTitles(0)).toEqual(["Small", "Large"]);
+    });
+
+    it("surfaces userErrors", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(createProductVariants, mock.client(), {
+          productId: "1001",
+          variants: [{ options: [{ name: "Size", value: "Small" }], price: "1.00" }]
+        })
+      ).rejects.toThrow("variants.0: The variant 'Small' already exists.");
+    });
+
+    it("rejects prices that are not decimal amounts", () => {
+      expect(() =>
+        createProductVariants.schema.parse({
+          productId: "1001",
+          variants: [{ options: [{ name: "Size", value: "XL" }], price: "$20" }]
+        })
+      ).toThrow("Expected a decimal amount like 19.99");
+    });
+  });
+
+  describe("update-product-variants", () => {
+    it("updates variants found by SKU or ID", async () => {
+      const result = await runTool(updateProductVariants, mock.client(), {
+        productId: "classic-tee",
+        variants: [
+          { id: "TEE-S", price: "17.99", compareAtPrice: null },
+          {
+            id: "2002",
+            sku: "TEE-XL",
+            options: [{ name: "Size", value: "Extra Large" }],
+            weight: { value: 0.25, unit: "KILOGRAMS" }
+          }
+        ]
+      });
+
+      expect(result.variants).toEqual([
+        expect.objectContaining({
+          id: "gid://shopify/ProductVariant/2001",
+          price: "17.99",
+          compareAtPrice: null
+        }),
+        expect.objectContaining({
+          id: "gid://shopify/ProductVariant/2002",
+          title: "Extra Large",
+          sku: "TEE-XL",
+          weight: { value: 0.25, unit: "KILOGRAMS" }
+        })
+      ]);
+      expect(mock.data.inventoryItems[1].sku).toBe("TEE-XL");
+    });
+
+    it("previews a dry run per variant", async () => {
+      const result = await runTool(updateProductVariants, mock.client(), {
+        productId: "1001",
+        variants: [{ id: "TEE-L", price: "21.99", inventoryPolicy: "CONTINUE" }],
+        dryRun: true
+      });
+
+      expect(result.variants).toEqual([
+        { id: "gid://shopify/ProductVariant/2002", title: "Large" }
+      ]);
+      expect(result.changes).toEqual([
+        { field: "variants.0.inventoryPolicy", before: "DENY", after: "CONTINUE" }
+      ]);
+      expect(mock.data.products[0].variants[1].inventoryPolicy).toBe("DENY");
+    });
+
+    it("surfaces userErrors for variants of another product", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(updateProductVariants, mock.client(), {
+          productId: "1001",
+          variants: [{ id: "TOTE-1", price: "1.00" }]
+        })
+      ).rejects.toThrow("variants.0.id: Product variant does not exist");
+    });
+  });
+
+  describe("delete-product-variants", () => {
+    it("deletes variants and their inventory items", async () => {
+      const result = await runTool(deleteProductVariants, mock.client(), {
+        productId: "1001",
+        variantIds: ["TEE-L"],
+        confirm: true
+      });
+
+      expect(result).toEqual({
+        deletedVariantIds: ["gid://shopify/ProductVariant/2002"],
+        product: {
+          id: "gid://shopify/Product/1001",
+          title: "Classic Tee",
+          remainingVariants: [
+            { id: "gid://shopify/ProductVariant/2001", title: "Small" }
+          ]
+        }
+      });
+      expect(
+        mock.data.inventoryItems.map((item) => item.id)
+      ).not.toContain("gid://shopify/InventoryItem/3002");
+    });
+
+    it("refuses to delete variants without confirm", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(deleteProductVariants, mock.client(), {
+          productId: "1001",
+          variantIds: ["TEE-L"]
+        })
+      ).rejects.toThrow(
+        "Refusing to delete product variants without confirm: true"
+      );
+      expect(variantTitles(0)).toEqual(["Small", "Large"]);
+      expect(mock.requests).toHaveLength(0);
+    });
+
+    it("lists what a dry run would delete", async () => {
+      const result = await runTool(deleteProductVariants, mock.client(), {
+        productId: "1001",
+        variantIds: ["2001"],
+        dryRun: true
+      });
+
+      expect(result.changes).toEqual([
+        {
+          field: "variants.gid://shopify/ProductVariant/2001",
+          before: expect.objectContaining({ sku: "TEE-S" }),
+          after: null
+        }
+      ]);
+      expect(variantTitles(0)).toEqual(["Small", "Large"]);
+    });
+
+    it("surfaces userErrors", async () => {
+      silenceConsoleErrors();
+
+      await expect(
+        runTool(deleteProductVariants, mock.client(), {
+          productId: "1001",
+          variantIds: ["2003"],
+          confirm: true
+        })
+      ).rejects.toThrow(
+        "variantsIds: At least one variant does not belong to the product"
+      );
+      expect(variantTitles(1)).toEqual(["Default Title"]);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { buildSchema, introspectionFromSchema } from "graphql";
+import { toolRegistry } from "../../src/tools/registry";
+import {
+  checkToolDocuments,
+  isValidApiVersion,
+  loadIntrospectionSchema,
+  saveIntrospectionSchema
+} from "../../src/utils/apiSchema";
+import { startMockShopify } from "../mock/server";
+import { typeDefs } from "../mock/schema";
+
+describe("Admin API schema checks", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "shopify-mcp-schema-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeIntrospection = (sdl: string, wrapInData = true) => {
+    const filePath = path.join(dir, "schema.json");
+    const introspection = introspectionFromSchema(buildSchema(sdl));
+    fs.writeFileSync(
+      filePath,
+      JSON.stringify(wrapInData ? { data: introspection } : introspection)
+    );
+    return filePath;
+  };
+
+  it("accepts quarterly versions and unstable", () => {
+    expect(isValidApiVersion("2025-10")).toBe(true);
+    expect(isValidApiVersion("unstable")).toBe(true);
+    expect(isValidApiVersion("2025-11")).toBe(false);
+    expect(isValidApiVersion("latest")).toBe(false);
+  });
+
+  it("finds every tool document valid against the mock schema", async () => {
+    const schema = await loadIntrospectionSchema(
+      writeIntrospection(typeDefs, false)
+    );
+
+    expect(checkToolDocuments(schema, toolRegistry)).toEqual([]);
+  });
+
+  it("reports removed and deprecated fields per tool", async () => {
+    const sdl = typeDefs
+      .replace("    totalInventory: Int!\n", "")
+      .replace(
+        "    productType: String!\n",
+        '    productType: String! @deprecated(reason: "Use category instead.")\n'
+      );
+    const schema = await loadIntrospectionSchema(writeIntrospection(sdl));
+
+    const report = checkToolDocuments(schema, toolRegistry);
+
+    expect(report.map((entry) => entry.tool)).toEqual([
+      "get-products",
+      "get-product-by-id",
+      "create-product",
+      "update-product",
+      "delete-product",
+      "get-inventory-valuation"
+    ]);
+    expect(report[0]).toEqual({
+      tool: "get-products",
+      errors: ['Cannot query field "totalInventory" on type "Product".'],
+      deprecations: []
+    });
+    expect(report[2]).toEqual({
+      tool: "create-product",
+      errors: [],
+      deprecations: [
+        "The field Product.productType is deprecated. Use category instead."
+      ]
+    });
+  });
+
+  it("rejects files that are not introspection results", async () => {
+    const filePath = path.join(dir, "schema.json");
+    fs.writeFileSync(filePath, JSON.stringify({ data: { shop: {} } }));
+
+    await expect(loadIntrospectionSchema(filePath)).rejects.toThrow(
+      "is not a GraphQL introspection result"
+    );
+  });
+
+  it("saves the introspection of a live endpoint", async () => {
+    const mock = await startMockShopify();
+    const filePath = path.join(dir, "nested", "admin-2025-10.json");
+
+    try {
+      await saveIntrospectionSchema(mock.client(), filePath);
+    } finally {
+      await mock.close();
+    }
+
+    const schema = await loadIntrospectionSchema(filePath);
+    expect(schema.getType("Product")).toBeDefined();
+  });
+});
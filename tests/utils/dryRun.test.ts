@@ -0,0 +1,65 @@
+import { diffFields } from "../../src/utils/dryRun";
+
+describe("diffFields", () => {
+  it("reports only fields that change", () => {
+    expect(
+      diffFields(
+        { note: "old", email: "a@example.com" },
+        { note: "new", email: "a@example.com" }
+      )
+    ).toEqual([{ field: "note", before: "old", after: "new" }]);
+  });
+
+  it("compares string lists as sets", () => {
+    expect(
+      diffFields({ tags: ["a", "b"] }, { tags: ["b", "a"] })
+    ).toEqual([]);
+    expect(diffFields({ tags: ["a", "b"] }, { tags: ["b", "c"] })).toEqual([
+      {
+        field: "tags",
+        before: ["a", "b"],
+        after: ["b", "c"],
+        added: ["c"],
+        removed: ["a"]
+      }
+    ]);
+  });
+
+  it("diffs nested objects field by field", () => {
+    expect(
+      diffFields(
+        { shippingAddress: { city: "London", zip: "N1" } },
+        { shippingAddress: { city: "Cambridge" } }
+      )
+    ).toEqual([
+      { field: "shippingAddress.city", before: "London", after: "Cambridge" }
+    ]);
+  });
+
+  it("matches metafields by namespace and key", () => {
+    expect(
+      diffFields(
+        {
+          metafields: [
+            { id: "gid://shopify/Metafield/1", namespace: "loyalty", key: "tier", value: "gold" }
+          ]
+        },
+        {
+          metafields: [
+            { namespace: "loyalty", key: "tier", value: "silver" },
+            { namespace: "loyalty", key: "points", value: "10" }
+          ]
+        }
+      )
+    ).toEqual([
+      { field: "metafields.loyalty.tier", before: "gold", after: "silver" },
+      { field: "metafields.loyalty.points", before: null, after: "10" }
+    ]);
+  });
+
+  it("treats every field as added when there is no current object", () => {
+    expect(diffFields(null, { title: "Tee", tags: [] })).toEqual([
+      { field: "title", before: null, after: "Tee" }
+    ]);
+  });
+});
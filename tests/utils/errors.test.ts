@@ -0,0 +1,246 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { GraphQLClient, gql } from "graphql-request";
+import { runShopifyqlQuery } from "../../src/tools/analytics/runShopifyqlQuery";
+import { getProductById } from "../../src/tools/getProductById";
+import { registerTools } from "../../src/tools/registry";
+import { updateCustomer } from "../../src/tools/updateCustomer";
+import { configureAuditLog } from "../../src/utils/auditLog";
+import {
+  ShopifyToolError,
+  toToolError,
+  toolError,
+  userErrorsToToolError
+} from "../../src/utils/errors";
+import { createMultiStoreClient } from "../../src/utils/stores";
+import { MOCK_ACCESS_TOKEN, startMockShopify, type MockShopify } from "../mock/server";
+
+const SHOP_QUERY = gql`
+  query {
+    shop {
+      name
+    }
+  }
+`;
+
+describe("tool errors", () => {
+  let mock: MockShopify;
+
+  beforeEach(async () => {
+    mock = await startMockShopify();
+    configureAuditLog(null);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await mock.close();
+  });
+
+  const requestError = async (client: GraphQLClient = mock.client()) => {
+    try {
+      await client.request(SHOP_QUERY);
+    } catch (error) {
+      return toToolError(error);
+    }
+    throw new Error("Expected the request to fail");
+  };
+
+  describe("toToolError", () => {
+    it("classifies a rejected access token", async () => {
+      const error = await requestError(
+        new GraphQLClient(mock.url, {
+          headers: { "X-Shopify-Access-Token": "wrong" }
+        })
+      );
+
+      expect(error.category).toBe("auth");
+      expect(error.message).toMatch(/Invalid API key or access token/);
+    });
+
+    it("names the missing scope for ACCESS_DENIED", async () => {
+      mock.enqueue({
+        body: {
+          errors: [
+            {
+              message:
+                "Access denied for shopifyqlQuery field. Required access: `read_reports` access scope.",
+              extensions: { code: "ACCESS_DENIED" }
+            }
+          ]
+        }
+      });
+
+      const error = await requestError();
+
+      expect(error.toJSON()).toEqual({
+        category: "scope",
+        code: "ACCESS_DENIED",
+        message:
+          "Access denied for shopifyqlQuery field. Required access: `read_reports` access scope.",
+        hint: expect.stringMatching(/^Missing read_reports scope/)
+      });
+    });
+
+    it("classifies throttling, server errors and cost limits", async () => {
+      mock.enqueue(
+        { body: { errors: [{ message: "Throttled", extensions: { code: "THROTTLED" } }] } },
+        { status: 503, body: "Service Unavailable" },
+        {
+          body: {
+            errors: [
+              {
+                message: "Query cost is 1200, which exceeds the single query max cost limit (1000).",
+                extensions: { code: "MAX_COST_EXCEEDED" }
+              }
+            ]
+          }
+        }
+      );
+
+      expect((await requestError()).category).toBe("throttle");
+      expect((await requestError()).category).toBe("shopify_server");
+      const costError = await requestError();
+      expect(costError.category).toBe("throttle");
+      expect(costError.hint).toMatch(/Lower the limit/);
+    });
+
+    it("classifies schema validation failures", async () => {
+      let error: ShopifyToolError | undefined;
+      try {
+        await mock.client().request(gql`
+          query {
+            shop {
+              missingField
+            }
+          }
+        `);
+      } catch (caught) {
+        error = toToolError(caught);
+      }
+
+      expect(error?.category).toBe("validation");
+      expect(error?.message).toBe(
+        'Cannot query field "missingField" on type "Shop".'
+      );
+    });
+
+    it("classifies unreachable hosts as network errors", async () => {
+      const url = mock.url;
+      await mock.close();
+      mock = await startMockShopify();
+
+      const error = await requestError(new GraphQLClient(url));
+
+      expect(error.category).toBe("network");
+    });
+  });
+
+  it("keeps every userError and points at the first field", () => {
+    const error = userErrorsToToolError("Failed to update customer", [
+      { field: ["email"], message: "Email has already been taken" },
+      { field: null, message: "Something else" }
+    ]);
+
+    expect(error.message).toBe(
+      "Failed to update customer: email: Email has already been taken, Something else"
+    );
+    expect(error.category).toBe("user_error");
+    expect(error.field).toEqual(["email"]);
+    expect(error.userErrors).toHaveLength(2);
+  });
+
+  it("prefixes context once", () => {
+    const inner = userErrorsToToolError("Failed to create product", [
+      { field: ["title"], message: "Title can't be blank" }
+    ]);
+
+    expect(toolError("Failed to create product", inner).message).toBe(
+      "Failed to create product: title: Title can't be blank"
+    );
+  });
+
+  describe("tool results", () => {
+    let client: Client;
+
+    beforeEach(async () => {
+      const shopifyClient = createMultiStoreClient(
+        {
+          defaultStore: "default",
+          stores: [
+            { name: "default", domain: "mock.myshopify.com", accessToken: MOCK_ACCESS_TOKEN }
+          ]
+        },
+        (store) =>
+          new GraphQLClient(mock.url, {
+            headers: { "X-Shopify-Access-Token": store.accessToken }
+          })
+      );
+      const server = new McpServer({ name: "shopify", version: "test" });
+      registerTools(server, shopifyClient, [
+        getProductById,
+        updateCustomer,
+        runShopifyqlQuery
+      ]);
+
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      client = new Client({ name: "test-client", version: "1.0.0" });
+      await Promise.all([
+        server.connect(serverTransport),
+        client.connect(clientTransport)
+      ]);
+      jest.spyOn(console, "error").mockImplementation(() => undefined);
+    });
+
+    afterEach(async () => {
+      await client.close();
+    });
+
+    const callError = async (name: string, args: Record<string, unknown>) => {
+      const result = await client.callTool({ name, arguments: args });
+      expect(result.isError).toBe(true);
+      const content = result.content as Array<{ text: string }>;
+      return JSON.parse(content[0].text).error;
+    };
+
+    it("returns not-found errors", async () => {
+      expect(
+        await callError("get-product-by-id", {
+          productId: "gid://shopify/Product/1"
+        })
+      ).toEqual({
+        category: "not_found",
+        message:
+          "Failed to fetch product: Product with ID gid://shopify/Product/1 not found",
+        hint: expect.any(String)
+      });
+    });
+
+    it("returns userErrors with the affected field", async () => {
+      expect(
+        await callError("update-customer", {
+          id: "502",
+          email: "ada@example.com"
+        })
+      ).toMatchObject({
+        category: "user_error",
+        field: ["email"],
+        userErrors: [
+          { field: ["email"], message: "Email has already been taken" }
+        ]
+      });
+    });
+
+    it("returns ShopifyQL parse errors", async () => {
+      expect(
+        await callError("run-shopifyql-query", {
+          query: "FROM sales SHOW refunds"
+        })
+      ).toMatchObject({
+        category: "validation",
+        message: expect.stringContaining("Column 'refunds' does not exist")
+      });
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { LATEST_PROTOCOL_VERSION } from "@modelcontextprotocol/sdk/types.js";
+import { GraphQLClient } from "graphql-request";
+import { getProducts } from "../../src/tools/getProducts";
+import { registerTools } from "../../src/tools/registry";
+import { startHttpServer, type RunningHttpServer } from "../../src/utils/httpServer";
+import { createMultiStoreClient } from "../../src/utils/stores";
+import { MOCK_ACCESS_TOKEN, startMockShopify, type MockShopify } from "../mock/server";
+
+const AUTH_TOKEN = "test-http-token";
+
+describe("startHttpServer", () => {
+  let mock: MockShopify;
+  let httpServer: RunningHttpServer;
+
+  beforeEach(async () => {
+    mock = await startMockShopify();
+    const shopifyClient = createMultiStoreClient(
+      {
+        defaultStore: "default",
+        stores: [
+          { name: "default", domain: "mock.myshopify.com", accessToken: MOCK_ACCESS_TOKEN }
+        ]
+      },
+      (store) =>
+        new GraphQLClient(mock.url, {
+          headers: { "X-Shopify-Access-Token": store.accessToken }
+        })
+    );
+
+    httpServer = await startHttpServer({
+      host: "127.0.0.1",
+      port: 0,
+      authToken: AUTH_TOKEN,
+      createServer: () => {
+        const server = new McpServer({ name: "shopify", version: "test" });
+        registerTools(server, shopifyClient, [getProducts]);
+        return server;
+      }
+    });
+  });
+
+  afterEach(async () => {
+    await httpServer.close();
+    await mock.close();
+  });
+
+  const connect = async (token = AUTH_TOKEN) => {
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(
+      new StreamableHTTPClientTransport(new URL(httpServer.url), {
+        requestInit: { headers: { Authorization: `Bearer ${token}` } }
+      })
+    );
+    return client;
+  };
+
+  it("serves a health endpoint without auth", async () => {
+    const response = await fetch(new URL("/health", httpServer.url));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: "ok", sessions: 0 });
+  });
+
+  it("rejects requests without a valid bearer token", async () => {
+    const response = await fetch(httpServer.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{}"
+    });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get("www-authenticate")).toMatch(/^Bearer/);
+    await expect(connect("wrong-token")).rejects.toThrow();
+  });
+
+  it("lists and calls tools over a session", async () => {
+    const client = await connect();
+
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual(["get-products"]);
+
+    const result = await client.callTool({
+      name: "get-products",
+      arguments: { limit: 1 }
+    });
+    const content = result.content as Array<{ type: string; text: string }>;
+    expect(JSON.parse(content[0].text).products[0].title).toBe("Classic Tee");
+    expect(httpServer.sessionCount()).toBe(1);
+
+    await client.close();
+  });
+
+  it("rejects requests for unknown sessions", async () => {
+    const response = await fetch(httpServer.url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${AUTH_TOKEN}`,
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "Mcp-Session-Id": "missing"
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" })
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it("closes sessions that stay idle", async () => {
+    const idleServer = await startHttpServer({
+      host: "127.0.0.1",
+      port: 0,
+      authToken: AUTH_TOKEN,
+      sessionIdleTimeoutMs: 50,
+      createServer: () => new McpServer({ name: "shopify", version: "test" })
+    });
+    const headers = {
+      Authorization: `Bearer ${AUTH_TOKEN}`,
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream"
+    };
+
+    try {
+      // A client that initializes a session, then goes away without DELETE
+      const response = await fetch(idleServer.url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: 1,
+          method: "initialize",
+          params: {
+            protocolVersion: LATEST_PROTOCOL_VERSION,
+            capabilities: {},
+            clientInfo: { name: "test-client", version: "1.0.0" }
+          }
+        })
+      });
+      await response.text();
+      const sessionId = response.headers.get("mcp-session-id")!;
+      expect(idleServer.sessionCount()).toBe(1);
+
+      await new Promise((resolve) => setTimeout(resolve, 300));
+
+      expect(idleServer.sessionCount()).toBe(0);
+      const stale = await fetch(idleServer.url, {
+        method: "POST",
+        headers: { ...headers, "Mcp-Session-Id": sessionId },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" })
+      });
+      expect(stale.status).toBe(404);
+    } finally {
+      await idleServer.close();
+    }
+  });
+});
@@ -0,0 +1,82 @@
+import { getOrderById } from "../../src/tools/getOrderById";
+import { getProductById } from "../../src/tools/getProductById";
+import { ShopifyToolError } from "../../src/utils/errors";
+import { numericId, resolveId, toGid } from "../../src/utils/ids";
+import { runTool, silenceConsoleErrors } from "../mock/runTool";
+import { startMockShopify, type MockShopify } from "../mock/server";
+
+describe("Shopify IDs", () => {
+  let mock: MockShopify;
+
+  beforeEach(async () => {
+    mock = await startMockShopify();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await mock.close();
+  });
+
+  it("converts numeric IDs and GIDs without a lookup", () => {
+    expect(toGid("Order", "9001")).toBe("gid://shopify/Order/9001");
+    expect(toGid("Order", " gid://shopify/Order/9001 ")).toBe(
+      "gid://shopify/Order/9001"
+    );
+    expect(toGid("Product", "classic-tee")).toBeUndefined();
+    expect(numericId("gid://shopify/Customer/501")).toBe("501");
+    expect(numericId("501")).toBe("501");
+  });
+
+  it("rejects a GID of another resource", () => {
+    expect(() => toGid("Product", "gid://shopify/Order/9001")).toThrow(
+      "Expected a Product ID but got a Order ID"
+    );
+  });
+
+  it.each([
+    ["Order", "#1002", "gid://shopify/Order/9002"],
+    ["Customer", "grace@example.com", "gid://shopify/Customer/502"],
+    ["Product", "canvas-tote", "gid://shopify/Product/1002"],
+    ["Product", "TEE-L", "gid://shopify/Product/1001"],
+    ["ProductVariant", "TEE-L", "gid://shopify/ProductVariant/2002"],
+    ["InventoryItem", "TEE-L", "gid://shopify/InventoryItem/3002"],
+    ["Collection", "summer", "gid://shopify/Collection/4001"]
+  ] as const)("resolves %s %s", async (resource, value, expected) => {
+    await expect(resolveId(mock.client(), resource, value)).resolves.toBe(
+      expected
+    );
+  });
+
+  it("reports values that match nothing as not found", async () => {
+    const error = await resolveId(mock.client(), "Product", "no-such-thing").catch(
+      (e: unknown) => e
+    );
+
+    expect(error).toBeInstanceOf(ShopifyToolError);
+    expect((error as ShopifyToolError).category).toBe("not_found");
+    expect((error as ShopifyToolError).message).toBe(
+      'No Product found for "no-such-thing"'
+    );
+  });
+
+  it("does not look up order names without #", async () => {
+    silenceConsoleErrors();
+
+    await expect(
+      runTool(getOrderById, mock.client(), { orderId: "nonsense" })
+    ).rejects.toThrow('No Order found for "nonsense"');
+    expect(mock.requests).toHaveLength(0);
+  });
+
+  it("lets tools take any accepted form", async () => {
+    const byName = await runTool(getOrderById, mock.client(), {
+      orderId: "#1001"
+    });
+    const bySku = await runTool(getProductById, mock.client(), {
+      productId: "BEANIE-1"
+    });
+
+    expect(byName.order.id).toBe("gid://shopify/Order/9001");
+    expect(bySku.product.handle).toBe("winter-beanie");
+  });
+});
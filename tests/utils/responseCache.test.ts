@@ -0,0 +1,265 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { GraphQLClient } from "graphql-request";
+import { createProduct } from "../../src/tools/createProduct";
+import { getOrderById } from "../../src/tools/getOrderById";
+import { getOrders } from "../../src/tools/getOrders";
+import { getProducts } from "../../src/tools/getProducts";
+import { registerTools } from "../../src/tools/registry";
+import { updateOrder } from "../../src/tools/updateOrder";
+import { updateProduct } from "../../src/tools/updateProduct";
+import { configureAuditLog } from "../../src/utils/auditLog";
+import {
+  ResponseCache,
+  collectObjectIds,
+  parseCacheTtlRules,
+  stableStringify
+} from "../../src/utils/responseCache";
+import { createMultiStoreClient } from "../../src/utils/stores";
+import { MOCK_ACCESS_TOKEN, startMockShopify, type MockShopify } from "../mock/server";
+
+describe("response cache", () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = 1_000_000;
+  });
+
+  it("normalizes argument order and undefined values", () => {
+    expect(stableStringify({ b: 1, a: { d: undefined, c: [2, "x"] } })).toBe(
+      '{"a":{"c":[2,"x"]},"b":1}'
+    );
+  });
+
+  it("collects GIDs and their resource types", () => {
+    const { ids, types } = collectObjectIds({
+      id: "gid://shopify/Order/9001",
+      customer: { id: "gid://shopify/Customer/501" },
+      levels: [{ id: "gid://shopify/InventoryLevel/3001-1" }]
+    });
+
+    expect([...ids]).toEqual([
+      "gid://shopify/Order/9001",
+      "gid://shopify/Customer/501",
+      "gid://shopify/InventoryLevel/3001-1"
+    ]);
+    expect([...types]).toEqual(["Order", "Customer", "InventoryLevel"]);
+  });
+
+  it("parses TTL overrides", () => {
+    expect(parseCacheTtlRules(undefined)).toBeUndefined();
+    expect(parseCacheTtlRules("get-locations=3600, get-*=0")).toEqual([
+      { pattern: "get-locations", seconds: 3600 },
+      { pattern: "get-*", seconds: 0 }
+    ]);
+    expect(() => parseCacheTtlRules("get-locations")).toThrow(
+      'Invalid cache TTL "get-locations"'
+    );
+  });
+
+  it("uses the tool's TTL unless a later rule overrides it", () => {
+    const cache = new ResponseCache({
+      ttlRules: [
+        { pattern: "get-*", seconds: 10 },
+        { pattern: "get-locations", seconds: 3600 }
+      ]
+    });
+
+    expect(cache.ttlSeconds({ name: "get-locations", cacheTtlSeconds: 300 })).toBe(3600);
+    expect(cache.ttlSeconds({ name: "get-orders", cacheTtlSeconds: 30 })).toBe(10);
+    expect(cache.ttlSeconds({ name: "list-stores" })).toBe(0);
+    expect(
+      cache.ttlSeconds({ name: "get-anything", mutation: true, cacheTtlSeconds: 60 })
+    ).toBe(0);
+  });
+
+  it("expires entries after their TTL", () => {
+    const cache = new ResponseCache({ now: clock });
+    cache.set("k", "us", "get-test", { ok: true }, 30);
+
+    now += 29_999;
+    expect(cache.get("k")).toEqual({ ok: true });
+    now += 1;
+    expect(cache.get("k")).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it("evicts the least recently used entry past maxEntries", () => {
+    const cache = new ResponseCache({ maxEntries: 2, now: clock });
+    cache.set("a", "us", "get-test", 1, 60);
+    cache.set("b", "us", "get-test", 2, 60);
+    cache.get("a");
+    cache.set("c", "us", "get-test", 3, 60);
+
+    expect(cache.get("a")).toBe(1);
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("c")).toBe(3);
+  });
+
+  it("drops entries of the same store that contain a touched object", () => {
+    const cache = new ResponseCache({ now: clock });
+    const order = { id: "gid://shopify/Order/9001" };
+    cache.set("us-order", "us", "get-order-by-id", { order }, 60);
+    cache.set("us-orders", "us", "get-orders", { orders: [order, { id: "gid://shopify/Order/9002" }] }, 60);
+    cache.set("us-other", "us", "get-order-by-id", { order: { id: "gid://shopify/Order/9003" } }, 60);
+    cache.set("eu-order", "eu", "get-order-by-id", { order }, 60);
+
+    expect(
+      cache.invalidate("us", { name: "update-order" }, { id: "gid://shopify/Order/9001" }, null)
+    ).toBe(2);
+    expect(cache.get("us-other")).toBeDefined();
+    expect(cache.get("eu-order")).toBeDefined();
+  });
+
+  it("drops every entry with objects of the types a tool creates", () => {
+    const cache = new ResponseCache({ now: clock });
+    cache.set("products", "us", "get-products", { products: [{ id: "gid://shopify/Product/1" }] }, 60);
+    cache.set("locations", "us", "get-locations", { locations: [{ id: "gid://shopify/Location/1" }] }, 60);
+
+    cache.invalidate(
+      "us",
+      { name: "create-product", cacheInvalidates: ["Product"] },
+      { title: "New" },
+      { product: { id: "gid://shopify/Product/2" } }
+    );
+
+    expect(cache.get("products")).toBeUndefined();
+    expect(cache.get("locations")).toBeDefined();
+  });
+
+  it("drops every entry of the tools a mutation names", () => {
+    const cache = new ResponseCache({ now: clock });
+    cache.set("tagged", "us", "get-products", { products: [] }, 60);
+    cache.set("sales", "us", "run-shopifyql-query", { rows: [["10"]] }, 60);
+    cache.set("locations", "us", "get-locations", { locations: [] }, 60);
+
+    expect(
+      cache.invalidate(
+        "us",
+        {
+          name: "update-product",
+          cacheInvalidates: ["get-products", "run-shopifyql-query"]
+        },
+        { id: "gid://shopify/Product/1", addTags: ["sale"] },
+        null
+      )
+    ).toBe(2);
+    expect(cache.get("locations")).toBeDefined();
+  });
+
+  describe("over MCP", () => {
+    let mock: MockShopify;
+    let client: Client;
+
+    beforeEach(async () => {
+      configureAuditLog(null);
+      mock = await startMockShopify();
+      const shopifyClient = createMultiStoreClient(
+        {
+          defaultStore: "default",
+          stores: [
+            { name: "default", domain: "mock.myshopify.com", accessToken: MOCK_ACCESS_TOKEN }
+          ]
+        },
+        (store) =>
+          new GraphQLClient(mock.url, {
+            headers: { "X-Shopify-Access-Token": store.accessToken }
+          })
+      );
+      const server = new McpServer({ name: "shopify", version: "test" });
+      registerTools(
+        server,
+        shopifyClient,
+        [
+          getOrders,
+          getOrderById,
+          updateOrder,
+          getProducts,
+          createProduct,
+          updateProduct
+        ],
+        new ResponseCache()
+      );
+
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      client = new Client({ name: "test-client", version: "1.0.0" });
+      await Promise.all([
+        server.connect(serverTransport),
+        client.connect(clientTransport)
+      ]);
+    });
+
+    afterEach(async () => {
+      await client.close();
+      await mock.close();
+    });
+
+    const call = async (name: string, args: Record<string, unknown>) => {
+      const result = await client.callTool({ name, arguments: args });
+      return JSON.parse((result.content as Array<{ text: string }>)[0].text);
+    };
+
+    it("serves repeated calls from the cache", async () => {
+      const first = await call("get-orders", { limit: 2 });
+      const second = await call("get-orders", { limit: 2, store: "default" });
+
+      expect(second).toEqual(first);
+      expect(mock.requests).toHaveLength(1);
+
+      await call("get-orders", { limit: 3 });
+      expect(mock.requests).toHaveLength(2);
+    });
+
+    it("skips the cache when asked to", async () => {
+      await call("get-orders", { limit: 2 });
+      await call("get-orders", { limit: 2, bypassCache: true });
+
+      expect(mock.requests).toHaveLength(2);
+    });
+
+    it("only offers bypassCache on cached read tools", async () => {
+      const { tools } = await client.listTools();
+      const properties = (name: string) =>
+        Object.keys(tools.find((tool) => tool.name === name)!.inputSchema.properties!);
+
+      expect(properties("get-orders")).toContain("bypassCache");
+      expect(properties("update-order")).not.toContain("bypassCache");
+    });
+
+    it("drops cached results containing an order that was updated", async () => {
+      const id = "gid://shopify/Order/9001";
+      await call("get-order-by-id", { orderId: id });
+      await call("get-orders", { limit: 5 });
+      await call("update-order", { id, note: "Leave at the door" });
+      const requestsBefore = mock.requests.length;
+
+      const { order } = await call("get-order-by-id", { orderId: id });
+      await call("get-orders", { limit: 5 });
+
+      expect(order.note).toBe("Leave at the door");
+      expect(mock.requests.length).toBe(requestsBefore + 2);
+    });
+
+    it("drops cached product lists when a product is created", async () => {
+      await call("get-products", { limit: 10 });
+      await call("create-product", { title: "Rain Jacket" });
+
+      const { products } = await call("get-products", { limit: 10 });
+
+      expect(products.map((p: any) => p.title)).toContain("Rain Jacket");
+    });
+
+    it("drops filtered product lists when a product's tags change", async () => {
+      const before = await call("get-products", { tags: ["bestseller"] });
+      await call("update-product", { id: "1002", addTags: ["bestseller"] });
+
+      const after = await call("get-products", { tags: ["bestseller"] });
+
+      expect(before.products).toEqual([]);
+      expect(after.products.map((p: any) => p.title)).toEqual(["Canvas Tote"]);
+    });
+  });
+});
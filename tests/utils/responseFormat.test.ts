@@ -0,0 +1,196 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { GraphQLClient } from "graphql-request";
+import { getOrderById } from "../../src/tools/getOrderById";
+import { getOrders } from "../../src/tools/getOrders";
+import { registerTools } from "../../src/tools/registry";
+import {
+  flattenRecord,
+  selectFields,
+  toCsv,
+  toMarkdownTable
+} from "../../src/utils/responseFormat";
+import { createMultiStoreClient } from "../../src/utils/stores";
+import { MOCK_ACCESS_TOKEN, startMockShopify, type MockShopify } from "../mock/server";
+
+const order = {
+  name: "#1001",
+  totalPrice: { amount: "120.00", currencyCode: "USD" },
+  customer: null,
+  tags: ["vip", "gift"],
+  lineItems: [
+    { title: "Tee", quantity: 2 },
+    { title: "Cap", quantity: 1 }
+  ]
+};
+
+describe("response shaping", () => {
+  it("selects nested fields and fields inside lists", () => {
+    expect(
+      selectFields(order, [
+        "name",
+        "totalPrice.amount",
+        "customer.email",
+        "lineItems.title"
+      ])
+    ).toEqual({
+      name: "#1001",
+      totalPrice: { amount: "120.00" },
+      customer: { email: null },
+      lineItems: { title: ["Tee", "Cap"] }
+    });
+  });
+
+  it("flattens nested objects into dot-path columns", () => {
+    expect(flattenRecord(order)).toEqual({
+      name: "#1001",
+      "totalPrice.amount": "120.00",
+      "totalPrice.currencyCode": "USD",
+      customer: null,
+      tags: ["vip", "gift"],
+      lineItems: order.lineItems
+    });
+  });
+
+  it("renders a Markdown table", () => {
+    expect(
+      toMarkdownTable([
+        { name: "#1001", note: "a | b\nc", tags: ["vip", "gift"] },
+        { name: "#1002", note: null, tags: [] }
+      ])
+    ).toBe(
+      [
+        "| name | note | tags |",
+        "| --- | --- | --- |",
+        "| #1001 | a \\| b c | vip, gift |",
+        "| #1002 |  |  |"
+      ].join("\n")
+    );
+    expect(toMarkdownTable([])).toBe("_No records_");
+  });
+
+  it("renders CSV, quoting cells that need it", () => {
+    expect(
+      toCsv([
+        { name: "#1001", note: 'Say "hi", then leave', totalPrice: { amount: "1.00" } },
+        { name: "#1002", lineItems: [{ title: "Tee" }] }
+      ])
+    ).toBe(
+      [
+        "name,note,totalPrice.amount,lineItems",
+        '#1001,"Say ""hi"", then leave",1.00,',
+        '#1002,,,"[{""title"":""Tee""}]"'
+      ].join("\r\n")
+    );
+  });
+
+  describe("over MCP", () => {
+    let mock: MockShopify;
+    let client: Client;
+
+    beforeEach(async () => {
+      mock = await startMockShopify();
+      const shopifyClient = createMultiStoreClient(
+        {
+          defaultStore: "default",
+          stores: [
+            { name: "default", domain: "mock.myshopify.com", accessToken: MOCK_ACCESS_TOKEN }
+          ]
+        },
+        (store) =>
+          new GraphQLClient(mock.url, {
+            headers: { "X-Shopify-Access-Token": store.accessToken }
+          })
+      );
+      const server = new McpServer({ name: "shopify", version: "test" });
+      registerTools(server, shopifyClient, [getOrders, getOrderById]);
+
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      client = new Client({ name: "test-client", version: "1.0.0" });
+      await Promise.all([
+        server.connect(serverTransport),
+        client.connect(clientTransport)
+      ]);
+    });
+
+    afterEach(async () => {
+      await client.close();
+      await mock.close();
+    });
+
+    const call = async (name: string, args: Record<string, unknown>) => {
+      const result = await client.callTool({ name, arguments: args });
+      return {
+        isError: result.isError,
+        texts: (result.content as Array<{ text: string }>).map((c) => c.text)
+      };
+    };
+
+    it("only offers fields and format on list tools", async () => {
+      const { tools } = await client.listTools();
+      const properties = (name: string) =>
+        Object.keys(tools.find((tool) => tool.name === name)!.inputSchema.properties!);
+
+      expect(properties("get-orders")).toEqual(
+        expect.arrayContaining(["fields", "format", "store"])
+      );
+      expect(properties("get-order-by-id")).not.toContain("fields");
+    });
+
+    it("keeps only the requested fields in JSON", async () => {
+      const { texts } = await call("get-orders", {
+        limit: 2,
+        fields: ["name", "totalPrice.amount"]
+      });
+
+      const result = JSON.parse(texts[0]);
+      expect(result.orders).toEqual([
+        { name: expect.any(String), totalPrice: { amount: expect.any(String) } },
+        { name: expect.any(String), totalPrice: { amount: expect.any(String) } }
+      ]);
+      expect(result.pageInfo).toEqual(
+        expect.objectContaining({ hasNextPage: expect.any(Boolean) })
+      );
+    });
+
+    it("returns CSV followed by the rest of the result", async () => {
+      const { texts } = await call("get-orders", {
+        limit: 2,
+        fields: ["name", "customer.email"],
+        format: "csv"
+      });
+
+      const lines = texts[0].split("\r\n");
+      expect(lines[0]).toBe("name,customer.email");
+      expect(lines).toHaveLength(3);
+      expect(Object.keys(JSON.parse(texts[1]))).toEqual(["pageInfo"]);
+    });
+
+    it("returns a Markdown table", async () => {
+      const { texts } = await call("get-orders", {
+        limit: 1,
+        fields: ["name"],
+        format: "markdown_table"
+      });
+
+      expect(texts[0]).toMatch(/^\| name \|\n\| --- \|\n\| #\d+ \|$/);
+    });
+
+    it("rejects unknown fields", async () => {
+      const { isError, texts } = await call("get-orders", {
+        fields: ["name", "shoeSize"]
+      });
+
+      expect(isError).toBe(true);
+      expect(JSON.parse(texts[0]).error).toEqual(
+        expect.objectContaining({
+          category: "validation",
+          field: ["fields"],
+          message: expect.stringMatching(/^Unknown fields: shoeSize\. Available fields: id, name,/)
+        })
+      );
+    });
+  });
+});
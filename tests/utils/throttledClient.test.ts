@@ -0,0 +1,174 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { gql } from "graphql-request";
+import { ThrottledGraphQLClient } from "../../src/utils/throttledClient";
+import {
+  MOCK_ACCESS_TOKEN,
+  MOCK_THROTTLE_STATUS,
+  startMockShopify,
+  type MockShopify
+} from "../mock/server";
+
+const SHOP_QUERY = gql`
+  query {
+    shop {
+      name
+    }
+  }
+`;
+
+const RENAME_PRODUCT_MUTATION = gql`
+  mutation {
+    productUpdate(
+      product: { id: "gid://shopify/Product/1001", title: "Renamed" }
+    ) {
+      product {
+        title
+      }
+    }
+  }
+`;
+
+const throttledResponse = {
+  body: {
+    errors: [{ message: "Throttled", extensions: { code: "THROTTLED" } }]
+  }
+};
+
+describe("ThrottledGraphQLClient", () => {
+  let mock: MockShopify;
+  let client: ThrottledGraphQLClient;
+
+  beforeEach(async () => {
+    mock = await startMockShopify();
+    client = new ThrottledGraphQLClient(
+      mock.url,
+      { headers: { "X-Shopify-Access-Token": MOCK_ACCESS_TOKEN } },
+      { maxRetries: 2, baseDelayMs: 5, maxDelayMs: 50 }
+    );
+    // Retries are logged as warnings
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await mock.close();
+  });
+
+  it("records the throttle status Shopify reports", async () => {
+    const data = await client.request(SHOP_QUERY);
+
+    expect(data.shop.name).toBe("Mock Outfitters");
+    expect(client.getThrottleStatus()).toMatchObject({
+      maximumAvailable: MOCK_THROTTLE_STATUS.maximumAvailable,
+      restoreRate: MOCK_THROTTLE_STATUS.restoreRate
+    });
+  });
+
+  it("retries THROTTLED errors", async () => {
+    mock.enqueue(throttledResponse);
+
+    const data = await client.request(SHOP_QUERY);
+
+    expect(data.shop.name).toBe("Mock Outfitters");
+    expect(mock.requests).toHaveLength(2);
+  });
+
+  it("retries 429 and 5xx responses", async () => {
+    mock.enqueue(
+      { status: 429, headers: { "Retry-After": "0" }, body: { errors: "Too many requests" } },
+      { status: 502, body: "Bad Gateway" }
+    );
+
+    const data = await client.request(SHOP_QUERY);
+
+    expect(data.shop.name).toBe("Mock Outfitters");
+    expect(mock.requests).toHaveLength(3);
+  });
+
+  it("gives up after maxRetries", async () => {
+    mock.enqueue(throttledResponse, throttledResponse, throttledResponse);
+
+    await expect(client.request(SHOP_QUERY)).rejects.toThrow("Throttled");
+    expect(mock.requests).toHaveLength(3);
+  });
+
+  it("does not retry other GraphQL errors", async () => {
+    await expect(
+      client.request(gql`
+        query {
+          shop {
+            missingField
+          }
+        }
+      `)
+    ).rejects.toThrow(/Cannot query field "missingField"/);
+    expect(mock.requests).toHaveLength(1);
+  });
+
+  it("retries throttled mutations", async () => {
+    mock.enqueue(throttledResponse);
+
+    const data = await client.request(RENAME_PRODUCT_MUTATION);
+
+    expect(data.productUpdate.product.title).toBe("Renamed");
+    expect(mock.requests).toHaveLength(2);
+  });
+
+  it("does not retry mutations after a 5xx response", async () => {
+    mock.enqueue({ status: 502, body: "Bad Gateway" });
+
+    await expect(client.request(RENAME_PRODUCT_MUTATION)).rejects.toThrow();
+    expect(mock.requests).toHaveLength(1);
+  });
+
+  describe("when the connection drops", () => {
+    let server: http.Server;
+    let received: number;
+    let dropClient: ThrottledGraphQLClient;
+
+    beforeEach(async () => {
+      // Reads each request, then closes the socket without a response
+      received = 0;
+      server = http.createServer((req) => {
+        received++;
+        req.resume();
+        req.on("end", () => req.socket.destroy());
+      });
+      await new Promise<void>((resolve) =>
+        server.listen(0, "127.0.0.1", resolve)
+      );
+      const { port } = server.address() as AddressInfo;
+      dropClient = new ThrottledGraphQLClient(
+        `http://127.0.0.1:${port}/graphql`,
+        {},
+        { maxRetries: 2, baseDelayMs: 5, maxDelayMs: 50 }
+      );
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("retries queries", async () => {
+      await expect(dropClient.request(SHOP_QUERY)).rejects.toThrow();
+      expect(received).toBe(3);
+    });
+
+    it("does not retry mutations Shopify may have received", async () => {
+      await expect(
+        dropClient.request(RENAME_PRODUCT_MUTATION)
+      ).rejects.toThrow();
+      expect(received).toBe(1);
+    });
+
+    it("retries mutations when the connection is refused", async () => {
+      await new Promise((resolve) => server.close(resolve));
+
+      await expect(
+        dropClient.request(RENAME_PRODUCT_MUTATION)
+      ).rejects.toThrow(/ECONNREFUSED/);
+      expect(console.warn).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { toolRegistry } from "../../src/tools/registry";
+import {
+  filterTools,
+  globToRegExp,
+  parsePatternList,
+  unmatchedPatterns
+} from "../../src/utils/toolFilter";
+
+const names = (tools: Array<{ name: string }>) => tools.map((t) => t.name);
+
+describe("tool filtering", () => {
+  it("matches globs against whole names", () => {
+    expect(globToRegExp("get-*").test("get-orders")).toBe(true);
+    expect(globToRegExp("get-*").test("forget-orders")).toBe(false);
+    expect(globToRegExp("get-order?").test("get-orders")).toBe(true);
+  });
+
+  it("parses comma separated and repeated flags", () => {
+    expect(parsePatternList(undefined)).toBeUndefined();
+    expect(parsePatternList("get-*, list-stores")).toEqual([
+      "get-*",
+      "list-stores"
+    ]);
+    expect(parsePatternList(["get-*", "update-order,"])).toEqual([
+      "get-*",
+      "update-order"
+    ]);
+  });
+
+  it("drops mutation tools in read-only mode", () => {
+    const tools = names(filterTools(toolRegistry, { readOnly: true }));
+
+    expect(tools).not.toContain("update-order");
+    expect(tools).not.toContain("create-product");
+    expect(tools).toContain("get-orders");
+  });
+
+  it("applies enable then disable patterns", () => {
+    const tools = filterTools(toolRegistry, {
+      enableTools: ["get-order*", "update-order"],
+      disableTools: ["get-order-by-id"]
+    });
+
+    expect(names(tools)).toEqual(["get-orders", "update-order"]);
+  });
+
+  it("reports patterns that match nothing", () => {
+    expect(
+      unmatchedPatterns(toolRegistry, ["get-*", "get-prodcts"])
+    ).toEqual(["get-prodcts"]);
+  });
+});